@@ -0,0 +1,28 @@
+import type { NextRequest } from 'next/server';
+import {
+  DEMO_MODE_ENABLED,
+  createDemoSessionResponse,
+  createSessionResponse,
+  fetchBackend,
+  relayResponse,
+} from '../../../../lib/session';
+import { USE_MOCK_API } from '../../../../lib/config';
+
+export async function POST(request: NextRequest) {
+  if (USE_MOCK_API) {
+    return createDemoSessionResponse();
+  }
+
+  const response = await fetchBackend('/auth/login', { method: 'POST', body: await request.text() });
+
+  // 502 = backend inacessível
+  if (response.status === 502 && DEMO_MODE_ENABLED) {
+    return createDemoSessionResponse();
+  }
+
+  if (!response.ok) {
+    return relayResponse(response);
+  }
+
+  return createSessionResponse(await response.json());
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { clearSessionCookies, fetchBackend, getSessionToken } from '../../../../lib/session';
+
+export async function POST(request: NextRequest) {
+  const token = getSessionToken(request);
+  if (token) {
+    // Falhas no backend não impedem o logout local
+    await fetchBackend('/auth/logout', { method: 'POST', token });
+  }
+
+  return clearSessionCookies(new NextResponse(null, { status: 204 }));
+}
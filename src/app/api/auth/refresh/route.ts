@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  DEMO_MODE_ENABLED,
+  clearSessionCookies,
+  createDemoSessionResponse,
+  createSessionResponse,
+  fetchBackend,
+  getSessionToken,
+  isDemoSession,
+  relayResponse,
+} from '../../../../lib/session';
+
+export async function POST(request: NextRequest) {
+  const token = getSessionToken(request);
+  if (isDemoSession(token)) {
+    // Mesma regra do login: fora do modo demonstração o token demo não vale como sessão
+    if (!DEMO_MODE_ENABLED) {
+      return clearSessionCookies(NextResponse.json({ detail: 'Sessão inválida' }, { status: 401 }));
+    }
+    return createDemoSessionResponse();
+  }
+
+  const response = await fetchBackend('/auth/refresh', { method: 'POST', token });
+
+  // Sessão não renovável: remover o cookie para o middleware voltar a exigir login
+  if (!response.ok) {
+    return clearSessionCookies(await relayResponse(response));
+  }
+
+  return createSessionResponse(await response.json());
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { getSession } from '../../../../lib/session';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(getSession(request));
+}
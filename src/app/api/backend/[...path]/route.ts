@@ -0,0 +1,18 @@
+import type { NextRequest } from 'next/server';
+import { fetchBackend, getSessionToken, relayResponse } from '../../../../lib/session';
+
+// Proxy para o backend: o navegador não tem acesso ao token, então ele é anexado aqui
+async function handler(request: NextRequest, { params }: { params: { path: string[] } }) {
+  const endpoint = `/${params.path.join('/')}${request.nextUrl.search}`;
+  const body = request.method === 'GET' || request.method === 'DELETE' ? undefined : await request.text();
+
+  const response = await fetchBackend(endpoint, {
+    method: request.method,
+    body: body || undefined,
+    token: getSessionToken(request),
+  });
+
+  return relayResponse(response);
+}
+
+export { handler as GET, handler as POST, handler as PUT, handler as PATCH, handler as DELETE };
@@ -0,0 +1,112 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { useRequirePermission } from '../../../../hooks/useAuth';
+import { AuthLoadingScreen } from '@/components/ui/loading';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft } from 'lucide-react';
+import { useAsset, useUpdateAsset } from '../../../../hooks/useAssets';
+import { AssetForm } from '../../../../components/assets/AssetForm';
+import { getErrorMessage } from '../../../../lib/errors';
+import { toAssetUpdate, type AssetCreate } from '../../../../services/adaptedAssetService';
+
+interface AssetEditPageProps {
+  params: {
+    id: string;
+  };
+}
+
+export default function AssetEditPage({ params }: AssetEditPageProps) {
+  const router = useRouter();
+  const { isLoading: authLoading } = useRequirePermission('assets:update');
+  const { data: asset, isLoading, error: loadError } = useAsset(params.id, { enabled: !authLoading });
+  const updateAsset = useUpdateAsset();
+
+  const handleSubmit = async (data: AssetCreate) => {
+    try {
+      await updateAsset.mutateAsync({ id: params.id, data: toAssetUpdate(data) });
+      toast.success('Ativo atualizado com sucesso!');
+      router.push(`/assets/${params.id}`);
+    } catch (error) {
+      console.error('Erro ao atualizar ativo:', error);
+      toast.error(getErrorMessage(error, 'Erro ao atualizar ativo. Tente novamente.'));
+    }
+  };
+
+  if (authLoading || isLoading) {
+    return <AuthLoadingScreen text="Carregando dados do ativo..." />;
+  }
+
+  if (loadError || !asset) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+          <div className="mb-8 flex items-center gap-4">
+            <Link href="/assets">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Voltar
+              </Button>
+            </Link>
+          </div>
+
+          <Card>
+            <CardContent className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                {loadError ? 'Erro ao carregar dados do ativo' : 'Ativo não encontrado'}
+              </h3>
+              <p className="text-gray-500">
+                Verifique se o ID do ativo está correto ou tente novamente.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <div className="flex items-center space-x-4 mb-4">
+            <Link href={`/assets/${params.id}`}>
+              <Button variant="outline" size="sm" className="flex items-center space-x-2">
+                <ArrowLeft className="w-4 h-4" />
+                <span>Voltar</span>
+              </Button>
+            </Link>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">
+            Editar Ativo
+          </h1>
+          <p className="text-gray-600 mt-2">
+            {asset.symbol} - {asset.name}
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Cadastro do Ativo</CardTitle>
+            <CardDescription>
+              Os campos adicionais dependem do tipo do ativo.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AssetForm
+              key={asset.id}
+              asset={asset}
+              isSubmitting={updateAsset.isPending}
+              submitLabel="Salvar Alterações"
+              onSubmit={handleSubmit}
+              onCancel={() => router.push(`/assets/${params.id}`)}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
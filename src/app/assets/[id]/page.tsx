@@ -1,6 +1,5 @@
 'use client';
 
-import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useRequireAuth } from '../../../hooks/useAuth';
@@ -12,53 +11,47 @@ import {
   Building2,
   Globe,
   BarChart3,
+  Edit,
+  FileText,
   Trash2,
   TrendingUp
 } from 'lucide-react';
-import { adaptedAssetService } from '../../../services/adaptedAssetService';
+import { useAsset, useDeleteAsset } from '../../../hooks/useAssets';
 import type { Asset } from '../../../types/investment';
+import { Can } from '../../../components/Can';
+import { AssetPriceHistory } from '../../../components/assets/AssetPriceHistory';
+import {
+  assetTypeFields,
+  assetTypeLabels,
+  fixedIncomeIndexerLabels,
+  fixedIncomeLiquidityLabels,
+  type AssetDetailField,
+} from '../../../schemas/investment';
+import { describeFixedIncomeRate } from '../../../lib/portfolio/fixedIncome';
 
 export default function AssetDetailsPage() {
   const params = useParams();
   const router = useRouter();
   const { user, isLoading: authLoading } = useRequireAuth();
-  const [asset, setAsset] = useState<Asset | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
   const assetId = params.id as string;
+  const assetQuery = useAsset(assetId, { enabled: !authLoading && !!user && !!assetId });
+  const deleteAsset = useDeleteAsset();
 
-  useEffect(() => {
-    if (!authLoading && user && assetId) {
-      loadAssetDetails();
-    }
-  }, [authLoading, user, assetId]);
-
-  const loadAssetDetails = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      const assetData = await adaptedAssetService.getAssetById(parseInt(assetId));
-      if (assetData) {
-        setAsset(assetData);
-      } else {
-        setError('Asset não encontrado');
-      }
-    } catch (err) {
-      console.error('Erro ao carregar detalhes do asset:', err);
-      setError('Erro ao carregar detalhes do asset');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const asset: Asset | null = assetQuery.data ?? null;
+  const loading = assetQuery.isPending;
+  let error: string | null = null;
+  if (assetQuery.error) {
+    error = 'Erro ao carregar detalhes do asset';
+  } else if (assetQuery.isSuccess && !assetQuery.data) {
+    error = 'Asset não encontrado';
+  }
 
   const handleDelete = async () => {
     if (!asset) return;
     
     if (confirm(`Tem certeza que deseja excluir o asset ${asset.symbol}?`)) {
       try {
-        await adaptedAssetService.deleteAsset(parseInt(asset.id));
+        await deleteAsset.mutateAsync(asset.id);
         router.push('/assets');
       } catch (err) {
         console.error('Erro ao excluir asset:', err);
@@ -67,6 +60,24 @@ export default function AssetDetailsPage() {
     }
   };
 
+  // Dados específicos do tipo (CNPJ de fundos, ISIN, emissor, remuneração e prazos de renda fixa)
+  const formatDate = (date?: Date) => date?.toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+  const detailLabels: Record<AssetDetailField, [string, string | undefined]> = {
+    isin: ['ISIN', asset?.isin],
+    cnpj: ['CNPJ', asset?.cnpj],
+    manager: ['Gestor', asset?.manager],
+    benchmark: ['Benchmark', asset?.benchmark],
+    issuer: ['Emissor', asset?.issuer],
+    indexer: ['Indexador', asset?.indexer && fixedIncomeIndexerLabels[asset.indexer]],
+    rate: ['Remuneração', asset ? describeFixedIncomeRate(asset) : undefined],
+    issueDate: ['Emissão', formatDate(asset?.issueDate)],
+    maturityDate: ['Vencimento', formatDate(asset?.maturityDate)],
+    liquidity: ['Liquidez', asset?.liquidity && fixedIncomeLiquidityLabels[asset.liquidity]],
+  };
+  const details = asset
+    ? assetTypeFields[asset.type].map(field => ({ label: detailLabels[field][0], value: detailLabels[field][1] }))
+    : [];
+
   if (authLoading) {
     return <AuthLoadingScreen />;
   }
@@ -117,15 +128,25 @@ export default function AssetDetailsPage() {
                 <h1 className="text-3xl font-bold text-gray-900">{asset.symbol}</h1>
               </div>
             </div>            <div className="flex items-center space-x-2">
-              <Button 
-                variant="outline" 
-                size="sm" 
-                onClick={handleDelete}
-                className="text-red-600 hover:text-red-700 hover:bg-red-50"
-              >
-                <Trash2 className="w-4 h-4 mr-2" />
-                Excluir
-              </Button>
+              <Can permission="assets:update">
+                <Link href={`/assets/${asset.id}/edit`}>
+                  <Button variant="outline" size="sm">
+                    <Edit className="w-4 h-4 mr-2" />
+                    Editar
+                  </Button>
+                </Link>
+              </Can>
+              <Can permission="assets:delete">
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={handleDelete}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Excluir
+                </Button>
+              </Can>
             </div>
           </div>
           
@@ -164,9 +185,43 @@ export default function AssetDetailsPage() {
                     <label className="text-sm font-medium text-gray-500">Moeda</label>
                     <p>{asset.currency}</p>
                   </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">Tipo</label>
+                    <p>{assetTypeLabels[asset.type] ?? asset.type}</p>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">Setor</label>
+                    <p>{asset.sector || '-'}</p>
+                  </div>
                 </div>
+                {asset.description && (
+                  <p className="text-sm text-gray-600">{asset.description}</p>
+                )}
               </CardContent>
             </Card>
+
+            {details.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <FileText className="w-5 h-5 mr-2" />
+                    {assetTypeLabels[asset.type]}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 gap-4">
+                    {details.map(({ label, value }) => (
+                      <div key={label}>
+                        <label className="text-sm font-medium text-gray-500">{label}</label>
+                        <p>{value || 'Não informado'}</p>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <AssetPriceHistory asset={asset} />
           </div>
 
           {/* Sidebar */}
@@ -176,12 +231,14 @@ export default function AssetDetailsPage() {
                 <CardTitle>Ações Rápidas</CardTitle>
               </CardHeader>
               <CardContent className="space-y-3">
-                <Link href="/assets/allocations/new" className="block">
-                  <Button className="w-full">
-                    <TrendingUp className="w-4 h-4 mr-2" />
-                    Fazer Investimento
-                  </Button>
-                </Link>
+                <Can permission="allocations:create">
+                  <Link href="/assets/allocations/new" className="block">
+                    <Button className="w-full">
+                      <TrendingUp className="w-4 h-4 mr-2" />
+                      Fazer Investimento
+                    </Button>
+                  </Link>
+                </Can>
                 <Link href={`/movements?asset=${asset.symbol}`} className="block">
                   <Button variant="outline" className="w-full">
                     <BarChart3 className="w-4 h-4 mr-2" />
@@ -1,9 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { useRequireAuth } from '../../../../hooks/useAuth';
+import { useRequirePermission } from '../../../../hooks/useAuth';
 import { AuthLoadingScreen } from '@/components/ui/loading';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -21,23 +21,32 @@ import {
   DollarSign, 
   User,
   TrendingUp,
-  AlertCircle
+  AlertCircle,
+  ShieldAlert
 } from 'lucide-react';
-import { adaptedAllocationService } from '../../../../services/adaptedAllocationService';
-import { clientService } from '../../../../services/adaptedClientService';
-import { assetService } from '../../../../services/adaptedAssetService';
-import type { Client } from '../../../../types/client';
-import type { Asset } from '../../../../types/investment';
+import { useCreateAllocation } from '../../../../hooks/useAllocations';
+import { useClients, useSuitabilityAssessments } from '../../../../hooks/useClients';
+import { useAssets } from '../../../../hooks/useAssets';
+import { getErrorMessage } from '../../../../lib/errors';
+import {
+  MIN_OVERRIDE_REASON_LENGTH,
+  assetRiskClassLabels,
+  assetRiskClasses,
+  checkSuitability,
+  getSuitabilityStatus,
+} from '../../../../lib/suitability';
 import type { AllocationCreate } from '../../../../types/allocation';
 
 export default function NewAllocationPage() {
   const router = useRouter();
-  const { isLoading: authLoading } = useRequireAuth();
+  const { user, isLoading: authLoading } = useRequirePermission('allocations:create');
   
-  const [clients, setClients] = useState<Client[]>([]);
-  const [assets, setAssets] = useState<Asset[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { data: clientsData, isLoading: isLoadingClients } = useClients({}, { enabled: !authLoading });
+  const { data: assets = [], isLoading: isLoadingAssets } = useAssets({ enabled: !authLoading });
+  const createAllocation = useCreateAllocation();
+  const clients = clientsData?.items ?? [];
+  const isLoading = isLoadingClients || isLoadingAssets;
+  const isSubmitting = createAllocation.isPending;
   const [formData, setFormData] = useState({
     clientId: '',
     assetId: '',
@@ -46,28 +55,11 @@ export default function NewAllocationPage() {
     buyDate: new Date().toISOString().split('T')[0], // Today's date
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
-
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        setIsLoading(true);
-        const [clientsData, assetsData] = await Promise.all([
-          clientService.getClients(),
-          assetService.getAssets()
-        ]);
-        setClients(clientsData.items);
-        setAssets(assetsData);
-      } catch (error) {
-        console.error('Erro ao carregar dados:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    if (!authLoading) {
-      loadData();
-    }
-  }, [authLoading]);
+  // Ciência do desenquadramento; volta a ser exigida ao trocar cliente ou ativo
+  const [override, setOverride] = useState({ acknowledged: false, reason: '' });
+  const { data: assessments, isLoading: isLoadingSuitability } = useSuitabilityAssessments(formData.clientId, {
+    enabled: !authLoading && !!formData.clientId,
+  });
 
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
@@ -97,6 +89,15 @@ export default function NewAllocationPage() {
       newErrors.buyDate = 'Data não pode ser no futuro';
     }
 
+    if (suitability && suitability.fit !== 'suitable') {
+      if (!override.acknowledged) {
+        newErrors.suitability = 'Confirme a ciência do desenquadramento';
+      }
+      if (suitability.fit === 'blocked' && override.reason.trim().length < MIN_OVERRIDE_REASON_LENGTH) {
+        newErrors.overrideReason = `Justifique com pelo menos ${MIN_OVERRIDE_REASON_LENGTH} caracteres`;
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -108,8 +109,6 @@ export default function NewAllocationPage() {
       return;
     }
 
-    setIsSubmitting(true);
-
     try {
       const allocationData: AllocationCreate = {
         client_id: parseInt(formData.clientId),
@@ -117,17 +116,24 @@ export default function NewAllocationPage() {
         quantity: parseFloat(formData.quantity),
         buy_price: parseFloat(formData.buyPrice),
         buy_date: formData.buyDate,
+        suitability_override: suitability && suitability.fit !== 'suitable' ? {
+          fit: suitability.fit,
+          profile: suitability.profile,
+          risk_class: suitability.riskClass,
+          reason: override.reason.trim(),
+          acknowledged_by: user?.email ?? '',
+          acknowledged_at: new Date().toISOString(),
+        } : undefined,
       };
 
-      await adaptedAllocationService.createAllocation(allocationData);
+      // Invalida listas de alocações e a carteira do cliente
+      await createAllocation.mutateAsync(allocationData);
 
       // Redirect to allocations page with success message
       router.push('/assets/allocations?success=allocation-created');
     } catch (error) {
       console.error('Erro ao criar alocação:', error);
-      setErrors({ submit: 'Erro ao criar alocação. Tente novamente.' });
-    } finally {
-      setIsSubmitting(false);
+      setErrors({ submit: getErrorMessage(error, 'Erro ao criar alocação. Tente novamente.') });
     }
   };
 
@@ -149,10 +155,14 @@ export default function NewAllocationPage() {
 
   const selectedClient = clients.find(c => c.id === formData.clientId);
   const selectedAsset = assets.find(a => a.id === formData.assetId);
+  const suitability = selectedClient && selectedAsset && !isLoadingSuitability
+    ? checkSuitability(getSuitabilityStatus(assessments ?? []), selectedAsset.type)
+    : null;
 
   // Function to handle asset selection and auto-fill price
   const handleAssetSelection = (assetId: string) => {
     setFormData(prev => ({ ...prev, assetId }));
+    setOverride({ acknowledged: false, reason: '' });
     
     // Find selected asset and auto-fill current price if available
     const asset = assets.find(a => a.id === assetId);
@@ -206,7 +216,10 @@ export default function NewAllocationPage() {
                   <Label htmlFor="clientId">Cliente</Label>
                   <Select 
                     value={formData.clientId} 
-                    onValueChange={(value) => setFormData(prev => ({ ...prev, clientId: value }))}
+                    onValueChange={(value) => {
+                      setFormData(prev => ({ ...prev, clientId: value }));
+                      setOverride({ acknowledged: false, reason: '' });
+                    }}
                   >
                     <SelectTrigger>
                       <SelectValue placeholder="Selecione um cliente" />
@@ -263,7 +276,7 @@ export default function NewAllocationPage() {
                       <div>
                         <span className="font-medium text-blue-800">Ativo:</span>
                         <p className="text-blue-700">{selectedAsset.symbol} - {selectedAsset.name}</p>
-                        <p className="text-blue-600">Tipo: {selectedAsset.type}</p>
+                        <p className="text-blue-600">Tipo: {selectedAsset.type} · {assetRiskClassLabels[assetRiskClasses[selectedAsset.type]]}</p>
                         {selectedAsset.currentPrice && (
                           <p className="text-blue-600">Preço atual: {formatCurrency(selectedAsset.currentPrice.toString())}</p>
                         )}
@@ -272,6 +285,51 @@ export default function NewAllocationPage() {
                   </div>
                 </div>
               )}
+
+              {/* Suitability: ativo acima do perfil exige ciência; bloqueios, também justificativa */}
+              {suitability && suitability.fit !== 'suitable' && (
+                <div className={`mt-4 p-4 rounded-lg space-y-3 ${suitability.fit === 'blocked' ? 'bg-red-50' : 'bg-yellow-50'}`}>
+                  <div className="flex items-start space-x-2">
+                    <ShieldAlert className={`w-5 h-5 ${suitability.fit === 'blocked' ? 'text-red-600' : 'text-yellow-600'}`} />
+                    <div className="text-sm">
+                      <p className={`font-medium ${suitability.fit === 'blocked' ? 'text-red-900' : 'text-yellow-900'}`}>
+                        {suitability.fit === 'blocked' ? 'Alocação fora do perfil' : 'Atenção ao perfil do cliente'}
+                      </p>
+                      <p className="text-gray-700">{suitability.reason}</p>
+                      {selectedClient && (
+                        <Link href={`/clients/${selectedClient.id}/suitability`} className="text-blue-600 hover:underline">
+                          Abrir questionário de suitability
+                        </Link>
+                      )}
+                    </div>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={override.acknowledged}
+                      onChange={(e) => setOverride(prev => ({ ...prev, acknowledged: e.target.checked }))}
+                    />
+                    Cliente ciente de que o ativo não é adequado ao seu perfil
+                  </label>
+                  {errors.suitability && (
+                    <p className="text-sm text-red-600">{errors.suitability}</p>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="overrideReason">
+                      Justificativa{suitability.fit === 'blocked' ? '' : ' (opcional)'}
+                    </Label>
+                    <Input
+                      id="overrideReason"
+                      value={override.reason}
+                      onChange={(e) => setOverride(prev => ({ ...prev, reason: e.target.value }))}
+                      placeholder="Ex: solicitação expressa do cliente por escrito"
+                    />
+                    {errors.overrideReason && (
+                      <p className="text-sm text-red-600">{errors.overrideReason}</p>
+                    )}
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
 
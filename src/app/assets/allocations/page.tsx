@@ -1,9 +1,10 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useMemo, useState } from 'react';
 import Link from 'next/link';
 import { useRequireAuth } from '../../../hooks/useAuth';
 import { AuthLoadingScreen } from '@/components/ui/loading';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -26,48 +27,51 @@ import {
   Table,
   FileText
 } from 'lucide-react';
-import { adaptedAllocationService } from '../../../services/adaptedAllocationService';
-import { clientService } from '../../../services/adaptedClientService';
+import { useAllocations, useAllocationSummary } from '../../../hooks/useAllocations';
+import { useClients } from '../../../hooks/useClients';
+import { useAssets, useMarketIndexes } from '../../../hooks/useAssets';
+import { toIndexSeries } from '../../../services/marketIndexService';
+import { isFixedIncomeAsset, valueFixedIncomeLot, type FixedIncomeAsset, type FixedIncomeValuation } from '../../../lib/portfolio/fixedIncome';
 import { exportAllocationsData } from '../../../utils/exportUtils';
-import type { AllocationWithDetails, AllocationSummary } from '../../../types/allocation';
-import type { Client } from '../../../types/client';
+import { Can } from '../../../components/Can';
 
-export default function AllocationsPage() {
+interface AllocationsPageProps {
+  searchParams: {
+    client_id?: string;
+    search?: string;
+  };
+}
+
+export default function AllocationsPage({ searchParams }: AllocationsPageProps) {
   const { isLoading: authLoading } = useRequireAuth();
-  const [allocations, setAllocations] = useState<AllocationWithDetails[]>([]);
-  const [clients, setClients] = useState<Client[]>([]);
-  const [summary, setSummary] = useState<AllocationSummary | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedClientId, setSelectedClientId] = useState<string>('all');
+  const [searchTerm, setSearchTerm] = useState(searchParams.search ?? '');
+  const [selectedClientId, setSelectedClientId] = useState<string>(searchParams.client_id ?? 'all');
 
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        setIsLoading(true);
-        
-        const filters = selectedClientId && selectedClientId !== 'all' ? { client_id: parseInt(selectedClientId) } : {};
-        
-        const [allocationsData, clientsData, summaryData] = await Promise.all([
-          adaptedAllocationService.getAllocations(filters),
-          clientService.getClients(),
-          adaptedAllocationService.getAllocationSummary()
-        ]);
-        
-        setAllocations(allocationsData);
-        setClients(clientsData.items);
-        setSummary(summaryData);
-      } catch (error) {
-        console.error('Erro ao carregar alocações:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const filters = selectedClientId && selectedClientId !== 'all' ? { client_id: parseInt(selectedClientId) } : {};
+  const { data: allocations = [], isLoading } = useAllocations(filters, { enabled: !authLoading });
+  const { data: clientsData } = useClients({}, { enabled: !authLoading });
+  const { data: summary } = useAllocationSummary({ enabled: !authLoading });
+  const clients = clientsData?.items ?? [];
+  const { data: assets = [] } = useAssets({ enabled: !authLoading });
+  const { data: indexes } = useMarketIndexes();
 
-    if (!authLoading) {
-      loadData();
-    }
-  }, [authLoading, selectedClientId]);
+  // Renda fixa: valor de cada aplicação marcado na curva até hoje. A marcação acumula dia a dia,
+  // então só é refeita quando mudam as alocações, os ativos ou os índices, não a cada render
+  const fixedIncomeValuations = useMemo(() => {
+    const valuations = new Map<number, FixedIncomeValuation>();
+    if (!indexes) return valuations;
+
+    const series = toIndexSeries(indexes);
+    const fixedIncomeAssets = new Map<number, FixedIncomeAsset>();
+    assets.forEach(asset => {
+      if (isFixedIncomeAsset(asset)) fixedIncomeAssets.set(Number(asset.id), asset);
+    });
+    allocations.forEach(allocation => {
+      const asset = fixedIncomeAssets.get(allocation.asset_id);
+      if (asset) valuations.set(allocation.id, valueFixedIncomeLot(asset, allocation, series));
+    });
+    return valuations;
+  }, [allocations, assets, indexes]);
 
   const formatCurrency = (value: number): string => {
     return new Intl.NumberFormat('pt-BR', {
@@ -76,6 +80,9 @@ export default function AllocationsPage() {
     }).format(value);
   };
 
+  const formatPercentage = (value: number): string =>
+    `${value >= 0 ? '+' : ''}${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}%`;
+
   const filteredAllocations = allocations.filter(allocation =>
     allocation.client_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     allocation.asset_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -86,18 +93,18 @@ export default function AllocationsPage() {
     setSelectedClientId(clientId);
   };
 
-  const handleExportExcel = () => {
+  const handleExportExcel = async () => {
     try {
-      exportAllocationsData(filteredAllocations, 'excel');
+      await exportAllocationsData(filteredAllocations, 'excel');
     } catch (error) {
       console.error('Erro ao exportar Excel:', error);
       alert('Erro ao exportar dados para Excel. Tente novamente.');
     }
   };
 
-  const handleExportCSV = () => {
+  const handleExportCSV = async () => {
     try {
-      exportAllocationsData(filteredAllocations, 'csv');
+      await exportAllocationsData(filteredAllocations, 'csv');
     } catch (error) {
       console.error('Erro ao exportar CSV:', error);
       alert('Erro ao exportar dados para CSV. Tente novamente.');
@@ -122,12 +129,14 @@ export default function AllocationsPage() {
             <div className="flex-1">
               <div className="flex justify-between items-center">
                 <h1 className="text-3xl font-bold text-gray-900">Alocações de Ativos</h1>
-                <Link href="/assets/allocations/new">
-                  <Button>
-                    <Plus className="w-4 h-4 mr-2" />
-                    Nova Alocação
-                  </Button>
-                </Link>
+                <Can permission="allocations:create">
+                  <Link href="/assets/allocations/new">
+                    <Button>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Nova Alocação
+                    </Button>
+                  </Link>
+                </Can>
               </div>
               <p className="mt-2 text-gray-600">
                 Gerencie as alocações de ativos por cliente
@@ -279,63 +288,96 @@ export default function AllocationsPage() {
                 <p className="mt-1 text-sm text-gray-500">
                   {searchTerm || (selectedClientId && selectedClientId !== 'all') ? 'Tente ajustar seus filtros.' : 'Comece criando uma nova alocação.'}
                 </p>
-                <div className="mt-6">
-                  <Link href="/assets/allocations/new">
-                    <Button>
-                      <Plus className="w-4 h-4 mr-2" />
-                      Nova Alocação
-                    </Button>
-                  </Link>
-                </div>
+                <Can permission="allocations:create">
+                  <div className="mt-6">
+                    <Link href="/assets/allocations/new">
+                      <Button>
+                        <Plus className="w-4 h-4 mr-2" />
+                        Nova Alocação
+                      </Button>
+                    </Link>
+                  </div>
+                </Can>
               </div>
             ) : (
               <div className="space-y-4">
-                {filteredAllocations.map((allocation) => (
-                  <div key={allocation.id} className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition-colors">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-4 flex-1">
-                        <div className="flex-shrink-0">
-                          <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
-                            <TrendingUp className="w-5 h-5 text-blue-600" />
-                          </div>
-                        </div>
-                        <div className="flex-1">
-                          <div className="flex items-center space-x-2 mb-1">
-                            <h4 className="text-lg font-medium text-gray-900">
-                              {allocation.asset_ticker}
-                            </h4>
-                            <span className="text-sm text-gray-500">
-                              {allocation.asset_name}
-                            </span>
-                          </div>
-                          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm text-gray-600">
-                            <div>
-                              <span className="font-medium">Cliente:</span> {allocation.client_name}
+                {filteredAllocations.map((allocation) => {
+                  const curve = fixedIncomeValuations.get(allocation.id);
+                  return (
+                    <div key={allocation.id} className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition-colors">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-4 flex-1">
+                          <div className="flex-shrink-0">
+                            <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+                              <TrendingUp className="w-5 h-5 text-blue-600" />
                             </div>
-                            <div>
-                              <span className="font-medium">Quantidade:</span> {allocation.quantity.toLocaleString('pt-BR')}
-                            </div>
-                            <div>
-                              <span className="font-medium">Preço de Compra:</span> {formatCurrency(allocation.buy_price)}
+                          </div>
+                          <div className="flex-1">
+                            <div className="flex items-center space-x-2 mb-1">
+                              <h4 className="text-lg font-medium text-gray-900">
+                                {allocation.asset_ticker}
+                              </h4>
+                              <span className="text-sm text-gray-500">
+                                {allocation.asset_name}
+                              </span>
+                              {allocation.suitability_override && (
+                                <Badge
+                                  variant="outline"
+                                  className="border-yellow-300 text-yellow-800"
+                                  title={allocation.suitability_override.reason || undefined}
+                                >
+                                  Fora do perfil
+                                </Badge>
+                              )}
                             </div>
-                            <div>
-                              <span className="font-medium">Data:</span> {new Date(allocation.buy_date).toLocaleDateString('pt-BR')}
+                            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm text-gray-600">
+                              <div>
+                                <span className="font-medium">Cliente:</span> {allocation.client_name}
+                              </div>
+                              <div>
+                                <span className="font-medium">Quantidade:</span> {allocation.quantity.toLocaleString('pt-BR')}
+                              </div>
+                              <div>
+                                <span className="font-medium">Preço de Compra:</span> {formatCurrency(allocation.buy_price)}
+                              </div>
+                              <div>
+                                <span className="font-medium">Data:</span> {new Date(allocation.buy_date).toLocaleDateString('pt-BR')}
+                              </div>
                             </div>
+                            {curve && (
+                              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm text-gray-600 mt-2">
+                                <div>
+                                  <span className="font-medium">Valor na Curva:</span> {formatCurrency(curve.grossValue)}
+                                </div>
+                                <div>
+                                  <span className="font-medium">Rentab. Bruta:</span> {formatPercentage(curve.grossYieldPercentage)}
+                                </div>
+                                <div>
+                                  <span className="font-medium">IR ({curve.incomeTaxRate.toLocaleString('pt-BR')}%):</span> {formatCurrency(curve.incomeTax)}
+                                </div>
+                                <div>
+                                  <span className="font-medium">Líquido:</span> {formatCurrency(curve.netValue)} ({formatPercentage(curve.netYieldPercentage)})
+                                </div>
+                              </div>
+                            )}
                           </div>
                         </div>
-                      </div>
-                      
-                      <div className="text-right">
-                        <div className="text-lg font-bold text-green-600">
-                          {formatCurrency(allocation.total_invested)}
-                        </div>
-                        <div className="text-xs text-gray-500">
-                          Total Investido
+                        
+                        <div className="text-right">
+                          <div className="text-lg font-bold text-green-600">
+                            {formatCurrency(allocation.total_invested)}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            Total Investido
+                          </div>
+                          {curve?.matured && (
+                            <div className="text-xs text-amber-600">Vencido</div>
+                          )}
                         </div>
                       </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </div>
@@ -0,0 +1,358 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { useRequirePermission } from '../../../hooks/useAuth';
+import { AuthLoadingScreen } from '@/components/ui/loading';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, CalendarClock, Plus, Trash2 } from 'lucide-react';
+import { useAssets } from '../../../hooks/useAssets';
+import {
+  useCorporateActions,
+  useCreateCorporateAction,
+  useDeleteCorporateAction,
+} from '../../../hooks/useCorporateActions';
+import { CorporateActionHolders } from '../../../components/assets/CorporateActionHolders';
+import { FeatureUnavailableNotice } from '../../../components/FeatureUnavailableNotice';
+import { useFeatureSupported } from '../../../hooks/useBackendFeatures';
+import { corporateActionSchema } from '../../../schemas/investment';
+import { corporateActionTypeLabels, describeCorporateAction } from '../../../lib/portfolio/corporateActions';
+import { getErrorMessage } from '../../../lib/errors';
+import { parseAmount } from '../../../utils/importUtils';
+import type { CorporateActionType } from '../../../types/allocation';
+
+// Significado da proporção em cada tipo de evento
+const ratioLabels: Partial<Record<CorporateActionType, string>> = {
+  split: 'Ações novas para cada ação',
+  reverse_split: 'Ações grupadas em uma',
+  bonus: 'Bonificação (%)',
+};
+
+const emptyForm = () => ({
+  assetId: '',
+  type: 'dividend' as CorporateActionType,
+  exDate: new Date().toISOString().slice(0, 10),
+  ratio: '',
+  assignedCost: '',
+  amountPerShare: '',
+  paymentDate: '',
+  note: '',
+});
+
+const optionalAmount = (value: string) => (value.trim() ? parseAmount(value) : undefined);
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+/**
+ * Desdobramentos, grupamentos, bonificações e proventos por ativo. O evento ajusta as posições
+ * de quem tinha o ativo na véspera da data ex; proventos são lançados na conta dos clientes.
+ */
+export default function CorporateActionsPage() {
+  const { isLoading: authLoading } = useRequirePermission('assets:update');
+  const { data: assets = [], isLoading: isLoadingAssets } = useAssets({ enabled: !authLoading });
+  const { data: actions = [], isLoading: isLoadingActions } = useCorporateActions({}, { enabled: !authLoading });
+  const createAction = useCreateCorporateAction();
+  const isSupported = useFeatureSupported('corporateActions');
+  const deleteAction = useDeleteCorporateAction();
+  const [formData, setFormData] = useState(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [selectedId, setSelectedId] = useState<number>();
+
+  // Renda fixa não tem eventos societários
+  const eligibleAssets = assets.filter(asset => asset.type !== 'fixed_income' && asset.type !== 'bonds');
+  const assetsById = new Map(assets.map(asset => [Number(asset.id), asset]));
+  const selectedAction = actions.find(action => action.id === selectedId);
+  const isCash = formData.type === 'dividend' || formData.type === 'jcp';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ratio = ratioLabels[formData.type] ? optionalAmount(formData.ratio) : undefined;
+    const parsed = corporateActionSchema.safeParse({
+      asset_id: formData.assetId ? Number(formData.assetId) : undefined,
+      type: formData.type,
+      ex_date: formData.exDate,
+      ratio: formData.type === 'bonus' && ratio !== undefined ? ratio / 100 : ratio,
+      assigned_cost: formData.type === 'bonus' ? optionalAmount(formData.assignedCost) : undefined,
+      amount_per_share: isCash ? optionalAmount(formData.amountPerShare) : undefined,
+      payment_date: isCash && formData.paymentDate ? formData.paymentDate : undefined,
+      note: formData.note.trim() || undefined,
+    });
+    if (!parsed.success) {
+      setErrors(Object.fromEntries(parsed.error.issues.map(issue => [issue.path.join('.'), issue.message])));
+      return;
+    }
+
+    setErrors({});
+    try {
+      const action = await createAction.mutateAsync(parsed.data);
+      toast.success(`${corporateActionTypeLabels[action.type]} registrado`);
+      setFormData(emptyForm());
+      setSelectedId(action.id);
+    } catch (error) {
+      console.error('Erro ao registrar evento:', error);
+      toast.error(getErrorMessage(error, 'Erro ao registrar evento. Tente novamente.'));
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Excluir o evento? As posições voltam a ser calculadas sem ele; proventos já lançados não são estornados.')) {
+      return;
+    }
+    try {
+      await deleteAction.mutateAsync(id);
+      if (selectedId === id) setSelectedId(undefined);
+      toast.success('Evento excluído');
+    } catch (error) {
+      console.error('Erro ao excluir evento:', error);
+      toast.error(getErrorMessage(error, 'Erro ao excluir evento. Tente novamente.'));
+    }
+  };
+
+  const fieldError = (field: string) =>
+    errors[field] && <p className="text-sm text-red-600">{errors[field]}</p>;
+
+  if (authLoading || isLoadingAssets || isLoadingActions) {
+    return <AuthLoadingScreen text="Carregando eventos..." />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-6xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <div className="flex items-center space-x-4 mb-4">
+            <Link href="/assets">
+              <Button variant="outline" size="sm" className="flex items-center space-x-2">
+                <ArrowLeft className="w-4 h-4" />
+                <span>Voltar</span>
+              </Button>
+            </Link>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">
+            Eventos Societários
+          </h1>
+          <p className="text-gray-600 mt-2">
+            Ajustam quantidade e preço médio de quem tinha o ativo na véspera da data ex e geram os proventos dos clientes
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          {isSupported ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Plus className="w-5 h-5 mr-2" />
+                  Novo Evento
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label>Ativo *</Label>
+                      <Select
+                        value={formData.assetId}
+                        onValueChange={(value) => setFormData(prev => ({ ...prev, assetId: value }))}
+                      >
+                        <SelectTrigger className={errors.asset_id ? 'border-red-500' : ''}>
+                          <SelectValue placeholder="Selecione o ativo" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {eligibleAssets.map(asset => (
+                            <SelectItem key={asset.id} value={asset.id}>
+                              {asset.symbol} - {asset.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {fieldError('asset_id')}
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Tipo *</Label>
+                      <Select
+                        value={formData.type}
+                        onValueChange={(value) => setFormData(prev => ({ ...prev, type: value as CorporateActionType }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(corporateActionTypeLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="exDate">Data ex *</Label>
+                      <Input
+                        id="exDate"
+                        type="date"
+                        value={formData.exDate}
+                        onChange={(e) => setFormData(prev => ({ ...prev, exDate: e.target.value }))}
+                        className={errors.ex_date ? 'border-red-500' : ''}
+                      />
+                      {fieldError('ex_date')}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {ratioLabels[formData.type] && (
+                      <div className="space-y-2">
+                        <Label htmlFor="ratio">{ratioLabels[formData.type]} *</Label>
+                        <Input
+                          id="ratio"
+                          inputMode="decimal"
+                          value={formData.ratio}
+                          onChange={(e) => setFormData(prev => ({ ...prev, ratio: e.target.value }))}
+                          placeholder={formData.type === 'bonus' ? '10' : '2'}
+                          className={errors.ratio ? 'border-red-500' : ''}
+                        />
+                        {fieldError('ratio')}
+                      </div>
+                    )}
+                    {formData.type === 'bonus' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="assignedCost">Custo atribuído por ação *</Label>
+                        <Input
+                          id="assignedCost"
+                          inputMode="decimal"
+                          value={formData.assignedCost}
+                          onChange={(e) => setFormData(prev => ({ ...prev, assignedCost: e.target.value }))}
+                          placeholder="0,00"
+                          className={errors.assigned_cost ? 'border-red-500' : ''}
+                        />
+                        {fieldError('assigned_cost')}
+                      </div>
+                    )}
+                    {isCash && (
+                      <>
+                        <div className="space-y-2">
+                          <Label htmlFor="amountPerShare">Valor bruto por ação *</Label>
+                          <Input
+                            id="amountPerShare"
+                            inputMode="decimal"
+                            value={formData.amountPerShare}
+                            onChange={(e) => setFormData(prev => ({ ...prev, amountPerShare: e.target.value }))}
+                            placeholder="0,00"
+                            className={errors.amount_per_share ? 'border-red-500' : ''}
+                          />
+                          {fieldError('amount_per_share')}
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="paymentDate">Data de pagamento</Label>
+                          <Input
+                            id="paymentDate"
+                            type="date"
+                            value={formData.paymentDate}
+                            onChange={(e) => setFormData(prev => ({ ...prev, paymentDate: e.target.value }))}
+                            className={errors.payment_date ? 'border-red-500' : ''}
+                          />
+                          {fieldError('payment_date')}
+                        </div>
+                      </>
+                    )}
+                    <div className="space-y-2">
+                      <Label htmlFor="note">Observação</Label>
+                      <Input
+                        id="note"
+                        value={formData.note}
+                        onChange={(e) => setFormData(prev => ({ ...prev, note: e.target.value }))}
+                      />
+                      {fieldError('note')}
+                    </div>
+                  </div>
+
+                  <div className="flex justify-end">
+                    <Button type="submit" disabled={createAction.isPending}>
+                      {createAction.isPending ? 'Registrando...' : 'Registrar Evento'}
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          ) : (
+            <FeatureUnavailableNotice feature="corporateActions" />
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <CalendarClock className="w-5 h-5 mr-2" />
+                Eventos Registrados
+              </CardTitle>
+              <CardDescription>Selecione um evento para ver os clientes afetados</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {actions.length === 0 ? (
+                <p className="text-sm text-gray-500">Nenhum evento registrado.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-500">
+                        <th className="py-2 pr-4 font-medium">Data Ex</th>
+                        <th className="py-2 pr-4 font-medium">Ativo</th>
+                        <th className="py-2 pr-4 font-medium">Evento</th>
+                        <th className="py-2 pr-4 font-medium">Detalhe</th>
+                        <th className="py-2 pr-4 font-medium">Pagamento</th>
+                        <th className="py-2 font-medium" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {actions.map(action => (
+                        <tr
+                          key={action.id}
+                          className={`border-b cursor-pointer ${action.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                          onClick={() => setSelectedId(action.id)}
+                        >
+                          <td className="py-2 pr-4">{formatDate(action.ex_date)}</td>
+                          <td className="py-2 pr-4 font-medium text-gray-900">
+                            {assetsById.get(action.asset_id)?.symbol ?? `#${action.asset_id}`}
+                          </td>
+                          <td className="py-2 pr-4">{corporateActionTypeLabels[action.type]}</td>
+                          <td className="py-2 pr-4">
+                            {describeCorporateAction(action)}
+                            {action.note && <p className="text-xs text-gray-500">{action.note}</p>}
+                          </td>
+                          <td className="py-2 pr-4">{action.payment_date ? formatDate(action.payment_date) : '-'}</td>
+                          <td className="py-2 text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDelete(action.id);
+                              }}
+                              disabled={deleteAction.isPending}
+                            >
+                              <Trash2 className="w-4 h-4 text-red-600" />
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {selectedAction && (
+            <CorporateActionHolders action={selectedAction} asset={assetsById.get(selectedAction.asset_id)} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
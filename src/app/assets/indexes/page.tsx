@@ -0,0 +1,187 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { useRequirePermission } from '../../../hooks/useAuth';
+import { AuthLoadingScreen } from '@/components/ui/loading';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, LineChart, Upload } from 'lucide-react';
+import { useImportIndexPoints, useMarketIndexes } from '../../../hooks/useAssets';
+import { fixedIncomeIndexerLabels } from '../../../schemas/investment';
+import { parseIndexSheet, type IndexImportError } from '../../../lib/indexImport';
+import { indexSeriesNames, type IndexSeriesName } from '../../../lib/portfolio/fixedIncome';
+import { IMPORT_FILE_ACCEPT, readSpreadsheet } from '../../../utils/importUtils';
+
+// Unidade de cada série, igual à publicada no SGS do Banco Central (CDI 12, SELIC 11, IPCA 433)
+const seriesUnits: Record<IndexSeriesName, string> = {
+  cdi: 'Taxa diária (%)',
+  selic: 'Taxa diária (%)',
+  ipca: 'Variação mensal (%)',
+};
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+/**
+ * Séries de CDI, SELIC e IPCA usadas na marcação na curva da renda fixa
+ */
+export default function MarketIndexesPage() {
+  const { isLoading: authLoading } = useRequirePermission('assets:update');
+  const { data: indexes = [], isLoading } = useMarketIndexes();
+  const importPoints = useImportIndexPoints();
+  const [selectedIndex, setSelectedIndex] = useState<IndexSeriesName>('cdi');
+  const [file, setFile] = useState<File>();
+  const [errors, setErrors] = useState<IndexImportError[]>([]);
+
+  const handleImport = async () => {
+    if (!file) return;
+    try {
+      const { points, errors: rowErrors } = parseIndexSheet(await readSpreadsheet(file), selectedIndex);
+      setErrors(rowErrors);
+      if (points.length === 0) {
+        toast.error('Nenhum valor válido encontrado no arquivo');
+        return;
+      }
+      const { added, updated } = await importPoints.mutateAsync({ id: selectedIndex, points });
+      toast.success(
+        `${fixedIncomeIndexerLabels[selectedIndex]}: ${added} novos valores, ${updated} atualizados` +
+          (rowErrors.length > 0 ? ` (${rowErrors.length} linhas ignoradas)` : '')
+      );
+    } catch (error) {
+      console.error('Erro ao importar série:', error);
+      toast.error('Não foi possível ler o arquivo. Use CSV ou XLSX com as colunas "data" e "valor".');
+    }
+  };
+
+  if (authLoading || isLoading) {
+    return <AuthLoadingScreen text="Carregando índices..." />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <div className="flex items-center space-x-4 mb-4">
+            <Link href="/assets">
+              <Button variant="outline" size="sm" className="flex items-center space-x-2">
+                <ArrowLeft className="w-4 h-4" />
+                <span>Voltar</span>
+              </Button>
+            </Link>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">
+            Índices de Renda Fixa
+          </h1>
+          <p className="text-gray-600 mt-2">
+            Séries guardadas neste navegador e usadas para calcular o valor na curva dos títulos
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          {indexes.map(index => {
+            const first = index.points[0];
+            const last = index.points[index.points.length - 1];
+            return (
+              <Card key={index.id}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex items-center text-lg">
+                    <LineChart className="w-5 h-5 mr-2" />
+                    {fixedIncomeIndexerLabels[index.id]}
+                  </CardTitle>
+                  <CardDescription>{seriesUnits[index.id]}</CardDescription>
+                </CardHeader>
+                <CardContent className="text-sm text-gray-600 space-y-1">
+                  {last ? (
+                    <>
+                      <p>
+                        <span className="font-medium">Último valor:</span>{' '}
+                        {last.value.toLocaleString('pt-BR', { maximumFractionDigits: 6 })} em {formatDate(last.date)}
+                      </p>
+                      <p>
+                        <span className="font-medium">Período:</span> {formatDate(first.date)} a {formatDate(last.date)}
+                      </p>
+                      <p>
+                        <span className="font-medium">Registros:</span> {index.points.length.toLocaleString('pt-BR')}
+                      </p>
+                    </>
+                  ) : (
+                    <p>Nenhum valor importado</p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Upload className="w-5 h-5 mr-2" />
+              Importar Série
+            </CardTitle>
+            <CardDescription>
+              CSV ou XLSX com as colunas &quot;data&quot; e &quot;valor&quot;, como exportado pelo SGS do Banco Central.
+              Datas já existentes têm o valor substituído; datas sem publicação repetem o último valor conhecido.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Índice</Label>
+                <Select value={selectedIndex} onValueChange={(value) => setSelectedIndex(value as IndexSeriesName)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {indexSeriesNames.map(name => (
+                      <SelectItem key={name} value={name}>
+                        {fixedIncomeIndexerLabels[name]} - {seriesUnits[name]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="indexFile">Arquivo</Label>
+                <Input
+                  id="indexFile"
+                  type="file"
+                  accept={IMPORT_FILE_ACCEPT}
+                  onChange={(e) => setFile(e.target.files?.[0])}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleImport} disabled={!file || importPoints.isPending}>
+                {importPoints.isPending ? 'Importando...' : 'Importar'}
+              </Button>
+            </div>
+
+            {errors.length > 0 && (
+              <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                <p className="font-medium mb-1">Linhas ignoradas</p>
+                <ul className="space-y-1">
+                  {errors.slice(0, 10).map(error => (
+                    <li key={error.row}>Linha {error.row}: {error.message}</li>
+                  ))}
+                </ul>
+                {errors.length > 10 && <p className="mt-1">e mais {errors.length - 10} linhas</p>}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
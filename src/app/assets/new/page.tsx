@@ -2,27 +2,27 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { useRequireAuth } from '../../../hooks/useAuth';
+import { toast } from 'sonner';
+import { useRequirePermission } from '../../../hooks/useAuth';
 import { AuthLoadingScreen } from '@/components/ui/loading';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { ArrowLeft, Search } from 'lucide-react';
-import { assetService } from '../../../services/adaptedAssetService';
+import { assetService, type AssetCreate } from '../../../services/adaptedAssetService';
+import { useCreateAsset, useCreateAssetFromYahoo } from '../../../hooks/useAssets';
+import { AssetForm } from '../../../components/assets/AssetForm';
+import { getErrorMessage } from '../../../lib/errors';
 
 export default function NewAssetPage() {
   const router = useRouter();
-  const { isLoading: authLoading } = useRequireAuth();
-  const [isLoading, setIsLoading] = useState(false);
+  const { isLoading: authLoading } = useRequirePermission('assets:create');
+  const createAsset = useCreateAsset();
+  const createAssetFromYahoo = useCreateAssetFromYahoo();
+  const isLoading = createAsset.isPending || createAssetFromYahoo.isPending;
   const [searchSymbol, setSearchSymbol] = useState('');
   const [searchResult, setSearchResult] = useState<any>(null);
   const [isSearching, setIsSearching] = useState(false);
-  const [formData, setFormData] = useState({
-    symbol: '',
-    name: '',
-    currency: 'USD',
-  });
 
   const handleSearch = async () => {
     if (!searchSymbol.trim()) return;
@@ -43,34 +43,20 @@ export default function NewAssetPage() {
     if (!searchResult) return;
 
     try {
-      setIsLoading(true);
-      await assetService.createAssetFromYahoo(searchResult.ticker);
+      await createAssetFromYahoo.mutateAsync(searchResult.ticker);
       router.push('/assets');
     } catch (error) {
       console.error('Erro ao criar ativo:', error);
-    } finally {
-      setIsLoading(false);
     }
   };
 
-  const handleManualSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!formData.symbol || !formData.name) {
-      return;
-    }
-
+  const handleManualSubmit = async (asset: AssetCreate) => {
     try {
-      setIsLoading(true);
-      await assetService.createAsset({
-        ...formData,
-        type: 'stocks' as const
-      });
+      await createAsset.mutateAsync(asset);
       router.push('/assets');
     } catch (error) {
       console.error('Erro ao criar ativo:', error);
-    } finally {
-      setIsLoading(false);
+      toast.error(getErrorMessage(error, 'Erro ao criar ativo'));
     }
   };
 
@@ -159,58 +145,16 @@ export default function NewAssetPage() {
             <CardHeader>
               <CardTitle>Adicionar Manualmente</CardTitle>
               <CardDescription>
-                Preencha as informações do ativo manualmente
+                Preencha as informações do ativo; os campos adicionais dependem do tipo
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <form onSubmit={handleManualSubmit} className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <Label htmlFor="symbol">Símbolo *</Label>
-                    <Input
-                      id="symbol"
-                      value={formData.symbol}
-                      onChange={(e) => setFormData(prev => ({ ...prev, symbol: e.target.value }))}
-                      placeholder="Ex: AAPL, PETR4"
-                      required
-                    />
-                  </div>
-
-                  <div>
-                    <Label htmlFor="name">Nome *</Label>
-                    <Input
-                      id="name"
-                      value={formData.name}
-                      onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-                      placeholder="Ex: Apple Inc"
-                      required
-                    />
-                  </div>
-
-                  <div>
-                    <Label htmlFor="currency">Moeda</Label>
-                    <Input
-                      id="currency"
-                      value={formData.currency}
-                      onChange={(e) => setFormData(prev => ({ ...prev, currency: e.target.value }))}
-                      placeholder="Ex: USD, BRL"
-                    />
-                  </div>
-                </div>
-
-                <div className="flex justify-end space-x-2">
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => router.back()}
-                  >
-                    Cancelar
-                  </Button>
-                  <Button type="submit" disabled={isLoading}>
-                    {isLoading ? 'Adicionando...' : 'Adicionar Ativo'}
-                  </Button>
-                </div>
-              </form>
+              <AssetForm
+                isSubmitting={isLoading}
+                submitLabel="Adicionar Ativo"
+                onSubmit={handleManualSubmit}
+                onCancel={() => router.back()}
+              />
             </CardContent>
           </Card>
         </div>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import Link from 'next/link';
 import { useRequireAuth } from '../../hooks/useAuth';
 import { AuthLoadingScreen } from '@/components/ui/loading';
@@ -15,35 +15,23 @@ import {
   TrendingDown, 
   DollarSign,
   PieChart,
+  LineChart,
+  CalendarClock,
+  Upload,
+  X,
   BarChart3,
   Eye
 } from 'lucide-react';
-import { assetService } from '../../services/adaptedAssetService';
-import type { Asset } from '../../types/investment';
+import { useAssets } from '../../hooks/useAssets';
+import { Can } from '../../components/Can';
+import { PriceImportForm } from '../../components/assets/PriceImportForm';
+import { assetTypeLabels } from '../../schemas/investment';
 
 export default function AssetsPage() {
   const { isLoading: authLoading } = useRequireAuth();
-  const [assets, setAssets] = useState<Asset[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { data: assets = [], isLoading } = useAssets({ enabled: !authLoading });
   const [searchTerm, setSearchTerm] = useState('');
-
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        setIsLoading(true);
-        const assetsData = await assetService.getAssets();
-        setAssets(assetsData);
-      } catch (error) {
-        console.error('Erro ao carregar dados:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    if (!authLoading) {
-      loadData();
-    }
-  }, [authLoading]);
+  const [isPriceImportOpen, setIsPriceImportOpen] = useState(false);
 
   const filteredAssets = assets.filter(asset =>
     asset.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -75,16 +63,68 @@ export default function AssetsPage() {
                   <span>Alocações</span>
                 </Button>
               </Link>
-              <Link href="/assets/new">
-                <Button className="flex items-center space-x-2">
-                  <Plus className="w-4 h-4" />
-                  <span>Novo Ativo</span>
+              <Can permission="assets:update">
+                <Button
+                  variant="outline"
+                  className="flex items-center space-x-2"
+                  onClick={() => setIsPriceImportOpen(open => !open)}
+                >
+                  <Upload className="w-4 h-4" />
+                  <span>Cotações</span>
                 </Button>
-              </Link>
+              </Can>
+              <Can permission="assets:update">
+                <Link href="/assets/indexes">
+                  <Button variant="outline" className="flex items-center space-x-2">
+                    <LineChart className="w-4 h-4" />
+                    <span>Índices</span>
+                  </Button>
+                </Link>
+              </Can>
+              <Can permission="assets:update">
+                <Link href="/assets/corporate-actions">
+                  <Button variant="outline" className="flex items-center space-x-2">
+                    <CalendarClock className="w-4 h-4" />
+                    <span>Eventos</span>
+                  </Button>
+                </Link>
+              </Can>
+              <Can permission="assets:create">
+                <Link href="/assets/new">
+                  <Button className="flex items-center space-x-2">
+                    <Plus className="w-4 h-4" />
+                    <span>Novo Ativo</span>
+                  </Button>
+                </Link>
+              </Can>
             </div>
           </div>
         </div>
 
+        {isPriceImportOpen && (
+          <Card className="mb-6">
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Upload className="w-5 h-5" />
+                    Importar Cotações
+                  </CardTitle>
+                  <CardDescription>
+                    Fechamentos diários de todos os ativos cadastrados, pelo código de negociação
+                  </CardDescription>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => setIsPriceImportOpen(false)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <PriceImportForm assets={assets} />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Statistics Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <Card>
@@ -201,7 +241,7 @@ export default function AssetsPage() {
                         </div>
                         <div>
                           <p><span className="font-medium">Bolsa:</span> {asset.exchange || 'N/A'}</p>
-                          <p><span className="font-medium">Tipo:</span> {asset.type}</p>
+                          <p><span className="font-medium">Tipo:</span> {assetTypeLabels[asset.type] ?? asset.type}</p>
                         </div>
                       </div>
                     </div>
@@ -212,11 +252,13 @@ export default function AssetsPage() {
                           <Eye className="w-4 h-4" />
                         </Button>
                       </Link>
-                      <Link href={`/assets/allocations/new`}>
-                        <Button size="sm">
-                          Investir
-                        </Button>
-                      </Link>
+                      <Can permission="allocations:create">
+                        <Link href={`/assets/allocations/new`}>
+                          <Button size="sm">
+                            Investir
+                          </Button>
+                        </Link>
+                      </Can>
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,404 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useRequirePermission } from '../../../../hooks/useAuth';
+import { AuthLoadingScreen } from '@/components/ui/loading';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ArrowLeft,
+  DollarSign,
+  User,
+  TrendingDown,
+  AlertCircle
+} from 'lucide-react';
+import { useAllocations } from '../../../../hooks/useAllocations';
+import { useClients } from '../../../../hooks/useClients';
+import { useAssets } from '../../../../hooks/useAssets';
+import { useCorporateActions } from '../../../../hooks/useCorporateActions';
+import { useClientSales, useCreateSale } from '../../../../hooks/useSales';
+import { useFeatureSupported } from '../../../../hooks/useBackendFeatures';
+import { FeatureUnavailableNotice } from '../../../../components/FeatureUnavailableNotice';
+import { getAvailableQuantity } from '../../../../lib/portfolio/lots';
+import { ValidationError } from '../../../../lib/errors';
+import type { SaleCreate } from '../../../../types/allocation';
+
+interface NewSalePageProps {
+  searchParams: {
+    client_id?: string;
+    asset_id?: string;
+  };
+}
+
+export default function NewSalePage({ searchParams }: NewSalePageProps) {
+  const router = useRouter();
+  const { isLoading: authLoading } = useRequirePermission('allocations:create');
+
+  const [formData, setFormData] = useState({
+    clientId: searchParams.client_id ?? '',
+    assetId: searchParams.asset_id ?? '',
+    quantity: '',
+    sellPrice: '',
+    fees: '',
+    sellDate: new Date().toISOString().split('T')[0], // Today's date
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const { data: clientsData, isLoading: isLoadingClients } = useClients({ page: 1, limit: 100 }, { enabled: !authLoading });
+  const { data: assets = [], isLoading: isLoadingAssets } = useAssets({ enabled: !authLoading });
+  const createSale = useCreateSale();
+  const isSupported = useFeatureSupported('sales');
+  const clients = clientsData?.items ?? [];
+  const isLoading = isLoadingClients || isLoadingAssets;
+  const isSubmitting = createSale.isPending;
+
+  // Compras e vendas do cliente selecionado, para saber o que ele pode vender
+  const clientId = parseInt(formData.clientId);
+  const hasClient = !authLoading && !!formData.clientId;
+  const allocationsQuery = useAllocations({ client_id: clientId }, { enabled: hasClient });
+  const salesQuery = useClientSales(clientId, { enabled: hasClient });
+  // Ignora a posição do cliente anterior enquanto a do novo carrega
+  const allocations = hasClient && !allocationsQuery.isPlaceholderData ? allocationsQuery.data ?? [] : [];
+  const sales = hasClient ? salesQuery.data ?? [] : [];
+  const { data: corporateActions = [] } = useCorporateActions({}, { enabled: hasClient });
+
+  const heldAssets = assets
+    .map(asset => ({ asset, available: getAvailableQuantity(allocations, sales, Number(asset.id), corporateActions) }))
+    .filter(item => item.available > 0);
+
+  const selectedClient = clients.find(c => c.id === formData.clientId);
+  const selectedHolding = heldAssets.find(item => item.asset.id === formData.assetId);
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+    const quantity = parseFloat(formData.quantity);
+
+    if (!formData.clientId) {
+      newErrors.clientId = 'Selecione um cliente';
+    }
+
+    if (!formData.assetId) {
+      newErrors.assetId = 'Selecione um ativo';
+    }
+
+    if (!formData.quantity || quantity <= 0) {
+      newErrors.quantity = 'Quantidade deve ser maior que zero';
+    } else if (selectedHolding && quantity > selectedHolding.available) {
+      newErrors.quantity = `Quantidade maior que a disponível (${selectedHolding.available.toLocaleString('pt-BR')})`;
+    }
+
+    if (!formData.sellPrice || parseFloat(formData.sellPrice) <= 0) {
+      newErrors.sellPrice = 'Preço deve ser maior que zero';
+    }
+
+    if (formData.fees && parseFloat(formData.fees) < 0) {
+      newErrors.fees = 'Custos não podem ser negativos';
+    }
+
+    if (!formData.sellDate) {
+      newErrors.sellDate = 'Data é obrigatória';
+    }
+
+    if (formData.sellDate && new Date(formData.sellDate) > new Date()) {
+      newErrors.sellDate = 'Data não pode ser no futuro';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    try {
+      const saleData: SaleCreate = {
+        client_id: parseInt(formData.clientId),
+        asset_id: parseInt(formData.assetId),
+        quantity: parseFloat(formData.quantity),
+        sell_price: parseFloat(formData.sellPrice),
+        sell_date: formData.sellDate,
+        fees: formData.fees ? parseFloat(formData.fees) : 0,
+      };
+
+      await createSale.mutateAsync(saleData);
+
+      router.push(`/clients/${formData.clientId}`);
+    } catch (error) {
+      console.error('Erro ao registrar venda:', error);
+      if (error instanceof ValidationError && Object.keys(error.fieldErrors).length > 0) {
+        setErrors(error.fieldErrors);
+      } else {
+        setErrors({ submit: 'Erro ao registrar venda. Tente novamente.' });
+      }
+    }
+  };
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const calculateNetAmount = (): number => {
+    const quantity = parseFloat(formData.quantity) || 0;
+    const price = parseFloat(formData.sellPrice) || 0;
+    const fees = parseFloat(formData.fees) || 0;
+    return quantity * price - fees;
+  };
+
+  const handleAssetSelection = (assetId: string) => {
+    const asset = assets.find(a => a.id === assetId);
+    setFormData(prev => ({
+      ...prev,
+      assetId,
+      sellPrice: prev.sellPrice || asset?.currentPrice?.toString() || '',
+    }));
+  };
+
+  if (authLoading || isLoading) {
+    return <AuthLoadingScreen text="Carregando..." />;
+  }
+
+  const backHref = formData.clientId ? `/clients/${formData.clientId}` : '/assets/allocations';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center space-x-4 mb-4">
+            <Link href={backHref}>
+              <Button variant="outline" size="sm">
+                <ArrowLeft className="w-4 h-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">
+                Registrar Venda
+              </h1>
+              <p className="mt-1 text-sm text-gray-600">
+                Baixa de ativos da carteira do cliente, com apuração do resultado realizado
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {isSupported ? (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Client and Asset Selection */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <User className="w-5 h-5" />
+                  <span>Cliente e Ativo</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="clientId">Cliente</Label>
+                    <Select
+                      value={formData.clientId}
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, clientId: value, assetId: '' }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione um cliente" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {clients.map((client) => (
+                          <SelectItem key={client.id} value={client.id}>
+                            {client.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {errors.clientId && (
+                      <p className="text-sm text-red-600">{errors.clientId}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="assetId">Ativo</Label>
+                    <Select
+                      value={formData.assetId}
+                      onValueChange={handleAssetSelection}
+                      disabled={!formData.clientId}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder={formData.clientId ? 'Selecione um ativo da carteira' : 'Selecione o cliente primeiro'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {heldAssets.map(({ asset, available }) => (
+                          <SelectItem key={asset.id} value={asset.id}>
+                            {asset.symbol} - {available.toLocaleString('pt-BR')} disponíveis
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {formData.clientId && heldAssets.length === 0 && (
+                      <p className="text-sm text-gray-500">Este cliente não possui ativos para vender.</p>
+                    )}
+                    {errors.assetId && (
+                      <p className="text-sm text-red-600">{errors.assetId}</p>
+                    )}
+                  </div>
+                </div>
+
+                {selectedClient && selectedHolding && (
+                  <div className="mt-6 p-4 bg-blue-50 rounded-lg text-sm">
+                    <p className="text-blue-700">
+                      <span className="font-medium text-blue-800">{selectedHolding.asset.symbol}</span> - {selectedHolding.asset.name}
+                    </p>
+                    <p className="text-blue-600">
+                      Quantidade disponível: {selectedHolding.available.toLocaleString('pt-BR')}
+                    </p>
+                    {selectedHolding.asset.currentPrice && (
+                      <p className="text-blue-600">Preço atual: {formatCurrency(selectedHolding.asset.currentPrice)}</p>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Sale Details */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <TrendingDown className="w-5 h-5" />
+                  <span>Detalhes da Venda</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="quantity">Quantidade</Label>
+                      {selectedHolding && (
+                        <button
+                          type="button"
+                          className="text-xs text-blue-600 hover:underline"
+                          onClick={() => setFormData(prev => ({ ...prev, quantity: selectedHolding.available.toString() }))}
+                        >
+                          Vender tudo
+                        </button>
+                      )}
+                    </div>
+                    <Input
+                      id="quantity"
+                      type="number"
+                      step="0.000001"
+                      placeholder="Ex: 100"
+                      value={formData.quantity}
+                      onChange={(e) => setFormData(prev => ({ ...prev, quantity: e.target.value }))}
+                    />
+                    {errors.quantity && (
+                      <p className="text-sm text-red-600">{errors.quantity}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="sellPrice">Preço de Venda</Label>
+                    <Input
+                      id="sellPrice"
+                      type="number"
+                      step="0.01"
+                      placeholder="0,00"
+                      value={formData.sellPrice}
+                      onChange={(e) => setFormData(prev => ({ ...prev, sellPrice: e.target.value }))}
+                    />
+                    {errors.sellPrice && (
+                      <p className="text-sm text-red-600">{errors.sellPrice}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="fees">Custos (corretagem)</Label>
+                    <Input
+                      id="fees"
+                      type="number"
+                      step="0.01"
+                      placeholder="0,00"
+                      value={formData.fees}
+                      onChange={(e) => setFormData(prev => ({ ...prev, fees: e.target.value }))}
+                    />
+                    {errors.fees && (
+                      <p className="text-sm text-red-600">{errors.fees}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="sellDate">Data da Venda</Label>
+                    <Input
+                      id="sellDate"
+                      type="date"
+                      value={formData.sellDate}
+                      onChange={(e) => setFormData(prev => ({ ...prev, sellDate: e.target.value }))}
+                    />
+                    {errors.sellDate && (
+                      <p className="text-sm text-red-600">{errors.sellDate}</p>
+                    )}
+                  </div>
+                </div>
+
+                {formData.quantity && formData.sellPrice && (
+                  <div className="mt-6 p-4 bg-green-50 rounded-lg">
+                    <div className="flex items-center space-x-2 mb-2">
+                      <DollarSign className="w-5 h-5 text-green-600" />
+                      <h4 className="text-sm font-medium text-green-900">Valor Líquido da Venda</h4>
+                    </div>
+                    <p className="text-green-700 font-bold">{formatCurrency(calculateNetAmount())}</p>
+                    <p className="text-xs text-green-700 mt-1">
+                      O resultado realizado é apurado na carteira do cliente pelo método de custo escolhido.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Submit Errors */}
+            {errors.submit && (
+              <Card className="border-red-200 bg-red-50">
+                <CardContent className="pt-6">
+                  <div className="flex items-center space-x-2 text-red-600">
+                    <AlertCircle className="w-5 h-5" />
+                    <span>{errors.submit}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Actions */}
+            <div className="flex justify-end space-x-4">
+              <Link href={backHref}>
+                <Button type="button" variant="outline">
+                  Cancelar
+                </Button>
+              </Link>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Registrando...' : 'Registrar Venda'}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <FeatureUnavailableNotice feature="sales" />
+        )}
+      </div>
+    </div>
+  );
+}
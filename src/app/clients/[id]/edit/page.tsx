@@ -1,9 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useRequireAuth } from '../../../../hooks/useAuth';
+import { useEffect } from 'react';
+import { useRequirePermission } from '../../../../hooks/useAuth';
 import { AuthLoadingScreen } from '@/components/ui/loading';
-import { clientService } from '../../../../services/adaptedClientService';
+import { useClient, useUpdateClient } from '../../../../hooks/useClients';
 import { Client, InvestmentProfile } from '../../../../types/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -15,6 +15,9 @@ import { useRouter } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { toast } from 'sonner';
+import { getErrorMessage } from '../../../../lib/errors';
+import { applyFieldErrors } from '../../../../lib/formErrors';
+import { riskProfileLabels } from '../../../../lib/suitability';
 import { quickClientSchema, type QuickClientFormData, formatCPF, formatPhone } from '../../../../schemas/client';
 
 interface ClientEditPageProps {
@@ -26,11 +29,11 @@ interface ClientEditPageProps {
 
 
 export default function ClientEditPage({ params }: ClientEditPageProps) {
-  const { isLoading: authLoading } = useRequireAuth();
-  const [client, setClient] = useState<Client | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const { isLoading: authLoading } = useRequirePermission('clients:update');
+  const { data: client, isLoading, error: loadError } = useClient(params.id, { enabled: !authLoading });
+  const updateClient = useUpdateClient();
+  const isSubmitting = updateClient.isPending;
+  const error = loadError ? 'Erro ao carregar dados do cliente' : null;
   const router = useRouter();
 
   const form = useForm<QuickClientFormData>({
@@ -40,42 +43,23 @@ export default function ClientEditPage({ params }: ClientEditPageProps) {
       cpf: '',
       email: '',
       phone: '',
-      investmentProfile: 'not_defined',
     },
   });
 
+  // Populate form with client data (same fields as registration); um refetch não sobrescreve edições em andamento
   useEffect(() => {
-    const fetchClient = async () => {
-      try {
-        setIsLoading(true);
-        setError(null);
-        const clientData = await clientService.getClient(params.id);
-        setClient(clientData);
-        
-        // Populate form with client data (same fields as registration)
-        form.setValue('name', clientData.name);
-        form.setValue('cpf', clientData.cpf);
-        form.setValue('email', clientData.contact.email);
-        form.setValue('phone', clientData.contact.phone);
-        form.setValue('investmentProfile', clientData.investmentProfile);
-        
-      } catch (err) {
-        console.error('Erro ao carregar cliente:', err);
-        setError('Erro ao carregar dados do cliente');
-      } finally {
-        setIsLoading(false);
-      }
-    };
+    if (!client || form.formState.isDirty) return;
 
-    if (!authLoading) {
-      fetchClient();
-    }
-  }, [params.id, authLoading, form]);
+    form.reset({
+      name: client.name,
+      cpf: client.cpf,
+      email: client.contact.email,
+      phone: client.contact.phone,
+    });
+  }, [client, form]);
 
   const onSubmit = async (data: QuickClientFormData) => {
     try {
-      setIsSubmitting(true);
-
       // Update only the basic fields (same as registration form)
       const updatedClient: Partial<Client> = {
         name: data.name,
@@ -85,19 +69,18 @@ export default function ClientEditPage({ params }: ClientEditPageProps) {
           email: data.email,
           phone: data.phone,
         },
-        investmentProfile: data.investmentProfile,
       };
 
-      await clientService.updateClient(params.id, updatedClient);
+      await updateClient.mutateAsync({ id: params.id, data: updatedClient });
       
       toast.success('Cliente atualizado com sucesso!');
       router.push(`/clients/${params.id}`);
       
     } catch (error) {
       console.error('Erro ao atualizar cliente:', error);
-      toast.error('Erro ao atualizar cliente. Tente novamente.');
-    } finally {
-      setIsSubmitting(false);
+      if (!applyFieldErrors(error, form.setError)) {
+        toast.error(getErrorMessage(error, 'Erro ao atualizar cliente. Tente novamente.'));
+      }
     }
   };
 
@@ -259,28 +242,20 @@ export default function ClientEditPage({ params }: ClientEditPageProps) {
                 />
 
                 {/* Perfil de Investimento */}
-                <FormField
-                  control={form.control}
-                  name="investmentProfile"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Perfil de Investimento *</FormLabel>
-                      <FormControl>
-                        <select
-                          {...field}
-                          className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                          disabled={isSubmitting}
-                        >
-                          <option value="not_defined">Não definido</option>
-                          <option value="conservative">Conservador</option>
-                          <option value="moderate">Moderado</option>
-                          <option value="aggressive">Arrojado</option>
-                        </select>
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Perfil de Investimento</p>
+                  <div className="flex items-center justify-between rounded-md bg-gray-50 p-3 text-sm text-gray-600">
+                    <span>
+                      {client.investmentProfile === 'not_defined'
+                        ? 'Não definido'
+                        : riskProfileLabels[client.investmentProfile]}
+                      {' · '}alterado somente pelo questionário de suitability
+                    </span>
+                    <Link href={`/clients/${params.id}/suitability`} className="font-medium text-blue-600 hover:underline">
+                      Questionário
+                    </Link>
+                  </div>
+                </div>
 
                 {/* Actions */}
                 <div className="flex justify-end space-x-4 pt-6 border-t">
@@ -1,13 +1,38 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useRequireAuth } from '../../../hooks/useAuth';
+import { useFeatureSupported } from '../../../hooks/useBackendFeatures';
 import { AuthLoadingScreen } from '@/components/ui/loading';
-import { clientService } from '../../../services/adaptedClientService';
-import { Client } from '../../../types/client';
+import {
+  useClient,
+  useClientCashLedger,
+  useClientPerformance,
+  useClientPortfolio,
+  useDownloadClientStatement,
+  useExportClientDossier,
+  useSuitabilityAssessments,
+} from '../../../hooks/useClients';
+import type { AssetType } from '../../../types/investment';
+import { getAllocationByType } from '../../../lib/portfolio/valuation';
+import { costMethodLabels, DEFAULT_COST_METHOD, type CostMethod } from '../../../lib/portfolio/lots';
+import { exportRealizedGainsData } from '../../../utils/exportUtils';
+import { performancePeriodLabels, type PerformancePeriod } from '../../../lib/portfolio/performance';
+import { cashEntryLabels, getWithdrawableAmount } from '../../../lib/portfolio/cash';
+import { getSuitabilityStatus } from '../../../lib/suitability';
+import { BalanceChart } from '../../../components/clients/BalanceChart';
+import { formatPercentage } from '../../../schemas/investment';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { 
   ArrowLeft, 
   Edit, 
@@ -17,9 +42,17 @@ import {
   CreditCard, 
   TrendingUp, 
   Calendar,
-  Shield
+  Shield,
+  Download,
+  TrendingDown,
+  Receipt,
+  Wallet,
+  FileText,
+  FolderOpen,
+  ClipboardCheck
 } from 'lucide-react';
 import Link from 'next/link';
+import { Can } from '../../../components/Can';
 
 interface ClientDetailPageProps {
   params: {
@@ -29,29 +62,72 @@ interface ClientDetailPageProps {
 
 export default function ClientDetailPage({ params }: ClientDetailPageProps) {
   const { isLoading: authLoading } = useRequireAuth();
-  const [client, setClient] = useState<Client | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchClient = async () => {
-      try {
-        setIsLoading(true);
-        setError(null);
-        const clientData = await clientService.getClient(params.id);
-        setClient(clientData);
-      } catch (err) {
-        console.error('Erro ao carregar cliente:', err);
-        setError('Erro ao carregar dados do cliente');
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const [costMethod, setCostMethod] = useState<CostMethod>(DEFAULT_COST_METHOD);
+  const [performancePeriod, setPerformancePeriod] = useState<PerformancePeriod>('all');
+
+  const clientQuery = useClient(params.id, { enabled: !authLoading });
+  // Carteira e desempenho em consultas separadas para não esconder os dados cadastrais se falharem
+  const portfolioQuery = useClientPortfolio(params.id, costMethod, { enabled: !authLoading });
+  const performanceQuery = useClientPerformance(params.id, performancePeriod, { enabled: !authLoading });
+  const cashQuery = useClientCashLedger(params.id, { enabled: !authLoading });
+  const suitabilityQuery = useSuitabilityAssessments(params.id, { enabled: !authLoading });
+  const downloadStatement = useDownloadClientStatement();
+  const exportDossier = useExportClientDossier();
+  const isSalesSupported = useFeatureSupported('sales');
+  const isSuitabilitySupported = useFeatureSupported('suitability');
+  // Extrato do mês anterior por padrão (o mês corrente ainda está aberto)
+  const [statementMonth, setStatementMonth] = useState(() => {
+    const date = new Date();
+    date.setDate(1);
+    date.setMonth(date.getMonth() - 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  });
+
+  const client = clientQuery.data ?? null;
+  const isLoading = clientQuery.isLoading;
+  const error = clientQuery.error ? 'Erro ao carregar dados do cliente' : null;
+  const portfolio = portfolioQuery.data ?? null;
+  const isLoadingPortfolio = portfolioQuery.isLoading;
+  const performance = performanceQuery.data ?? null;
+  const isLoadingPerformance = performanceQuery.isLoading;
+  const suitability = getSuitabilityStatus(suitabilityQuery.data ?? []);
+
+  const handleExportSales = async () => {
+    if (!client || !portfolio || portfolio.realizedGains.length === 0) {
+      alert('Não há vendas para exportar');
+      return;
+    }
+
+    try {
+      await exportRealizedGainsData(portfolio.realizedGains, 'excel', `vendas_${client.name.replace(/\s+/g, '_').toLowerCase()}`);
+    } catch (error) {
+      console.error('Erro ao exportar vendas:', error);
+      alert('Erro ao exportar vendas');
+    }
+  };
+
+  const handleExportDossier = async () => {
+    if (!client) return;
 
-    if (!authLoading) {
-      fetchClient();
+    try {
+      await exportDossier.mutateAsync({
+        clients: [client],
+        filename: `dossie_${client.name.replace(/\s+/g, '_').toLowerCase()}`,
+      });
+    } catch (error) {
+      console.error('Erro ao exportar dossiê:', error);
+      alert('Erro ao exportar dossiê');
     }
-  }, [params.id, authLoading]);
+  };
+
+  const handleDownloadStatement = async () => {
+    try {
+      await downloadStatement.mutateAsync({ clientId: params.id, month: statementMonth });
+    } catch (error) {
+      console.error('Erro ao gerar extrato:', error);
+      alert('Erro ao gerar extrato. Tente novamente.');
+    }
+  };
 
   const formatCurrency = (value?: number) => {
     if (!value) return 'Não informado';
@@ -61,6 +137,28 @@ export default function ClientDetailPage({ params }: ClientDetailPageProps) {
     }).format(value);
   };
 
+  const formatSignedCurrency = (value: number) => {
+    const formatted = new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+    return value > 0 ? `+${formatted}` : formatted;
+  };
+
+  // Saldo pode ser zero ou negativo (cheque especial), sem o "Não informado" de formatCurrency
+  const formatBalance = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const getReturnColor = (value: number) => {
+    if (value > 0) return 'text-green-600';
+    if (value < 0) return 'text-red-600';
+    return 'text-gray-900';
+  };
+
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat('pt-BR', {
       day: '2-digit',
@@ -170,12 +268,26 @@ export default function ClientDetailPage({ params }: ClientDetailPageProps) {
           
           <div className="flex items-center gap-3">
             {getStatusBadge(client.status)}
-            <Link href={`/clients/${client.id}/edit`}>
+            <Link href={`/clients/${client.id}/tax`}>
               <Button variant="outline">
-                <Edit className="w-4 h-4 mr-2" />
-                Editar
+                <Receipt className="w-4 h-4 mr-2" />
+                Imposto de Renda
               </Button>
             </Link>
+            <Can permission="reports:export">
+              <Button variant="outline" onClick={handleExportDossier} disabled={exportDossier.isPending}>
+                <FolderOpen className="w-4 h-4 mr-2" />
+                {exportDossier.isPending ? 'Gerando...' : 'Dossiê'}
+              </Button>
+            </Can>
+            <Can permission="clients:update">
+              <Link href={`/clients/${client.id}/edit`}>
+                <Button variant="outline">
+                  <Edit className="w-4 h-4 mr-2" />
+                  Editar
+                </Button>
+              </Link>
+            </Can>
           </div>
         </div>
 
@@ -264,13 +376,406 @@ export default function ClientDetailPage({ params }: ClientDetailPageProps) {
               </div>
               <div>
                 <label className="text-sm font-medium text-gray-500">Perfil de Investimento</label>
-                <div className="mt-1">
+                <div className="mt-1 flex items-center gap-2">
                   {getInvestmentProfileBadge(client.investmentProfile)}
+                  {suitability.state === 'expired' && <Badge variant="destructive">Vencido</Badge>}
+                  {suitability.state === 'missing' && !suitabilityQuery.isLoading && (
+                    <Badge variant="outline">Não avaliado</Badge>
+                  )}
                 </div>
+                {suitability.latest && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {suitability.state === 'expired' ? 'Venceu em' : 'Válido até'} {formatDate(suitability.latest.expiresAt)}
+                  </p>
+                )}
+                {isSuitabilitySupported && (
+                  <Can permission="clients:update">
+                    <Link href={`/clients/${client.id}/suitability`}>
+                      <Button variant="outline" size="sm" className="mt-2">
+                        <ClipboardCheck className="w-4 h-4 mr-2" />
+                        {suitability.state === 'valid' ? 'Questionário de Suitability' : 'Aplicar Questionário'}
+                      </Button>
+                    </Link>
+                  </Can>
+                )}
               </div>
             </CardContent>
           </Card>
 
+          {/* Carteira */}
+          <Card className="lg:col-span-3">
+            <CardHeader>
+              <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingUp className="w-5 h-5" />
+                    Carteira
+                  </CardTitle>
+                  <CardDescription>
+                    Posições consolidadas por ativo, com custo médio e resultado não realizado
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select value={costMethod} onValueChange={(value) => setCostMethod(value as CostMethod)}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(costMethodLabels) as CostMethod[]).map(method => (
+                        <SelectItem key={method} value={method}>
+                          {costMethodLabels[method]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {isSalesSupported && (
+                    <Can permission="allocations:create">
+                      <Link href={`/assets/sales/new?client_id=${params.id}`}>
+                        <Button variant="outline" size="sm">
+                          <TrendingDown className="w-4 h-4 mr-2" />
+                          Registrar Venda
+                        </Button>
+                      </Link>
+                    </Can>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoadingPortfolio ? (
+                <p className="text-sm text-gray-500">Carregando carteira...</p>
+              ) : !portfolio ? (
+                <p className="text-sm text-red-600">Não foi possível carregar a carteira do cliente.</p>
+              ) : portfolio.allocations.length === 0 && portfolio.realizedGains.length === 0 ? (
+                <p className="text-sm text-gray-500">Este cliente ainda não possui investimentos.</p>
+              ) : (
+                <div className="space-y-6">
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Total Investido</label>
+                      <p className="text-lg font-semibold text-gray-900">{formatCurrency(portfolio.totalInvested)}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Valor Atual</label>
+                      <p className="text-lg font-semibold text-gray-900">{formatCurrency(portfolio.currentValue)}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Resultado</label>
+                      <p className={`text-lg font-semibold ${getReturnColor(portfolio.totalReturn)}`}>
+                        {formatSignedCurrency(portfolio.totalReturn)}
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Rentabilidade</label>
+                      <p className={`text-lg font-semibold ${getReturnColor(portfolio.returnPercentage)}`}>
+                        {formatPercentage(portfolio.returnPercentage)}
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Resultado Realizado</label>
+                      <p className={`text-lg font-semibold ${getReturnColor(portfolio.realizedReturn)}`}>
+                        {formatSignedCurrency(portfolio.realizedReturn)}
+                      </p>
+                    </div>
+                  </div>
+
+                  {portfolio.allocations.length > 0 && (
+                    <>
+                      {/* Distribuição por tipo de ativo */}
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium text-gray-500">Distribuição por Tipo</label>
+                        {getAllocationByType(portfolio.allocations.map(a => ({
+                          type: a.assetType as AssetType,
+                          currentValue: a.currentValue,
+                        }))).map(item => (
+                          <div key={item.type} className="flex items-center gap-3 text-sm">
+                            <span className="w-40 text-gray-700">{item.label}</span>
+                            <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                              <div className="h-full bg-blue-600" style={{ width: `${item.percentage}%` }} />
+                            </div>
+                            <span className="w-16 text-right text-gray-900">{formatPercentage(item.percentage, 1)}</span>
+                          </div>
+                        ))}
+                      </div>
+
+                      <div className="overflow-x-auto">
+                        <table className="min-w-full text-sm">
+                          <thead>
+                            <tr className="border-b text-left text-gray-500">
+                              <th className="py-2 pr-4 font-medium">Ativo</th>
+                              <th className="py-2 pr-4 font-medium text-right">Quantidade</th>
+                              <th className="py-2 pr-4 font-medium text-right">Preço Médio</th>
+                              <th className="py-2 pr-4 font-medium text-right">Preço Atual</th>
+                              <th className="py-2 pr-4 font-medium text-right">Valor Atual</th>
+                              <th className="py-2 font-medium text-right">Resultado</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {portfolio.allocations.map(position => (
+                              <tr key={position.assetId} className="border-b last:border-0">
+                                <td className="py-2 pr-4">
+                                  <Link href={`/assets/${position.assetId}`} className="font-medium text-gray-900 hover:underline">
+                                    {position.assetSymbol}
+                                  </Link>
+                                  <p className="text-xs text-gray-500">{position.assetName}</p>
+                                </td>
+                                <td className="py-2 pr-4 text-right">{position.quantity.toLocaleString('pt-BR')}</td>
+                                <td className="py-2 pr-4 text-right">{formatCurrency(position.averagePrice)}</td>
+                                <td className="py-2 pr-4 text-right">{formatCurrency(position.currentPrice)}</td>
+                                <td className="py-2 pr-4 text-right">{formatCurrency(position.currentValue)}</td>
+                                <td className={`py-2 text-right ${getReturnColor(position.returnAmount)}`}>
+                                  {formatSignedCurrency(position.returnAmount)}
+                                  <p className="text-xs">{formatPercentage(position.returnPercentage)}</p>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </>
+                  )}
+
+                  {/* Vendas e resultado realizado */}
+                  {portfolio.realizedGains.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <label className="text-sm font-medium text-gray-500">
+                          Vendas Realizadas ({costMethodLabels[portfolio.costMethod]})
+                        </label>
+                        <Can permission="reports:export">
+                          <Button variant="outline" size="sm" onClick={handleExportSales}>
+                            <Download className="w-4 h-4 mr-2" />
+                            Exportar
+                          </Button>
+                        </Can>
+                      </div>
+                      <div className="overflow-x-auto">
+                        <table className="min-w-full text-sm">
+                          <thead>
+                            <tr className="border-b text-left text-gray-500">
+                              <th className="py-2 pr-4 font-medium">Data</th>
+                              <th className="py-2 pr-4 font-medium">Ativo</th>
+                              <th className="py-2 pr-4 font-medium text-right">Quantidade</th>
+                              <th className="py-2 pr-4 font-medium text-right">Preço de Venda</th>
+                              <th className="py-2 pr-4 font-medium text-right">Custo Unitário</th>
+                              <th className="py-2 pr-4 font-medium text-right">Valor Líquido</th>
+                              <th className="py-2 font-medium text-right">Resultado</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {[...portfolio.realizedGains].reverse().map(gain => (
+                              <tr key={gain.saleId} className="border-b last:border-0">
+                                <td className="py-2 pr-4">{formatDate(new Date(`${gain.date}T00:00:00`))}</td>
+                                <td className="py-2 pr-4 font-medium text-gray-900">{gain.symbol}</td>
+                                <td className="py-2 pr-4 text-right">{gain.quantity.toLocaleString('pt-BR')}</td>
+                                <td className="py-2 pr-4 text-right">{formatCurrency(gain.salePrice)}</td>
+                                <td className="py-2 pr-4 text-right">{formatCurrency(gain.averageCost)}</td>
+                                <td className="py-2 pr-4 text-right">{formatCurrency(gain.proceeds)}</td>
+                                <td className={`py-2 text-right ${getReturnColor(gain.gain)}`}>
+                                  {formatSignedCurrency(gain.gain)}
+                                  <p className="text-xs">{formatPercentage(gain.gainPercentage)}</p>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Conta Corrente */}
+          <Card className="lg:col-span-3">
+            <CardHeader>
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Wallet className="w-5 h-5" />
+                    Conta Corrente
+                  </CardTitle>
+                  <CardDescription>
+                    Saldo após aportes, resgates, compras e vendas de ativos
+                  </CardDescription>
+                </div>
+                <Can permission="reports:export">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="month"
+                      className="w-40"
+                      value={statementMonth}
+                      onChange={(e) => setStatementMonth(e.target.value)}
+                      aria-label="Mês do extrato"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleDownloadStatement}
+                      disabled={!statementMonth || downloadStatement.isPending}
+                    >
+                      <FileText className="w-4 h-4 mr-2" />
+                      {downloadStatement.isPending ? 'Gerando...' : 'Extrato PDF'}
+                    </Button>
+                  </div>
+                </Can>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {cashQuery.isLoading ? (
+                <p className="text-sm text-gray-500">Calculando saldo...</p>
+              ) : !cashQuery.data ? (
+                <p className="text-sm text-red-600">Não foi possível calcular o saldo do cliente.</p>
+              ) : (
+                <div className="space-y-6">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Saldo Disponível</label>
+                      <p className={`text-lg font-semibold ${getReturnColor(cashQuery.data.availableBalance)}`}>
+                        {formatBalance(cashQuery.data.availableBalance)}
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Resgates Pendentes</label>
+                      <p className="text-lg font-semibold text-gray-900">
+                        {formatBalance(cashQuery.data.pendingWithdrawals)}
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Disponível para Resgate</label>
+                      <p className="text-lg font-semibold text-gray-900">
+                        {formatBalance(getWithdrawableAmount(cashQuery.data))}
+                      </p>
+                      {!!cashQuery.data.overdraftLimit && (
+                        <p className="text-xs text-gray-500">
+                          Inclui limite de {formatCurrency(cashQuery.data.overdraftLimit)}
+                        </p>
+                      )}
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Último Lançamento</label>
+                      <p className="text-lg font-semibold text-gray-900">
+                        {cashQuery.data.entries.length > 0
+                          ? cashEntryLabels[cashQuery.data.entries[cashQuery.data.entries.length - 1].kind]
+                          : '-'}
+                      </p>
+                    </div>
+                  </div>
+
+                  <BalanceChart entries={cashQuery.data.entries} />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Desempenho */}
+          <Card className="lg:col-span-3">
+            <CardHeader>
+              <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Calendar className="w-5 h-5" />
+                    Desempenho
+                  </CardTitle>
+                  <CardDescription>
+                    Rentabilidade ponderada pelo tempo (TWR) e pelo capital (TIR), descontando aportes e resgates
+                  </CardDescription>
+                </div>
+                <Select value={performancePeriod} onValueChange={(value) => setPerformancePeriod(value as PerformancePeriod)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(performancePeriodLabels) as PerformancePeriod[]).map(period => (
+                      <SelectItem key={period} value={period}>
+                        {performancePeriodLabels[period]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoadingPerformance ? (
+                <p className="text-sm text-gray-500">Calculando desempenho...</p>
+              ) : !performance ? (
+                <p className="text-sm text-red-600">Não foi possível calcular o desempenho do cliente.</p>
+              ) : performance.series.length === 0 ? (
+                <p className="text-sm text-gray-500">Sem operações para calcular o desempenho.</p>
+              ) : (
+                <div className="space-y-6">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Rentabilidade (TWR)</label>
+                      <p className={`text-lg font-semibold ${getReturnColor(performance.totalReturnPercentage)}`}>
+                        {formatPercentage(performance.totalReturnPercentage)}
+                      </p>
+                      <p className="text-xs text-gray-500">CDI no período: {formatPercentage(performance.cdiReturn)}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">TIR (MWR) a.a.</label>
+                      <p className={`text-lg font-semibold ${getReturnColor(performance.moneyWeightedReturn ?? 0)}`}>
+                        {performance.moneyWeightedReturn !== null ? formatPercentage(performance.moneyWeightedReturn) : '-'}
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Resultado</label>
+                      <p className={`text-lg font-semibold ${getReturnColor(performance.totalReturn)}`}>
+                        {formatSignedCurrency(performance.totalReturn)}
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Volatilidade a.a.</label>
+                      <p className="text-lg font-semibold text-gray-900">{formatPercentage(performance.volatility)}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Sharpe</label>
+                      <p className="text-lg font-semibold text-gray-900">{performance.sharpeRatio.toFixed(2)}</p>
+                      <p className="text-xs text-gray-500">CDI {formatPercentage(performance.cdiRate * 100)} a.a.</p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Drawdown Máximo</label>
+                      <p className={`text-lg font-semibold ${getReturnColor(performance.maxDrawdown)}`}>
+                        {formatPercentage(performance.maxDrawdown)}
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Melhor Mês</label>
+                      <p className={`text-lg font-semibold ${getReturnColor(performance.bestMonth)}`}>
+                        {formatPercentage(performance.bestMonth)}
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Pior Mês</label>
+                      <p className={`text-lg font-semibold ${getReturnColor(performance.worstMonth)}`}>
+                        {formatPercentage(performance.worstMonth)}
+                      </p>
+                    </div>
+                  </div>
+
+                  {/* Rentabilidade mês a mês (últimos 12) */}
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-500">Rentabilidade Mensal</label>
+                    <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                      {performance.monthlyReturns.slice(-12).map(month => (
+                        <div key={month.period} className="rounded-md border p-2 text-center">
+                          <p className="text-xs text-gray-500">{month.period.split('-').reverse().join('/')}</p>
+                          <p className={`text-sm font-medium ${getReturnColor(month.return)}`}>
+                            {formatPercentage(month.return)}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Valores diários estimados a partir dos preços das operações e da cotação atual de cada ativo.
+                    </p>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Observações e Tags */}
           {(client.notes || (client.tags && client.tags.length > 0)) && (
             <Card className="lg:col-span-3">
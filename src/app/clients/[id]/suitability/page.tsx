@@ -0,0 +1,235 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { useRequirePermission } from '../../../../hooks/useAuth';
+import { AuthLoadingScreen } from '@/components/ui/loading';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, ClipboardCheck, History } from 'lucide-react';
+import { useClient, useSubmitSuitability, useSuitabilityAssessments } from '../../../../hooks/useClients';
+import { useFeatureSupported } from '../../../../hooks/useBackendFeatures';
+import { FeatureUnavailableNotice } from '../../../../components/FeatureUnavailableNotice';
+import { getErrorMessage } from '../../../../lib/errors';
+import { SUITABILITY_VALIDITY_MONTHS } from '../../../../lib/config';
+import {
+  getSuitabilityStatus,
+  getUnansweredQuestions,
+  riskProfileLabels,
+  scoreSuitability,
+  suitabilityQuestions,
+} from '../../../../lib/suitability';
+
+interface ClientSuitabilityPageProps {
+  params: {
+    id: string;
+  };
+}
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' }).format(new Date(date));
+
+/**
+ * Questionário de suitability (API): a pontuação define o perfil de investimento do cliente,
+ * que vale por tempo limitado e precisa ser renovado
+ */
+export default function ClientSuitabilityPage({ params }: ClientSuitabilityPageProps) {
+  const router = useRouter();
+  const { isLoading: authLoading } = useRequirePermission('clients:update');
+  const clientQuery = useClient(params.id, { enabled: !authLoading });
+  const assessmentsQuery = useSuitabilityAssessments(params.id, { enabled: !authLoading });
+  const submitSuitability = useSubmitSuitability();
+  const isSupported = useFeatureSupported('suitability');
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const client = clientQuery.data;
+  const assessments = assessmentsQuery.data ?? [];
+  const status = getSuitabilityStatus(assessments);
+  const isComplete = getUnansweredQuestions(answers).length === 0;
+  const preview = isComplete ? scoreSuitability(answers) : null;
+  const today = new Date();
+
+  const handleAnswer = (questionId: string, optionId: string) => {
+    setAnswers(prev => ({ ...prev, [questionId]: optionId }));
+    setErrors(prev => {
+      const next = { ...prev };
+      delete next[questionId];
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const unanswered = getUnansweredQuestions(answers);
+    if (unanswered.length > 0) {
+      setErrors(Object.fromEntries(unanswered.map(question => [question.id, 'Selecione uma opção'])));
+      toast.error('Responda todas as perguntas do questionário');
+      return;
+    }
+
+    try {
+      const assessment = await submitSuitability.mutateAsync({ clientId: params.id, answers });
+      toast.success(`Perfil ${riskProfileLabels[assessment.profile].toLowerCase()} registrado`);
+      router.push(`/clients/${params.id}`);
+    } catch (error) {
+      console.error('Erro ao registrar questionário:', error);
+      toast.error(getErrorMessage(error, 'Erro ao registrar questionário. Tente novamente.'));
+    }
+  };
+
+  if (authLoading || clientQuery.isLoading) {
+    return <AuthLoadingScreen text="Carregando cliente..." />;
+  }
+
+  if (!client) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+          <Card>
+            <CardContent className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Cliente não encontrado</h3>
+              <Link href="/clients">
+                <Button variant="outline">Voltar para clientes</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8 space-y-6">
+        <div className="flex items-center gap-4">
+          <Link href={`/clients/${params.id}`}>
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Voltar
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Suitability</h1>
+            <p className="text-gray-600 mt-1">
+              {client.name}
+              {status.latest && (
+                <>
+                  {' · '}perfil {riskProfileLabels[status.latest.profile].toLowerCase()}
+                  {status.state === 'expired'
+                    ? `, vencido em ${formatDate(status.latest.expiresAt)}`
+                    : `, válido até ${formatDate(status.latest.expiresAt)}`}
+                </>
+              )}
+              {status.state === 'missing' && ' · ainda não avaliado'}
+            </p>
+          </div>
+        </div>
+
+        {isSupported ? (
+          <form onSubmit={handleSubmit}>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <ClipboardCheck className="w-5 h-5 mr-2" />
+                  Questionário de Perfil do Investidor
+                </CardTitle>
+                <CardDescription>
+                  O perfil apurado substitui o atual e vale por {SUITABILITY_VALIDITY_MONTHS} meses
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {suitabilityQuestions.map((question, index) => (
+                  <fieldset key={question.id} className="space-y-2">
+                    <legend className="text-sm font-medium text-gray-900">
+                      {index + 1}. {question.text}
+                    </legend>
+                    <div className="space-y-1">
+                      {question.options.map(option => (
+                        <label key={option.id} className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="radio"
+                            name={question.id}
+                            value={option.id}
+                            checked={answers[question.id] === option.id}
+                            onChange={() => handleAnswer(question.id, option.id)}
+                          />
+                          {option.label}
+                        </label>
+                      ))}
+                    </div>
+                    {errors[question.id] && <p className="text-sm text-red-600">{errors[question.id]}</p>}
+                  </fieldset>
+                ))}
+
+                <div className="flex items-center justify-between border-t pt-4">
+                  <p className="text-sm text-gray-600">
+                    {preview
+                      ? `Pontuação ${preview.score} · perfil ${riskProfileLabels[preview.profile].toLowerCase()} · tolerância a risco ${preview.riskTolerance}/10`
+                      : `${suitabilityQuestions.length - getUnansweredQuestions(answers).length} de ${suitabilityQuestions.length} perguntas respondidas`}
+                  </p>
+                  <Button type="submit" disabled={submitSuitability.isPending}>
+                    {submitSuitability.isPending ? 'Salvando...' : 'Registrar Perfil'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </form>
+        ) : (
+          <FeatureUnavailableNotice feature="suitability" />
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <History className="w-5 h-5 mr-2" />
+              Histórico
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {assessmentsQuery.isLoading ? (
+              <p className="text-sm text-gray-500">Carregando histórico...</p>
+            ) : assessments.length === 0 ? (
+              <p className="text-sm text-gray-500">Nenhum questionário respondido.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-500">
+                      <th className="py-2 pr-4 font-medium">Data</th>
+                      <th className="py-2 pr-4 font-medium">Perfil</th>
+                      <th className="py-2 pr-4 font-medium text-right">Pontuação</th>
+                      <th className="py-2 pr-4 font-medium">Responsável</th>
+                      <th className="py-2 font-medium">Validade</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {assessments.map(assessment => (
+                      <tr key={assessment.id} className="border-b">
+                        <td className="py-2 pr-4">
+                          {new Intl.DateTimeFormat('pt-BR', { dateStyle: 'short', timeStyle: 'short' }).format(assessment.completedAt)}
+                        </td>
+                        <td className="py-2 pr-4 font-medium text-gray-900">{riskProfileLabels[assessment.profile]}</td>
+                        <td className="py-2 pr-4 text-right">{assessment.score}</td>
+                        <td className="py-2 pr-4">{assessment.completedBy || '-'}</td>
+                        <td className="py-2">
+                          <span className="flex items-center gap-2">
+                            {formatDate(assessment.expiresAt)}
+                            {assessment.expiresAt <= today && <Badge variant="destructive">Vencido</Badge>}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRequireAuth } from '../../../../hooks/useAuth';
+import { AuthLoadingScreen } from '@/components/ui/loading';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, Download, Receipt } from 'lucide-react';
+import { clientService } from '../../../../services/adaptedClientService';
+import { allocationService } from '../../../../services/adaptedAllocationService';
+import { saleService } from '../../../../services/adaptedSaleService';
+import { assetService } from '../../../../services/adaptedAssetService';
+import { corporateActionService } from '../../../../services/adaptedCorporateActionService';
+import {
+  buildYearlyTaxReport,
+  taxCategoryLabels,
+  DARF_CODE,
+  STOCK_SALES_EXEMPTION_LIMIT,
+  type TaxCategory,
+} from '../../../../lib/portfolio/tax';
+import { exportTaxReportData } from '../../../../utils/exportUtils';
+import { Can } from '../../../../components/Can';
+import type { Client } from '../../../../types/client';
+import type { Asset } from '../../../../types/investment';
+import type { Allocation, CorporateAction, Sale } from '../../../../types/allocation';
+
+interface ClientTaxPageProps {
+  params: {
+    id: string;
+  };
+}
+
+const MONTH_NAMES = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
+
+export default function ClientTaxPage({ params }: ClientTaxPageProps) {
+  const { isLoading: authLoading } = useRequireAuth();
+  const [client, setClient] = useState<Client | null>(null);
+  const [allocations, setAllocations] = useState<Allocation[]>([]);
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>([]);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const clientId = parseInt(params.id);
+        const [clientData, allocationsData, salesData, assetsData, actionsData] = await Promise.all([
+          clientService.getClient(params.id),
+          allocationService.getAllocationsByClient(clientId),
+          saleService.getSalesByClient(clientId),
+          assetService.getAssets(),
+          corporateActionService.getCorporateActions(),
+        ]);
+        setClient(clientData);
+        setAllocations(allocationsData);
+        setSales(salesData);
+        setAssets(assetsData);
+        setCorporateActions(actionsData);
+      } catch (err) {
+        console.error('Erro ao carregar dados de IR:', err);
+        setError('Erro ao carregar dados do cliente');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (!authLoading) {
+      loadData();
+    }
+  }, [params.id, authLoading]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const formatMonth = (month: string) => {
+    const [monthYear, monthNumber] = month.split('-');
+    return `${MONTH_NAMES[Number(monthNumber) - 1]}/${monthYear}`;
+  };
+
+  const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+  const getResultColor = (value: number) => {
+    if (value > 0) return 'text-green-600';
+    if (value < 0) return 'text-red-600';
+    return 'text-gray-900';
+  };
+
+  if (authLoading || isLoading) {
+    return <AuthLoadingScreen text="Carregando apuração..." />;
+  }
+
+  if (error || !client) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-6xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+          <Card>
+            <CardContent className="text-center py-12">
+              <p className="text-red-600">{error || 'Cliente não encontrado'}</p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const report = buildYearlyTaxReport(allocations, sales, assets, year, corporateActions);
+  const activeMonths = report.months.filter(m =>
+    m.categories.some(c => c.salesTotal > 0) || m.darfDue > 0 || m.previousDeferred > 0
+  );
+
+  // Anos com vendas registradas, além do ano corrente
+  const years = Array.from(new Set([
+    new Date().getFullYear(),
+    ...sales.map(sale => Number(sale.sell_date.slice(0, 4))),
+  ])).sort((a, b) => b - a);
+
+  const handleExport = async (format: 'excel' | 'csv') => {
+    try {
+      await exportTaxReportData(report, format, `ir_${client.name.replace(/\s+/g, '_').toLowerCase()}_${year}`);
+    } catch (err) {
+      console.error('Erro ao exportar relatório de IR:', err);
+      alert('Erro ao exportar relatório de IR');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-6xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Link href={`/clients/${client.id}`}>
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Voltar
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Imposto de Renda</h1>
+              <p className="text-gray-600 mt-1">{client.name} - ganhos em renda variável</p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Select value={year.toString()} onValueChange={(value) => setYear(Number(value))}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {years.map(option => (
+                  <SelectItem key={option} value={option.toString()}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Can permission="reports:export">
+              <Button variant="outline" onClick={() => handleExport('excel')}>
+                <Download className="w-4 h-4 mr-2" />
+                Excel
+              </Button>
+              <Button variant="outline" onClick={() => handleExport('csv')}>
+                <Download className="w-4 h-4 mr-2" />
+                CSV
+              </Button>
+            </Can>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Resumo do ano */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm font-medium text-gray-500">Total Vendido</p>
+                <p className="text-2xl font-bold text-gray-900">{formatCurrency(report.totalSales)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm font-medium text-gray-500">Ganhos Isentos</p>
+                <p className="text-2xl font-bold text-green-600">{formatCurrency(report.totalExempt)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm font-medium text-gray-500">IR Devido</p>
+                <p className="text-2xl font-bold text-gray-900">{formatCurrency(report.totalTax)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm font-medium text-gray-500">DARFs ({DARF_CODE})</p>
+                <p className="text-2xl font-bold text-gray-900">{formatCurrency(report.totalDarf)}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Apuração mensal */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Receipt className="w-5 h-5" />
+                Apuração Mensal
+              </CardTitle>
+              <CardDescription>
+                Vendas de ações até {formatCurrency(STOCK_SALES_EXEMPTION_LIMIT)} no mês são isentas.
+                Prejuízos compensam apenas ganhos da mesma categoria.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {activeMonths.length === 0 ? (
+                <p className="text-sm text-gray-500">Nenhuma venda tributável em {year}.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-500">
+                        <th className="py-2 pr-4 font-medium">Mês</th>
+                        <th className="py-2 pr-4 font-medium">Categoria</th>
+                        <th className="py-2 pr-4 font-medium text-right">Vendas</th>
+                        <th className="py-2 pr-4 font-medium text-right">Resultado</th>
+                        <th className="py-2 pr-4 font-medium text-right">Prejuízo Compensado</th>
+                        <th className="py-2 pr-4 font-medium text-right">Base de Cálculo</th>
+                        <th className="py-2 font-medium text-right">Imposto</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {activeMonths.map(month => (
+                        <Fragment key={month.month}>
+                          {month.categories
+                            .filter(c => c.salesTotal > 0)
+                            .map((category, index) => (
+                              <tr key={`${month.month}-${category.category}`} className="border-b">
+                                <td className="py-2 pr-4 font-medium text-gray-900">
+                                  {index === 0 ? formatMonth(month.month) : ''}
+                                </td>
+                                <td className="py-2 pr-4">
+                                  {taxCategoryLabels[category.category]}
+                                  {category.exemptResult > 0 && (
+                                    <span className="ml-2 text-xs text-green-600">
+                                      isento {formatCurrency(category.exemptResult)}
+                                    </span>
+                                  )}
+                                </td>
+                                <td className="py-2 pr-4 text-right">{formatCurrency(category.salesTotal)}</td>
+                                <td className={`py-2 pr-4 text-right ${getResultColor(category.result)}`}>
+                                  {formatCurrency(category.result)}
+                                </td>
+                                <td className="py-2 pr-4 text-right">{formatCurrency(category.lossCompensated)}</td>
+                                <td className="py-2 pr-4 text-right">{formatCurrency(category.taxableBase)}</td>
+                                <td className="py-2 text-right">
+                                  {formatCurrency(category.tax)}
+                                  <p className="text-xs text-gray-500">{(category.rate * 100).toFixed(0)}%</p>
+                                </td>
+                              </tr>
+                            ))}
+                          <tr className="border-b bg-gray-50">
+                            <td className="py-2 pr-4" />
+                            <td className="py-2 pr-4 font-medium text-gray-700" colSpan={5}>
+                              DARF {DARF_CODE}
+                              {month.withholding > 0 && ` (IRRF compensado ${formatCurrency(month.withholding)})`}
+                              {month.deferred > 0 && ` - abaixo de R$ 10,00, somado ao mês seguinte`}
+                              {month.dueDate && ` - vencimento ${formatDate(month.dueDate)}`}
+                            </td>
+                            <td className="py-2 text-right font-semibold text-gray-900">
+                              {formatCurrency(month.darfDue)}
+                            </td>
+                          </tr>
+                        </Fragment>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Prejuízos a compensar */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Prejuízos a Compensar</CardTitle>
+              <CardDescription>Saldo ao final de {year}, levado para os anos seguintes</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {(Object.keys(report.lossCarryForward) as TaxCategory[]).map(category => (
+                  <div key={category}>
+                    <label className="text-sm font-medium text-gray-500">{taxCategoryLabels[category]}</label>
+                    <p className="text-lg font-semibold text-gray-900">
+                      {formatCurrency(report.lossCarryForward[category])}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,26 +1,28 @@
 'use client';
 
-import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import Link from 'next/link';
 import { ArrowLeft, Save, Loader2 } from 'lucide-react';
 
-import { useRequireAuth } from '../../../hooks/useAuth';
+import { useRequirePermission } from '../../../hooks/useAuth';
 import { AuthLoadingScreen } from '@/components/ui/loading';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { quickClientSchema, type QuickClientFormData, formatCPF, formatPhone } from '../../../schemas/client';
-import { clientService } from '../../../services/adaptedClientService';
+import { useCreateClient } from '../../../hooks/useClients';
 import type { Client } from '../../../types/client';
 import { toast } from 'sonner';
+import { getErrorMessage } from '../../../lib/errors';
+import { applyFieldErrors } from '../../../lib/formErrors';
 
 export default function NewClientPage() {
-  const { isLoading: authLoading } = useRequireAuth();
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { isLoading: authLoading } = useRequirePermission('clients:create');
+  const createClient = useCreateClient();
+  const isSubmitting = createClient.isPending;
   const router = useRouter();
 
   const form = useForm<QuickClientFormData>({
@@ -30,14 +32,11 @@ export default function NewClientPage() {
       cpf: '',
       email: '',
       phone: '',
-      investmentProfile: 'not_defined',
     },
   });
 
   const onSubmit = async (data: QuickClientFormData) => {
     try {
-      setIsSubmitting(true);
-      
       // Convert form data to Client format
       const clientData: Omit<Client, 'id' | 'createdAt' | 'updatedAt'> = {
         name: data.name,
@@ -70,16 +69,17 @@ export default function NewClientPage() {
         tags: [],
       };
       
-      const createdClient = await clientService.createClient(clientData);
+      const created = await createClient.mutateAsync(clientData);
       
       toast.success('Cliente cadastrado com sucesso!');
-      router.push('/clients');
+      // O perfil só é definido pelo questionário, respondido em seguida
+      router.push(`/clients/${created.id}/suitability`);
       
     } catch (error) {
       console.error('Erro ao cadastrar cliente:', error);
-      toast.error('Erro ao cadastrar cliente. Tente novamente.');
-    } finally {
-      setIsSubmitting(false);
+      if (!applyFieldErrors(error, form.setError)) {
+        toast.error(getErrorMessage(error, 'Erro ao cadastrar cliente. Tente novamente.'));
+      }
     }
   };
 
@@ -215,28 +215,9 @@ export default function NewClientPage() {
                 />
 
                 {/* Perfil de Investimento */}
-                <FormField
-                  control={form.control}
-                  name="investmentProfile"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Perfil de Investimento *</FormLabel>
-                      <FormControl>
-                        <select
-                          {...field}
-                          className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                          disabled={isSubmitting}
-                        >
-                          <option value="not_defined">Não definido</option>
-                          <option value="conservative">Conservador</option>
-                          <option value="moderate">Moderado</option>
-                          <option value="aggressive">Arrojado</option>
-                        </select>
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                <div className="rounded-md bg-gray-50 p-3 text-sm text-gray-600">
+                  O perfil de investimento é definido pelo questionário de suitability, aplicado logo após o cadastro.
+                </div>
 
                 {/* Actions */}
                 <div className="flex justify-end space-x-4 pt-6 border-t">
@@ -1,12 +1,21 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import { useRequireAuth } from '../../hooks/useAuth';
 import { AuthLoadingScreen } from '@/components/ui/loading';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Badge } from '../../components/ui/badge';
 import { 
   Plus, 
@@ -20,151 +29,157 @@ import {
   UserX,
   Download,
   FileText,
-  Table
+  Table,
+  ArrowUp,
+  ArrowDown,
+  ChevronLeft,
+  ChevronRight,
+  Upload,
+  FileArchive,
+  FolderOpen
 } from 'lucide-react';
-import { clientService } from '../../services/adaptedClientService';
-import { clientInvestmentService } from '../../services/clientInvestmentService';
+import {
+  useClients,
+  useClientInvestmentStats,
+  useClientStats,
+  useDeleteClient,
+  useExportClientDossier,
+  useUpdateClient,
+} from '../../hooks/useClients';
 import { exportClientsData } from '../../utils/exportUtils';
-import type { Client, ClientStats, ClientInvestmentStats } from '../../types/client';
+import { AuthError, getErrorMessage } from '../../lib/errors';
+import { Can } from '../../components/Can';
+import { ClientImportWizard } from '../../components/clients/ClientImportWizard';
+import { MonthlyStatementsExport } from '../../components/clients/MonthlyStatementsExport';
+import type {
+  ClientFilters,
+  ClientInvestmentStats,
+  ClientSortOptions,
+  ClientStatus,
+  InvestmentProfile,
+} from '../../types/client';
 
-export default function ClientsPage() {
-  const { isLoading: authLoading } = useRequireAuth();
-  const [clients, setClients] = useState<Client[]>([]);
-  const [stats, setStats] = useState<ClientStats | null>(null);
-  const [clientInvestmentStats, setClientInvestmentStats] = useState<Map<string, ClientInvestmentStats>>(new Map());
-  const [isLoading, setIsLoading] = useState(true);
-  const [isLoadingInvestmentStats, setIsLoadingInvestmentStats] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
-  const [refreshTrigger, setRefreshTrigger] = useState(0);
-
-  // Force refresh function (can be called from other components)
-  const refreshClientList = () => {
-    setRefreshTrigger(prev => prev + 1);
+interface ClientsPageProps {
+  searchParams: Record<string, string | undefined>;
+}
+
+const PAGE_SIZES = [10, 25, 50];
+
+const sortFieldLabels: Record<ClientSortOptions['field'], string> = {
+  name: 'Nome',
+  createdAt: 'Cadastro',
+  lastContactDate: 'Último contato',
+  netWorth: 'Patrimônio',
+};
+
+const statusLabels: Record<ClientStatus, string> = {
+  active: 'Ativo',
+  inactive: 'Inativo',
+  prospect: 'Prospect',
+  suspended: 'Suspenso',
+};
+
+const profileLabels: Record<InvestmentProfile, string> = {
+  conservative: 'Conservador',
+  moderate: 'Moderado',
+  aggressive: 'Arrojado',
+  not_defined: 'Não definido',
+};
+
+// Estado da listagem (página, ordenação e filtros) lido da URL
+const parseListState = (searchParams: Record<string, string | undefined>) => {
+  const sortField = searchParams.sort as ClientSortOptions['field'] | undefined;
+  const limit = Number(searchParams.limit);
+
+  return {
+    page: Math.max(Number(searchParams.page) || 1, 1),
+    limit: PAGE_SIZES.includes(limit) ? limit : PAGE_SIZES[0],
+    sortBy: {
+      field: sortField && sortField in sortFieldLabels ? sortField : 'name',
+      direction: searchParams.direction === 'desc' ? 'desc' : 'asc',
+    } as ClientSortOptions,
+    filters: {
+      search: searchParams.search || undefined,
+      status: (searchParams.status || undefined) as ClientStatus | undefined,
+      investmentProfile: (searchParams.profile || undefined) as InvestmentProfile | undefined,
+      createdFrom: searchParams.created_from || undefined,
+      createdTo: searchParams.created_to || undefined,
+      tags: searchParams.tags ? searchParams.tags.split(',').filter(Boolean) : undefined,
+    } as ClientFilters,
   };
+};
 
-  // Listen for page visibility changes to refresh data
-  useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
-        refreshClientList();
-      }
-    };
+export default function ClientsPage({ searchParams }: ClientsPageProps) {
+  const { isLoading: authLoading } = useRequireAuth();
+  const router = useRouter();
+  const { page, limit, sortBy, filters } = parseListState(searchParams);
+  const [searchTerm, setSearchTerm] = useState(filters.search ?? '');
+  const [tagsInput, setTagsInput] = useState(filters.tags?.join(', ') ?? '');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isStatementsOpen, setIsStatementsOpen] = useState(false);
+  const [showAdvancedFilters, setShowAdvancedFilters] = useState(
+    Boolean(filters.status || filters.investmentProfile || filters.createdFrom || filters.createdTo || filters.tags)
+  );
 
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, []);
+  // Atualiza a URL; mudanças de filtro e ordenação voltam para a primeira página
+  const updateListState = useCallback((changes: Record<string, string | undefined>) => {
+    const params = new URLSearchParams();
+    Object.entries({ ...searchParams, page: undefined, ...changes }).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    const query = params.toString();
+    router.replace(query ? `/clients?${query}` : '/clients', { scroll: false });
+  }, [searchParams, router]);
 
   // Debounce search term
   useEffect(() => {
     const timer = setTimeout(() => {
-      setDebouncedSearchTerm(searchTerm);
+      if ((filters.search ?? '') !== searchTerm.trim()) {
+        updateListState({ search: searchTerm.trim() || undefined });
+      }
     }, 500); // 500ms delay
 
     return () => clearTimeout(timer);
-  }, [searchTerm]);
+  }, [searchTerm, filters.search, updateListState]);
 
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        setIsLoading(true);
-        setError(null);
-        
-        // Get paginated clients for display
-        const clientsData = await clientService.getClients(
-          { search: debouncedSearchTerm || undefined }, // Only send if not empty
-          { field: 'name', direction: 'asc' },
-          1,
-          10
-        );
-        
-        // Get all clients for accurate statistics (without search filter)
-        const allClientsData = debouncedSearchTerm ? clientsData : await clientService.getClients(
-          {}, // No filters to get all clients
-          { field: 'name', direction: 'asc' },
-          1,
-          1000 // Large number to get all clients
-        );
-        
-        // Verificar se os dados são válidos
-        if (clientsData && Array.isArray(clientsData.items)) {
-          setClients(clientsData.items);
-          
-          // Calculate real stats from all client data
-          const allClients = allClientsData?.items || [];
-          
-          // Load investment statistics for displayed clients
-          setIsLoadingInvestmentStats(true);
-          try {
-            const clientIds = clientsData.items.map(client => client.id);
-            const investmentStatsMap = await clientInvestmentService.getMultipleClientInvestmentStats(clientIds);
-            setClientInvestmentStats(investmentStatsMap);
-            
-            // Calculate basic client statistics (no need for global investment stats)
-            const total = allClients.length;
-            const active = allClients.filter(client => client.status === 'active').length;
-            const prospects = allClients.filter(client => client.status === 'prospect').length;
-            
-            const realStats: ClientStats = {
-              total: total,
-              active: active,
-              prospects: prospects,
-              totalInvestments: 0, // Not needed anymore
-              averagePortfolioValue: 0 // Not needed anymore
-            };
-            
-            setStats(realStats);
-          } catch (investmentError) {
-            console.error('Error loading investment statistics:', investmentError);
-            // Continue with basic stats even if investment stats fail
-            const total = allClients.length;
-            const active = allClients.filter(client => client.status === 'active').length;
-            const prospects = allClients.filter(client => client.status === 'prospect').length;
-            
-            const basicStats: ClientStats = {
-              total: total,
-              active: active,
-              prospects: prospects,
-              totalInvestments: 0,
-              averagePortfolioValue: 0
-            };
-            
-            setStats(basicStats);
-          } finally {
-            setIsLoadingInvestmentStats(false);
-          }
-        } else {
-          // Se não temos dados válidos, usar dados mock
-          setClients([]);
-          setStats(null);
-        }
-      } catch (error) {
-        // Garantir que clients seja sempre um array
-        setClients([]);
-        setStats(null);
-        
-        // Definir mensagem de erro baseada no tipo
-        if (error instanceof Error) {
-          if (error.message.includes('403') || error.message.includes('Forbidden')) {
-            setError('Acesso negado. Verifique se você está logado corretamente.');
-          } else if (error.message.includes('401') || error.message.includes('Unauthorized')) {
-            setError('Sessão expirada. Faça login novamente.');
-          } else {
-            setError(`Erro ao carregar clientes: ${error.message}`);
-          }
-        } else {
-          setError('Erro desconhecido ao carregar clientes');
-        }
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const clientsQuery = useClients({ filters, sortBy, page, limit }, { enabled: !authLoading });
+  const { data: stats } = useClientStats({ enabled: !authLoading });
 
-    if (!authLoading) {
-      loadData();
-    }
-  }, [authLoading, debouncedSearchTerm, refreshTrigger]); // React to debounced search and refresh trigger
+  const clients = clientsQuery.data?.items ?? [];
+  const total = clientsQuery.data?.total ?? 0;
+  const totalPages = clientsQuery.data?.totalPages ?? 1;
+  const clientIds = clients.map(client => client.id);
+  const investmentStatsQuery = useClientInvestmentStats(clientIds, { enabled: clientIds.length > 0 });
+  const clientInvestmentStats = investmentStatsQuery.data ?? new Map<string, ClientInvestmentStats>();
+  const isLoadingInvestmentStats = investmentStatsQuery.isLoading;
+  const isLoading = clientsQuery.isLoading;
+
+  const deleteClient = useDeleteClient();
+  const updateClient = useUpdateClient();
+  const exportDossier = useExportClientDossier();
+
+  let error: string | null = null;
+  if (clientsQuery.error) {
+    error = clientsQuery.error instanceof AuthError
+      ? getErrorMessage(clientsQuery.error)
+      : `Erro ao carregar clientes: ${getErrorMessage(clientsQuery.error, 'erro desconhecido')}`;
+  }
+
+  const handleSort = (field: ClientSortOptions['field']) => {
+    const direction = sortBy.field === field && sortBy.direction === 'asc' ? 'desc' : 'asc';
+    updateListState({ sort: field, direction });
+  };
+
+  const handleTagsApply = () => {
+    const tags = tagsInput.split(',').map(tag => tag.trim()).filter(Boolean);
+    updateListState({ tags: tags.length > 0 ? tags.join(',') : undefined });
+  };
+
+  const handleClearFilters = () => {
+    setSearchTerm('');
+    setTagsInput('');
+    router.replace('/clients', { scroll: false });
+  };
 
   const getStatusBadge = (status: string) => {
     const variants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
@@ -223,12 +238,7 @@ export default function ClientsPage() {
     }
 
     try {
-      await clientService.deleteClient(clientId);
-      
-      // Refresh the client list
-      refreshClientList();
-      
-      // Show success message (you can add toast notification here)
+      await deleteClient.mutateAsync(clientId);
       alert('Cliente excluído com sucesso!');
     } catch (error) {
       console.error('Erro ao excluir cliente:', error);
@@ -245,12 +255,7 @@ export default function ClientsPage() {
     }
 
     try {
-      await clientService.updateClient(clientId, { status: newStatus as any });
-      
-      // Refresh the client list
-      refreshClientList();
-      
-      // Show success message
+      await updateClient.mutateAsync({ id: clientId, data: { status: newStatus } });
       alert(`Cliente ${newStatus === 'active' ? 'ativado' : 'desativado'} com sucesso!`);
     } catch (error) {
       console.error('Erro ao alterar status do cliente:', error);
@@ -258,18 +263,27 @@ export default function ClientsPage() {
     }
   };
 
-  const handleExportExcel = () => {
+  const handleExportExcel = async () => {
     try {
-      exportClientsData(clients, clientInvestmentStats, 'excel');
+      await exportClientsData(clients, clientInvestmentStats, 'excel');
     } catch (error) {
       console.error('Erro ao exportar Excel:', error);
       alert('Erro ao exportar dados para Excel. Tente novamente.');
     }
   };
 
-  const handleExportCSV = () => {
+  const handleExportDossier = async () => {
+    try {
+      await exportDossier.mutateAsync({ clients });
+    } catch (error) {
+      console.error('Erro ao exportar dossiê:', error);
+      alert('Erro ao exportar dossiê dos clientes. Tente novamente.');
+    }
+  };
+
+  const handleExportCSV = async () => {
     try {
-      exportClientsData(clients, clientInvestmentStats, 'csv');
+      await exportClientsData(clients, clientInvestmentStats, 'csv');
     } catch (error) {
       console.error('Erro ao exportar CSV:', error);
       alert('Erro ao exportar dados para CSV. Tente novamente.');
@@ -294,15 +308,32 @@ export default function ClientsPage() {
                 Cadastre e gerencie seus clientes e suas informações
               </p>
             </div>
-            <Link href="/clients/new">
-              <Button className="flex items-center space-x-2">
-                <Plus className="w-4 h-4" />
-                <span>Novo Cliente</span>
-              </Button>
-            </Link>
+            <div className="flex space-x-2">
+              <Can permission="reports:export">
+                <Button variant="outline" className="flex items-center space-x-2" onClick={() => setIsStatementsOpen(true)}>
+                  <FileArchive className="w-4 h-4" />
+                  <span>Extratos</span>
+                </Button>
+              </Can>
+              <Can permission="clients:create">
+                <Button variant="outline" className="flex items-center space-x-2" onClick={() => setIsImportOpen(true)}>
+                  <Upload className="w-4 h-4" />
+                  <span>Importar</span>
+                </Button>
+                <Link href="/clients/new">
+                  <Button className="flex items-center space-x-2">
+                    <Plus className="w-4 h-4" />
+                    <span>Novo Cliente</span>
+                  </Button>
+                </Link>
+              </Can>
+            </div>
           </div>
         </div>
 
+        {isStatementsOpen && <MonthlyStatementsExport onClose={() => setIsStatementsOpen(false)} />}
+        {isImportOpen && <ClientImportWizard onClose={() => setIsImportOpen(false)} />}
+
         {/* Stats Card */}
         {stats && (
           <div className="flex justify-center mb-8">
@@ -318,7 +349,7 @@ export default function ClientsPage() {
                   <span>•</span>
                   <span>{stats.prospects} prospects</span>
                   <span>•</span>
-                  <span>{stats.total - stats.active - stats.prospects} inativos</span>
+                  <span>{stats.inactive + stats.suspended} inativos</span>
                 </div>
               </CardContent>
             </Card>
@@ -344,7 +375,11 @@ export default function ClientsPage() {
                 </div>
               </div>
               <div className="flex gap-2">
-                <Button variant="outline" className="flex items-center space-x-2">
+                <Button
+                  variant={showAdvancedFilters ? 'secondary' : 'outline'}
+                  onClick={() => setShowAdvancedFilters(prev => !prev)}
+                  className="flex items-center space-x-2"
+                >
                   <Filter className="w-4 h-4" />
                   <span>Filtros Avançados</span>
                 </Button>
@@ -366,8 +401,91 @@ export default function ClientsPage() {
                   <FileText className="w-4 h-4" />
                   <span>CSV</span>
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleExportDossier}
+                  disabled={exportDossier.isPending || clients.length === 0}
+                  className="flex items-center space-x-2"
+                  title="Resumo, clientes, alocações e movimentações em abas do Excel"
+                >
+                  <FolderOpen className="w-4 h-4" />
+                  <span>{exportDossier.isPending ? 'Gerando...' : 'Dossiê'}</span>
+                </Button>
               </div>
             </div>
+
+            {showAdvancedFilters && (
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mt-4">
+                <div>
+                  <Label className="text-sm font-medium text-gray-700 mb-1 block">Status</Label>
+                  <Select
+                    value={filters.status ?? 'all'}
+                    onValueChange={(value) => updateListState({ status: value === 'all' ? undefined : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Todos</SelectItem>
+                      {(Object.keys(statusLabels) as ClientStatus[]).map(status => (
+                        <SelectItem key={status} value={status}>{statusLabels[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-sm font-medium text-gray-700 mb-1 block">Perfil</Label>
+                  <Select
+                    value={filters.investmentProfile ?? 'all'}
+                    onValueChange={(value) => updateListState({ profile: value === 'all' ? undefined : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Todos</SelectItem>
+                      {(Object.keys(profileLabels) as InvestmentProfile[]).map(profile => (
+                        <SelectItem key={profile} value={profile}>{profileLabels[profile]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="tags" className="text-sm font-medium text-gray-700 mb-1 block">Tags</Label>
+                  <Input
+                    id="tags"
+                    placeholder="vip, indicação"
+                    value={tagsInput}
+                    onChange={(e) => setTagsInput(e.target.value)}
+                    onBlur={handleTagsApply}
+                    onKeyDown={(e) => e.key === 'Enter' && handleTagsApply()}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="createdFrom" className="text-sm font-medium text-gray-700 mb-1 block">Cadastro de</Label>
+                  <Input
+                    id="createdFrom"
+                    type="date"
+                    value={filters.createdFrom ?? ''}
+                    onChange={(e) => updateListState({ created_from: e.target.value || undefined })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="createdTo" className="text-sm font-medium text-gray-700 mb-1 block">Cadastro até</Label>
+                  <Input
+                    id="createdTo"
+                    type="date"
+                    value={filters.createdTo ?? ''}
+                    onChange={(e) => updateListState({ created_to: e.target.value || undefined })}
+                  />
+                </div>
+                <div className="md:col-span-5 flex justify-end">
+                  <Button variant="ghost" size="sm" onClick={handleClearFilters}>
+                    Limpar filtros
+                  </Button>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -385,7 +503,7 @@ export default function ClientsPage() {
               </div>
               <div className="mt-2">
                 <button 
-                  onClick={() => window.location.reload()} 
+                  onClick={() => clientsQuery.refetch()} 
                   className="text-sm text-red-600 hover:text-red-800 underline"
                 >
                   Tentar novamente
@@ -398,10 +516,31 @@ export default function ClientsPage() {
         {/* Client List */}
         <Card>
           <CardHeader>
-            <CardTitle>Lista de Clientes</CardTitle>
-            <CardDescription>
-              {(clients || []).length} cliente{(clients || []).length !== 1 ? 's' : ''} encontrado{(clients || []).length !== 1 ? 's' : ''}
-            </CardDescription>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <CardTitle>Lista de Clientes</CardTitle>
+                <CardDescription>
+                  {total} cliente{total !== 1 ? 's' : ''} encontrado{total !== 1 ? 's' : ''}
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap items-center gap-1 text-sm">
+                <span className="text-gray-500 mr-1">Ordenar por:</span>
+                {(Object.keys(sortFieldLabels) as ClientSortOptions['field'][]).map(field => (
+                  <Button
+                    key={field}
+                    variant={sortBy.field === field ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => handleSort(field)}
+                    className="flex items-center space-x-1"
+                  >
+                    <span>{sortFieldLabels[field]}</span>
+                    {sortBy.field === field && (
+                      sortBy.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />
+                    )}
+                  </Button>
+                ))}
+              </div>
+            </div>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -469,29 +608,38 @@ export default function ClientsPage() {
                           <Eye className="w-4 h-4" />
                         </Button>
                       </Link>
-                      <Link href={`/clients/${client.id}/edit`}>
-                        <Button variant="outline" size="sm">
-                          <Edit className="w-4 h-4" />
+                      <Can permission="clients:update">
+                        <Link href={`/clients/${client.id}/edit`}>
+                          <Button variant="outline" size="sm">
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                        </Link>
+                      </Can>
+                      <Can permission="clients:update">
+                        {(allowed) => (
+                          <Button 
+                            variant="outline" 
+                            size="sm" 
+                            className={client.status === 'active' ? 'text-orange-600 hover:text-orange-700' : 'text-green-600 hover:text-green-700'}
+                            onClick={() => handleToggleClientStatus(client.id, client.name, client.status)}
+                            disabled={!allowed}
+                            title={!allowed ? 'Sem permissão para alterar o status' : client.status === 'active' ? 'Desativar cliente' : 'Ativar cliente'}
+                          >
+                            {client.status === 'active' ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
+                          </Button>
+                        )}
+                      </Can>
+                      <Can permission="clients:delete">
+                        <Button 
+                          variant="outline" 
+                          size="sm" 
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => handleDeleteClient(client.id, client.name)}
+                          title="Excluir cliente"
+                        >
+                          <Trash2 className="w-4 h-4" />
                         </Button>
-                      </Link>
-                      <Button 
-                        variant="outline" 
-                        size="sm" 
-                        className={client.status === 'active' ? 'text-orange-600 hover:text-orange-700' : 'text-green-600 hover:text-green-700'}
-                        onClick={() => handleToggleClientStatus(client.id, client.name, client.status)}
-                        title={client.status === 'active' ? 'Desativar cliente' : 'Ativar cliente'}
-                      >
-                        {client.status === 'active' ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
-                      </Button>
-                      <Button 
-                        variant="outline" 
-                        size="sm" 
-                        className="text-red-600 hover:text-red-700"
-                        onClick={() => handleDeleteClient(client.id, client.name)}
-                        title="Excluir cliente"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      </Can>
                     </div>
                   </div>
                 </div>
@@ -505,13 +653,60 @@ export default function ClientsPage() {
                 <p className="mt-1 text-sm text-gray-500">
                   Comece cadastrando seu primeiro cliente.
                 </p>
-                <div className="mt-6">
-                  <Link href="/clients/new">
-                    <Button>
-                      <Plus className="w-4 h-4 mr-2" />
-                      Novo Cliente
-                    </Button>
-                  </Link>
+                <Can permission="clients:create">
+                  <div className="mt-6">
+                    <Link href="/clients/new">
+                      <Button>
+                        <Plus className="w-4 h-4 mr-2" />
+                        Novo Cliente
+                      </Button>
+                    </Link>
+                  </div>
+                </Can>
+              </div>
+            )}
+
+            {/* Paginação */}
+            {total > 0 && (
+              <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mt-6 pt-4 border-t">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <span>Por página:</span>
+                  <Select
+                    value={limit.toString()}
+                    onValueChange={(value) => updateListState({ limit: value })}
+                  >
+                    <SelectTrigger className="w-20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAGE_SIZES.map(size => (
+                        <SelectItem key={size} value={size.toString()}>{size}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page <= 1}
+                    onClick={() => updateListState({ page: (page - 1).toString() })}
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                    Anterior
+                  </Button>
+                  <span className="text-sm text-gray-600">
+                    Página {page} de {totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page >= totalPages}
+                    onClick={() => updateListState({ page: (page + 1).toString() })}
+                  >
+                    Próxima
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
                 </div>
               </div>
             )}
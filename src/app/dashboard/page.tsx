@@ -1,26 +1,202 @@
 'use client';
 
+import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { ConnectionStatus } from '../../components/ConnectionStatus';
-import { LogOut, User, ArrowLeft } from 'lucide-react';
+import { FlowChart } from '../../components/dashboard/FlowChart';
+import {
+  LogOut,
+  User,
+  ArrowLeft,
+  ArrowDownCircle,
+  ArrowUpCircle,
+  DollarSign,
+  PieChart,
+  TrendingUp,
+  Users,
+} from 'lucide-react';
 import Link from 'next/link';
 import { useRequireAuth } from '../../hooks/useAuth';
 import { useAuth } from '../../contexts/AuthContext';
 import { AuthLoadingScreen } from '@/components/ui/loading';
+import { adaptedMovementService } from '../../services/adaptedMovementService';
+import { adaptedAllocationService } from '../../services/adaptedAllocationService';
+import { saleService } from '../../services/adaptedSaleService';
+import { assetService } from '../../services/adaptedAssetService';
+import { corporateActionService } from '../../services/adaptedCorporateActionService';
+import { marketIndexService } from '../../services/marketIndexService';
+import { storedPriceSource } from '../../services/priceHistoryService';
+import { getAllocationByType, valuePortfolio, type Position, type TypeAllocation } from '../../lib/portfolio/valuation';
+import { groupFlowsByMonth } from '../../lib/movements';
+import { formatPercentage } from '../../schemas/investment';
+import type { MovementSummary, MovementWithClient } from '../../services/adaptedMovementService';
+import type { AllocationSummary } from '../../types/allocation';
+
+type RangePreset = '30d' | '90d' | '12m' | 'ytd' | 'all' | 'custom';
+
+const rangePresetLabels: Record<RangePreset, string> = {
+  '30d': 'Últimos 30 dias',
+  '90d': 'Últimos 90 dias',
+  '12m': 'Últimos 12 meses',
+  ytd: 'No ano',
+  all: 'Todo o período',
+  custom: 'Personalizado',
+};
+
+const toISODate = (date: Date) => date.toISOString().slice(0, 10);
+
+const getPresetRange = (preset: RangePreset): { startDate: string; endDate: string } => {
+  const today = new Date();
+  const start = new Date(today);
+  switch (preset) {
+    case '30d':
+      start.setDate(start.getDate() - 30);
+      break;
+    case '90d':
+      start.setDate(start.getDate() - 90);
+      break;
+    case '12m':
+      start.setFullYear(start.getFullYear() - 1);
+      break;
+    case 'ytd':
+      return { startDate: `${today.getFullYear()}-01-01`, endDate: toISODate(today) };
+    default:
+      return { startDate: '', endDate: '' };
+  }
+  return { startDate: toISODate(start), endDate: toISODate(today) };
+};
 
 export default function DashboardPage() {
   const { user, isLoading } = useRequireAuth();
   const { logout } = useAuth();
+  const [preset, setPreset] = useState<RangePreset>('12m');
+  const [range, setRange] = useState(() => getPresetRange('12m'));
+  const [aum, setAum] = useState<{ currentValue: number; profitLoss: number; byType: TypeAllocation[] } | null>(null);
+  const [allocationSummary, setAllocationSummary] = useState<AllocationSummary | null>(null);
+  const [movementSummary, setMovementSummary] = useState<MovementSummary | null>(null);
+  const [movements, setMovements] = useState<MovementWithClient[]>([]);
+  const [isLoadingData, setIsLoadingData] = useState(true);
+
+  // Posição atual da carteira (não depende do período)
+  useEffect(() => {
+    const loadPortfolio = async () => {
+      try {
+        const [allocations, sales, assets, summary, corporateActions] = await Promise.all([
+          adaptedAllocationService.getAllocations(),
+          saleService.getSales(),
+          assetService.getAssets(),
+          adaptedAllocationService.getAllocationSummary(),
+          corporateActionService.getCorporateActions(),
+        ]);
+        const [prices, lotValuer] = await Promise.all([
+          storedPriceSource.getPrices(assets),
+          marketIndexService.getFixedIncomeValuer(assets),
+        ]);
+
+        // Cada cliente é avaliado com seus próprios lotes, já descontadas as vendas
+        const clientIds = Array.from(new Set(allocations.map(a => a.client_id)));
+        const valuations = clientIds.map(clientId =>
+          valuePortfolio(
+            allocations.filter(a => a.client_id === clientId),
+            assets,
+            prices,
+            { sales: sales.filter(s => s.client_id === clientId), lotValuer, corporateActions }
+          )
+        );
+        const positions: Position[] = valuations.flatMap(v => v.positions);
+
+        setAum({
+          currentValue: valuations.reduce((sum, v) => sum + v.currentValue, 0),
+          profitLoss: valuations.reduce((sum, v) => sum + v.profitLoss, 0),
+          byType: getAllocationByType(positions),
+        });
+        setAllocationSummary(summary);
+      } catch (error) {
+        console.error('Erro ao carregar carteira:', error);
+      }
+    };
+
+    if (!isLoading) {
+      loadPortfolio();
+    }
+  }, [isLoading]);
+
+  // Fluxos do período selecionado
+  useEffect(() => {
+    const loadFlows = async () => {
+      try {
+        setIsLoadingData(true);
+        const filters = {
+          ...(range.startDate && { start_date: range.startDate }),
+          ...(range.endDate && { end_date: range.endDate }),
+        };
+        const [movementsData, summaryData] = await Promise.all([
+          adaptedMovementService.getMovements(filters),
+          adaptedMovementService.getMovementsSummary(filters),
+        ]);
+        setMovements(movementsData);
+        setMovementSummary(summaryData);
+      } catch (error) {
+        console.error('Erro ao carregar movimentações:', error);
+      } finally {
+        setIsLoadingData(false);
+      }
+    };
+
+    if (!isLoading) {
+      loadFlows();
+    }
+  }, [isLoading, range]);
 
   const handleLogout = () => {
     logout();
   };
 
+  const handlePresetChange = (value: string) => {
+    const next = value as RangePreset;
+    setPreset(next);
+    if (next !== 'custom') {
+      setRange(getPresetRange(next));
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const formatDate = (date: string) => date.slice(0, 10).split('-').reverse().join('/');
+
   if (isLoading) {
     return <AuthLoadingScreen text="Carregando dashboard..." />;
   }
 
+  // Link para a lista de movimentações com o período (e filtros extras) aplicados
+  const movementsHref = (extra: Record<string, string> = {}) => {
+    const query = new URLSearchParams({
+      ...(range.startDate && { start_date: range.startDate }),
+      ...(range.endDate && { end_date: range.endDate }),
+      ...extra,
+    }).toString();
+    return query ? `/movements?${query}` : '/movements';
+  };
+
+  const monthlyFlows = groupFlowsByMonth(movements, range.startDate || undefined, range.endDate || undefined);
+  const recentMovements = [...movements].sort((a, b) => b.date.localeCompare(a.date)).slice(0, 8);
+  const topClients = allocationSummary?.by_client.slice(0, 5) ?? [];
+
   return (
     <div className="min-h-screen bg-gray-50">
       <header className="bg-white shadow-sm border-b">
@@ -59,12 +235,318 @@ export default function DashboardPage() {
             </Link>
             <ConnectionStatus />
           </div>
-          <h2 className="text-2xl font-bold text-gray-900">Dashboard</h2>
-          <p className="text-gray-600 mt-1">
-            Bem-vindo à sua plataforma de investimentos, {user?.email}!
-          </p>
+          <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Dashboard</h2>
+              <p className="text-gray-600 mt-1">
+                Visão geral da plataforma, {user?.email}
+              </p>
+            </div>
+
+            {/* Período */}
+            <div className="flex flex-wrap items-end gap-2">
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-1 block">Período</Label>
+                <Select value={preset} onValueChange={handlePresetChange}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(rangePresetLabels) as RangePreset[]).map(option => (
+                      <SelectItem key={option} value={option}>
+                        {rangePresetLabels[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {preset === 'custom' && (
+                <>
+                  <div>
+                    <Label htmlFor="startDate" className="text-sm font-medium text-gray-700 mb-1 block">De</Label>
+                    <Input
+                      id="startDate"
+                      type="date"
+                      value={range.startDate}
+                      onChange={(e) => setRange(prev => ({ ...prev, startDate: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="endDate" className="text-sm font-medium text-gray-700 mb-1 block">Até</Label>
+                    <Input
+                      id="endDate"
+                      type="date"
+                      value={range.endDate}
+                      onChange={(e) => setRange(prev => ({ ...prev, endDate: e.target.value }))}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* KPIs */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+          <Link href="/clients">
+            <Card className="h-full hover:shadow-md transition-shadow">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Patrimônio sob Gestão</CardTitle>
+                <DollarSign className="h-4 w-4 text-blue-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-gray-900">
+                  {aum ? formatCurrency(aum.currentValue) : '—'}
+                </div>
+                {aum && (
+                  <p className={`text-xs ${aum.profitLoss >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatCurrency(aum.profitLoss)} não realizado
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </Link>
+
+          <Link href={movementsHref()}>
+            <Card className="h-full hover:shadow-md transition-shadow">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Captação Líquida</CardTitle>
+                <TrendingUp className="h-4 w-4 text-blue-600" />
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${(movementSummary?.net_amount ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {movementSummary ? formatCurrency(movementSummary.net_amount) : '—'}
+                </div>
+                <p className="text-xs text-muted-foreground">{rangePresetLabels[preset]}</p>
+              </CardContent>
+            </Card>
+          </Link>
+
+          <Link href={movementsHref({ type: 'deposit' })}>
+            <Card className="h-full hover:shadow-md transition-shadow">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Depósitos</CardTitle>
+                <ArrowDownCircle className="h-4 w-4 text-green-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-green-600">
+                  {movementSummary ? formatCurrency(movementSummary.total_deposits) : '—'}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {movementSummary?.total_movements ?? 0} movimentações no período
+                </p>
+              </CardContent>
+            </Card>
+          </Link>
+
+          <Link href={movementsHref({ type: 'withdrawal' })}>
+            <Card className="h-full hover:shadow-md transition-shadow">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Saques</CardTitle>
+                <ArrowUpCircle className="h-4 w-4 text-red-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-red-600">
+                  {movementSummary ? formatCurrency(movementSummary.total_withdrawals) : '—'}
+                </div>
+                <p className="text-xs text-muted-foreground">{rangePresetLabels[preset]}</p>
+              </CardContent>
+            </Card>
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+          {/* Fluxo mensal */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Fluxo de Capital</CardTitle>
+              <CardDescription>Depósitos e saques por mês. Clique em um mês para ver as movimentações.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoadingData ? (
+                <p className="text-sm text-gray-500">Carregando...</p>
+              ) : (
+                <FlowChart data={monthlyFlows} />
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Distribuição por tipo de ativo */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <PieChart className="w-5 h-5" />
+                Por Tipo de Ativo
+              </CardTitle>
+              <CardDescription>Valor atual da carteira consolidada</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {!aum || aum.byType.length === 0 ? (
+                <p className="text-sm text-gray-500">Nenhuma posição em aberto.</p>
+              ) : (
+                aum.byType.map(item => (
+                  <Link key={item.type} href="/assets" className="block">
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-700">{item.label}</span>
+                      <span className="text-gray-900 font-medium">{formatPercentage(item.percentage, 1)}</span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded">
+                      <div className="h-2 bg-blue-500 rounded" style={{ width: `${item.percentage}%` }} />
+                    </div>
+                  </Link>
+                ))
+              )}
+            </CardContent>
+          </Card>
         </div>
 
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+          {/* Alocação por ativo */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Alocação por Ativo</CardTitle>
+              <CardDescription>
+                {allocationSummary
+                  ? `${allocationSummary.unique_assets} ativos, ${formatCurrency(allocationSummary.total_invested)} investidos`
+                  : 'Valor investido por ativo'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {allocationSummary?.by_asset.length ? (
+                allocationSummary.by_asset.slice(0, 8).map(item => (
+                  <Link
+                    key={item.id}
+                    href={`/assets/allocations?search=${encodeURIComponent(item.label)}`}
+                    className="block"
+                  >
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="font-medium text-gray-700">{item.label}</span>
+                      <span className="text-gray-900">{formatCurrency(item.total_invested)}</span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded">
+                      <div className="h-2 bg-green-500 rounded" style={{ width: `${item.percentage}%` }} />
+                    </div>
+                  </Link>
+                ))
+              ) : (
+                <p className="text-sm text-gray-500">Nenhuma alocação cadastrada.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Alocação por cliente */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Alocação por Cliente</CardTitle>
+              <CardDescription>
+                {allocationSummary
+                  ? `${allocationSummary.unique_clients} clientes com alocações`
+                  : 'Valor investido por cliente'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {allocationSummary?.by_client.length ? (
+                allocationSummary.by_client.slice(0, 8).map(item => (
+                  <Link key={item.id} href={`/assets/allocations?client_id=${item.id}`} className="block">
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-700">{item.label}</span>
+                      <span className="text-gray-900 font-medium">{formatPercentage(item.percentage, 1)}</span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded">
+                      <div className="h-2 bg-purple-500 rounded" style={{ width: `${item.percentage}%` }} />
+                    </div>
+                  </Link>
+                ))
+              ) : (
+                <p className="text-sm text-gray-500">Nenhuma alocação cadastrada.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Maiores clientes */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="w-5 h-5" />
+                Maiores Clientes
+              </CardTitle>
+              <CardDescription>Por valor investido</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {topClients.length === 0 ? (
+                <p className="text-sm text-gray-500">Nenhum cliente com alocações.</p>
+              ) : (
+                <ol className="space-y-2">
+                  {topClients.map((item, index) => (
+                    <li key={item.id}>
+                      <Link
+                        href={`/clients/${item.id}`}
+                        className="flex items-center justify-between text-sm hover:bg-gray-50 rounded px-2 py-1"
+                      >
+                        <span className="text-gray-700">
+                          <span className="text-gray-400 mr-2">{index + 1}.</span>
+                          {item.label}
+                        </span>
+                        <span className="font-medium text-gray-900">{formatCurrency(item.total_invested)}</span>
+                      </Link>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Movimentações recentes */}
+        <Card className="mb-8">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>Movimentações Recentes</CardTitle>
+              <CardDescription>{rangePresetLabels[preset]}</CardDescription>
+            </div>
+            <Link href={movementsHref()}>
+              <Button variant="outline" size="sm">Ver todas</Button>
+            </Link>
+          </CardHeader>
+          <CardContent>
+            {recentMovements.length === 0 ? (
+              <p className="text-sm text-gray-500">Nenhuma movimentação no período.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-500">
+                      <th className="py-2 pr-4 font-medium">Data</th>
+                      <th className="py-2 pr-4 font-medium">Cliente</th>
+                      <th className="py-2 pr-4 font-medium">Tipo</th>
+                      <th className="py-2 font-medium text-right">Valor</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {recentMovements.map(movement => (
+                      <tr key={movement.id} className="border-b">
+                        <td className="py-2 pr-4">{formatDate(movement.date)}</td>
+                        <td className="py-2 pr-4">
+                          <Link
+                            href={movementsHref({ client_id: movement.client_id.toString() })}
+                            className="text-blue-600 hover:underline"
+                          >
+                            {movement.client_name}
+                          </Link>
+                        </td>
+                        <td className="py-2 pr-4">{movement.type === 'deposit' ? 'Depósito' : 'Saque'}</td>
+                        <td className={`py-2 text-right font-medium ${movement.type === 'deposit' ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatCurrency(movement.amount)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <Card>
             <CardHeader>
@@ -130,17 +612,7 @@ export default function DashboardPage() {
             </CardContent>
           </Card>
         </div>
-
-        <div className="mt-8 p-4 bg-blue-50 rounded-lg border border-blue-200">
-          <h3 className="text-lg font-semibold text-blue-900 mb-2">
-            ✅ Sistema de autenticação implementado!
-          </h3>
-          <p className="text-blue-700">
-            Você está autenticado e pode navegar pelo sistema. O sistema agora conta com 
-            autenticação robusta, gerenciamento de estado global e proteção de rotas.
-          </p>
-        </div>
       </main>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import Link from 'next/link';
+import { useRequireAuth } from '../../../hooks/useAuth';
+import { AuthLoadingScreen } from '@/components/ui/loading';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, AlertTriangle, BarChart3, History } from 'lucide-react';
+import { useMovement } from '../../../hooks/useMovements';
+import { ApprovalActions, ApprovalStatusBadge } from '../../../components/movements/ApprovalActions';
+import { approvalActionLabels } from '../../../lib/approvals';
+import type { MovementApprovalEvent } from '../../../services/adaptedMovementService';
+
+interface MovementDetailPageProps {
+  params: {
+    id: string;
+  };
+}
+
+const eventStyles: Record<MovementApprovalEvent['action'], string> = {
+  submitted: 'bg-amber-500',
+  approved: 'bg-green-600',
+  rejected: 'bg-red-600',
+};
+
+export default function MovementDetailPage({ params }: MovementDetailPageProps) {
+  const { isLoading: authLoading } = useRequireAuth();
+  const { data: movement, isLoading, error } = useMovement(params.id, { enabled: !authLoading });
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  if (authLoading || isLoading) {
+    return <AuthLoadingScreen text="Carregando movimentação..." />;
+  }
+
+  if (error || !movement) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+          <div className="mb-8">
+            <Link href="/movements">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Voltar
+              </Button>
+            </Link>
+          </div>
+          <Card>
+            <CardContent className="text-center py-12">
+              <BarChart3 className="w-12 h-12 mx-auto text-red-600 mb-4" />
+              <h3 className="text-lg font-medium text-gray-900">Movimentação não encontrada</h3>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const history = movement.approval_history ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 flex items-center space-x-4">
+          <Link href="/movements">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </Link>
+          <div>
+            <div className="flex items-center space-x-2">
+              <h1 className="text-3xl font-bold text-gray-900">
+                {movement.type === 'deposit' ? 'Depósito' : 'Saque'} de {formatCurrency(movement.amount)}
+              </h1>
+              <ApprovalStatusBadge status={movement.status} />
+            </div>
+            <p className="mt-1 text-sm text-gray-600">Movimentação #{movement.id}</p>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Detalhes</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-600">
+                <div>
+                  <span className="font-medium">Cliente:</span>{' '}
+                  <Link href={`/clients/${movement.client_id}`} className="text-blue-600 hover:underline">
+                    {movement.client_name}
+                  </Link>
+                </div>
+                <div>
+                  <span className="font-medium">Data:</span> {new Date(movement.date).toLocaleDateString('pt-BR')}
+                </div>
+                {movement.bank_account && (
+                  <div>
+                    <span className="font-medium">Conta de destino:</span> {movement.bank_account}
+                  </div>
+                )}
+                {movement.created_by && (
+                  <div>
+                    <span className="font-medium">Criada por:</span> {movement.created_by}
+                  </div>
+                )}
+              </div>
+              {movement.note && (
+                <p className="text-sm text-gray-600">
+                  <span className="font-medium">Observação:</span> {movement.note}
+                </p>
+              )}
+              {movement.approval_reasons && movement.approval_reasons.length > 0 && (
+                <ul className="space-y-1">
+                  {movement.approval_reasons.map(reason => (
+                    <li key={reason} className="flex items-center text-sm text-amber-700">
+                      <AlertTriangle className="w-4 h-4 mr-2" />
+                      {reason}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <ApprovalActions movement={movement} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <History className="w-5 h-5" />
+                <span>Histórico de Aprovação</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {history.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Esta movimentação não precisou de aprovação.
+                </p>
+              ) : (
+                <ol className="space-y-4">
+                  {history.map((event, index) => (
+                    <li key={`${event.action}-${index}`} className="flex items-start space-x-3">
+                      <span className={`mt-1.5 h-2.5 w-2.5 rounded-full ${eventStyles[event.action]}`} />
+                      <div className="text-sm">
+                        <p className="font-medium text-gray-900">{approvalActionLabels[event.action]}</p>
+                        <p className="text-gray-500">
+                          {event.user || 'Usuário não identificado'} · {new Date(event.date).toLocaleString('pt-BR')}
+                        </p>
+                        {event.reason && (
+                          <p className="mt-1 text-gray-600">Motivo: {event.reason}</p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import Link from 'next/link';
+import { useRequirePermission } from '../../../hooks/useAuth';
+import { AuthLoadingScreen } from '@/components/ui/loading';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, ClipboardCheck, AlertTriangle } from 'lucide-react';
+import { useMovements } from '../../../hooks/useMovements';
+import { ApprovalActions } from '../../../components/movements/ApprovalActions';
+import { approvalRules } from '../../../lib/approvals';
+
+export default function MovementApprovalsPage() {
+  const { isLoading: authLoading } = useRequirePermission('movements:approve');
+  const { data: movements = [], isLoading } = useMovements(
+    { status: 'pending_approval' },
+    { enabled: !authLoading }
+  );
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  // Mais antigas primeiro: a fila é atendida por ordem de chegada
+  const queue = [...movements].sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+  const pendingTotal = queue.reduce((sum, movement) => sum + movement.amount, 0);
+
+  if (authLoading || isLoading) {
+    return <AuthLoadingScreen text="Carregando aprovações..." />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center space-x-4 mb-4">
+            <Link href="/movements">
+              <Button variant="outline" size="sm">
+                <ArrowLeft className="w-4 h-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Aprovações Pendentes</h1>
+              <p className="mt-1 text-sm text-gray-600">
+                {queue.length} movimentações aguardando revisão · {formatCurrency(pendingTotal)}
+              </p>
+            </div>
+          </div>
+          <p className="text-sm text-gray-500">
+            Exigem aprovação os saques acima de {formatCurrency(approvalRules.withdrawalThreshold)}
+            {approvalRules.newBankAccount && ' e os saques para contas bancárias ainda não usadas pelo cliente'}.
+            Quem registrou a movimentação não pode aprová-la.
+          </p>
+        </div>
+
+        {queue.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <ClipboardCheck className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">Nenhuma movimentação pendente</h3>
+              <p className="mt-1 text-sm text-gray-500">Todas as movimentações foram revisadas.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {queue.map(movement => (
+              <Card key={movement.id}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex items-center justify-between text-lg">
+                    <Link href={`/movements/${movement.id}`} className="hover:underline">
+                      {movement.type === 'deposit' ? 'Depósito' : 'Saque'} de {formatCurrency(movement.amount)}
+                    </Link>
+                    <span className="text-sm font-normal text-gray-500">
+                      {new Date(movement.date).toLocaleDateString('pt-BR')}
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm text-gray-600">
+                    <div>
+                      <span className="font-medium">Cliente:</span>{' '}
+                      <Link href={`/clients/${movement.client_id}`} className="text-blue-600 hover:underline">
+                        {movement.client_name}
+                      </Link>
+                    </div>
+                    <div>
+                      <span className="font-medium">Criada por:</span> {movement.created_by || '—'}
+                    </div>
+                    {movement.bank_account && (
+                      <div>
+                        <span className="font-medium">Conta:</span> {movement.bank_account}
+                      </div>
+                    )}
+                  </div>
+                  {movement.note && (
+                    <p className="text-sm text-gray-600">
+                      <span className="font-medium">Observação:</span> {movement.note}
+                    </p>
+                  )}
+                  {movement.approval_reasons && movement.approval_reasons.length > 0 && (
+                    <ul className="space-y-1">
+                      {movement.approval_reasons.map(reason => (
+                        <li key={reason} className="flex items-center text-sm text-amber-700">
+                          <AlertTriangle className="w-4 h-4 mr-2" />
+                          {reason}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <ApprovalActions movement={movement} />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { useRequireAuth } from '../../../hooks/useAuth';
+import { toast } from 'sonner';
+import { useRequirePermission } from '../../../hooks/useAuth';
 import { AuthLoadingScreen } from '@/components/ui/loading';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -23,48 +24,38 @@ import {
   User,
   AlertCircle
 } from 'lucide-react';
-import { adaptedMovementService } from '../../../services/adaptedMovementService';
-import { clientService } from '../../../services/adaptedClientService';
+import { useCreateMovement } from '../../../hooks/useMovements';
+import { useClientCashLedger, useClients } from '../../../hooks/useClients';
+import { approvalRules } from '../../../lib/approvals';
+import { getWithdrawableAmount } from '../../../lib/portfolio/cash';
+import { ValidationError } from '../../../lib/errors';
 import { 
   formatCurrency,
   parseCurrency
 } from '../../../schemas/movement';
-import type { Client } from '../../../types/client';
 import type { MovementType } from '../../../types/movement';
 
 export default function NewMovementPage() {
   const router = useRouter();
-  const { isLoading: authLoading } = useRequireAuth();
+  const { isLoading: authLoading } = useRequirePermission('movements:create');
   
-  const [clients, setClients] = useState<Client[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { data: clientsData, isLoading } = useClients({}, { enabled: !authLoading });
+  const createMovement = useCreateMovement();
+  const clients = clientsData?.items ?? [];
+  const isSubmitting = createMovement.isPending;
   const [formData, setFormData] = useState({
     clientId: '',
     type: 'deposit' as MovementType,
     amount: '',
     date: new Date().toISOString().split('T')[0], // Today's date
     notes: '',
+    bankAccount: '',
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
 
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        setIsLoading(true);
-        const clientsData = await clientService.getClients();
-        setClients(clientsData.items);
-      } catch (error) {
-        console.error('Erro ao carregar dados:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    if (!authLoading) {
-      loadData();
-    }
-  }, [authLoading]);
+  // Saldo do cliente selecionado, para barrar resgates acima do disponível
+  const cashQuery = useClientCashLedger(formData.clientId, { enabled: !authLoading && !!formData.clientId });
+  const withdrawable = cashQuery.data ? getWithdrawableAmount(cashQuery.data) : undefined;
 
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
@@ -75,6 +66,12 @@ export default function NewMovementPage() {
 
     if (!formData.amount || parseFloat(formData.amount) <= 0) {
       newErrors.amount = 'Valor deve ser maior que zero';
+    } else if (
+      formData.type === 'withdrawal' &&
+      withdrawable !== undefined &&
+      parseCurrency(formData.amount) > withdrawable
+    ) {
+      newErrors.amount = `Saldo insuficiente: disponível para resgate ${formatCurrency(withdrawable)}`;
     }
 
     if (!formData.date) {
@@ -92,8 +89,6 @@ export default function NewMovementPage() {
       return;
     }
 
-    setIsSubmitting(true);
-
     try {
       // Convert MovementType to backend-compatible type
       const convertedType = formData.type === 'deposit' || formData.type === 'withdrawal' 
@@ -108,17 +103,27 @@ export default function NewMovementPage() {
         amount: parseCurrency(formData.amount),
         date: formData.date,
         note: formData.notes,
+        ...(convertedType === 'withdrawal' && formData.bankAccount && { bank_account: formData.bankAccount }),
       };
 
-      await adaptedMovementService.createMovement(movementData);
+      const movement = await createMovement.mutateAsync(movementData);
+
+      // Saques que caem nas regras de aprovação ficam pendentes até a revisão de outro usuário
+      if (movement.status === 'pending_approval') {
+        toast.info('Movimentação enviada para aprovação', {
+          description: movement.approval_reasons?.join('; '),
+        });
+      }
 
       // Redirect to movements page with success message
       router.push('/movements?success=movement-created');
     } catch (error) {
       console.error('Erro ao criar movimentação:', error);
-      setErrors({ submit: 'Erro ao criar movimentação. Tente novamente.' });
-    } finally {
-      setIsSubmitting(false);
+      if (error instanceof ValidationError && Object.keys(error.fieldErrors).length > 0) {
+        setErrors(error.fieldErrors);
+      } else {
+        setErrors({ submit: 'Erro ao criar movimentação. Tente novamente.' });
+      }
     }
   };
 
@@ -234,6 +239,11 @@ export default function NewMovementPage() {
                       Valor: {formatCurrency(parseCurrency(formData.amount))}
                     </p>
                   )}
+                  {formData.type === 'withdrawal' && withdrawable !== undefined && (
+                    <p className="text-sm text-gray-500">
+                      Disponível para resgate: {formatCurrency(withdrawable)}
+                    </p>
+                  )}
                   {errors.amount && (
                     <p className="text-sm text-red-600">{errors.amount}</p>
                   )}
@@ -253,6 +263,23 @@ export default function NewMovementPage() {
                 </div>
               </div>
 
+              {formData.type === 'withdrawal' && (
+                <div className="mt-6 space-y-2">
+                  <Label htmlFor="bankAccount">Conta de destino (opcional)</Label>
+                  <Input
+                    id="bankAccount"
+                    placeholder="Banco, agência e conta"
+                    value={formData.bankAccount}
+                    onChange={(e) => setFormData(prev => ({ ...prev, bankAccount: e.target.value }))}
+                  />
+                  <p className="text-sm text-gray-500">
+                    Saques acima de {formatCurrency(approvalRules.withdrawalThreshold)}
+                    {approvalRules.newBankAccount && ' ou para contas ainda não usadas pelo cliente'} precisam
+                    ser aprovados por outro usuário.
+                  </p>
+                </div>
+              )}
+
               <div className="mt-6 space-y-2">
                 <Label htmlFor="notes">Observações (opcional)</Label>
                 <Textarea
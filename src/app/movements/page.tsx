@@ -1,8 +1,8 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import Link from 'next/link';
-import { useRequireAuth } from '../../hooks/useAuth';
+import { usePermissions, useRequireAuth } from '../../hooks/useAuth';
 import { AuthLoadingScreen } from '@/components/ui/loading';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -18,50 +18,53 @@ import {
   BarChart3,
   Calendar,
   Table,
-  FileText
+  FileText,
+  CalendarClock,
+  ClipboardCheck,
+  Upload
 } from 'lucide-react';
-import { adaptedMovementService } from '../../services/adaptedMovementService';
+import { useMovements, useMovementsSummary } from '../../hooks/useMovements';
 import { exportMovementsData } from '../../utils/exportUtils';
-import type { MovementWithClient, MovementSummary, MovementFilters } from '../../services/adaptedMovementService';
+import { Can } from '../../components/Can';
+import { ApprovalStatusBadge } from '../../components/movements/ApprovalActions';
+import { MovementImportWizard } from '../../components/movements/MovementImportWizard';
+import type { MovementFilters } from '../../services/adaptedMovementService';
 
-export default function MovementsPage() {
+interface MovementsPageProps {
+  searchParams: {
+    client_id?: string;
+    start_date?: string;
+    end_date?: string;
+    type?: string;
+  };
+}
+
+export default function MovementsPage({ searchParams }: MovementsPageProps) {
   const { isLoading: authLoading } = useRequireAuth();
-  const [movements, setMovements] = useState<MovementWithClient[]>([]);
-  const [summary, setSummary] = useState<MovementSummary | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filters, setFilters] = useState<MovementFilters>({});
-  const [startDate, setStartDate] = useState('');
-  const [endDate, setEndDate] = useState('');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  // Filtros iniciais vindos da URL (links do dashboard)
+  const [filters, setFilters] = useState<MovementFilters>(() => ({
+    ...(searchParams.client_id && { client_id: Number(searchParams.client_id) }),
+    ...(searchParams.type && { type: searchParams.type }),
+  }));
+  const [startDate, setStartDate] = useState(searchParams.start_date ?? '');
+  const [endDate, setEndDate] = useState(searchParams.end_date ?? '');
 
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        setIsLoading(true);
-        
-        // Prepare filters with date range
-        const dateFilters = { ...filters };
-        if (startDate) dateFilters.start_date = startDate;
-        if (endDate) dateFilters.end_date = endDate;
-        
-        const [movementsData, summaryData] = await Promise.all([
-          adaptedMovementService.getMovements(dateFilters),
-          adaptedMovementService.getMovementsSummary()
-        ]);
-        
-        setMovements(movementsData);
-        setSummary(summaryData);
-      } catch (error) {
-        console.error('Erro ao carregar movimentações:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  // Prepare filters with date range
+  const dateFilters = { ...filters };
+  if (startDate) dateFilters.start_date = startDate;
+  if (endDate) dateFilters.end_date = endDate;
 
-    if (!authLoading) {
-      loadData();
-    }
-  }, [authLoading, filters, startDate, endDate]);
+  const { data: movements = [], isLoading } = useMovements(dateFilters, { enabled: !authLoading });
+  const { data: summary } = useMovementsSummary(dateFilters, { enabled: !authLoading });
+  // Fila de aprovação independe dos filtros da listagem
+  const { hasPermission } = usePermissions();
+  const { data: pendingMovements = [] } = useMovements(
+    { status: 'pending_approval' },
+    { enabled: !authLoading && hasPermission('movements:approve') }
+  );
+  const pendingCount = pendingMovements.length;
 
   const formatCurrency = (value: number): string => {
     return new Intl.NumberFormat('pt-BR', {
@@ -98,18 +101,18 @@ export default function MovementsPage() {
     setFilters(dateFilters);
   };
 
-  const handleExportExcel = () => {
+  const handleExportExcel = async () => {
     try {
-      exportMovementsData(filteredMovements, 'excel');
+      await exportMovementsData(filteredMovements, 'excel');
     } catch (error) {
       console.error('Erro ao exportar Excel:', error);
       alert('Erro ao exportar dados para Excel. Tente novamente.');
     }
   };
 
-  const handleExportCSV = () => {
+  const handleExportCSV = async () => {
     try {
-      exportMovementsData(filteredMovements, 'csv');
+      await exportMovementsData(filteredMovements, 'csv');
     } catch (error) {
       console.error('Erro ao exportar CSV:', error);
       alert('Erro ao exportar dados para CSV. Tente novamente.');
@@ -133,18 +136,42 @@ export default function MovementsPage() {
         <div className="mb-8">
           <div className="flex justify-between items-center">
             <h1 className="text-3xl font-bold text-gray-900">Movimentações</h1>
-            <Link href="/movements/new">
-              <Button>
-                <Plus className="w-4 h-4 mr-2" />
-                Nova Movimentação
-              </Button>
-            </Link>
+            <div className="flex gap-2">
+              <Can permission="movements:approve">
+                <Link href="/movements/approvals">
+                  <Button variant="outline">
+                    <ClipboardCheck className="w-4 h-4 mr-2" />
+                    Aprovações{pendingCount > 0 && ` (${pendingCount})`}
+                  </Button>
+                </Link>
+              </Can>
+              <Can permission="movements:create">
+                <Link href="/movements/templates">
+                  <Button variant="outline">
+                    <CalendarClock className="w-4 h-4 mr-2" />
+                    Programadas
+                  </Button>
+                </Link>
+                <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Importar
+                </Button>
+                <Link href="/movements/new">
+                  <Button>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Nova Movimentação
+                  </Button>
+                </Link>
+              </Can>
+            </div>
           </div>
           <p className="mt-2 text-gray-600">
             Controle todos os depósitos e saques da plataforma
           </p>
         </div>
 
+        {isImportOpen && <MovementImportWizard onClose={() => setIsImportOpen(false)} />}
+
         {/* Summary Cards */}
         {summary && (
           <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
@@ -318,10 +345,13 @@ export default function MovementsPage() {
                         </div>
                         <div className="flex-1">
                           <div className="flex items-center space-x-2 mb-1">
-                            <h4 className="text-lg font-medium text-gray-900">
-                              {formatCurrency(movement.amount)}
-                            </h4>
+                            <Link href={`/movements/${movement.id}`} className="hover:underline">
+                              <h4 className="text-lg font-medium text-gray-900">
+                                {formatCurrency(movement.amount)}
+                              </h4>
+                            </Link>
                             {getMovementTypeBadge(movement.type)}
+                            <ApprovalStatusBadge status={movement.status} />
                           </div>
                           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-600">
                             <div>
@@ -0,0 +1,355 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { useRequirePermission } from '../../../hooks/useAuth';
+import { AuthLoadingScreen } from '@/components/ui/loading';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ArrowLeft,
+  CalendarClock,
+  ChevronLeft,
+  ChevronRight,
+  Edit,
+  Pause,
+  Play,
+  Plus,
+  RefreshCw,
+  Trash2,
+} from 'lucide-react';
+import { useClients } from '../../../hooks/useClients';
+import { useGenerateScheduledMovements, useMovementSchedule } from '../../../hooks/useMovements';
+import {
+  useCreateMovementTemplate,
+  useDeleteMovementTemplate,
+  useMovementTemplates,
+  useUpdateMovementTemplate,
+} from '../../../hooks/useMovementTemplates';
+import { MovementTemplateForm } from '../../../components/movements/MovementTemplateForm';
+import { ScheduleCalendar } from '../../../components/movements/ScheduleCalendar';
+import { describeRecurrence, getDueOccurrences, getNextOccurrence, isSchedulable } from '../../../lib/recurringMovements';
+import { getErrorMessage } from '../../../lib/errors';
+import { CLIENT_LOOKUP_LIMIT } from '../../../utils/importUtils';
+import type { ScheduleGenerationResult } from '../../../services/scheduleService';
+import type { MovementTemplateCreate } from '../../../services/adaptedMovementTemplateService';
+import type { MovementTemplate } from '../../../types/movement';
+
+const ALL_CLIENTS = 'all';
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+// Mês AAAA-MM deslocado em `offset` meses
+const shiftMonth = (month: string, offset: number) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + offset, 1)).toISOString().slice(0, 7);
+};
+
+const lastDayOfMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex, 0)).toISOString().slice(0, 10);
+};
+
+export default function MovementTemplatesPage() {
+  const { isLoading: authLoading } = useRequirePermission('movements:create');
+  const today = new Date().toISOString().split('T')[0];
+  const [month, setMonth] = useState(today.slice(0, 7));
+  const [clientFilter, setClientFilter] = useState(ALL_CLIENTS);
+  // undefined = formulário fechado; null = novo agendamento
+  const [editing, setEditing] = useState<MovementTemplate | null | undefined>(undefined);
+  const [generation, setGeneration] = useState<ScheduleGenerationResult | null>(null);
+
+  const { data: templates = [], isLoading } = useMovementTemplates({ enabled: !authLoading });
+  const { data: clientsData } = useClients({ page: 1, limit: CLIENT_LOOKUP_LIMIT }, { enabled: !authLoading });
+  const { data: schedule = [] } = useMovementSchedule(today, undefined, { enabled: !authLoading });
+  const { data: calendar = [] } = useMovementSchedule(
+    lastDayOfMonth(month),
+    clientFilter === ALL_CLIENTS ? undefined : clientFilter,
+    { enabled: !authLoading }
+  );
+
+  const createTemplate = useCreateMovementTemplate();
+  const updateTemplate = useUpdateMovementTemplate();
+  const deleteTemplate = useDeleteMovementTemplate();
+  const generateMovements = useGenerateScheduledMovements();
+
+  const clients = clientsData?.items ?? [];
+  const clientNames = new Map(clients.map(client => [client.id, client.name]));
+  const due = getDueOccurrences(schedule, today);
+  const monthOccurrences = calendar.filter(occurrence => occurrence.date.startsWith(month));
+
+  const formatCurrency = (value: number): string => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const handleSave = async (data: MovementTemplateCreate) => {
+    try {
+      if (editing) {
+        await updateTemplate.mutateAsync({ id: editing.id, data });
+        toast.success('Agendamento atualizado');
+      } else {
+        await createTemplate.mutateAsync(data);
+        toast.success('Agendamento criado');
+      }
+      setEditing(undefined);
+    } catch (error) {
+      console.error('Erro ao salvar agendamento:', error);
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleToggle = async (template: MovementTemplate) => {
+    try {
+      await updateTemplate.mutateAsync({ id: template.id, data: { isRecurring: !template.isRecurring } });
+    } catch (error) {
+      console.error('Erro ao atualizar agendamento:', error);
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleDelete = async (template: MovementTemplate) => {
+    if (!confirm(`Excluir o agendamento "${template.name}"? As movimentações já geradas são mantidas.`)) return;
+    try {
+      await deleteTemplate.mutateAsync(template.id);
+      toast.success('Agendamento excluído');
+    } catch (error) {
+      console.error('Erro ao excluir agendamento:', error);
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleGenerate = async () => {
+    try {
+      const result = await generateMovements.mutateAsync();
+      setGeneration(result);
+      if (result.failed.length === 0) {
+        toast.success(`${result.created.length} movimentações geradas`);
+      } else {
+        toast.warning(`${result.created.length} geradas, ${result.failed.length} com erro`);
+      }
+    } catch (error) {
+      console.error('Erro ao gerar movimentações:', error);
+      toast.error('Erro ao gerar movimentações. Tente novamente.');
+    }
+  };
+
+  if (authLoading || isLoading) {
+    return <AuthLoadingScreen text="Carregando agendamentos..." />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 flex justify-between items-center">
+          <div className="flex items-center space-x-4">
+            <Link href="/movements">
+              <Button variant="outline" size="sm">
+                <ArrowLeft className="w-4 h-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Movimentações Programadas</h1>
+              <p className="mt-1 text-sm text-gray-600">
+                Aportes e resgates recorrentes gerados a partir de modelos
+              </p>
+            </div>
+          </div>
+          <Button onClick={() => setEditing(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Novo Agendamento
+          </Button>
+        </div>
+
+        {editing !== undefined && (
+          <MovementTemplateForm
+            key={editing?.id ?? 'new'}
+            template={editing ?? undefined}
+            clients={clients}
+            isSubmitting={createTemplate.isPending || updateTemplate.isPending}
+            onSubmit={handleSave}
+            onCancel={() => setEditing(undefined)}
+          />
+        )}
+
+        {/* Ocorrências vencidas */}
+        <Card className="mb-6">
+          <CardHeader>
+            <div className="flex items-start justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarClock className="w-5 h-5" />
+                  Ocorrências pendentes
+                </CardTitle>
+                <CardDescription>
+                  {due.length === 0
+                    ? 'Todas as ocorrências até hoje já foram geradas.'
+                    : `${due.length} ocorrências vencidas ainda sem movimentação · ${formatCurrency(due.reduce((sum, o) => sum + o.amount, 0))}`}
+                </CardDescription>
+              </div>
+              <Button onClick={handleGenerate} disabled={due.length === 0 || generateMovements.isPending}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${generateMovements.isPending ? 'animate-spin' : ''}`} />
+                {generateMovements.isPending ? 'Gerando...' : 'Gerar movimentações'}
+              </Button>
+            </div>
+          </CardHeader>
+          {(due.length > 0 || generation) && (
+            <CardContent className="space-y-3 text-sm">
+              {due.length > 0 && (
+                <ul className="space-y-1">
+                  {due.map(occurrence => (
+                    <li key={`${occurrence.templateId}-${occurrence.index}`} className="flex justify-between">
+                      <span>
+                        {formatDate(occurrence.date)} · {occurrence.templateName} · {clientNames.get(occurrence.clientId) ?? `Cliente ${occurrence.clientId}`}
+                      </span>
+                      <span className={occurrence.type === 'deposit' ? 'text-green-700' : 'text-red-600'}>
+                        {occurrence.type === 'deposit' ? '+' : '-'}{formatCurrency(occurrence.amount)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {generation && (generation.failed.length > 0 || generation.postponed.length > 0) && (
+                <div className="rounded-md border border-red-200 bg-red-50 p-3 text-red-700 space-y-1">
+                  {generation.failed.map(occurrence => (
+                    <p key={`${occurrence.templateId}-${occurrence.index}`}>
+                      {occurrence.templateName} ({formatDate(occurrence.date)}): {occurrence.error}
+                    </p>
+                  ))}
+                  {generation.postponed.length > 0 && (
+                    <p>
+                      {generation.postponed.length} ocorrências seguintes desses agendamentos aguardam a correção
+                      da falha e serão geradas na próxima execução.
+                    </p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          )}
+        </Card>
+
+        {/* Agendamentos */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Agendamentos</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {templates.length === 0 ? (
+              <p className="text-sm text-gray-500">Nenhum agendamento cadastrado.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-3">Nome</th>
+                      <th className="py-2 pr-3">Cliente</th>
+                      <th className="py-2 pr-3 text-right">Valor</th>
+                      <th className="py-2 pr-3">Recorrência</th>
+                      <th className="py-2 pr-3">Próxima</th>
+                      <th className="py-2 pr-3 text-right">Geradas</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {templates.map(template => {
+                      const next = template.recurringConfig && getNextOccurrence(template.recurringConfig, today);
+                      return (
+                        <tr key={template.id} className="border-b last:border-0">
+                          <td className="py-2 pr-3">
+                            <div className="font-medium">{template.name}</div>
+                            <div className="text-gray-500">{template.description}</div>
+                          </td>
+                          <td className="py-2 pr-3">{template.clientId ? clientNames.get(template.clientId) ?? '-' : '-'}</td>
+                          <td className={`py-2 pr-3 text-right ${template.type === 'deposit' ? 'text-green-700' : 'text-red-600'}`}>
+                            {template.defaultAmount !== undefined ? formatCurrency(template.defaultAmount) : '-'}
+                          </td>
+                          <td className="py-2 pr-3">
+                            {template.recurringConfig ? describeRecurrence(template.recurringConfig) : '-'}
+                          </td>
+                          <td className="py-2 pr-3">
+                            {!isSchedulable(template) ? (
+                              <Badge variant="secondary">Pausado</Badge>
+                            ) : next ? formatDate(next) : 'Encerrado'}
+                          </td>
+                          <td className="py-2 pr-3 text-right">{template.usageCount}</td>
+                          <td className="py-2">
+                            <div className="flex justify-end space-x-1">
+                              <Button variant="ghost" size="sm" onClick={() => setEditing(template)} title="Editar">
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleToggle(template)}
+                                title={template.isRecurring ? 'Pausar' : 'Retomar'}
+                              >
+                                {template.isRecurring ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => handleDelete(template)} title="Excluir">
+                                <Trash2 className="w-4 h-4 text-red-600" />
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Calendário */}
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <CardTitle>Calendário</CardTitle>
+              <div className="flex items-center gap-2">
+                <Select value={clientFilter} onValueChange={setClientFilter}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_CLIENTS}>Todos os clientes</SelectItem>
+                    {clients.map(client => (
+                      <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" onClick={() => setMonth(shiftMonth(month, -1))}>
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <span className="w-32 text-center font-medium capitalize">
+                  {new Date(`${month}-01T00:00:00Z`).toLocaleDateString('pt-BR', { month: 'long', year: 'numeric', timeZone: 'UTC' })}
+                </span>
+                <Button variant="outline" size="sm" onClick={() => setMonth(shiftMonth(month, 1))}>
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <CardDescription>
+              {monthOccurrences.length} ocorrências no mês ·{' '}
+              {formatCurrency(monthOccurrences.filter(o => o.type === 'deposit').reduce((sum, o) => sum + o.amount, 0))} em aportes
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ScheduleCalendar month={month} occurrences={monthOccurrences} clientNames={clientNames} today={today} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
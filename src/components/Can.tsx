@@ -0,0 +1,26 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { usePermissions } from '../hooks/useAuth';
+import type { Permission } from '../types/auth';
+
+interface CanProps {
+  permission: Permission | Permission[];
+  // Render prop permite desabilitar em vez de esconder: {(allowed) => <Button disabled={!allowed} />}
+  children: ReactNode | ((allowed: boolean) => ReactNode);
+  fallback?: ReactNode;
+}
+
+/**
+ * Renderiza o conteúdo apenas se o usuário tiver a(s) permissão(ões) informada(s)
+ */
+export function Can({ permission, children, fallback = null }: CanProps) {
+  const { hasAllPermissions } = usePermissions();
+  const allowed = hasAllPermissions(Array.isArray(permission) ? permission : [permission]);
+
+  if (typeof children === 'function') {
+    return <>{children(allowed)}</>;
+  }
+
+  return <>{allowed ? children : fallback}</>;
+}
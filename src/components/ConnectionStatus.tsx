@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { checkBackendHealth } from '../lib/api';
+import { onBackendStatusChange } from '../lib/backendStatus';
 import { Badge } from './ui/badge';
 import { AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
 
@@ -26,8 +27,14 @@ export function ConnectionStatus() {
     
     // Check every 30 seconds
     const interval = setInterval(checkConnection, 30000);
+
+    // Refletir na hora quando um serviço cai para o modo demo
+    const unsubscribe = onBackendStatusChange(setIsBackendAvailable);
     
-    return () => clearInterval(interval);
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
   }, []);
 
   if (isChecking) {
@@ -0,0 +1,20 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { AlertCircle } from 'lucide-react';
+import { backendFeatureLabels, type BackendFeature } from '../lib/backendFeatures';
+
+/**
+ * Aviso exibido no lugar das ações de cadastro quando o backend não tem o recurso
+ */
+export function FeatureUnavailableNotice({ feature }: { feature: BackendFeature }) {
+  return (
+    <Card>
+      <CardContent className="flex items-center gap-3 py-6 text-sm text-yellow-800">
+        <AlertCircle className="w-5 h-5 shrink-0" />
+        <span>
+          {backendFeatureLabels[feature]} não é suportado pela versão do backend em uso. Atualize o backend para
+          habilitar o cadastro.
+        </span>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Select não aceita valor vazio: coluna "não mapeada"
+const UNMAPPED = '__none__';
+
+interface ImportColumnMappingProps<F extends string> {
+  fields: { field: F; label: string; required: boolean }[];
+  headers: string[];
+  mapping: Partial<Record<F, string>>;
+  onChange: (mapping: Partial<Record<F, string>>) => void;
+}
+
+/**
+ * Grade de campos do sistema x colunas da planilha usada pelos assistentes de importação
+ */
+export function ImportColumnMapping<F extends string>({ fields, headers, mapping, onChange }: ImportColumnMappingProps<F>) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {fields.map(({ field, label, required }) => (
+        <div key={field} className="space-y-1">
+          <Label>{label}{required && ' *'}</Label>
+          <Select
+            value={mapping[field] ?? UNMAPPED}
+            onValueChange={(value) => onChange({ ...mapping, [field]: value === UNMAPPED ? undefined : value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNMAPPED}>Não importar</SelectItem>
+              {headers.map(header => (
+                <SelectItem key={header} value={header}>{header}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  assetSchema,
+  assetTypeFields,
+  assetTypeLabels,
+  fixedIncomeIndexerLabels,
+  fixedIncomeLiquidityLabels,
+  type AssetDetailField,
+} from '../../schemas/investment';
+import { formatCNPJ } from '../../schemas/movement';
+import type { AssetCreate } from '../../services/adaptedAssetService';
+import type { Asset, AssetType } from '../../types/investment';
+
+interface AssetFormProps {
+  asset?: Asset;
+  isSubmitting: boolean;
+  submitLabel: string;
+  onSubmit: (asset: AssetCreate) => void;
+  onCancel: () => void;
+}
+
+const toInputDate = (date?: Date) => date ? date.toISOString().slice(0, 10) : '';
+
+// A taxa significa coisas diferentes conforme o indexador
+const rateLabels: Record<string, string> = {
+  cdi: '% do CDI',
+  selic: '% da SELIC',
+  ipca: 'Taxa real (% a.a. acima do IPCA)',
+  prefixado: 'Taxa (% a.a.)',
+};
+
+const initialState = (asset?: Asset) => ({
+  symbol: asset?.symbol ?? '',
+  name: asset?.name ?? '',
+  type: asset?.type ?? ('stocks' as AssetType),
+  currency: asset?.currency ?? 'BRL',
+  exchange: asset?.exchange ?? '',
+  sector: asset?.sector ?? '',
+  description: asset?.description ?? '',
+  isin: asset?.isin ?? '',
+  cnpj: asset?.cnpj ?? '',
+  manager: asset?.manager ?? '',
+  benchmark: asset?.benchmark ?? '',
+  issuer: asset?.issuer ?? '',
+  indexer: asset?.indexer ?? '',
+  rate: asset?.rate?.toString() ?? '',
+  issueDate: toInputDate(asset?.issueDate),
+  maturityDate: toInputDate(asset?.maturityDate),
+  liquidity: asset?.liquidity ?? '',
+});
+
+const optionalText = (value: string) => value.trim() || undefined;
+
+/**
+ * Cadastro/edição de ativo; os campos específicos (CNPJ, ISIN, indexador...) dependem do tipo
+ */
+export function AssetForm({ asset, isSubmitting, submitLabel, onSubmit, onCancel }: AssetFormProps) {
+  const [formData, setFormData] = useState(() => initialState(asset));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const update = (changes: Partial<typeof formData>) => setFormData(prev => ({ ...prev, ...changes }));
+  const fields = assetTypeFields[formData.type];
+  const shows = (field: AssetDetailField) => fields.includes(field);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Campos que não se aplicam ao tipo escolhido não são enviados
+    const detail = (field: AssetDetailField, value: string) => shows(field) ? optionalText(value) : undefined;
+    const cnpj = detail('cnpj', formData.cnpj);
+    const rate = detail('rate', formData.rate);
+    const issueDate = detail('issueDate', formData.issueDate);
+    const maturityDate = detail('maturityDate', formData.maturityDate);
+
+    const parsed = assetSchema.safeParse({
+      symbol: formData.symbol.trim(),
+      name: formData.name.trim(),
+      type: formData.type,
+      currency: formData.currency.trim().toUpperCase(),
+      exchange: optionalText(formData.exchange),
+      sector: optionalText(formData.sector),
+      description: optionalText(formData.description),
+      isin: detail('isin', formData.isin),
+      cnpj: cnpj ? formatCNPJ(cnpj) : undefined,
+      manager: detail('manager', formData.manager),
+      benchmark: detail('benchmark', formData.benchmark),
+      issuer: detail('issuer', formData.issuer),
+      indexer: detail('indexer', formData.indexer),
+      rate: rate ? parseFloat(rate.replace(',', '.')) : undefined,
+      issueDate: issueDate ? new Date(issueDate) : undefined,
+      maturityDate: maturityDate ? new Date(maturityDate) : undefined,
+      liquidity: detail('liquidity', formData.liquidity),
+    });
+
+    if (!parsed.success) {
+      setErrors(Object.fromEntries(parsed.error.issues.map(issue => [issue.path.join('.'), issue.message])));
+      return;
+    }
+    setErrors({});
+    onSubmit(parsed.data);
+  };
+
+  const fieldError = (field: string) =>
+    errors[field] && <p className="text-sm text-red-600">{errors[field]}</p>;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="symbol">Símbolo *</Label>
+          <Input
+            id="symbol"
+            value={formData.symbol}
+            onChange={(e) => update({ symbol: e.target.value.toUpperCase() })}
+            placeholder="Ex: AAPL, PETR4"
+          />
+          {fieldError('symbol')}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="name">Nome *</Label>
+          <Input
+            id="name"
+            value={formData.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="Ex: Apple Inc"
+          />
+          {fieldError('name')}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Tipo *</Label>
+          <Select value={formData.type} onValueChange={(value) => update({ type: value as AssetType })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(assetTypeFields) as AssetType[]).map(type => (
+                <SelectItem key={type} value={type}>{assetTypeLabels[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sector">Setor</Label>
+          <Input
+            id="sector"
+            value={formData.sector}
+            onChange={(e) => update({ sector: e.target.value })}
+            placeholder="Ex: Financeiro, Tecnologia"
+          />
+          {fieldError('sector')}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="currency">Moeda</Label>
+          <Input
+            id="currency"
+            value={formData.currency}
+            onChange={(e) => update({ currency: e.target.value })}
+            placeholder="Ex: USD, BRL"
+          />
+          {fieldError('currency')}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="exchange">Bolsa</Label>
+          <Input
+            id="exchange"
+            value={formData.exchange}
+            onChange={(e) => update({ exchange: e.target.value })}
+            placeholder="Ex: B3, NASDAQ"
+          />
+          {fieldError('exchange')}
+        </div>
+
+        {shows('isin') && (
+          <div className="space-y-2">
+            <Label htmlFor="isin">ISIN</Label>
+            <Input
+              id="isin"
+              value={formData.isin}
+              onChange={(e) => update({ isin: e.target.value.toUpperCase() })}
+              placeholder="Ex: US0378331005"
+            />
+            {fieldError('isin')}
+          </div>
+        )}
+
+        {shows('cnpj') && (
+          <div className="space-y-2">
+            <Label htmlFor="cnpj">CNPJ do fundo</Label>
+            <Input
+              id="cnpj"
+              value={formData.cnpj}
+              onChange={(e) => update({ cnpj: e.target.value })}
+              placeholder="00.000.000/0000-00"
+            />
+            {fieldError('cnpj')}
+          </div>
+        )}
+
+        {shows('manager') && (
+          <div className="space-y-2">
+            <Label htmlFor="manager">Gestor</Label>
+            <Input
+              id="manager"
+              value={formData.manager}
+              onChange={(e) => update({ manager: e.target.value })}
+            />
+            {fieldError('manager')}
+          </div>
+        )}
+
+        {shows('benchmark') && (
+          <div className="space-y-2">
+            <Label htmlFor="benchmark">Benchmark</Label>
+            <Input
+              id="benchmark"
+              value={formData.benchmark}
+              onChange={(e) => update({ benchmark: e.target.value })}
+              placeholder="Ex: CDI, Ibovespa"
+            />
+            {fieldError('benchmark')}
+          </div>
+        )}
+
+        {shows('issuer') && (
+          <div className="space-y-2">
+            <Label htmlFor="issuer">Emissor</Label>
+            <Input
+              id="issuer"
+              value={formData.issuer}
+              onChange={(e) => update({ issuer: e.target.value })}
+              placeholder="Ex: Tesouro Nacional, Banco XP"
+            />
+            {fieldError('issuer')}
+          </div>
+        )}
+
+        {shows('indexer') && (
+          <div className="space-y-2">
+            <Label>Indexador *</Label>
+            <Select value={formData.indexer} onValueChange={(value) => update({ indexer: value })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o indexador" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(fixedIncomeIndexerLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {fieldError('indexer')}
+          </div>
+        )}
+
+        {shows('rate') && (
+          <div className="space-y-2">
+            <Label htmlFor="rate">{rateLabels[formData.indexer] ?? 'Taxa'} *</Label>
+            <Input
+              id="rate"
+              inputMode="decimal"
+              value={formData.rate}
+              onChange={(e) => update({ rate: e.target.value })}
+              placeholder={formData.indexer === 'cdi' || formData.indexer === 'selic' ? 'Ex: 110' : 'Ex: 6,5'}
+            />
+            {fieldError('rate')}
+          </div>
+        )}
+
+        {shows('issueDate') && (
+          <div className="space-y-2">
+            <Label htmlFor="issueDate">Emissão</Label>
+            <Input
+              id="issueDate"
+              type="date"
+              value={formData.issueDate}
+              onChange={(e) => update({ issueDate: e.target.value })}
+            />
+            {fieldError('issueDate')}
+          </div>
+        )}
+
+        {shows('maturityDate') && (
+          <div className="space-y-2">
+            <Label htmlFor="maturityDate">Vencimento *</Label>
+            <Input
+              id="maturityDate"
+              type="date"
+              value={formData.maturityDate}
+              onChange={(e) => update({ maturityDate: e.target.value })}
+            />
+            {fieldError('maturityDate')}
+          </div>
+        )}
+
+        {shows('liquidity') && (
+          <div className="space-y-2">
+            <Label>Liquidez</Label>
+            <Select value={formData.liquidity} onValueChange={(value) => update({ liquidity: value })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione a liquidez" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(fixedIncomeLiquidityLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {fieldError('liquidity')}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="description">Descrição</Label>
+        <Input
+          id="description"
+          value={formData.description}
+          onChange={(e) => update({ description: e.target.value })}
+        />
+        {fieldError('description')}
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancelar
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Salvando...' : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { LineChart, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Can } from '../Can';
+import { PriceChart } from './PriceChart';
+import { PriceImportForm } from './PriceImportForm';
+import { useDeletePrice, useImportPrices, usePriceSeries } from '../../hooks/useAssets';
+import { priceEntrySchema } from '../../schemas/investment';
+import { parseAmount } from '../../utils/importUtils';
+import { getErrorMessage } from '../../lib/errors';
+import { summarizePrices } from '../../lib/portfolio/prices';
+import type { Asset } from '../../types/investment';
+
+interface AssetPriceHistoryProps {
+  asset: Asset;
+}
+
+type PriceRange = '1m' | '6m' | '1y' | 'max';
+
+const rangeOptions: { value: PriceRange; label: string; months?: number }[] = [
+  { value: '1m', label: '1M', months: 1 },
+  { value: '6m', label: '6M', months: 6 },
+  { value: '1y', label: '1A', months: 12 },
+  { value: 'max', label: 'Máx' },
+];
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+// Início do intervalo contado a partir do último fechamento, não de hoje
+const getRangeStart = (lastDate: string, months?: number) => {
+  if (!months) return '';
+  const date = new Date(`${lastDate}T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() - months);
+  return date.toISOString().slice(0, 10);
+};
+
+const emptyEntry = () => ({ date: new Date().toISOString().slice(0, 10), close: '', volume: '' });
+
+/**
+ * Histórico de fechamentos do ativo: resumo, gráfico por período, lançamento manual e importação
+ */
+export function AssetPriceHistory({ asset }: AssetPriceHistoryProps) {
+  const { data: points = [], isLoading } = usePriceSeries(asset.id);
+  const importPrices = useImportPrices();
+  const deletePrice = useDeletePrice();
+  const [range, setRange] = useState<PriceRange>('6m');
+  const [entry, setEntry] = useState(emptyEntry);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const formatPrice = (value: number) =>
+    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: asset.currency || 'BRL' }).format(value);
+
+  const summary = summarizePrices(points);
+  const rangeStart = summary ? getRangeStart(summary.last.date, rangeOptions.find(o => o.value === range)?.months) : '';
+  const visiblePoints = points.filter(point => point.date >= rangeStart);
+
+  const handleAddEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = priceEntrySchema.safeParse({
+      date: entry.date,
+      close: parseAmount(entry.close),
+      volume: entry.volume.trim() ? parseAmount(entry.volume) : undefined,
+    });
+    if (!parsed.success) {
+      setErrors(Object.fromEntries(parsed.error.issues.map(issue => [issue.path.join('.'), issue.message])));
+      return;
+    }
+
+    setErrors({});
+    try {
+      await importPrices.mutateAsync(new Map([[Number(asset.id), [parsed.data]]]));
+      toast.success(`Fechamento de ${formatDate(parsed.data.date)} registrado`);
+      setEntry(emptyEntry());
+    } catch (error) {
+      console.error('Erro ao registrar cotação:', error);
+      toast.error(getErrorMessage(error, 'Erro ao registrar cotação. Tente novamente.'));
+    }
+  };
+
+  const handleDelete = async (date: string) => {
+    if (!confirm(`Excluir o fechamento de ${formatDate(date)}?`)) return;
+    try {
+      await deletePrice.mutateAsync({ assetId: asset.id, date });
+    } catch (error) {
+      console.error('Erro ao excluir cotação:', error);
+      toast.error(getErrorMessage(error, 'Erro ao excluir cotação. Tente novamente.'));
+    }
+  };
+
+  const fieldError = (field: string) =>
+    errors[field] && <p className="text-sm text-red-600">{errors[field]}</p>;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <LineChart className="w-5 h-5 mr-2" />
+            Cotações
+          </CardTitle>
+          <div className="flex gap-1">
+            {rangeOptions.map(option => (
+              <Button
+                key={option.value}
+                variant={range === option.value ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setRange(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Carregando cotações...</p>
+        ) : summary ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <label className="text-sm font-medium text-gray-500">Último fechamento</label>
+                <p className="text-lg font-semibold">{formatPrice(summary.last.close)}</p>
+                <p className="text-xs text-gray-500">{formatDate(summary.last.date)}</p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-500">Variação no dia</label>
+                <p className={`text-lg font-semibold ${summary.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {summary.change >= 0 ? '+' : ''}{summary.changePercentage.toFixed(2)}%
+                </p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-500">Máxima 52 semanas</label>
+                <p className="text-lg">{formatPrice(summary.high52Week)}</p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-500">Mínima 52 semanas</label>
+                <p className="text-lg">{formatPrice(summary.low52Week)}</p>
+              </div>
+            </div>
+            <PriceChart points={visiblePoints} currency={asset.currency || 'BRL'} />
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Nenhuma cotação registrada. Importe um arquivo ou informe os fechamentos manualmente.
+          </p>
+        )}
+
+        <Can permission="assets:update">
+          <div className="space-y-6 border-t pt-4">
+            <form onSubmit={handleAddEntry} className="space-y-2">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="priceDate">Data</Label>
+                  <Input
+                    id="priceDate"
+                    type="date"
+                    value={entry.date}
+                    onChange={(e) => setEntry(prev => ({ ...prev, date: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="priceClose">Fechamento</Label>
+                  <Input
+                    id="priceClose"
+                    inputMode="decimal"
+                    value={entry.close}
+                    onChange={(e) => setEntry(prev => ({ ...prev, close: e.target.value }))}
+                    placeholder="0,00"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="priceVolume">Volume</Label>
+                  <Input
+                    id="priceVolume"
+                    inputMode="numeric"
+                    value={entry.volume}
+                    onChange={(e) => setEntry(prev => ({ ...prev, volume: e.target.value }))}
+                  />
+                </div>
+                <Button type="submit" disabled={importPrices.isPending}>
+                  Registrar
+                </Button>
+              </div>
+              {fieldError('date')}
+              {fieldError('close')}
+              {fieldError('volume')}
+            </form>
+
+            <PriceImportForm assets={[asset]} />
+
+            {points.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-gray-500 mb-2">Últimos fechamentos</p>
+                <ul className="divide-y text-sm">
+                  {points.slice(-5).reverse().map(point => (
+                    <li key={point.date} className="flex items-center justify-between py-1">
+                      <span>{formatDate(point.date)}</span>
+                      <span className="flex items-center gap-2">
+                        {formatPrice(point.close)}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(point.date)}
+                          disabled={deletePrice.isPending}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </Can>
+      </CardContent>
+    </Card>
+  );
+}
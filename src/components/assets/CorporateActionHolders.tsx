@@ -0,0 +1,157 @@
+'use client';
+
+import { toast } from 'sonner';
+import { Coins } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useCorporateActionHolders, useGenerateIncomeMovements } from '../../hooks/useCorporateActions';
+import { getErrorMessage } from '../../lib/errors';
+import {
+  JCP_WITHHOLDING_RATE,
+  corporateActionTypeLabels,
+  describeCorporateAction,
+  isCashDistribution,
+} from '../../lib/portfolio/corporateActions';
+import type { CorporateAction } from '../../types/allocation';
+import type { Asset } from '../../types/investment';
+
+interface CorporateActionHoldersProps {
+  action: CorporateAction;
+  asset?: Asset;
+}
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+/**
+ * Clientes afetados pelo evento: posição antes e depois e, nos proventos, o valor a creditar
+ */
+export function CorporateActionHolders({ action, asset }: CorporateActionHoldersProps) {
+  const { data: holders = [], isLoading } = useCorporateActionHolders(action.id);
+  const generateIncome = useGenerateIncomeMovements();
+  const isCash = isCashDistribution(action);
+  const pending = holders.filter(holder => holder.movementId === undefined && holder.netIncome > 0);
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: asset?.currency || 'BRL' }).format(value);
+  const formatQuantity = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 6 });
+
+  const handleGenerate = async () => {
+    try {
+      const { created, skipped, failed } = await generateIncome.mutateAsync(action.id);
+      if (created.length > 0) {
+        toast.success(`${created.length} provento(s) lançado(s) na conta dos clientes`);
+      } else if (skipped > 0) {
+        toast.info('Os proventos deste evento já foram lançados');
+      }
+      failed.forEach(failure => toast.error(`${failure.clientName || `Cliente ${failure.clientId}`}: ${failure.error}`));
+    } catch (error) {
+      console.error('Erro ao gerar proventos:', error);
+      toast.error(getErrorMessage(error, 'Erro ao gerar proventos. Tente novamente.'));
+    }
+  };
+
+  const totals = holders.reduce(
+    (sum, holder) => ({
+      gross: sum.gross + holder.grossIncome,
+      withholding: sum.withholding + holder.withholding,
+      net: sum.net + holder.netIncome,
+    }),
+    { gross: 0, withholding: 0, net: 0 }
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <Coins className="w-5 h-5 mr-2" />
+              {corporateActionTypeLabels[action.type]} {asset?.symbol}
+            </CardTitle>
+            <CardDescription>
+              {describeCorporateAction(action)} · data ex {formatDate(action.ex_date)}
+              {action.payment_date && ` · pagamento ${formatDate(action.payment_date)}`}
+              {action.type === 'jcp' && ` · IR de ${JCP_WITHHOLDING_RATE * 100}% retido na fonte`}
+            </CardDescription>
+          </div>
+          {isCash && (
+            <Button onClick={handleGenerate} disabled={pending.length === 0 || generateIncome.isPending}>
+              {generateIncome.isPending ? 'Lançando...' : 'Gerar proventos'}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Carregando posições...</p>
+        ) : holders.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhum cliente tinha posição no ativo na véspera da data ex.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Cliente</th>
+                  <th className="py-2 pr-4 font-medium text-right">Quantidade</th>
+                  {isCash ? (
+                    <>
+                      <th className="py-2 pr-4 font-medium text-right">Bruto</th>
+                      <th className="py-2 pr-4 font-medium text-right">IR Retido</th>
+                      <th className="py-2 pr-4 font-medium text-right">Líquido</th>
+                      <th className="py-2 font-medium">Situação</th>
+                    </>
+                  ) : (
+                    <>
+                      <th className="py-2 pr-4 font-medium text-right">Nova Quantidade</th>
+                      <th className="py-2 pr-4 font-medium text-right">Preço Médio</th>
+                      <th className="py-2 font-medium text-right">Novo Preço Médio</th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {holders.map(holder => (
+                  <tr key={holder.clientId} className="border-b">
+                    <td className="py-2 pr-4 font-medium text-gray-900">{holder.clientName || `Cliente ${holder.clientId}`}</td>
+                    <td className="py-2 pr-4 text-right">{formatQuantity(holder.quantityBefore)}</td>
+                    {isCash ? (
+                      <>
+                        <td className="py-2 pr-4 text-right">{formatCurrency(holder.grossIncome)}</td>
+                        <td className="py-2 pr-4 text-right">{formatCurrency(holder.withholding)}</td>
+                        <td className="py-2 pr-4 text-right">{formatCurrency(holder.netIncome)}</td>
+                        <td className="py-2">
+                          {holder.movementId !== undefined ? (
+                            <Badge className="bg-green-100 text-green-800">Lançado</Badge>
+                          ) : (
+                            <Badge variant="outline">Pendente</Badge>
+                          )}
+                        </td>
+                      </>
+                    ) : (
+                      <>
+                        <td className="py-2 pr-4 text-right">{formatQuantity(holder.quantityAfter)}</td>
+                        <td className="py-2 pr-4 text-right">{formatCurrency(holder.averageCostBefore)}</td>
+                        <td className="py-2 text-right">{formatCurrency(holder.averageCostAfter)}</td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+                {isCash && (
+                  <tr className="bg-gray-50 font-medium">
+                    <td className="py-2 pr-4">Total</td>
+                    <td />
+                    <td className="py-2 pr-4 text-right">{formatCurrency(totals.gross)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(totals.withholding)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(totals.net)}</td>
+                    <td />
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
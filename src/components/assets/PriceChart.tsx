@@ -0,0 +1,72 @@
+'use client';
+
+import type { PricePoint } from '../../lib/portfolio/prices';
+
+interface PriceChartProps {
+  points: PricePoint[];
+  currency?: string;
+  height?: number;
+}
+
+const WIDTH = 600;
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+/**
+ * Linha dos fechamentos diários, com máxima e mínima do período nas laterais
+ */
+export function PriceChart({ points, currency = 'BRL', height = 200 }: PriceChartProps) {
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500">Nenhuma cotação no período.</p>;
+  }
+
+  const formatPrice = (value: number) =>
+    new Intl.NumberFormat('pt-BR', { style: 'currency', currency }).format(value);
+
+  const closes = points.map(point => point.close);
+  const max = Math.max(...closes);
+  const min = Math.min(...closes);
+  const range = max - min || 1;
+  const first = Date.parse(points[0].date);
+  const span = Date.parse(points[points.length - 1].date) - first || 1;
+
+  const x = (date: string) => points.length === 1 ? WIDTH / 2 : ((Date.parse(date) - first) / span) * WIDTH;
+  const y = (close: number) => 8 + ((max - close) / range) * (height - 16);
+
+  const path = points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'} ${x(point.date)} ${y(point.close)}`)
+    .join(' ');
+  const rising = points[points.length - 1].close >= points[0].close;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>Máx. {formatPrice(max)}</span>
+        <span>Mín. {formatPrice(min)}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto">
+        <path
+          d={path}
+          fill="none"
+          className={rising ? 'stroke-green-600' : 'stroke-red-600'}
+          strokeWidth={2}
+        />
+        {points.length <= 60 && points.map(point => (
+          <circle
+            key={point.date}
+            cx={x(point.date)}
+            cy={y(point.close)}
+            r={3}
+            className={rising ? 'fill-green-600' : 'fill-red-600'}
+          >
+            <title>{`${formatDate(point.date)}: ${formatPrice(point.close)}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>{formatDate(points[0].date)}</span>
+        <span>{formatDate(points[points.length - 1].date)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useImportPrices } from '../../hooks/useAssets';
+import {
+  PRICE_FILE_ACCEPT,
+  matchPricesToAssets,
+  readPriceFile,
+  type PriceImportError,
+} from '../../lib/priceImport';
+import type { Asset } from '../../types/investment';
+
+interface PriceImportFormProps {
+  assets: Asset[]; // com um único ativo, a importação fica restrita a ele
+}
+
+/**
+ * Importação de fechamentos por arquivo: COTAHIST da B3 ou planilha com data e fechamento
+ */
+export function PriceImportForm({ assets }: PriceImportFormProps) {
+  const importPrices = useImportPrices();
+  const [file, setFile] = useState<File>();
+  const [errors, setErrors] = useState<PriceImportError[]>([]);
+
+  const handleImport = async () => {
+    if (!file) return;
+    try {
+      const parsed = await readPriceFile(file, assets);
+      const { pricesByAsset, unknownSymbols } = matchPricesToAssets(parsed.bySymbol, assets);
+      setErrors(parsed.errors);
+      if (pricesByAsset.size === 0) {
+        toast.error(
+          unknownSymbols.length > 0
+            ? `Nenhum ativo cadastrado corresponde aos códigos do arquivo (${unknownSymbols.slice(0, 5).join(', ')})`
+            : 'Nenhuma cotação válida encontrada no arquivo'
+        );
+        return;
+      }
+
+      const { added, updated } = await importPrices.mutateAsync(pricesByAsset);
+      toast.success(`${added} cotações novas e ${updated} atualizadas em ${pricesByAsset.size} ativo(s)`);
+      if (unknownSymbols.length > 0) {
+        toast.warning(`Códigos sem ativo cadastrado ignorados: ${unknownSymbols.slice(0, 5).join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Erro ao importar cotações:', error);
+      toast.error('Não foi possível ler o arquivo. Use o COTAHIST da B3 ou CSV/XLSX com "data" e "fechamento".');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-end gap-2">
+        <div className="space-y-2 flex-1">
+          <Label htmlFor="priceFile">Arquivo de cotações</Label>
+          <Input
+            id="priceFile"
+            type="file"
+            accept={PRICE_FILE_ACCEPT}
+            onChange={(e) => setFile(e.target.files?.[0])}
+          />
+        </div>
+        <Button onClick={handleImport} disabled={!file || importPrices.isPending}>
+          {importPrices.isPending ? 'Importando...' : 'Importar'}
+        </Button>
+      </div>
+      <p className="text-sm text-gray-500">
+        COTAHIST da B3 (.txt) ou CSV/XLSX com as colunas &quot;data&quot; e &quot;fechamento&quot;
+        {assets.length === 1 ? ' (volume opcional)' : ', "ativo" e volume opcional'}.
+      </p>
+
+      {errors.length > 0 && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+          <p className="font-medium mb-1">Linhas ignoradas</p>
+          <ul className="space-y-1">
+            {errors.slice(0, 10).map(error => (
+              <li key={error.row}>Linha {error.row}: {error.message}</li>
+            ))}
+          </ul>
+          {errors.length > 10 && <p className="mt-1">e mais {errors.length - 10} linhas</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import type { CashEntry } from '../../lib/portfolio/cash';
+
+interface BalanceChartProps {
+  entries: CashEntry[];
+  height?: number;
+}
+
+const WIDTH = 600;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+/**
+ * Saldo em conta após cada dia com lançamentos, em degraus (o saldo só muda nos lançamentos)
+ */
+export function BalanceChart({ entries, height = 180 }: BalanceChartProps) {
+  // Um ponto por dia: o saldo após o último lançamento da data
+  const points = Array.from(
+    entries.reduce((byDate, entry) => byDate.set(entry.date, entry.balance), new Map<string, number>())
+  ).map(([date, balance]) => ({ date, balance }));
+
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500">Nenhum lançamento em conta.</p>;
+  }
+
+  const balances = points.map(point => point.balance);
+  const max = Math.max(...balances, 0);
+  const min = Math.min(...balances, 0);
+  const range = max - min || 1;
+  const first = new Date(points[0].date).getTime();
+  const span = new Date(points[points.length - 1].date).getTime() - first || 1;
+
+  const x = (date: string) => ((new Date(date).getTime() - first) / span) * WIDTH;
+  const y = (balance: number) => 8 + ((max - balance) / range) * (height - 16);
+
+  const path = points
+    .map((point, index) =>
+      index === 0 ? `M ${x(point.date)} ${y(point.balance)}` : `H ${x(point.date)} V ${y(point.balance)}`
+    )
+    .join(' ');
+
+  return (
+    <div className="space-y-1">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto">
+        <line x1={0} x2={WIDTH} y1={y(0)} y2={y(0)} className="stroke-gray-300" strokeDasharray="4 4" />
+        <path d={path} fill="none" className="stroke-blue-600" strokeWidth={2} />
+        {points.map(point => (
+          <circle
+            key={point.date}
+            cx={x(point.date)}
+            cy={y(point.balance)}
+            r={3}
+            className={point.balance < 0 ? 'fill-red-600' : 'fill-blue-600'}
+          >
+            <title>{`${formatDate(point.date)}: ${formatCurrency(point.balance)}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>{formatDate(points[0].date)}</span>
+        <span>{formatDate(points[points.length - 1].date)}</span>
+      </div>
+    </div>
+  );
+}
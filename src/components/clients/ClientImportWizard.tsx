@@ -0,0 +1,317 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { AlertCircle, CheckCircle2, RotateCcw, Upload, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ImportColumnMapping } from '../ImportColumnMapping';
+import { getErrorMessage } from '../../lib/errors';
+import { useFindImportDuplicates, useImportClients } from '../../hooks/useClients';
+import {
+  clientImportFields,
+  getClientImportAction,
+  guessClientColumnMapping,
+  summarizeClientImport,
+  validateClientImport,
+  type ClientColumnMapping,
+  type ClientImportAction,
+  type ClientImportOutcome,
+  type ClientImportRow,
+  type DuplicateStrategy,
+} from '../../lib/clientImport';
+import { IMPORT_FILE_ACCEPT, readSpreadsheet, type ImportSheet } from '../../utils/importUtils';
+
+type Step = 'upload' | 'mapping' | 'preview' | 'running' | 'result';
+
+interface ClientImportWizardProps {
+  onClose: () => void;
+}
+
+const actionConfig: Record<ClientImportAction, { label: string; className: string }> = {
+  create: { label: 'Novo cadastro', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Atualizar cadastro', className: 'bg-blue-100 text-blue-800' },
+  skip: { label: 'Ignorar (CPF já cadastrado)', className: 'bg-gray-100 text-gray-800' },
+  invalid: { label: 'Com erros', className: 'bg-red-100 text-red-800' },
+};
+
+const strategyLabels: Record<DuplicateStrategy, string> = {
+  skip: 'Ignorar linhas com CPF já cadastrado',
+  update: 'Atualizar o cadastro existente',
+};
+
+/**
+ * Importação de clientes: arquivo -> mapeamento -> simulação (dry-run) -> envio com progresso -> resultado
+ */
+export function ClientImportWizard({ onClose }: ClientImportWizardProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ClientColumnMapping>({});
+  const [rows, setRows] = useState<ClientImportRow[]>([]);
+  const [strategy, setStrategy] = useState<DuplicateStrategy>('skip');
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [outcomes, setOutcomes] = useState<ClientImportOutcome[]>([]);
+
+  const findDuplicates = useFindImportDuplicates();
+  const importClients = useImportClients();
+
+  const summary = summarizeClientImport(rows, strategy);
+  const toSubmit = summary.create + summary.update;
+  const missingRequired = clientImportFields.filter(field => field.required && !mapping[field.field]);
+  const failed = outcomes.filter(outcome => outcome.status === 'failed');
+  const countOutcomes = (status: ClientImportOutcome['status']) =>
+    outcomes.filter(outcome => outcome.status === status).length;
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = await readSpreadsheet(file);
+      if (parsed.rows.length === 0) {
+        toast.error('O arquivo não tem linhas para importar');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessClientColumnMapping(parsed.headers));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Erro ao ler arquivo:', error);
+      toast.error('Não foi possível ler o arquivo. Use CSV ou XLSX com cabeçalho na primeira linha.');
+    }
+  };
+
+  const handleValidate = async () => {
+    if (!sheet) return;
+    try {
+      setRows(await findDuplicates.mutateAsync(validateClientImport(sheet.rows, mapping)));
+      setStep('preview');
+    } catch (error) {
+      console.error('Erro ao verificar CPFs cadastrados:', error);
+      toast.error(getErrorMessage(error, 'Não foi possível verificar os CPFs já cadastrados. Tente novamente.'));
+    }
+  };
+
+  // Envia as linhas informadas; numa nova tentativa, o resultado substitui o anterior da mesma linha
+  const runImport = async (selected: ClientImportRow[]) => {
+    setProgress({ done: 0, total: selected.length });
+    setStep('running');
+    try {
+      const results = await importClients.mutateAsync({
+        rows: selected,
+        strategy,
+        onProgress: (_outcome, done, total) => setProgress({ done, total }),
+      });
+      const retried = new Set(results.map(outcome => outcome.row));
+      const merged = [...outcomes.filter(outcome => !retried.has(outcome.row)), ...results]
+        .sort((a, b) => a.row - b.row);
+      setOutcomes(merged);
+      setStep('result');
+
+      const failures = merged.filter(outcome => outcome.status === 'failed').length;
+      if (failures === 0) {
+        toast.success('Importação de clientes concluída');
+      } else {
+        toast.warning(`${failures} linhas falharam no envio`);
+      }
+    } catch (error) {
+      console.error('Erro ao importar clientes:', error);
+      toast.error('Erro ao importar clientes. Tente novamente.');
+      setStep('preview');
+    }
+  };
+
+  const handleRetryFailed = () => {
+    const failedRows = new Set(failed.map(outcome => outcome.row));
+    runImport(rows.filter(row => failedRows.has(row.row)));
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="w-5 h-5" />
+              Importar Clientes
+            </CardTitle>
+            <CardDescription>
+              {fileName ? `${fileName} · ${sheet?.rows.length ?? 0} linhas` : 'Arquivo CSV ou XLSX com cabeçalho na primeira linha'}
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} disabled={step === 'running'}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {step === 'upload' && (
+          <div className="space-y-2">
+            <Label htmlFor="clientImportFile">Arquivo</Label>
+            <Input
+              id="clientImportFile"
+              type="file"
+              accept={IMPORT_FILE_ACCEPT}
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+            <p className="text-sm text-gray-500">
+              Uma linha por cliente, com contato e endereço em colunas próprias. O CPF identifica clientes já cadastrados.
+            </p>
+          </div>
+        )}
+
+        {step === 'mapping' && sheet && (
+          <>
+            <ImportColumnMapping
+              fields={clientImportFields}
+              headers={sheet.headers}
+              mapping={mapping}
+              onChange={setMapping}
+            />
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setStep('upload')}>Voltar</Button>
+              <Button onClick={handleValidate} disabled={missingRequired.length > 0 || findDuplicates.isPending}>
+                {findDuplicates.isPending ? 'Verificando CPFs...' : `Simular importação de ${sheet.rows.length} linhas`}
+              </Button>
+            </div>
+          </>
+        )}
+
+        {step === 'preview' && (
+          <>
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span className="text-green-700">{summary.create} novos</span>
+              <span className="text-blue-700">{summary.update} atualizações</span>
+              <span className="text-gray-600">{summary.skip} ignorados</span>
+              <span className="text-red-600">{summary.invalid} com erros (não serão enviados)</span>
+            </div>
+            <div className="space-y-1 max-w-md">
+              <Label>CPF já cadastrado</Label>
+              <Select value={strategy} onValueChange={(value) => setStrategy(value as DuplicateStrategy)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(strategyLabels) as DuplicateStrategy[]).map(key => (
+                    <SelectItem key={key} value={key}>{strategyLabels[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="max-h-96 overflow-auto border rounded-md">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 px-3">Linha</th>
+                    <th className="py-2 px-3">Nome</th>
+                    <th className="py-2 px-3">CPF</th>
+                    <th className="py-2 px-3">Ação</th>
+                    <th className="py-2 px-3">Situação</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => {
+                    const action = getClientImportAction(row, strategy);
+                    return (
+                      <tr key={row.row} className={`border-t ${action === 'invalid' ? 'bg-red-50' : ''}`}>
+                        <td className="py-2 px-3">{row.row}</td>
+                        <td className="py-2 px-3">{row.request?.name ?? row.values[mapping.name ?? ''] ?? '-'}</td>
+                        <td className="py-2 px-3">{row.request?.cpf ?? row.values[mapping.cpf ?? ''] ?? '-'}</td>
+                        <td className="py-2 px-3">
+                          <Badge className={actionConfig[action].className}>{actionConfig[action].label}</Badge>
+                        </td>
+                        <td className="py-2 px-3">
+                          {row.errors.length > 0 ? (
+                            <ul className="text-red-600">
+                              {row.errors.map(error => <li key={error}>{error}</li>)}
+                            </ul>
+                          ) : row.existing ? (
+                            <span className="text-gray-600">Cadastrado como {row.existing.name}</span>
+                          ) : (
+                            <span className="flex items-center text-green-700">
+                              <CheckCircle2 className="w-4 h-4 mr-1" /> OK
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setStep('mapping')}>Voltar</Button>
+              <Button onClick={() => runImport(rows)} disabled={toSubmit === 0}>
+                Confirmar importação ({toSubmit} clientes)
+              </Button>
+            </div>
+          </>
+        )}
+
+        {step === 'running' && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>Importando clientes...</span>
+              <span>{progress.done} de {progress.total}</span>
+            </div>
+            <div className="h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {step === 'result' && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="flex items-center text-green-700">
+                <CheckCircle2 className="w-5 h-5 mr-2" />
+                {countOutcomes('created')} criados
+              </div>
+              <div className="flex items-center text-blue-700">
+                <CheckCircle2 className="w-5 h-5 mr-2" />
+                {countOutcomes('updated')} atualizados
+              </div>
+              <div className="flex items-center text-gray-600">
+                <AlertCircle className="w-5 h-5 mr-2" />
+                {countOutcomes('skipped')} ignorados · {summary.invalid} com erros
+              </div>
+              <div className="flex items-center text-red-600">
+                <AlertCircle className="w-5 h-5 mr-2" />
+                {failed.length} falharam no envio
+              </div>
+            </div>
+            {failed.length > 0 && (
+              <ul className="text-sm text-red-600 space-y-1">
+                {failed.map(({ row, error }) => (
+                  <li key={row}>Linha {row}: {error}</li>
+                ))}
+              </ul>
+            )}
+            <div className="flex justify-end space-x-2">
+              {failed.length > 0 && (
+                <Button variant="outline" onClick={handleRetryFailed}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Tentar novamente ({failed.length})
+                </Button>
+              )}
+              <Button onClick={onClose}>Concluir</Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
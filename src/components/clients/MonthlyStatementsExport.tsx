@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { FileArchive, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useDownloadMonthlyStatements } from '../../hooks/useClients';
+import { getErrorMessage } from '../../lib/errors';
+
+interface MonthlyStatementsExportProps {
+  onClose: () => void;
+}
+
+const previousMonth = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Extratos em PDF de todos os clientes ativos para o mês escolhido, baixados em um único .zip
+ */
+export function MonthlyStatementsExport({ onClose }: MonthlyStatementsExportProps) {
+  const [month, setMonth] = useState(previousMonth);
+  const downloadStatements = useDownloadMonthlyStatements();
+
+  const handleGenerate = async () => {
+    try {
+      const count = await downloadStatements.mutateAsync(month);
+      if (count === 0) {
+        toast.warning('Nenhum cliente ativo para gerar extratos');
+      } else {
+        toast.success(`${count} extratos gerados`);
+      }
+    } catch (error) {
+      console.error('Erro ao gerar extratos:', error);
+      toast.error(getErrorMessage(error, 'Erro ao gerar extratos. Tente novamente.'));
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileArchive className="w-5 h-5" />
+              Extratos Mensais
+            </CardTitle>
+            <CardDescription>
+              Um PDF por cliente ativo com saldos, movimentações e posições no fechamento do mês
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} disabled={downloadStatements.isPending}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-end gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="statementsMonth">Mês de referência</Label>
+            <Input
+              id="statementsMonth"
+              type="month"
+              className="w-44"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleGenerate} disabled={!month || downloadStatements.isPending}>
+            {downloadStatements.isPending ? 'Gerando...' : 'Gerar ZIP'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
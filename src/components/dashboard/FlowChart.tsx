@@ -0,0 +1,71 @@
+'use client';
+
+import Link from 'next/link';
+import type { MonthlyFlow } from '../../lib/movements';
+
+interface FlowChartProps {
+  data: MonthlyFlow[];
+  height?: number;
+}
+
+const MONTH_NAMES = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const getMonthRange = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+  return { start: `${month}-01`, end: `${month}-${String(lastDay).padStart(2, '0')}` };
+};
+
+/**
+ * Barras mensais de entradas (acima do eixo) e saídas (abaixo); cada mês abre a lista filtrada
+ */
+export function FlowChart({ data, height = 200 }: FlowChartProps) {
+  if (data.length === 0) {
+    return <p className="text-sm text-gray-500">Nenhuma movimentação no período.</p>;
+  }
+
+  const max = Math.max(...data.map(item => Math.max(item.deposits, item.withdrawals)), 1);
+  const half = height / 2;
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex items-stretch gap-1 min-w-full" style={{ height }}>
+        {data.map(item => {
+          const { start, end } = getMonthRange(item.month);
+          const [year, monthNumber] = item.month.split('-');
+          return (
+            <Link
+              key={item.month}
+              href={`/movements?start_date=${start}&end_date=${end}`}
+              className="group flex-1 min-w-[28px] flex flex-col"
+              title={`${item.month}: entradas ${formatCurrency(item.deposits)}, saídas ${formatCurrency(item.withdrawals)}`}
+            >
+              <div className="flex items-end justify-center border-b border-gray-300" style={{ height: half }}>
+                <div
+                  className="w-3/4 bg-green-500 group-hover:bg-green-600 rounded-t"
+                  style={{ height: (item.deposits / max) * (half - 4) }}
+                />
+              </div>
+              <div className="flex items-start justify-center" style={{ height: half - 20 }}>
+                <div
+                  className="w-3/4 bg-red-400 group-hover:bg-red-500 rounded-b"
+                  style={{ height: (item.withdrawals / max) * (half - 24) }}
+                />
+              </div>
+              <span className="text-[10px] text-center text-gray-500 leading-5">
+                {MONTH_NAMES[Number(monthNumber) - 1]}/{year.slice(2)}
+              </span>
+            </Link>
+          );
+        })}
+      </div>
+      <div className="mt-2 flex items-center gap-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 bg-green-500 rounded-sm" /> Entradas</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 bg-red-400 rounded-sm" /> Saídas</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/useAuth';
+import { useApproveMovement, useRejectMovement } from '../../hooks/useMovements';
+import { approvalStatusLabels, canReviewMovement } from '../../lib/approvals';
+import { getErrorMessage } from '../../lib/errors';
+import type { MovementWithClient } from '../../services/adaptedMovementService';
+
+interface ApprovalActionsProps {
+  movement: MovementWithClient;
+}
+
+/**
+ * Aprovar / rejeitar com motivo. O autor da movimentação vê o aviso em vez dos botões (maker-checker).
+ */
+export function ApprovalActions({ movement }: ApprovalActionsProps) {
+  const { user } = useAuth();
+  const { hasPermission } = usePermissions();
+  const approveMovement = useApproveMovement();
+  const rejectMovement = useRejectMovement();
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [reason, setReason] = useState('');
+
+  if (movement.status !== 'pending_approval' || !hasPermission('movements:approve')) {
+    return null;
+  }
+
+  if (!canReviewMovement(movement, user?.email)) {
+    return (
+      <p className="text-sm text-amber-700">
+        Você criou esta movimentação; a aprovação deve ser feita por outro usuário.
+      </p>
+    );
+  }
+
+  const isPending = approveMovement.isPending || rejectMovement.isPending;
+
+  const handleApprove = async () => {
+    try {
+      await approveMovement.mutateAsync(movement);
+      toast.success('Movimentação aprovada');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Erro ao aprovar movimentação. Tente novamente.'));
+    }
+  };
+
+  const handleReject = async () => {
+    if (!reason.trim()) {
+      toast.error('Informe o motivo da rejeição');
+      return;
+    }
+
+    try {
+      await rejectMovement.mutateAsync({ movement, reason: reason.trim() });
+      toast.success('Movimentação rejeitada');
+      setIsRejecting(false);
+      setReason('');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Erro ao rejeitar movimentação. Tente novamente.'));
+    }
+  };
+
+  if (isRejecting) {
+    return (
+      <div className="space-y-2">
+        <Textarea
+          placeholder="Motivo da rejeição..."
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={2}
+        />
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setIsRejecting(false)} disabled={isPending}>
+            Cancelar
+          </Button>
+          <Button variant="destructive" size="sm" onClick={handleReject} disabled={isPending}>
+            Confirmar rejeição
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex space-x-2">
+      <Button size="sm" onClick={handleApprove} disabled={isPending}>
+        <Check className="w-4 h-4 mr-1" />
+        Aprovar
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => setIsRejecting(true)} disabled={isPending}>
+        <X className="w-4 h-4 mr-1" />
+        Rejeitar
+      </Button>
+    </div>
+  );
+}
+
+const statusStyles: Record<NonNullable<MovementWithClient['status']>, string> = {
+  pending_approval: 'bg-amber-100 text-amber-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-gray-200 text-gray-700',
+};
+
+export function ApprovalStatusBadge({ status }: { status: MovementWithClient['status'] }) {
+  if (!status) return null;
+
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[status]}`}>
+      {approvalStatusLabels[status]}
+    </span>
+  );
+}
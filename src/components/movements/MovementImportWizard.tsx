@@ -0,0 +1,248 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { AlertCircle, CheckCircle2, Download, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ImportColumnMapping } from '../ImportColumnMapping';
+import { useClients } from '../../hooks/useClients';
+import { useImportMovements } from '../../hooks/useMovements';
+import {
+  guessMovementColumnMapping,
+  movementImportFields,
+  validateMovementImport,
+  type MovementColumnMapping,
+  type MovementImportResult,
+  type MovementImportRow,
+} from '../../lib/movementImport';
+import { movementTypeConfig } from '../../schemas/movement';
+import { exportMovementImportErrors } from '../../utils/exportUtils';
+import { CLIENT_LOOKUP_LIMIT, IMPORT_FILE_ACCEPT, readSpreadsheet, type ImportSheet } from '../../utils/importUtils';
+
+type Step = 'upload' | 'mapping' | 'preview' | 'result';
+
+interface MovementImportWizardProps {
+  onClose: () => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+/**
+ * Importação de movimentações: arquivo -> mapeamento de colunas -> prévia validada -> resultado
+ */
+export function MovementImportWizard({ onClose }: MovementImportWizardProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<MovementColumnMapping>({});
+  const [rows, setRows] = useState<MovementImportRow[]>([]);
+  const [result, setResult] = useState<MovementImportResult | null>(null);
+
+  const { data: clientsData, isLoading: isLoadingClients } = useClients({ page: 1, limit: CLIENT_LOOKUP_LIMIT });
+  const importMovements = useImportMovements();
+
+  const validRows = rows.filter(row => row.request);
+  const invalidCount = rows.length - validRows.length;
+  const missingRequired = movementImportFields.filter(field => field.required && !mapping[field.field]);
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = await readSpreadsheet(file);
+      if (parsed.rows.length === 0) {
+        toast.error('O arquivo não tem linhas para importar');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessMovementColumnMapping(parsed.headers));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Erro ao ler arquivo:', error);
+      toast.error('Não foi possível ler o arquivo. Use CSV ou XLSX com cabeçalho na primeira linha.');
+    }
+  };
+
+  const handleValidate = () => {
+    if (!sheet) return;
+    setRows(validateMovementImport(sheet.rows, mapping, clientsData?.items ?? []));
+    setStep('preview');
+  };
+
+  const handleSubmit = async () => {
+    try {
+      const importResult = await importMovements.mutateAsync(rows);
+      setResult(importResult);
+      setStep('result');
+      if (importResult.failureCount === 0) {
+        toast.success(`${importResult.successCount} movimentações importadas`);
+      } else {
+        toast.warning(`${importResult.successCount} importadas, ${importResult.failureCount} com erro`);
+      }
+    } catch (error) {
+      console.error('Erro ao importar movimentações:', error);
+      toast.error('Erro ao importar movimentações. Tente novamente.');
+    }
+  };
+
+  const handleDownloadErrors = async () => {
+    if (!result) return;
+    try {
+      await exportMovementImportErrors(rows, mapping, result, 'excel');
+    } catch (error) {
+      console.error('Erro ao exportar relatório:', error);
+      alert('Erro ao exportar relatório de erros. Tente novamente.');
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="w-5 h-5" />
+              Importar Movimentações
+            </CardTitle>
+            <CardDescription>
+              {fileName ? `${fileName} · ${sheet?.rows.length ?? 0} linhas` : 'Arquivo CSV ou XLSX com cabeçalho na primeira linha'}
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {step === 'upload' && (
+          <div className="space-y-2">
+            <Label htmlFor="importFile">Arquivo</Label>
+            <Input
+              id="importFile"
+              type="file"
+              accept={IMPORT_FILE_ACCEPT}
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+            <p className="text-sm text-gray-500">
+              Clientes são identificados pelo CPF ou pelo nome completo. Tipos aceitos: depósito/aporte e saque/resgate.
+            </p>
+          </div>
+        )}
+
+        {step === 'mapping' && sheet && (
+          <>
+            <ImportColumnMapping
+              fields={movementImportFields}
+              headers={sheet.headers}
+              mapping={mapping}
+              onChange={setMapping}
+            />
+            <p className="text-sm text-gray-500">Sem coluna de data, as movimentações entram com a data de hoje.</p>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setStep('upload')}>Voltar</Button>
+              <Button onClick={handleValidate} disabled={missingRequired.length > 0 || isLoadingClients}>
+                Validar {sheet.rows.length} linhas
+              </Button>
+            </div>
+          </>
+        )}
+
+        {step === 'preview' && (
+          <>
+            <div className="flex gap-4 text-sm">
+              <span className="text-green-700">{validRows.length} válidas</span>
+              <span className="text-red-600">{invalidCount} com erros (não serão enviadas)</span>
+            </div>
+            <div className="max-h-96 overflow-auto border rounded-md">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 px-3">Linha</th>
+                    <th className="py-2 px-3">Cliente</th>
+                    <th className="py-2 px-3">Tipo</th>
+                    <th className="py-2 px-3 text-right">Valor</th>
+                    <th className="py-2 px-3">Data</th>
+                    <th className="py-2 px-3">Situação</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.row} className={`border-t ${row.request ? '' : 'bg-red-50'}`}>
+                      <td className="py-2 px-3">{row.row}</td>
+                      <td className="py-2 px-3">{row.clientName ?? row.values[mapping.client ?? ''] ?? '-'}</td>
+                      <td className="py-2 px-3">
+                        {row.request ? movementTypeConfig[row.request.type].label : row.values[mapping.type ?? '']}
+                      </td>
+                      <td className="py-2 px-3 text-right">
+                        {row.request ? formatCurrency(row.request.amount) : row.values[mapping.amount ?? '']}
+                      </td>
+                      <td className="py-2 px-3">{row.date ? row.date.split('-').reverse().join('/') : '-'}</td>
+                      <td className="py-2 px-3">
+                        {row.request ? (
+                          <span className="flex items-center text-green-700">
+                            <CheckCircle2 className="w-4 h-4 mr-1" /> OK
+                          </span>
+                        ) : (
+                          <ul className="text-red-600">
+                            {row.errors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={importMovements.isPending}>
+                Voltar
+              </Button>
+              <Button onClick={handleSubmit} disabled={validRows.length === 0 || importMovements.isPending}>
+                {importMovements.isPending ? 'Importando...' : `Importar ${validRows.length} movimentações`}
+              </Button>
+            </div>
+          </>
+        )}
+
+        {step === 'result' && result && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="flex items-center text-green-700">
+                <CheckCircle2 className="w-5 h-5 mr-2" />
+                {result.successCount} importadas
+              </div>
+              <div className="flex items-center text-red-600">
+                <AlertCircle className="w-5 h-5 mr-2" />
+                {result.failureCount} recusadas no envio
+              </div>
+              <div className="flex items-center text-gray-600">
+                <AlertCircle className="w-5 h-5 mr-2" />
+                {invalidCount} não enviadas por erros de validação
+              </div>
+            </div>
+            {result.movements.failed.length > 0 && (
+              <ul className="text-sm text-red-600 space-y-1">
+                {result.movements.failed.map(({ row, error }) => (
+                  <li key={row}>Linha {row}: {error}</li>
+                ))}
+              </ul>
+            )}
+            <div className="flex justify-end space-x-2">
+              {(result.failureCount > 0 || invalidCount > 0) && (
+                <Button variant="outline" onClick={handleDownloadErrors}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Baixar relatório de erros
+                </Button>
+              )}
+              <Button onClick={onClose}>Concluir</Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
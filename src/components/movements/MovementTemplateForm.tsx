@@ -0,0 +1,224 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatCurrency, movementTemplateSchema, parseCurrency } from '../../schemas/movement';
+import { frequencyLabels, toIsoDate, type RecurrenceFrequency } from '../../lib/recurringMovements';
+import type { MovementTemplateCreate } from '../../services/adaptedMovementTemplateService';
+import type { Client } from '../../types/client';
+import type { MovementTemplate } from '../../types/movement';
+
+interface MovementTemplateFormProps {
+  template?: MovementTemplate;
+  clients: Client[];
+  isSubmitting: boolean;
+  onSubmit: (template: MovementTemplateCreate) => void;
+  onCancel: () => void;
+}
+
+const initialState = (template?: MovementTemplate) => ({
+  name: template?.name ?? '',
+  description: template?.description ?? '',
+  clientId: template?.clientId ?? '',
+  type: template?.type === 'withdrawal' ? 'withdrawal' : 'deposit',
+  amount: template?.defaultAmount?.toString().replace('.', ',') ?? '',
+  frequency: template?.recurringConfig?.frequency ?? 'monthly',
+  interval: template?.recurringConfig?.interval.toString() ?? '1',
+  startDate: template?.recurringConfig ? toIsoDate(template.recurringConfig.startDate) : toIsoDate(new Date()),
+  endDate: template?.recurringConfig?.endDate ? toIsoDate(template.recurringConfig.endDate) : '',
+  maxOccurrences: template?.recurringConfig?.maxOccurrences?.toString() ?? '',
+});
+
+/**
+ * Cadastro/edição de um agendamento: modelo de movimentação recorrente de um cliente
+ */
+export function MovementTemplateForm({ template, clients, isSubmitting, onSubmit, onCancel }: MovementTemplateFormProps) {
+  const [formData, setFormData] = useState(() => initialState(template));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const update = (changes: Partial<typeof formData>) => setFormData(prev => ({ ...prev, ...changes }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = movementTemplateSchema.safeParse({
+      name: formData.name,
+      description: formData.description,
+      type: formData.type,
+      clientId: formData.clientId || undefined,
+      defaultAmount: parseCurrency(formData.amount),
+      isRecurring: template?.isRecurring ?? true,
+      recurringConfig: {
+        frequency: formData.frequency,
+        interval: Number(formData.interval),
+        startDate: new Date(formData.startDate),
+        endDate: formData.endDate ? new Date(formData.endDate) : undefined,
+        maxOccurrences: formData.maxOccurrences ? Number(formData.maxOccurrences) : undefined,
+      },
+    });
+
+    if (!parsed.success) {
+      setErrors(Object.fromEntries(parsed.error.issues.map(issue => [issue.path.join('.'), issue.message])));
+      return;
+    }
+    setErrors({});
+    onSubmit(parsed.data);
+  };
+
+  const fieldError = (field: string) =>
+    errors[field] && <p className="text-sm text-red-600">{errors[field]}</p>;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>{template ? 'Editar Agendamento' : 'Novo Agendamento'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="templateName">Nome</Label>
+              <Input
+                id="templateName"
+                placeholder="Ex: Aporte mensal"
+                value={formData.name}
+                onChange={(e) => update({ name: e.target.value })}
+              />
+              {fieldError('name')}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="templateDescription">Descrição</Label>
+              <Input
+                id="templateDescription"
+                placeholder="Usada como observação das movimentações geradas"
+                value={formData.description}
+                onChange={(e) => update({ description: e.target.value })}
+              />
+              {fieldError('description')}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-2">
+              <Label>Cliente</Label>
+              <Select value={formData.clientId} onValueChange={(value) => update({ clientId: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione um cliente" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clients.map(client => (
+                    <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {fieldError('clientId')}
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={formData.type} onValueChange={(value) => update({ type: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="deposit">Depósito</SelectItem>
+                  <SelectItem value="withdrawal">Saque</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="templateAmount">Valor por ocorrência</Label>
+              <Input
+                id="templateAmount"
+                placeholder="0,00"
+                value={formData.amount}
+                onChange={(e) => update({ amount: e.target.value.replace(/[^\d,.]/g, '') })}
+              />
+              {formData.amount && (
+                <p className="text-sm text-gray-500">Valor: {formatCurrency(parseCurrency(formData.amount))}</p>
+              )}
+              {fieldError('defaultAmount')}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
+            <div className="space-y-2">
+              <Label>Frequência</Label>
+              <Select
+                value={formData.frequency}
+                onValueChange={(value) => update({ frequency: value as RecurrenceFrequency })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(frequencyLabels) as RecurrenceFrequency[]).map(frequency => (
+                    <SelectItem key={frequency} value={frequency}>{frequencyLabels[frequency].adjective}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="templateInterval">A cada ({frequencyLabels[formData.frequency].plural})</Label>
+              <Input
+                id="templateInterval"
+                type="number"
+                min={1}
+                value={formData.interval}
+                onChange={(e) => update({ interval: e.target.value })}
+              />
+              {fieldError('recurringConfig.interval')}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="templateStart">Primeira ocorrência</Label>
+              <Input
+                id="templateStart"
+                type="date"
+                value={formData.startDate}
+                onChange={(e) => update({ startDate: e.target.value })}
+              />
+              {fieldError('recurringConfig.startDate')}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="templateEnd">Até (opcional)</Label>
+              <Input
+                id="templateEnd"
+                type="date"
+                value={formData.endDate}
+                onChange={(e) => update({ endDate: e.target.value })}
+              />
+              {fieldError('recurringConfig.endDate')}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="templateMax">Nº de ocorrências (opcional)</Label>
+              <Input
+                id="templateMax"
+                type="number"
+                min={1}
+                value={formData.maxOccurrences}
+                onChange={(e) => update({ maxOccurrences: e.target.value })}
+              />
+              {fieldError('recurringConfig.maxOccurrences')}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onCancel}>Cancelar</Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Salvando...' : 'Salvar Agendamento'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
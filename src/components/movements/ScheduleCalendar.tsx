@@ -0,0 +1,73 @@
+'use client';
+
+import type { ScheduledOccurrence } from '../../lib/recurringMovements';
+
+interface ScheduleCalendarProps {
+  month: string; // AAAA-MM
+  occurrences: ScheduledOccurrence[];
+  clientNames: Map<string, string>;
+  today: string;
+}
+
+const WEEKDAYS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+// Geradas ficam esmaecidas; vencidas e não geradas ficam em destaque
+const occurrenceClassName = (occurrence: ScheduledOccurrence, today: string) => {
+  if (occurrence.generated) return 'bg-gray-100 text-gray-500 line-through';
+  if (occurrence.date <= today) return 'bg-orange-100 text-orange-800';
+  return occurrence.type === 'deposit' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800';
+};
+
+/**
+ * Calendário mensal das ocorrências programadas
+ */
+export function ScheduleCalendar({ month, occurrences, clientNames, today }: ScheduleCalendarProps) {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const firstWeekday = new Date(Date.UTC(year, monthIndex - 1, 1)).getUTCDay();
+  const daysInMonth = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+
+  const byDate = occurrences.reduce((map, occurrence) => {
+    map.set(occurrence.date, [...(map.get(occurrence.date) ?? []), occurrence]);
+    return map;
+  }, new Map<string, ScheduledOccurrence[]>());
+
+  // Células vazias antes do dia 1 para alinhar com o dia da semana
+  const cells = [
+    ...Array.from({ length: firstWeekday }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, index) => `${month}-${String(index + 1).padStart(2, '0')}`),
+  ];
+
+  return (
+    <div className="grid grid-cols-7 gap-px bg-gray-200 border rounded-md overflow-hidden text-xs">
+      {WEEKDAYS.map(day => (
+        <div key={day} className="bg-gray-50 py-2 text-center font-medium text-gray-500">{day}</div>
+      ))}
+      {cells.map((date, index) => (
+        <div
+          key={date ?? `empty-${index}`}
+          className={`bg-white min-h-[88px] p-1 ${date === today ? 'ring-2 ring-inset ring-blue-500' : ''}`}
+        >
+          {date && (
+            <>
+              <div className="text-gray-500 mb-1">{Number(date.slice(8))}</div>
+              <div className="space-y-1">
+                {(byDate.get(date) ?? []).map(occurrence => (
+                  <div
+                    key={`${occurrence.templateId}-${occurrence.index}`}
+                    className={`rounded px-1 py-0.5 truncate ${occurrenceClassName(occurrence, today)}`}
+                    title={`${occurrence.templateName} · ${clientNames.get(occurrence.clientId) ?? ''}`}
+                  >
+                    {clientNames.get(occurrence.clientId) ?? occurrence.templateName} · {formatCurrency(occurrence.amount)}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
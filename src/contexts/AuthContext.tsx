@@ -3,42 +3,60 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { authService } from '../services/api';
+import { sessionStore, refreshSession, onSessionChange, getRefreshDelay, getPostLoginRedirect } from '../lib/auth';
+import { ApiError, getErrorMessage, isBackendUnreachable } from '../lib/errors';
+import type { User, AuthContextType, SessionResponse } from '../types/auth';
 import { toast } from 'sonner';
 
-interface User {
-  id: string;
-  email: string;
-}
-
-interface AuthContextType {
-  user: User | null;
-  token: string | null;
-  isLoading: boolean;
-  isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<void>;
-  register: (email: string, password: string) => Promise<void>;
-  logout: () => void;
-}
-
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
-  const [token, setToken] = useState<string | null>(null);
+  const [session, setSession] = useState<SessionResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const router = useRouter();
 
-  const isAuthenticated = Boolean(token && user);
+  const isAuthenticated = Boolean(session && user);
 
   // Função para limpar dados de autenticação
   const clearAuth = useCallback(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('access_token');
-    }
-    setToken(null);
+    sessionStore.clear();
+    setSession(null);
     setUser(null);
   }, []);
 
+  // Manter o estado sincronizado com refreshes feitos pelos clientes HTTP
+  useEffect(() => {
+    return onSessionChange((newSession) => {
+      setSession(newSession);
+      if (!newSession) setUser(null);
+    });
+  }, []);
+
+  // Agendar a renovação proativa da sessão com base na expiração do token
+  useEffect(() => {
+    if (!session) return;
+
+    const delay = getRefreshDelay();
+    if (delay === null) return;
+
+    const timer = setTimeout(() => {
+      refreshSession();
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  const refreshAuth = useCallback(async () => {
+    const refreshed = await refreshSession();
+    if (!refreshed) {
+      clearAuth();
+      return;
+    }
+    const currentUser = await authService.getCurrentUser();
+    setUser(currentUser);
+  }, [clearAuth]);
+
   // Inicializar estado de autenticação
   useEffect(() => {
     const initializeAuth = async () => {
@@ -49,20 +67,27 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
 
       try {
-        const storedToken = localStorage.getItem('access_token');
+        // O cookie httpOnly não é legível aqui, então perguntamos ao servidor se há sessão
+        const currentSession = await authService.getSession();
         
-        if (!storedToken) {
+        if (!currentSession.authenticated) {
           setIsLoading(false);
           return;
         }
 
-        // Simular validação do token
-        // Em uma aplicação real, você faria uma chamada para o backend
-        setToken(storedToken);
-        setUser({ id: '1', email: 'user@example.com' });
+        sessionStore.set(currentSession);
+
+        // Validar o token no backend (um 401 dispara refresh e nova tentativa automaticamente)
+        const currentUser = await authService.getCurrentUser();
+        setUser(currentUser);
         
       } catch (error) {
         console.error('Erro ao inicializar autenticação:', error);
+        if (isBackendUnreachable(error)) {
+          toast.error(getErrorMessage(error, 'Não foi possível conectar ao servidor.'));
+        }
+        // Remover o cookie também, senão o middleware e o cliente discordam sobre a sessão
+        await authService.logout();
         clearAuth();
       } finally {
         setIsLoading(false);
@@ -78,25 +103,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       
       const response = await authService.login({ email, password });
       
-      // Salvar token
-      if (typeof window !== 'undefined') {
-        localStorage.setItem('access_token', response.access_token);
-      }
-      
-      setToken(response.access_token);
-      setUser({ id: '1', email });
+      // O token já foi gravado no cookie pela rota; carregar os dados reais do usuário
+      sessionStore.set(response);
+      setUser(await authService.getCurrentUser());
       
       toast.success('Login realizado com sucesso!');
-      router.push('/dashboard');
+      router.push(getPostLoginRedirect());
       
     } catch (error: unknown) {
       console.error('Erro no login:', error);
       
-      let errorMessage = 'Erro ao fazer login. Tente novamente.';
-      if (error && typeof error === 'object' && 'response' in error) {
-        const axiosError = error as { response?: { data?: { detail?: string } } };
-        errorMessage = axiosError.response?.data?.detail || errorMessage;
-      }
+      // Nos endpoints de autenticação a mensagem do backend (ex: credenciais inválidas) é a mais útil
+      const errorMessage = error instanceof ApiError && error.status
+        ? error.message
+        : getErrorMessage(error, 'Erro ao fazer login. Tente novamente.');
       
       toast.error(errorMessage);
       throw error;
@@ -111,25 +131,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       
       const response = await authService.register({ email, password });
       
-      // Salvar token
-      if (typeof window !== 'undefined') {
-        localStorage.setItem('access_token', response.access_token);
-      }
-      
-      setToken(response.access_token);
-      setUser({ id: '1', email });
+      // O token já foi gravado no cookie pela rota; carregar os dados reais do usuário
+      sessionStore.set(response);
+      setUser(await authService.getCurrentUser());
       
       toast.success('Cadastro realizado com sucesso!');
-      router.push('/dashboard');
+      router.push(getPostLoginRedirect());
       
     } catch (error: unknown) {
       console.error('Erro no cadastro:', error);
       
-      let errorMessage = 'Erro ao criar conta. Tente novamente.';
-      if (error && typeof error === 'object' && 'response' in error) {
-        const axiosError = error as { response?: { data?: { detail?: string } } };
-        errorMessage = axiosError.response?.data?.detail || errorMessage;
-      }
+      // Nos endpoints de autenticação a mensagem do backend (ex: credenciais inválidas) é a mais útil
+      const errorMessage = error instanceof ApiError && error.status
+        ? error.message
+        : getErrorMessage(error, 'Erro ao criar conta. Tente novamente.');
       
       toast.error(errorMessage);
       throw error;
@@ -138,7 +153,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const logout = () => {
+  const logout = async () => {
+    // Encerrar a sessão no backend e remover o cookie antes de limpar o estado local
+    await authService.logout();
     clearAuth();
     toast.success('Logout realizado com sucesso!');
     router.push('/');
@@ -146,12 +163,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const value: AuthContextType = {
     user,
-    token,
     isLoading,
     isAuthenticated,
     login,
     register,
     logout,
+    refreshAuth,
   };
 
   return (
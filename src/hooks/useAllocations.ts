@@ -0,0 +1,75 @@
+'use client';
+
+import { keepPreviousData, useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { allocationService } from '../services/adaptedAllocationService';
+import { clientInvestmentService } from '../services/clientInvestmentService';
+import { suitabilityService } from '../services/suitabilityService';
+import { allocationKeys, clientKeys } from '../lib/queryKeys';
+import { removeFromListQueries, restoreQueries, type QuerySnapshot } from '../lib/queryCache';
+import type { AllocationCreate, AllocationFilters, AllocationUpdate, AllocationWithDetails } from '../types/allocation';
+
+// Toda mudança de alocação altera a carteira e as estatísticas do cliente
+const invalidateAllocationQueries = (queryClient: QueryClient, clientId?: number) => {
+  queryClient.invalidateQueries({ queryKey: allocationKeys.all });
+  clientInvestmentService.invalidate(clientId?.toString());
+  queryClient.invalidateQueries({ queryKey: clientKeys.investmentStats() });
+  queryClient.invalidateQueries({
+    queryKey: clientId !== undefined ? clientKeys.detail(clientId.toString()) : clientKeys.details(),
+  });
+};
+
+export function useAllocations(filters: AllocationFilters = {}, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: allocationKeys.list(filters),
+    queryFn: () => allocationService.getAllocations(filters),
+    placeholderData: keepPreviousData,
+    ...options,
+  });
+}
+
+export function useAllocationSummary(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: allocationKeys.summary(),
+    queryFn: () => allocationService.getAllocationSummary(),
+    ...options,
+  });
+}
+
+export function useCreateAllocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // Confere o perfil de suitability do cliente antes de gravar
+    mutationFn: (allocation: AllocationCreate) => suitabilityService.createAllocation(allocation),
+    onSuccess: (_data, allocation) => invalidateAllocationQueries(queryClient, allocation.client_id),
+  });
+}
+
+export function useUpdateAllocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: AllocationUpdate }) => allocationService.updateAllocation(id, data),
+    onSuccess: (allocation) => invalidateAllocationQueries(queryClient, allocation.client_id),
+  });
+}
+
+/**
+ * Exclusão otimista: a alocação some das listas antes da resposta da API
+ */
+export function useDeleteAllocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, AllocationWithDetails, { snapshot: QuerySnapshot }>({
+    mutationFn: (allocation) => allocationService.deleteAllocation(allocation.id),
+    onMutate: async (allocation) => ({
+      snapshot: await removeFromListQueries<AllocationWithDetails>(
+        queryClient,
+        allocationKeys.lists(),
+        item => item.id === allocation.id
+      ),
+    }),
+    onError: (_error, _allocation, context) => restoreQueries(queryClient, context?.snapshot),
+    onSettled: (_data, _error, allocation) => invalidateAllocationQueries(queryClient, allocation.client_id),
+  });
+}
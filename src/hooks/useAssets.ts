@@ -0,0 +1,141 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { assetService, type AssetCreate, type AssetUpdate } from '../services/adaptedAssetService';
+import { marketIndexService } from '../services/marketIndexService';
+import { priceHistoryService } from '../services/priceHistoryService';
+import { allocationKeys, assetKeys, clientKeys, marketIndexKeys, priceKeys } from '../lib/queryKeys';
+import { removeFromListQueries, restoreQueries, type QuerySnapshot } from '../lib/queryCache';
+import type { Asset } from '../types/investment';
+import type { IndexPoint, IndexSeriesName } from '../lib/portfolio/fixedIncome';
+import type { PricePoint } from '../lib/portfolio/prices';
+
+export function useAssets(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: assetKeys.lists(),
+    queryFn: () => assetService.getAssets(),
+    ...options,
+  });
+}
+
+export function useAsset(id: string, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: assetKeys.detail(id),
+    queryFn: () => assetService.getAsset(id),
+    ...options,
+  });
+}
+
+export function useCreateAsset() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (asset: AssetCreate) => assetService.createAsset(asset),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: assetKeys.lists() }),
+  });
+}
+
+export function useCreateAssetFromYahoo() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (symbol: string) => assetService.createAssetFromYahoo(symbol),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: assetKeys.lists() }),
+  });
+}
+
+/**
+ * Edição do cadastro; tipo e dados do ativo aparecem nas carteiras dos clientes
+ */
+export function useUpdateAsset() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: AssetUpdate }) => assetService.updateAsset(id, data),
+    onSuccess: (asset) => queryClient.setQueryData(assetKeys.detail(asset.id), asset),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: assetKeys.all });
+      queryClient.invalidateQueries({ queryKey: clientKeys.details() });
+    },
+  });
+}
+
+/**
+ * Exclusão otimista do ativo; as carteiras dos clientes são recalculadas ao final
+ */
+export function useDeleteAsset() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string, { snapshot: QuerySnapshot }>({
+    mutationFn: (id: string) => assetService.deleteAsset(parseInt(id)),
+    onMutate: async (id) => ({
+      snapshot: await removeFromListQueries<Asset>(queryClient, assetKeys.lists(), asset => asset.id === id),
+    }),
+    onError: (_error, _id, context) => restoreQueries(queryClient, context?.snapshot),
+    onSuccess: (_data, id) => queryClient.removeQueries({ queryKey: assetKeys.detail(id) }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: assetKeys.all });
+      queryClient.invalidateQueries({ queryKey: allocationKeys.all });
+      queryClient.invalidateQueries({ queryKey: clientKeys.details() });
+    },
+  });
+}
+
+/**
+ * Séries de CDI, SELIC e IPCA guardadas no navegador, usadas na marcação na curva
+ */
+export function useMarketIndexes() {
+  return useQuery({
+    queryKey: marketIndexKeys.all,
+    queryFn: () => marketIndexService.getIndexes(),
+  });
+}
+
+export function useImportIndexPoints() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, points }: { id: IndexSeriesName; points: IndexPoint[] }) =>
+      marketIndexService.importPoints(id, points),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: marketIndexKeys.all });
+      queryClient.invalidateQueries({ queryKey: clientKeys.details() });
+    },
+  });
+}
+
+/**
+ * Fechamentos diários do ativo registrados no navegador
+ */
+export function usePriceSeries(assetId: string, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: priceKeys.series(assetId),
+    queryFn: () => priceHistoryService.getPriceSeries(Number(assetId)),
+    ...options,
+  });
+}
+
+// Cotações novas mudam o valor atual das carteiras
+const invalidatePriceQueries = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({ queryKey: priceKeys.all });
+  queryClient.invalidateQueries({ queryKey: clientKeys.details() });
+};
+
+export function useImportPrices() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (pricesByAsset: Map<number, PricePoint[]>) => priceHistoryService.importPrices(pricesByAsset),
+    onSettled: () => invalidatePriceQueries(queryClient),
+  });
+}
+
+export function useDeletePrice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ assetId, date }: { assetId: string; date: string }) =>
+      priceHistoryService.deletePrice(Number(assetId), date),
+    onSettled: () => invalidatePriceQueries(queryClient),
+  });
+}
@@ -2,7 +2,11 @@
 
 import { useAuth } from '../contexts/AuthContext';
 import { useRouter } from 'next/navigation';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { getUserRole, roleHasPermission } from '../lib/permissions';
+import { getLoginUrl, getPostLoginRedirect } from '../lib/auth';
+import type { Permission } from '../types/auth';
 
 /**
  * Hook para páginas que exigem autenticação
@@ -14,7 +18,7 @@ export function useRequireAuth() {
 
   useEffect(() => {
     if (typeof window !== 'undefined' && !isLoading && !isAuthenticated) {
-      router.push('/login');
+      router.push(getLoginUrl());
     }
   }, [isLoading, isAuthenticated, router]);
 
@@ -38,7 +42,7 @@ export function useRedirectIfAuthenticated() {
     
     if (!isLoading) {
       if (isAuthenticated) {
-        router.push('/dashboard');
+        router.push(getPostLoginRedirect());
       } else {
         setShouldShow(true);
       }
@@ -52,19 +56,49 @@ export function useRedirectIfAuthenticated() {
 }
 
 /**
- * Hook para verificação de permissões (para uso futuro)
+ * Hook para verificação de permissões com base no papel do usuário
  */
 export function usePermissions() {
   const { user, isAuthenticated } = useAuth();
+  const role = getUserRole(user);
 
-  const hasPermission = () => {
+  const hasPermission = useCallback((permission: Permission) => {
     if (!isAuthenticated || !user) return false;
-    // Implementar lógica de permissões aqui
-    return true;
-  };
+    return roleHasPermission(role, permission);
+  }, [isAuthenticated, user, role]);
+
+  const hasAllPermissions = useCallback((permissions: Permission[]) => {
+    return permissions.every(hasPermission);
+  }, [hasPermission]);
 
   return {
+    role,
     hasPermission,
+    hasAllPermissions,
     isAuthenticated,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Hook para páginas que exigem uma permissão específica (guarda de rota)
+ * Redireciona para o dashboard se o usuário não tiver a permissão
+ */
+export function useRequirePermission(permission: Permission) {
+  const auth = useRequireAuth();
+  const { hasPermission } = usePermissions();
+  const router = useRouter();
+  const isAllowed = hasPermission(permission);
+
+  useEffect(() => {
+    if (!auth.isLoading && auth.isAuthenticated && !isAllowed) {
+      toast.error('Você não tem permissão para acessar esta página.');
+      router.replace('/dashboard');
+    }
+  }, [auth.isLoading, auth.isAuthenticated, isAllowed, router]);
+
+  return {
+    ...auth,
+    isAllowed,
+    isLoading: auth.isLoading || !isAllowed,
+  };
+}
@@ -0,0 +1,15 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { isFeatureSupported, onFeatureUnsupported, type BackendFeature } from '../lib/backendFeatures';
+
+/**
+ * Se o backend tem o recurso; passa a false quando uma listagem ou criação recebe 404
+ */
+export function useFeatureSupported(feature: BackendFeature): boolean {
+  return useSyncExternalStore(
+    onFeatureUnsupported,
+    () => isFeatureSupported(feature),
+    () => true
+  );
+}
@@ -0,0 +1,254 @@
+'use client';
+
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { clientService } from '../services/adaptedClientService';
+import { clientInvestmentService } from '../services/clientInvestmentService';
+import { performanceService } from '../services/performanceService';
+import { cashService } from '../services/cashService';
+import { statementService } from '../services/statementService';
+import { allocationService } from '../services/adaptedAllocationService';
+import { movementService } from '../services/adaptedMovementService';
+import { suitabilityAssessmentService } from '../services/adaptedSuitabilityService';
+import { suitabilityService } from '../services/suitabilityService';
+import { downloadClientStatement, downloadStatementsZip } from '../utils/statementPdf';
+import { exportClientDossier } from '../utils/exportUtils';
+import { useAuth } from '../contexts/AuthContext';
+import { allocationKeys, clientKeys, movementKeys, saleKeys, type ClientListParams } from '../lib/queryKeys';
+import { removeFromListQueries, restoreQueries, type QuerySnapshot } from '../lib/queryCache';
+import {
+  findExistingClients,
+  matchClientByCpf,
+  runClientImport,
+  type ClientImportOutcome,
+  type ClientImportRow,
+  type DuplicateStrategy,
+} from '../lib/clientImport';
+import type { CostMethod } from '../lib/portfolio/lots';
+import type { PerformancePeriod } from '../lib/portfolio/performance';
+import type { Client } from '../types/client';
+
+/**
+ * Lista paginada de clientes; mantém a página anterior na tela enquanto a nova carrega
+ */
+export function useClients(params: ClientListParams = {}, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: clientKeys.list(params),
+    queryFn: () => clientService.getClients(params.filters, params.sortBy, params.page, params.limit),
+    placeholderData: keepPreviousData,
+    ...options,
+  });
+}
+
+export function useClientStats(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: clientKeys.stats(),
+    queryFn: () => clientService.getClientStats(),
+    ...options,
+  });
+}
+
+export function useClient(id: string, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: clientKeys.detail(id),
+    queryFn: () => clientService.getClient(id),
+    ...options,
+  });
+}
+
+export function useClientPortfolio(id: string, costMethod?: CostMethod, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: clientKeys.portfolio(id, costMethod),
+    queryFn: () => clientService.getClientWithAssets(id, costMethod),
+    ...options,
+  });
+}
+
+export function useClientPerformance(id: string, period: PerformancePeriod, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: clientKeys.performance(id, period),
+    queryFn: () => performanceService.getClientPerformance(id, { period }),
+    ...options,
+  });
+}
+
+export function useClientCashLedger(id: string, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: clientKeys.cash(id),
+    queryFn: () => cashService.getClientCashLedger(id),
+    ...options,
+  });
+}
+
+export function useClientInvestmentStats(ids: string[], options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: clientKeys.investmentStats(ids),
+    queryFn: () => clientInvestmentService.getMultipleClientInvestmentStats(ids),
+    ...options,
+  });
+}
+
+export function useCreateClient() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (client: Omit<Client, 'id' | 'createdAt' | 'updatedAt'>) => clientService.createClient(client),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: clientKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: clientKeys.stats() });
+    },
+  });
+}
+
+export function useUpdateClient() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<Client> }) => clientService.updateClient(id, data),
+    onSuccess: (client, { id }) => {
+      queryClient.setQueryData(clientKeys.detail(id), client);
+      queryClient.invalidateQueries({ queryKey: clientKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: clientKeys.stats() });
+      queryClient.invalidateQueries({ queryKey: clientKeys.detail(id) });
+    },
+  });
+}
+
+/**
+ * Histórico de questionários de suitability do cliente, do mais recente para o mais antigo
+ */
+export function useSuitabilityAssessments(clientId: string, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: clientKeys.suitability(clientId),
+    queryFn: () => suitabilityAssessmentService.getAssessments(clientId),
+    ...options,
+  });
+}
+
+/**
+ * Registra o questionário respondido; o perfil do cliente passa a ser o apurado pela pontuação
+ */
+export function useSubmitSuitability() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: ({ clientId, answers }: { clientId: string; answers: Record<string, string> }) =>
+      suitabilityService.submitQuestionnaire(clientId, answers, user?.email ?? ''),
+    onSuccess: (_assessment, { clientId }) => {
+      queryClient.invalidateQueries({ queryKey: clientKeys.detail(clientId) });
+      queryClient.invalidateQueries({ queryKey: clientKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: clientKeys.stats() });
+    },
+  });
+}
+
+/**
+ * Extrato mensal em PDF de um cliente (gerado no navegador)
+ */
+export function useDownloadClientStatement() {
+  return useMutation({
+    mutationFn: async ({ clientId, month }: { clientId: string; month: string }) =>
+      downloadClientStatement(await statementService.getClientStatement(clientId, month)),
+  });
+}
+
+/**
+ * Extratos do mês de todos os clientes ativos em um .zip; retorna quantos foram gerados
+ */
+export function useDownloadMonthlyStatements() {
+  return useMutation({
+    mutationFn: async (month: string) => {
+      const statements = await statementService.getActiveClientStatements(month);
+      if (statements.length > 0) await downloadStatementsZip(statements, month);
+      return statements.length;
+    },
+  });
+}
+
+/**
+ * Dossiê em Excel (resumo, clientes, alocações e movimentações) dos clientes informados
+ */
+export function useExportClientDossier() {
+  return useMutation({
+    mutationFn: async ({ clients, filename }: { clients: Client[]; filename?: string }) => {
+      // Um único cliente: busca só os dados dele
+      const filters = clients.length === 1 ? { client_id: Number(clients[0].id) } : undefined;
+      const [allocations, movements] = await Promise.all([
+        allocationService.getAllocations(filters),
+        movementService.getMovements(filters),
+      ]);
+      const ids = new Set(clients.map(client => Number(client.id)));
+      await exportClientDossier(
+        clients,
+        allocations.filter(allocation => ids.has(allocation.client_id)),
+        movements.filter(movement => ids.has(movement.client_id)),
+        filename
+      );
+    },
+  });
+}
+
+/**
+ * Importação em lote: cada linha é criada/atualizada em sequência, com o progresso em onProgress
+ */
+// Busca pelo CPF em vez de casar com uma página de clientes já carregada
+const findClientByCpf = async (cpf: string) => {
+  const { items } = await clientService.getClients({ search: cpf.replace(/\D/g, '') }, undefined, 1, 10);
+  return matchClientByCpf(items, cpf);
+};
+
+/**
+ * Marca as linhas da importação cujo CPF já está cadastrado
+ */
+export function useFindImportDuplicates() {
+  return useMutation({
+    mutationFn: (rows: ClientImportRow[]) => findExistingClients(rows, findClientByCpf),
+  });
+}
+
+export function useImportClients() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: ({ rows, strategy, onProgress }: {
+      rows: ClientImportRow[];
+      strategy: DuplicateStrategy;
+      onProgress?: (outcome: ClientImportOutcome, done: number, total: number) => void;
+    }) =>
+      runClientImport(rows, strategy, {
+        createClient: client => clientService.createClient(client),
+        updateClient: (id, data) => clientService.updateClient(id, data),
+        findByCpf: findClientByCpf,
+        createdBy: user?.email ?? '',
+        onProgress,
+      }),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: clientKeys.all }),
+  });
+}
+
+/**
+ * Exclusão otimista: o cliente some das listas na hora e volta se a API recusar.
+ * Alocações, vendas e movimentações do cliente também são removidas no backend.
+ */
+export function useDeleteClient() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string, { snapshot: QuerySnapshot }>({
+    mutationFn: (id: string) => clientService.deleteClient(id),
+    onMutate: async (id) => ({
+      snapshot: await removeFromListQueries<Client>(queryClient, clientKeys.lists(), client => client.id === id),
+    }),
+    onError: (_error, _id, context) => restoreQueries(queryClient, context?.snapshot),
+    onSuccess: (_data, id) => {
+      clientInvestmentService.invalidate(id);
+      queryClient.removeQueries({ queryKey: clientKeys.detail(id) });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: clientKeys.all });
+      queryClient.invalidateQueries({ queryKey: allocationKeys.all });
+      queryClient.invalidateQueries({ queryKey: movementKeys.all });
+      queryClient.invalidateQueries({ queryKey: saleKeys.all });
+    },
+  });
+}
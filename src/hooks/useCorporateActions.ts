@@ -0,0 +1,73 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import { corporateActionService, type CorporateActionFilters } from '../services/adaptedCorporateActionService';
+import { corporateIncomeService } from '../services/corporateIncomeService';
+import { clientInvestmentService } from '../services/clientInvestmentService';
+import { allocationKeys, clientKeys, corporateActionKeys, movementKeys } from '../lib/queryKeys';
+import type { CorporateActionCreate } from '../types/allocation';
+
+// Eventos mudam quantidade e custo médio das posições de todos os clientes do ativo
+const invalidateCorporateActionQueries = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({ queryKey: corporateActionKeys.all });
+  queryClient.invalidateQueries({ queryKey: allocationKeys.all });
+  queryClient.invalidateQueries({ queryKey: clientKeys.details() });
+};
+
+export function useCorporateActions(filters: CorporateActionFilters = {}, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: corporateActionKeys.list(filters),
+    queryFn: () => corporateActionService.getCorporateActions(filters),
+    ...options,
+  });
+}
+
+/**
+ * Clientes com posição na véspera da data ex, com o efeito do evento e o provento devido
+ */
+export function useCorporateActionHolders(id: number | undefined) {
+  return useQuery({
+    queryKey: corporateActionKeys.holders(id ?? 0),
+    queryFn: () => corporateIncomeService.getHolders(id!),
+    enabled: id !== undefined,
+  });
+}
+
+export function useCreateCorporateAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (action: CorporateActionCreate) => corporateActionService.createCorporateAction(action),
+    onSuccess: () => invalidateCorporateActionQueries(queryClient),
+  });
+}
+
+export function useDeleteCorporateAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) => corporateActionService.deleteCorporateAction(id),
+    onSuccess: () => invalidateCorporateActionQueries(queryClient),
+  });
+}
+
+/**
+ * Lança os proventos do evento como depósitos na conta dos clientes
+ */
+export function useGenerateIncomeMovements() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: (id: number) => corporateIncomeService.generateIncomeMovements(id, user?.email ?? ''),
+    // Os depósitos entram no saldo e nas estatísticas dos clientes
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: corporateActionKeys.all });
+      queryClient.invalidateQueries({ queryKey: movementKeys.all });
+      clientInvestmentService.invalidate();
+      queryClient.invalidateQueries({ queryKey: clientKeys.investmentStats() });
+      queryClient.invalidateQueries({ queryKey: clientKeys.details() });
+    },
+  });
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import { movementTemplateService, type MovementTemplateCreate } from '../services/adaptedMovementTemplateService';
+import { movementKeys, movementTemplateKeys } from '../lib/queryKeys';
+import type { MovementTemplate } from '../types/movement';
+
+// Mudanças nos modelos alteram a agenda de ocorrências
+const invalidateTemplateQueries = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({ queryKey: movementTemplateKeys.all });
+  queryClient.invalidateQueries({ queryKey: movementKeys.schedules() });
+};
+
+export function useMovementTemplates(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: movementTemplateKeys.lists(),
+    queryFn: () => movementTemplateService.getTemplates(),
+    ...options,
+  });
+}
+
+export function useCreateMovementTemplate() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: (template: MovementTemplateCreate) =>
+      movementTemplateService.createTemplate(template, user?.email ?? ''),
+    onSuccess: () => invalidateTemplateQueries(queryClient),
+  });
+}
+
+export function useUpdateMovementTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<MovementTemplate> }) =>
+      movementTemplateService.updateTemplate(id, data),
+    onSuccess: () => invalidateTemplateQueries(queryClient),
+  });
+}
+
+export function useDeleteMovementTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => movementTemplateService.deleteTemplate(id),
+    onSuccess: () => invalidateTemplateQueries(queryClient),
+  });
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { keepPreviousData, useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import { movementService } from '../services/adaptedMovementService';
+import { clientInvestmentService } from '../services/clientInvestmentService';
+import { scheduleService } from '../services/scheduleService';
+import { clientKeys, movementKeys, movementTemplateKeys } from '../lib/queryKeys';
+import { removeFromListQueries, restoreQueries, type QuerySnapshot } from '../lib/queryCache';
+import { submitMovementImport, type MovementImportRow } from '../lib/movementImport';
+import type { MovementCreate, MovementFilters, MovementWithClient } from '../services/adaptedMovementService';
+
+// Aportes e resgates entram no saldo, nas estatísticas e no desempenho do cliente
+const invalidateMovementQueries = (queryClient: QueryClient, clientId?: number) => {
+  queryClient.invalidateQueries({ queryKey: movementKeys.all });
+  clientInvestmentService.invalidate(clientId?.toString());
+  queryClient.invalidateQueries({ queryKey: clientKeys.investmentStats() });
+  queryClient.invalidateQueries({
+    queryKey: clientId !== undefined ? clientKeys.detail(clientId.toString()) : clientKeys.details(),
+  });
+};
+
+export function useMovements(filters: MovementFilters = {}, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: movementKeys.list(filters),
+    queryFn: () => movementService.getMovements(filters),
+    placeholderData: keepPreviousData,
+    ...options,
+  });
+}
+
+export function useMovementsSummary(filters: MovementFilters = {}, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: movementKeys.summary(filters),
+    queryFn: () => movementService.getMovementsSummary(filters),
+    ...options,
+  });
+}
+
+export function useMovement(id: string, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: movementKeys.detail(id),
+    queryFn: () => movementService.getMovement(id),
+    ...options,
+  });
+}
+
+/**
+ * Registra a movimentação em nome do usuário logado (autor no fluxo de aprovação)
+ */
+export function useCreateMovement() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: (movement: MovementCreate) =>
+      movementService.createMovement({ ...movement, created_by: movement.created_by ?? user?.email }),
+    onSuccess: (_data, movement) => invalidateMovementQueries(queryClient, movement.client_id),
+  });
+}
+
+/**
+ * Importação em lote: as linhas válidas são criadas em sequência, em nome do usuário logado
+ */
+export function useImportMovements() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: (rows: MovementImportRow[]) =>
+      submitMovementImport(rows, movement => movementService.createMovement({ ...movement, created_by: user?.email })),
+    onSettled: () => invalidateMovementQueries(queryClient),
+  });
+}
+
+/**
+ * Aprovação pelo usuário logado; o serviço recusa quando ele mesmo criou a movimentação
+ */
+export function useApproveMovement() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: (movement: MovementWithClient) => movementService.approveMovement(movement.id, user?.email ?? ''),
+    onSuccess: (_data, movement) => invalidateMovementQueries(queryClient, movement.client_id),
+  });
+}
+
+export function useRejectMovement() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: ({ movement, reason }: { movement: MovementWithClient; reason: string }) =>
+      movementService.rejectMovement(movement.id, user?.email ?? '', reason),
+    onSuccess: (_data, { movement }) => invalidateMovementQueries(queryClient, movement.client_id),
+  });
+}
+
+/**
+ * Exclusão otimista: a movimentação some das listas antes da resposta da API
+ */
+export function useDeleteMovement() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, MovementWithClient, { snapshot: QuerySnapshot }>({
+    mutationFn: (movement) => movementService.deleteMovement(movement.id),
+    onMutate: async (movement) => ({
+      snapshot: await removeFromListQueries<MovementWithClient>(
+        queryClient,
+        movementKeys.lists(),
+        item => item.id === movement.id
+      ),
+    }),
+    onError: (_error, _movement, context) => restoreQueries(queryClient, context?.snapshot),
+    onSettled: (_data, _error, movement) => invalidateMovementQueries(queryClient, movement.client_id),
+  });
+}
+
+export function useMovementSchedule(until: string, clientId?: string, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: movementKeys.schedule(until, clientId),
+    queryFn: () => scheduleService.getSchedule(until, clientId),
+    ...options,
+  });
+}
+
+/**
+ * Gera as movimentações vencidas dos agendamentos em nome do usuário logado
+ */
+export function useGenerateScheduledMovements() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: () => scheduleService.generateDueMovements(user?.email ?? ''),
+    onSettled: () => {
+      invalidateMovementQueries(queryClient);
+      queryClient.invalidateQueries({ queryKey: movementTemplateKeys.all });
+    },
+  });
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { saleService } from '../services/adaptedSaleService';
+import { allocationKeys, clientKeys, saleKeys } from '../lib/queryKeys';
+import { removeFromListQueries, restoreQueries, type QuerySnapshot } from '../lib/queryCache';
+import type { Sale, SaleCreate, SaleFilters } from '../types/allocation';
+
+// Vendas baixam lotes: mudam posição, resultado realizado e quantidade disponível
+const invalidateSaleQueries = (queryClient: QueryClient, clientId: number) => {
+  queryClient.invalidateQueries({ queryKey: saleKeys.all });
+  queryClient.invalidateQueries({ queryKey: allocationKeys.all });
+  queryClient.invalidateQueries({ queryKey: clientKeys.detail(clientId.toString()) });
+};
+
+export function useSales(filters: SaleFilters = {}, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: saleKeys.list(filters),
+    queryFn: () => saleService.getSales(filters),
+    ...options,
+  });
+}
+
+/**
+ * Vendas de um cliente; tolera backends sem o recurso de vendas
+ */
+export function useClientSales(clientId: number, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: saleKeys.list({ client_id: clientId }),
+    queryFn: () => saleService.getSalesByClient(clientId),
+    ...options,
+  });
+}
+
+export function useCreateSale() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (sale: SaleCreate) => saleService.createSale(sale),
+    onSuccess: (_data, sale) => invalidateSaleQueries(queryClient, sale.client_id),
+  });
+}
+
+export function useDeleteSale() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, Sale, { snapshot: QuerySnapshot }>({
+    mutationFn: (sale) => saleService.deleteSale(sale.id),
+    onMutate: async (sale) => ({
+      snapshot: await removeFromListQueries<Sale>(queryClient, saleKeys.lists(), item => item.id === sale.id),
+    }),
+    onError: (_error, _sale, context) => restoreQueries(queryClient, context?.snapshot),
+    onSettled: (_data, _error, sale) => invalidateSaleQueries(queryClient, sale.client_id),
+  });
+}
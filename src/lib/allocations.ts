@@ -0,0 +1,39 @@
+import type { AllocationBreakdown, AllocationSummary, AllocationWithDetails } from '../types/allocation';
+
+const groupAllocations = (
+  allocations: AllocationWithDetails[],
+  getKey: (allocation: AllocationWithDetails) => { id: number; label: string },
+  total: number
+): AllocationBreakdown[] => {
+  const groups = new Map<number, AllocationBreakdown>();
+
+  allocations.forEach(allocation => {
+    const { id, label } = getKey(allocation);
+    const group = groups.get(id) ?? { id, label, total_invested: 0, allocation_count: 0, percentage: 0 };
+    group.total_invested += allocation.total_invested;
+    group.allocation_count += 1;
+    groups.set(id, group);
+  });
+
+  return Array.from(groups.values())
+    .map(group => ({ ...group, percentage: total > 0 ? (group.total_invested / total) * 100 : 0 }))
+    .sort((a, b) => b.total_invested - a.total_invested);
+};
+
+/**
+ * Totais das alocações, com a quebra por ativo e por cliente
+ */
+export const summarizeAllocations = (allocations: AllocationWithDetails[]): AllocationSummary => {
+  const totalInvested = allocations.reduce((sum, a) => sum + a.total_invested, 0);
+  const byAsset = groupAllocations(allocations, a => ({ id: a.asset_id, label: a.asset_ticker }), totalInvested);
+  const byClient = groupAllocations(allocations, a => ({ id: a.client_id, label: a.client_name }), totalInvested);
+
+  return {
+    total_allocations: allocations.length,
+    total_invested: totalInvested,
+    unique_clients: byClient.length,
+    unique_assets: byAsset.length,
+    by_asset: byAsset,
+    by_client: byClient,
+  };
+};
@@ -1,5 +1,7 @@
-// API Base Configuration
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+import { AUTH_API_PATH, BACKEND_PROXY_PATH, USE_MOCK_API } from './config';
+import { sessionStore, refreshSession, redirectToLogin } from './auth';
+import { ApiError, AuthError, NetworkError, TimeoutError, createHttpError } from './errors';
+import { setBackendAvailable } from './backendStatus';
 
 export interface ApiResponse<T> {
   data: T;
@@ -14,125 +16,212 @@ export interface PaginatedResponse<T> {
   totalPages: number;
 }
 
+const DEFAULT_TIMEOUT = 10000;
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  timeout?: number; // ms, 0 desativa
+  signal?: AbortSignal;
+}
+
+export interface RequestConfig extends RequestOptions {
+  method: HttpMethod;
+  endpoint: string;
+  body?: unknown;
+  // Marcado quando a requisição já foi repetida após um refresh de token
+  retried?: boolean;
+}
+
+export type RequestInterceptor = (config: RequestConfig) => RequestConfig | Promise<RequestConfig>;
+export type ResponseInterceptor = (response: Response, config: RequestConfig) => Response | Promise<Response>;
+// Pode recuperar o erro devolvendo um valor (ex: repetindo a requisição) ou relançá-lo
+export type ErrorInterceptor = (error: ApiError, config: RequestConfig) => unknown;
+
+class InterceptorManager<T> {
+  private handlers: T[] = [];
+
+  use(handler: T): () => void {
+    this.handlers.push(handler);
+    return () => {
+      this.handlers = this.handlers.filter(h => h !== handler);
+    };
+  }
+
+  list(): T[] {
+    return [...this.handlers];
+  }
+}
+
 class ApiClient {
   private baseURL: string;
+  private defaultTimeout: number;
+
+  readonly interceptors = {
+    request: new InterceptorManager<RequestInterceptor>(),
+    response: new InterceptorManager<ResponseInterceptor>(),
+    error: new InterceptorManager<ErrorInterceptor>(),
+  };
 
-  constructor(baseURL: string = API_BASE_URL) {
+  constructor(baseURL: string = BACKEND_PROXY_PATH, defaultTimeout: number = DEFAULT_TIMEOUT) {
     this.baseURL = baseURL;
+    this.defaultTimeout = defaultTimeout;
   }
 
-  private async request<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const url = `${this.baseURL}${endpoint}`;
-    
-    // Construir headers dinamicamente
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-      ...options.headers,
-    };
-
-    // Adicionar token de autenticação se disponível
-    if (typeof window !== 'undefined') {
-      const token = localStorage.getItem('access_token');
-      if (token) {
-        (headers as Record<string, string>)['Authorization'] = `Bearer ${token}`;
-      }
+  async request<T>(initialConfig: RequestConfig): Promise<T> {
+    let config = initialConfig;
+    for (const interceptor of this.interceptors.request.list()) {
+      config = await interceptor(config);
     }
 
-    const config: RequestInit = {
-      ...options,
-      headers,
-    };
-
     try {
-      const response = await fetch(url, config);
-      
-      if (!response.ok) {
-        // Tratamento específico para erro 403 Forbidden
-        if (response.status === 403) {
-          console.error('Access forbidden - check authentication');
-          // Remover token inválido
-          if (typeof window !== 'undefined') {
-            localStorage.removeItem('access_token');
-            // Redirecionar para login se não estivermos em páginas públicas
-            const currentPath = window.location.pathname;
-            const publicPaths = ['/', '/login', '/register'];
-            
-            if (!publicPaths.includes(currentPath)) {
-              window.location.href = '/login';
-            }
-          }
-        }
-        
-        // Tratamento específico para erro 401 Unauthorized
-        if (response.status === 401) {
-          console.error('Unauthorized - token expired or invalid');
-          if (typeof window !== 'undefined') {
-            localStorage.removeItem('access_token');
-            const currentPath = window.location.pathname;
-            const publicPaths = ['/', '/login', '/register'];
-            
-            if (!publicPaths.includes(currentPath)) {
-              window.location.href = '/login';
-            }
-          }
-        }
+      let response = await this.send(config);
+      for (const interceptor of this.interceptors.response.list()) {
+        response = await interceptor(response, config);
+      }
 
+      if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || `HTTP ${response.status}: ${response.statusText}`);
+        throw createHttpError(response.status, response.statusText, errorData);
       }
 
-      const data = await response.json();
-      return data;
+      // DELETE e afins podem responder 204 sem corpo
+      if (response.status === 204) {
+        return undefined as T;
+      }
+      const text = await response.text();
+      return (text ? JSON.parse(text) : undefined) as T;
     } catch (error) {
-      console.error(`API Error (${endpoint}):`, error);
+      // Cancelamento pedido por quem chamou (ex: TanStack Query) não é erro da API
+      if (error instanceof DOMException && error.name === 'AbortError') throw error;
+
+      const apiError = error instanceof ApiError
+        ? error
+        : new ApiError(error instanceof Error ? error.message : 'Erro desconhecido');
+
+      return this.handleError<T>(apiError, config);
+    }
+  }
+
+  private async handleError<T>(error: ApiError, config: RequestConfig): Promise<T> {
+    const handlers = this.interceptors.error.list();
+    if (handlers.length === 0) {
       throw error;
     }
+
+    // Cada interceptor recebe o erro atual; o primeiro que resolver encerra a cadeia
+    let currentError = error;
+    for (const interceptor of handlers) {
+      try {
+        return (await interceptor(currentError, config)) as T;
+      } catch (nextError) {
+        currentError = nextError instanceof ApiError ? nextError : currentError;
+      }
+    }
+
+    console.error(`API Error (${config.endpoint}):`, currentError);
+    throw currentError;
+  }
+
+  private async send(config: RequestConfig): Promise<Response> {
+    const timeout = config.timeout ?? this.defaultTimeout;
+    const controller = new AbortController();
+    let timedOut = false;
+
+    // Combinar o timeout com o AbortSignal fornecido por quem chamou
+    const timer = timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+    const abortFromCaller = () => controller.abort();
+    if (config.signal) {
+      if (config.signal.aborted) controller.abort();
+      config.signal.addEventListener('abort', abortFromCaller);
+    }
+
+    try {
+      return await fetch(`${this.baseURL}${config.endpoint}`, {
+        method: config.method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...config.headers,
+        },
+        body: config.body !== undefined ? JSON.stringify(config.body) : undefined,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (timedOut) throw new TimeoutError(timeout);
+      // Cancelamentos explícitos seguem como AbortError para quem chamou poder ignorá-los
+      if (config.signal?.aborted) throw error;
+      throw new NetworkError();
+    } finally {
+      if (timer) clearTimeout(timer);
+      config.signal?.removeEventListener('abort', abortFromCaller);
+    }
   }
 
-  async get<T>(endpoint: string): Promise<T> {
-    return this.request<T>(endpoint, { method: 'GET' });
+  async get<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>({ ...options, method: 'GET', endpoint });
   }
 
-  async post<T>(endpoint: string, data?: any): Promise<T> {
-    return this.request<T>(endpoint, {
-      method: 'POST',
-      body: data ? JSON.stringify(data) : undefined,
-    });
+  async post<T>(endpoint: string, data?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>({ ...options, method: 'POST', endpoint, body: data });
   }
 
-  async put<T>(endpoint: string, data?: any): Promise<T> {
-    return this.request<T>(endpoint, {
-      method: 'PUT',
-      body: data ? JSON.stringify(data) : undefined,
-    });
+  async put<T>(endpoint: string, data?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>({ ...options, method: 'PUT', endpoint, body: data });
   }
 
-  async patch<T>(endpoint: string, data?: any): Promise<T> {
-    return this.request<T>(endpoint, {
-      method: 'PATCH',
-      body: data ? JSON.stringify(data) : undefined,
-    });
+  async patch<T>(endpoint: string, data?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>({ ...options, method: 'PATCH', endpoint, body: data });
   }
 
-  async delete<T>(endpoint: string): Promise<T> {
-    return this.request<T>(endpoint, { method: 'DELETE' });
+  async delete<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>({ ...options, method: 'DELETE', endpoint });
   }
 }
 
+// Chamadas ao backend passam pelo proxy do Next.js, que anexa o token guardado no cookie httpOnly
 export const apiClient = new ApiClient();
 
+// Rotas de sessão (login, cadastro, refresh, logout), sem os interceptors de 401
+export const authClient = new ApiClient(AUTH_API_PATH);
+
+// 401: renovar o token uma única vez e repetir a requisição; se não for possível, encerrar a sessão.
+// 403 significa falta de permissão para o papel do usuário e não invalida a sessão.
+apiClient.interceptors.error.use(async (error, config) => {
+  if (!(error instanceof AuthError) || error.status !== 401 || config.endpoint.startsWith('/auth/')) {
+    throw error;
+  }
+
+  if (!config.retried) {
+    const refreshed = await refreshSession();
+    if (refreshed) {
+      return apiClient.request({ ...config, retried: true });
+    }
+  }
+
+  sessionStore.clear();
+  redirectToLogin();
+  throw error;
+});
+
 // Health check function
 export const checkBackendHealth = async (): Promise<boolean> => {
+  if (USE_MOCK_API) return false;
+
   try {
-    await apiClient.get('/health');
+    await apiClient.get('/health', { timeout: 5000 });
+    setBackendAvailable(true);
     return true;
-  } catch (error) {
+  } catch {
     console.warn('Backend not available, using mock services');
+    setBackendAvailable(false);
     return false;
   }
 };
 
-export default apiClient;
\ No newline at end of file
+export default apiClient;
@@ -0,0 +1,110 @@
+import { AuthError, ConflictError } from './errors';
+import { APPROVAL_NEW_BANK_ACCOUNT, APPROVAL_WITHDRAWAL_THRESHOLD } from './config';
+import type {
+  MovementApprovalEvent,
+  MovementCreate,
+  MovementWithClient,
+} from '../services/adaptedMovementService';
+
+export interface ApprovalRules {
+  withdrawalThreshold: number;
+  newBankAccount: boolean;
+}
+
+export const approvalRules: ApprovalRules = {
+  withdrawalThreshold: APPROVAL_WITHDRAWAL_THRESHOLD,
+  newBankAccount: APPROVAL_NEW_BANK_ACCOUNT,
+};
+
+const normalizeAccount = (account: string) => account.replace(/\D/g, '');
+
+/**
+ * Motivos que obrigam a movimentação a passar por aprovação (lista vazia = liberada direto).
+ * `clientMovements` são as movimentações já registradas do mesmo cliente.
+ */
+export const getApprovalReasons = (
+  movement: Pick<MovementCreate, 'type' | 'amount' | 'bank_account'>,
+  clientMovements: MovementWithClient[],
+  rules: ApprovalRules = approvalRules
+): string[] => {
+  if (movement.type !== 'withdrawal') return [];
+
+  const reasons: string[] = [];
+  if (movement.amount > rules.withdrawalThreshold) {
+    const threshold = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' })
+      .format(rules.withdrawalThreshold);
+    reasons.push(`Saque acima de ${threshold}`);
+  }
+
+  if (rules.newBankAccount && movement.bank_account) {
+    const account = normalizeAccount(movement.bank_account);
+    // Só contam contas de saques que chegaram a ser efetivados
+    const knownAccount = clientMovements.some(m =>
+      m.type === 'withdrawal' &&
+      isMovementEffective(m) &&
+      m.bank_account !== undefined &&
+      normalizeAccount(m.bank_account) === account
+    );
+    if (!knownAccount) reasons.push('Saque para conta bancária nova');
+  }
+
+  return reasons;
+};
+
+/**
+ * Movimentações pendentes ou rejeitadas não entram em saldos e totais
+ */
+export const isMovementEffective = (movement: Pick<MovementWithClient, 'status'>): boolean =>
+  movement.status === undefined || movement.status === 'approved';
+
+/**
+ * Maker-checker: só revisa quem não criou a movimentação; sem autor registrado ninguém revisa.
+ * Estas regras (e a exigência de aprovação, calculada no navegador) só orientam a interface:
+ * o backend precisa aplicá-las de novo, pois uma chamada direta à API passa por fora delas.
+ */
+export const canReviewMovement = (
+  movement: Pick<MovementWithClient, 'status' | 'created_by'>,
+  reviewer: string | undefined
+): boolean =>
+  movement.status === 'pending_approval' && !!reviewer && !!movement.created_by && movement.created_by !== reviewer;
+
+export const assertCanReviewMovement = (
+  movement: Pick<MovementWithClient, 'status' | 'created_by'>,
+  reviewer: string
+) => {
+  if (!reviewer) {
+    throw new AuthError('Usuário não identificado', 401);
+  }
+  if (movement.status !== 'pending_approval') {
+    throw new ConflictError('Esta movimentação não está aguardando aprovação');
+  }
+  if (!movement.created_by) {
+    throw new AuthError('Movimentação sem autor registrado não pode ser aprovada ou rejeitada', 403);
+  }
+  if (movement.created_by === reviewer) {
+    throw new AuthError('Quem criou a movimentação não pode aprová-la ou rejeitá-la', 403);
+  }
+};
+
+export const createApprovalEvent = (
+  action: MovementApprovalEvent['action'],
+  user: string,
+  reason?: string
+): MovementApprovalEvent => ({
+  action,
+  user,
+  date: new Date().toISOString(),
+  ...(reason && { reason }),
+});
+
+export const approvalStatusLabels: Record<NonNullable<MovementWithClient['status']>, string> = {
+  pending_approval: 'Aguardando aprovação',
+  approved: 'Aprovada',
+  rejected: 'Rejeitada',
+};
+
+export const approvalActionLabels: Record<MovementApprovalEvent['action'], string> = {
+  submitted: 'Enviada para aprovação',
+  approved: 'Aprovada',
+  rejected: 'Rejeitada',
+};
@@ -0,0 +1,131 @@
+import { AUTH_API_PATH } from './config';
+import type { SessionResponse } from '../types/auth';
+
+// Renovar o token um pouco antes de expirar para evitar 401 em requisições em andamento
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+const DEFAULT_REDIRECT = '/dashboard';
+const PUBLIC_PATHS = ['/', '/login', '/register'];
+
+type SessionListener = (session: SessionResponse | null) => void;
+
+const listeners = new Set<SessionListener>();
+
+let currentSession: SessionResponse | null = null;
+
+/**
+ * Estado da sessão no cliente. O token fica em um cookie httpOnly gerenciado pelas
+ * rotas /api/auth; aqui guardamos apenas a expiração para agendar a renovação.
+ */
+export const sessionStore = {
+  get(): SessionResponse | null {
+    return currentSession;
+  },
+
+  set(session: SessionResponse): void {
+    currentSession = session.authenticated ? session : null;
+    notify(currentSession);
+  },
+
+  clear(): void {
+    currentSession = null;
+    notify(null);
+  },
+};
+
+const notify = (session: SessionResponse | null) => {
+  listeners.forEach(listener => listener(session));
+};
+
+/**
+ * Registra um listener chamado sempre que a sessão muda (login, refresh ou logout)
+ */
+export const onSessionChange = (listener: SessionListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+let refreshPromise: Promise<boolean> | null = null;
+
+/**
+ * Renova a sessão. Chamadas simultâneas compartilham a mesma requisição,
+ * então vários 401 em paralelo resultam em um único POST /api/auth/refresh.
+ * Retorna false se a sessão não puder ser renovada.
+ */
+export const refreshSession = (): Promise<boolean> => {
+  if (refreshPromise) return refreshPromise;
+
+  refreshPromise = (async () => {
+    try {
+      // fetch direto para não passar pelos interceptors de 401 dos clientes HTTP
+      const response = await fetch(`${AUTH_API_PATH}/refresh`, { method: 'POST' });
+
+      if (!response.ok) {
+        sessionStore.clear();
+        return false;
+      }
+
+      sessionStore.set(await response.json());
+      return true;
+    } catch (error) {
+      console.warn('Falha ao renovar sessão:', error);
+      sessionStore.clear();
+      return false;
+    } finally {
+      refreshPromise = null;
+    }
+  })();
+
+  return refreshPromise;
+};
+
+/**
+ * Milissegundos até o momento ideal de renovar o token (null se a expiração é desconhecida)
+ */
+export const getRefreshDelay = (): number | null => {
+  const expiresAt = currentSession?.expires_at;
+  if (!expiresAt) return null;
+  return Math.max(expiresAt - Date.now() - REFRESH_MARGIN_MS, 0);
+};
+
+/**
+ * Aceita apenas caminhos internos no parâmetro redirect, evitando open redirect
+ */
+export const getSafeRedirect = (redirect: string | null | undefined): string => {
+  if (!redirect || !redirect.startsWith('/') || redirect.startsWith('//')) {
+    return DEFAULT_REDIRECT;
+  }
+  return redirect;
+};
+
+/**
+ * Destino após login/cadastro, a partir do ?redirect= da URL atual
+ */
+export const getPostLoginRedirect = (): string => {
+  if (typeof window === 'undefined') return DEFAULT_REDIRECT;
+  return getSafeRedirect(new URLSearchParams(window.location.search).get('redirect'));
+};
+
+/**
+ * URL de login que devolve o usuário para a página atual depois de autenticar
+ */
+export const getLoginUrl = (): string => {
+  if (typeof window === 'undefined') return '/login';
+
+  const { pathname, search } = window.location;
+  if (PUBLIC_PATHS.includes(pathname)) return '/login';
+  return `/login?redirect=${encodeURIComponent(pathname + search)}`;
+};
+
+/**
+ * Redireciona para o login quando a sessão não pode ser recuperada
+ */
+export const redirectToLogin = (): void => {
+  if (typeof window === 'undefined') return;
+
+  if (!PUBLIC_PATHS.includes(window.location.pathname)) {
+    window.location.href = getLoginUrl();
+  }
+};
@@ -0,0 +1,73 @@
+import { NotFoundError } from './errors';
+
+// Recursos que versões antigas do backend não têm: um 404 na listagem ou na criação marca o recurso
+// como indisponível, e a tela mostra o aviso no lugar das ações de cadastro
+
+export type BackendFeature = 'corporateActions' | 'sales' | 'suitability';
+
+export const backendFeatureLabels: Record<BackendFeature, string> = {
+  corporateActions: 'Eventos societários',
+  sales: 'Vendas',
+  suitability: 'Questionário de suitability',
+};
+
+type FeatureListener = (feature: BackendFeature) => void;
+
+const listeners = new Set<FeatureListener>();
+
+const unsupported = new Set<BackendFeature>();
+
+export const isFeatureSupported = (feature: BackendFeature): boolean => !unsupported.has(feature);
+
+const markUnsupported = (feature: BackendFeature): void => {
+  if (unsupported.has(feature)) return;
+  unsupported.add(feature);
+  listeners.forEach(listener => listener(feature));
+};
+
+const unsupportedError = (feature: BackendFeature) =>
+  new NotFoundError(`${backendFeatureLabels[feature]} não é suportado por este backend`);
+
+/**
+ * Registra um listener chamado quando um recurso se revela ausente no backend
+ */
+export const onFeatureUnsupported = (listener: FeatureListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Listagem de um recurso: sem o endpoint, o recurso fica marcado e a lista vem vazia
+ */
+export const listFeature = async <T>(feature: BackendFeature, request: () => Promise<T[]>): Promise<T[]> => {
+  try {
+    return await request();
+  } catch (error) {
+    if (!(error instanceof NotFoundError)) throw error;
+    markUnsupported(feature);
+    return [];
+  }
+};
+
+/**
+ * Criação num recurso: sem o endpoint, falha com uma mensagem clara em vez do 404 genérico
+ */
+export const createInFeature = async <T>(feature: BackendFeature, request: () => Promise<T>): Promise<T> => {
+  assertFeatureSupported(feature);
+  try {
+    return await request();
+  } catch (error) {
+    if (!(error instanceof NotFoundError)) throw error;
+    markUnsupported(feature);
+    throw unsupportedError(feature);
+  }
+};
+
+/**
+ * Alterações de um item (um 404 aqui é do item, não do recurso): só barra recursos já marcados
+ */
+export const assertFeatureSupported = (feature: BackendFeature): void => {
+  if (unsupported.has(feature)) throw unsupportedError(feature);
+};
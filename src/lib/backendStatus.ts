@@ -0,0 +1,37 @@
+import { USE_MOCK_API } from './config';
+
+// Depois de uma falha de conexão, os serviços usam o modo demo por este intervalo antes de tentar a API de novo
+const OFFLINE_RETRY_MS = 30 * 1000;
+
+type StatusListener = (available: boolean) => void;
+
+const listeners = new Set<StatusListener>();
+
+let offlineSince: number | null = null;
+
+/**
+ * Indica se as chamadas devem ir direto para o backend local (IndexedDB)
+ */
+export const isBackendOffline = (): boolean => {
+  if (USE_MOCK_API) return true;
+  return offlineSince !== null && Date.now() - offlineSince < OFFLINE_RETRY_MS;
+};
+
+export const setBackendAvailable = (available: boolean): void => {
+  const wasOffline = offlineSince !== null;
+  offlineSince = available ? null : Date.now();
+
+  if (wasOffline === available) {
+    listeners.forEach(listener => listener(available));
+  }
+};
+
+/**
+ * Registra um listener chamado quando a API fica indisponível ou volta
+ */
+export const onBackendStatusChange = (listener: StatusListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,337 @@
+import { clientSchema, validateCPF } from '../schemas/client';
+import { ApiError, ConflictError, getErrorMessage, isBackendUnreachable } from './errors';
+import { normalizeText, parseAmount, parseDate } from '../utils/importUtils';
+import type { Client, CreateClientRequest } from '../types/client';
+
+// Importação de clientes: colunas da planilha -> CreateClientRequest (com contact e address aninhados).
+// O perfil de investimento não é importado: ele só muda pelo questionário de suitability.
+
+export type ClientImportField =
+  | 'name' | 'cpf' | 'rg' | 'birthDate' | 'gender'
+  | 'contact.email' | 'contact.phone' | 'contact.mobile' | 'contact.whatsapp'
+  | 'address.street' | 'address.number' | 'address.complement' | 'address.neighborhood'
+  | 'address.city' | 'address.state' | 'address.zipCode'
+  | 'monthlyIncome' | 'netWorth' | 'notes' | 'tags' | 'referralSource';
+
+export const clientImportFields: { field: ClientImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'name', label: 'Nome', required: true, aliases: ['nome', 'name', 'cliente', 'nome completo'] },
+  { field: 'cpf', label: 'CPF', required: true, aliases: ['cpf'] },
+  { field: 'rg', label: 'RG', required: false, aliases: ['rg'] },
+  { field: 'birthDate', label: 'Data de nascimento', required: true, aliases: ['data de nascimento', 'nascimento', 'birth_date', 'birthdate'] },
+  { field: 'gender', label: 'Gênero', required: false, aliases: ['genero', 'sexo', 'gender'] },
+  { field: 'contact.email', label: 'Email', required: true, aliases: ['email', 'e-mail'] },
+  { field: 'contact.phone', label: 'Telefone', required: true, aliases: ['telefone', 'phone', 'fone'] },
+  { field: 'contact.mobile', label: 'Celular', required: false, aliases: ['celular', 'mobile'] },
+  { field: 'contact.whatsapp', label: 'WhatsApp', required: false, aliases: ['whatsapp'] },
+  { field: 'address.street', label: 'Logradouro', required: true, aliases: ['logradouro', 'endereco', 'rua', 'street'] },
+  { field: 'address.number', label: 'Número', required: true, aliases: ['numero', 'number', 'n'] },
+  { field: 'address.complement', label: 'Complemento', required: false, aliases: ['complemento', 'complement'] },
+  { field: 'address.neighborhood', label: 'Bairro', required: true, aliases: ['bairro', 'neighborhood'] },
+  { field: 'address.city', label: 'Cidade', required: true, aliases: ['cidade', 'city', 'municipio'] },
+  { field: 'address.state', label: 'UF', required: true, aliases: ['uf', 'estado', 'state'] },
+  { field: 'address.zipCode', label: 'CEP', required: true, aliases: ['cep', 'zip_code', 'zipcode'] },
+  { field: 'monthlyIncome', label: 'Renda mensal', required: false, aliases: ['renda', 'renda mensal', 'monthly_income'] },
+  { field: 'netWorth', label: 'Patrimônio', required: false, aliases: ['patrimonio', 'net_worth'] },
+  { field: 'notes', label: 'Observações', required: false, aliases: ['observacoes', 'obs', 'notes'] },
+  { field: 'tags', label: 'Tags', required: false, aliases: ['tags', 'etiquetas'] },
+  { field: 'referralSource', label: 'Origem/indicação', required: false, aliases: ['origem', 'indicacao', 'referral_source'] },
+];
+
+export type ClientColumnMapping = Partial<Record<ClientImportField, string>>;
+
+// Cliente com CPF já cadastrado: ignorar a linha ou atualizar o cadastro existente
+export type DuplicateStrategy = 'skip' | 'update';
+
+export interface ClientImportRow {
+  row: number; // linha na planilha (a 1 é o cabeçalho)
+  values: Record<string, string>;
+  request?: CreateClientRequest; // só nas linhas válidas
+  fields: ClientImportField[]; // campos com coluna mapeada, os únicos enviados numa atualização
+  existing?: Client; // cliente já cadastrado com o mesmo CPF
+  errors: string[];
+}
+
+export type ClientImportAction = 'create' | 'update' | 'skip' | 'invalid';
+
+export type ClientImportStatus = 'created' | 'updated' | 'skipped' | 'failed';
+
+export interface ClientImportOutcome {
+  row: number;
+  status: ClientImportStatus;
+  clientId?: string;
+  error?: string;
+}
+
+const GENDER_ALIASES: Record<string, NonNullable<CreateClientRequest['gender']>> = {
+  m: 'male',
+  masculino: 'male',
+  male: 'male',
+  f: 'female',
+  feminino: 'female',
+  female: 'female',
+  outro: 'other',
+  other: 'other',
+};
+
+const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+/**
+ * Sugere o mapeamento comparando os cabeçalhos com os nomes conhecidos de cada campo
+ */
+export const guessClientColumnMapping = (headers: string[]): ClientColumnMapping => {
+  const mapping: ClientColumnMapping = {};
+  clientImportFields.forEach(({ field, aliases }) => {
+    const header = headers.find(h => aliases.includes(normalizeText(h)));
+    if (header) mapping[field] = header;
+  });
+  return mapping;
+};
+
+const toBirthDate = (isoDate: string) => new Date(`${isoDate}T00:00:00`);
+
+const optionalNumber = (value: string): number | undefined => (value ? parseAmount(value) : undefined);
+
+/**
+ * Monta e valida cada linha com clientSchema; CPFs repetidos no arquivo invalidam as linhas seguintes.
+ * CPFs já cadastrados são marcados depois, por findExistingClients.
+ */
+export const validateClientImport = (
+  rows: Record<string, string>[],
+  mapping: ClientColumnMapping
+): ClientImportRow[] => {
+  const fields = clientImportFields.map(({ field }) => field).filter(field => mapping[field]);
+  const firstRowByCpf = new Map<string, number>();
+
+  return rows.map((values, index) => {
+    const row = index + 2;
+    const get = (field: ClientImportField) => (mapping[field] ? values[mapping[field]!] ?? '' : '');
+    const optional = (field: ClientImportField) => get(field) || undefined;
+    const errors: string[] = [];
+
+    const cpf = onlyDigits(get('cpf'));
+    if (!validateCPF(cpf)) {
+      errors.push(get('cpf') ? `CPF inválido: ${get('cpf')}` : 'CPF não informado');
+    } else if (firstRowByCpf.has(cpf)) {
+      errors.push(`CPF repetido no arquivo (linha ${firstRowByCpf.get(cpf)})`);
+    } else {
+      firstRowByCpf.set(cpf, row);
+    }
+
+    const birthDate = parseDate(get('birthDate'));
+    if (!birthDate) errors.push(get('birthDate') ? `Data de nascimento inválida: ${get('birthDate')}` : 'Data de nascimento não informada');
+
+    const genderValue = normalizeText(get('gender'));
+    const gender = genderValue ? GENDER_ALIASES[genderValue] : undefined;
+    if (genderValue && !gender) errors.push(`Gênero inválido: ${get('gender')}`);
+
+    const request: CreateClientRequest = {
+      name: get('name'),
+      cpf: get('cpf'),
+      rg: optional('rg'),
+      birthDate: birthDate ?? '',
+      gender,
+      contact: {
+        email: get('contact.email'),
+        phone: get('contact.phone'),
+        mobile: optional('contact.mobile'),
+        whatsapp: optional('contact.whatsapp'),
+      },
+      address: {
+        street: get('address.street'),
+        number: get('address.number'),
+        complement: optional('address.complement'),
+        neighborhood: get('address.neighborhood'),
+        city: get('address.city'),
+        state: get('address.state').toUpperCase(),
+        zipCode: get('address.zipCode'),
+        country: 'Brasil',
+      },
+      investmentProfile: 'not_defined',
+      monthlyIncome: optionalNumber(get('monthlyIncome')),
+      netWorth: optionalNumber(get('netWorth')),
+      notes: optional('notes'),
+      tags: get('tags') ? get('tags').split(/[;,]/).map(tag => tag.trim()).filter(Boolean) : undefined,
+      referralSource: optional('referralSource'),
+    };
+
+    // CPF, gênero e data ilegível já foram reportados acima com mensagens mais específicas
+    const reported = ['cpf', 'gender', ...(birthDate ? [] : ['birthDate'])];
+    const parsed = clientSchema.safeParse({ ...request, birthDate: toBirthDate(request.birthDate) });
+    if (!parsed.success) {
+      parsed.error.issues
+        .filter(issue => !reported.includes(String(issue.path[0])))
+        .forEach(issue => {
+          const label = clientImportFields.find(f => f.field === issue.path.join('.'))?.label;
+          errors.push(label ? `${label}: ${issue.message}` : issue.message);
+        });
+    }
+
+    return {
+      row,
+      values,
+      request: errors.length === 0 ? request : undefined,
+      fields,
+      errors,
+    };
+  });
+};
+
+// Consultas de CPF em paralelo, sem disparar uma requisição por linha de uma vez
+const LOOKUP_BATCH_SIZE = 5;
+
+/**
+ * Marca em `existing` as linhas válidas cujo CPF já está cadastrado, consultando um CPF por vez
+ * (a base pode ser maior do que qualquer página carregada na tela)
+ */
+export const findExistingClients = async (
+  rows: ClientImportRow[],
+  findByCpf: (cpf: string) => Promise<Client | undefined>
+): Promise<ClientImportRow[]> => {
+  const result = [...rows];
+  const pending = rows.map((row, index) => ({ row, index })).filter(({ row }) => row.request);
+
+  for (let start = 0; start < pending.length; start += LOOKUP_BATCH_SIZE) {
+    await Promise.all(pending.slice(start, start + LOOKUP_BATCH_SIZE).map(async ({ row, index }) => {
+      result[index] = { ...row, existing: await findByCpf(row.request!.cpf) };
+    }));
+  }
+  return result;
+};
+
+/**
+ * Cliente com exatamente este CPF entre os resultados da busca (a busca também casa trechos do CPF)
+ */
+export const matchClientByCpf = (clients: Client[], cpf: string): Client | undefined =>
+  clients.find(client => onlyDigits(client.cpf) === onlyDigits(cpf));
+
+export const getClientImportAction = (row: ClientImportRow, strategy: DuplicateStrategy): ClientImportAction => {
+  if (!row.request) return 'invalid';
+  if (!row.existing) return 'create';
+  return strategy === 'update' ? 'update' : 'skip';
+};
+
+/**
+ * Resumo do dry-run: o que acontece com cada linha se a importação for confirmada
+ */
+export const summarizeClientImport = (rows: ClientImportRow[], strategy: DuplicateStrategy) =>
+  rows.reduce<Record<ClientImportAction, number>>(
+    (summary, row) => {
+      summary[getClientImportAction(row, strategy)] += 1;
+      return summary;
+    },
+    { create: 0, update: 0, skip: 0, invalid: 0 }
+  );
+
+export const toClientData = (
+  request: CreateClientRequest,
+  createdBy: string
+): Omit<Client, 'id' | 'createdAt' | 'updatedAt'> => ({
+  ...request,
+  birthDate: toBirthDate(request.birthDate),
+  status: 'active',
+  createdBy,
+});
+
+// Só os campos entre os informados e não vazios; contato e endereço completam com o cadastro atual
+const pickMapped = <T extends object>(source: T, prefix: string, fields: ClientImportField[]): Partial<T> =>
+  Object.fromEntries(
+    Object.entries(source).filter(([key, value]) => value !== undefined && (fields as string[]).includes(`${prefix}${key}`))
+  ) as Partial<T>;
+
+/**
+ * Dados de atualização de um cliente existente: colunas não mapeadas (perfil, país...) ficam como estão
+ */
+export const toClientUpdate = (
+  request: CreateClientRequest,
+  fields: ClientImportField[],
+  existing: Client
+): Partial<Client> => {
+  const { birthDate, ...mapped } = pickMapped(request, '', fields);
+  const update: Partial<Client> = { ...mapped };
+  if (birthDate) update.birthDate = toBirthDate(birthDate);
+
+  const contact = pickMapped(request.contact, 'contact.', fields);
+  if (Object.keys(contact).length > 0) update.contact = { ...existing.contact, ...contact };
+  const address = pickMapped(request.address, 'address.', fields);
+  if (Object.keys(address).length > 0) update.address = { ...existing.address, ...address };
+
+  return update;
+};
+
+// Só falhas transitórias (backend fora do ar ou erro 5xx) são repetidas automaticamente
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 500;
+
+const isRetryable = (error: unknown) =>
+  isBackendUnreachable(error) || (error instanceof ApiError && (error.status ?? 0) >= 500);
+
+const withRetry = async <T>(operation: () => Promise<T>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !isRetryable(error)) throw error;
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+    }
+  }
+};
+
+export interface ClientImportOperations {
+  createClient: (client: Omit<Client, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Client>;
+  updateClient: (id: string, client: Partial<Client>) => Promise<Client>;
+  findByCpf: (cpf: string) => Promise<Client | undefined>;
+  createdBy: string;
+  onProgress?: (outcome: ClientImportOutcome, done: number, total: number) => void;
+}
+
+/**
+ * Cria/atualiza as linhas em sequência, reportando o progresso a cada linha.
+ * Linhas inválidas não entram; duplicadas seguem a estratégia escolhida, inclusive as que
+ * o backend recusar com 409 por terem sido cadastradas depois da simulação.
+ */
+export const runClientImport = async (
+  rows: ClientImportRow[],
+  strategy: DuplicateStrategy,
+  { createClient, updateClient, findByCpf, createdBy, onProgress }: ClientImportOperations
+): Promise<ClientImportOutcome[]> => {
+  const update = async (row: ClientImportRow, existing: Client): Promise<ClientImportOutcome> => {
+    // Atualização mantém status, autor e os campos sem coluna no arquivo
+    const client = await withRetry(() => updateClient(existing.id, toClientUpdate(row.request!, row.fields, existing)));
+    return { row: row.row, status: 'updated', clientId: client.id };
+  };
+
+  const create = async (row: ClientImportRow): Promise<ClientImportOutcome> => {
+    try {
+      const client = await withRetry(() => createClient(toClientData(row.request!, createdBy)));
+      return { row: row.row, status: 'created', clientId: client.id };
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error;
+      const existing = await findByCpf(row.request!.cpf);
+      if (strategy === 'update' && existing) return update(row, existing);
+      return { row: row.row, status: 'skipped', clientId: existing?.id };
+    }
+  };
+
+  const pending = rows.filter(row => getClientImportAction(row, strategy) !== 'invalid');
+  const outcomes: ClientImportOutcome[] = [];
+
+  for (const row of pending) {
+    const action = getClientImportAction(row, strategy);
+    let outcome: ClientImportOutcome;
+
+    if (action === 'skip') {
+      outcome = { row: row.row, status: 'skipped', clientId: row.existing?.id };
+    } else {
+      try {
+        outcome = action === 'update' ? await update(row, row.existing!) : await create(row);
+      } catch (error) {
+        outcome = { row: row.row, status: 'failed', error: getErrorMessage(error) };
+      }
+    }
+
+    outcomes.push(outcome);
+    onProgress?.(outcome, outcomes.length, pending.length);
+  }
+
+  return outcomes;
+};
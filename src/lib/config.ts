@@ -0,0 +1,30 @@
+// Configuração compartilhada entre os clientes HTTP
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+
+// Rotas do próprio Next.js que guardam a sessão em cookie httpOnly e encaminham as chamadas ao backend
+export const AUTH_API_PATH = '/api/auth';
+export const BACKEND_PROXY_PATH = '/api/backend';
+
+// Força o backend local em IndexedDB (demonstrações sem servidor)
+export const USE_MOCK_API = process.env.NEXT_PUBLIC_USE_MOCK_API === 'true';
+
+// Valor numérico de variável de ambiente; o padrão só vale se ela faltar ou não for número (0 é um valor válido)
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value?.trim() ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+// Taxa CDI anual usada como ativo livre de risco no índice de Sharpe (ex: 0.149 = 14,9% a.a.)
+export const CDI_ANNUAL_RATE = parseNumber(process.env.NEXT_PUBLIC_CDI_RATE, 0.149);
+
+// Regras de aprovação de movimentações (maker-checker)
+// Saques acima deste valor exigem aprovação de um segundo usuário (0 = todos os saques)
+export const APPROVAL_WITHDRAWAL_THRESHOLD = parseNumber(process.env.NEXT_PUBLIC_APPROVAL_WITHDRAWAL_THRESHOLD, 50000);
+// Saques para uma conta bancária ainda não usada pelo cliente exigem aprovação (desative com 'false')
+export const APPROVAL_NEW_BANK_ACCOUNT = process.env.NEXT_PUBLIC_APPROVAL_NEW_BANK_ACCOUNT !== 'false';
+
+// Validade do perfil de suitability: a CVM 30 exige atualização em no máximo 24 meses
+export const SUITABILITY_VALIDITY_MONTHS = parseNumber(process.env.NEXT_PUBLIC_SUITABILITY_VALIDITY_MONTHS, 24);
+
+// Limite de cheque especial da conta corrente dos clientes: quanto o saldo pode ficar negativo após um resgate
+export const CASH_OVERDRAFT_LIMIT = parseNumber(process.env.NEXT_PUBLIC_CASH_OVERDRAFT_LIMIT, 0);
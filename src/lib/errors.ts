@@ -0,0 +1,183 @@
+// Hierarquia de erros da camada HTTP
+
+export interface FieldErrors {
+  [field: string]: string;
+}
+
+// Formato de erro de validação do FastAPI (detail como array)
+interface FastApiValidationItem {
+  loc: (string | number)[];
+  msg: string;
+  type?: string;
+}
+
+/**
+ * Erro base para qualquer falha de requisição à API
+ */
+export class ApiError extends Error {
+  readonly status?: number;
+  readonly data?: unknown;
+
+  constructor(message: string, status?: number, data?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+/**
+ * 422 - dados inválidos, com os erros mapeados por campo
+ */
+export class ValidationError extends ApiError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(message: string, fieldErrors: FieldErrors, data?: unknown) {
+    super(message, 422, data);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * 401/403 - sessão inválida ou sem permissão
+ */
+export class AuthError extends ApiError {
+  constructor(message: string, status: 401 | 403, data?: unknown) {
+    super(message, status, data);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * 404 - recurso não encontrado
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string, data?: unknown) {
+    super(message, 404, data);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * 409 - conflito (ex: CPF ou ticker já cadastrado)
+ */
+export class ConflictError extends ApiError {
+  constructor(message: string, data?: unknown) {
+    super(message, 409, data);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Falha de rede - backend inacessível, CORS, DNS etc.
+ */
+export class NetworkError extends ApiError {
+  constructor(message = 'Não foi possível conectar ao servidor') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * A requisição excedeu o tempo limite configurado
+ */
+export class TimeoutError extends ApiError {
+  readonly timeout: number;
+
+  constructor(timeout: number) {
+    super(`A requisição excedeu o tempo limite de ${timeout}ms`);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Falhas em que a API não respondeu (servidor fora do ar ou lento demais)
+ */
+export const isBackendUnreachable = (error: unknown): boolean =>
+  error instanceof NetworkError || error instanceof TimeoutError;
+
+const isValidationItem = (item: unknown): item is FastApiValidationItem =>
+  typeof item === 'object' && item !== null && 'loc' in item && 'msg' in item;
+
+// Prefixos de loc do FastAPI que não fazem parte do nome do campo
+const LOCATION_PREFIXES = ['body', 'query', 'path', 'header'];
+
+const toCamelCase = (segment: string) =>
+  segment.replace(/_([a-z])/g, (_, char: string) => char.toUpperCase());
+
+/**
+ * Converte o detail do FastAPI em um mapa campo -> mensagem.
+ * ['body', 'contact', 'zip_code'] vira 'contact.zipCode'.
+ */
+export const parseFieldErrors = (detail: unknown): FieldErrors => {
+  if (!Array.isArray(detail)) return {};
+
+  return detail.filter(isValidationItem).reduce<FieldErrors>((acc, item) => {
+    const path = item.loc
+      .filter((segment, index) => !(index === 0 && LOCATION_PREFIXES.includes(String(segment))))
+      .map(segment => toCamelCase(String(segment)))
+      .join('.');
+
+    if (path && !acc[path]) {
+      acc[path] = item.msg;
+    }
+    return acc;
+  }, {});
+};
+
+/**
+ * Extrai uma mensagem legível do corpo de erro da API
+ */
+export const extractErrorMessage = (data: unknown, fallback: string): string => {
+  if (data && typeof data === 'object') {
+    const { detail, message } = data as { detail?: unknown; message?: unknown };
+    if (typeof detail === 'string') return detail;
+    if (Array.isArray(detail) && isValidationItem(detail[0])) return detail[0].msg;
+    if (typeof message === 'string') return message;
+  }
+  return fallback;
+};
+
+/**
+ * Cria o erro tipado correspondente ao status HTTP
+ */
+export const createHttpError = (status: number, statusText: string, data: unknown): ApiError => {
+  const message = extractErrorMessage(data, `HTTP ${status}: ${statusText}`);
+  const detail = data && typeof data === 'object' ? (data as { detail?: unknown }).detail : undefined;
+
+  switch (status) {
+    case 401:
+    case 403:
+      return new AuthError(message, status, data);
+    case 404:
+      return new NotFoundError(message, data);
+    case 409:
+      return new ConflictError(message, data);
+    case 422:
+      return new ValidationError(message, parseFieldErrors(detail), data);
+    // O proxy do Next.js responde 502 quando não consegue alcançar o backend
+    case 502:
+    case 503:
+    case 504:
+      return new NetworkError(message);
+    default:
+      return new ApiError(message, status, data);
+  }
+};
+
+/**
+ * Mensagem amigável para exibir ao usuário a partir de qualquer erro
+ */
+export const getErrorMessage = (error: unknown, fallback = 'Erro inesperado. Tente novamente.'): string => {
+  if (error instanceof NetworkError) return 'Servidor indisponível. Verifique sua conexão.';
+  if (error instanceof TimeoutError) return 'O servidor demorou para responder. Tente novamente.';
+  if (error instanceof AuthError) {
+    return error.status === 403
+      ? 'Acesso negado. Seu perfil não tem permissão para esta operação.'
+      : 'Sessão expirada. Faça login novamente.';
+  }
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+};
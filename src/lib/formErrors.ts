@@ -0,0 +1,24 @@
+import type { FieldPath, FieldValues, UseFormSetError } from 'react-hook-form';
+import { ValidationError } from './errors';
+
+/**
+ * Aplica os erros de validação (422) da API diretamente nos campos do formulário.
+ * `fieldMap` traduz nomes do backend para caminhos do formulário quando eles divergem
+ * (ex: { email: 'contact.email' }).
+ * Retorna true se algum erro foi aplicado, para o chamador decidir se ainda exibe um toast.
+ */
+export function applyFieldErrors<TFieldValues extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<TFieldValues>,
+  fieldMap: Record<string, FieldPath<TFieldValues>> = {}
+): boolean {
+  if (!(error instanceof ValidationError)) return false;
+
+  const entries = Object.entries(error.fieldErrors);
+  entries.forEach(([field, message], index) => {
+    const name = (fieldMap[field] ?? field) as FieldPath<TFieldValues>;
+    setError(name, { type: 'server', message }, { shouldFocus: index === 0 });
+  });
+
+  return entries.length > 0;
+}
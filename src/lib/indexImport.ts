@@ -0,0 +1,50 @@
+import { normalizeText, parseAmount, parseDate, type ImportSheet } from '../utils/importUtils';
+import type { IndexPoint, IndexSeriesName } from './portfolio/fixedIncome';
+
+// Importação de séries de índices no formato do SGS/Banco Central: colunas "data" e "valor"
+
+export interface IndexImportError {
+  row: number; // linha na planilha (a 1 é o cabeçalho)
+  message: string;
+}
+
+export interface ParsedIndexSheet {
+  points: IndexPoint[];
+  errors: IndexImportError[];
+}
+
+const DATE_ALIASES = ['data', 'date', 'dia', 'mes', 'referencia'];
+const VALUE_ALIASES = ['valor', 'value', 'taxa', 'indice', 'variacao'];
+
+// IPCA pode vir como MM/AAAA ou AAAA-MM; a data de referência é o primeiro dia do mês
+const parseMonth = (value: string): string | undefined => {
+  const br = value.match(/^(\d{1,2})\/(\d{4})$/);
+  const iso = br ? `${br[2]}-${br[1].padStart(2, '0')}` : value.slice(0, 7);
+  return parseDate(`${iso}-01`);
+};
+
+export const parseIndexSheet = (sheet: ImportSheet, index: IndexSeriesName): ParsedIndexSheet => {
+  const dateHeader = sheet.headers.find(h => DATE_ALIASES.includes(normalizeText(h)));
+  const valueHeader = sheet.headers.find(h => VALUE_ALIASES.includes(normalizeText(h)));
+  if (!dateHeader || !valueHeader) {
+    return { points: [], errors: [{ row: 1, message: 'A planilha precisa das colunas "data" e "valor"' }] };
+  }
+
+  const points: IndexPoint[] = [];
+  const errors: IndexImportError[] = [];
+  sheet.rows.forEach((values, position) => {
+    const row = position + 2;
+    const rawDate = values[dateHeader] ?? '';
+    const date = index === 'ipca' ? parseMonth(rawDate) ?? parseDate(rawDate)?.replace(/\d{2}$/, '01') : parseDate(rawDate);
+    const value = parseAmount(values[valueHeader] ?? '');
+
+    if (!date) {
+      errors.push({ row, message: `Data inválida: "${rawDate}"` });
+    } else if (Number.isNaN(value)) {
+      errors.push({ row, message: `Valor inválido: "${values[valueHeader]}"` });
+    } else {
+      points.push({ date, value });
+    }
+  });
+  return { points, errors };
+};
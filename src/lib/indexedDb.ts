@@ -0,0 +1,69 @@
+// Acesso ao IndexedDB do navegador compartilhado pelos bancos locais (demonstração e dados de mercado)
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export interface IndexedDbConfig<S extends string> {
+  name: string;
+  version: number;
+  storeNames: readonly S[];
+  // Chamado com os stores criados nesta abertura, para gravar o conteúdo inicial
+  onStoresCreated: (db: IDBDatabase, created: S[]) => Promise<void>;
+}
+
+const openDatabase = <S extends string>(config: IndexedDbConfig<S>): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB não está disponível neste ambiente'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(config.name, config.version);
+    const created: S[] = [];
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      config.storeNames.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+          created.push(name);
+        }
+      });
+    };
+
+    request.onsuccess = async () => {
+      const db = request.result;
+      if (created.length > 0) {
+        await config.onStoresCreated(db, created);
+      }
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Conexão aberta uma única vez por banco; após uma falha a próxima chamada tenta abrir de novo
+ */
+export const createDatabaseConnection = <S extends string>(config: IndexedDbConfig<S>): (() => Promise<IDBDatabase>) => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  return () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(config).catch(error => {
+        dbPromise = null;
+        throw error;
+      });
+    }
+    return dbPromise;
+  };
+};
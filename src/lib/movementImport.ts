@@ -0,0 +1,208 @@
+import { createMovementSchema, movementTypeConfig, paymentMethodSchema } from '../schemas/movement';
+import { getErrorMessage } from './errors';
+import { normalizeText, parseAmount, parseDate } from '../utils/importUtils';
+import type { BatchMovementResponse, CreateMovementRequest, MovementType, PaymentMethod } from '../types/movement';
+import type { Client } from '../types/client';
+import type { MovementCreate, MovementWithClient } from '../services/adaptedMovementService';
+
+// Importação em lote: colunas da planilha -> CreateMovementRequest, validado linha a linha
+
+export type MovementImportField = 'client' | 'type' | 'amount' | 'date' | 'description' | 'paymentMethod' | 'notes';
+
+export const movementImportFields: { field: MovementImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'client', label: 'Cliente (CPF ou nome)', required: true, aliases: ['cliente', 'cpf', 'nome', 'client', 'client_id'] },
+  { field: 'type', label: 'Tipo', required: true, aliases: ['tipo', 'type', 'operacao'] },
+  { field: 'amount', label: 'Valor', required: true, aliases: ['valor', 'amount', 'quantia'] },
+  { field: 'date', label: 'Data', required: false, aliases: ['data', 'date'] },
+  { field: 'description', label: 'Descrição', required: false, aliases: ['descricao', 'description', 'historico'] },
+  { field: 'paymentMethod', label: 'Forma de pagamento', required: false, aliases: ['forma de pagamento', 'pagamento', 'payment_method', 'meio'] },
+  { field: 'notes', label: 'Observações', required: false, aliases: ['observacoes', 'observacao', 'notes', 'obs'] },
+];
+
+export type MovementColumnMapping = Partial<Record<MovementImportField, string>>;
+
+export interface MovementImportRow {
+  row: number; // linha na planilha (a 1 é o cabeçalho)
+  values: Record<string, string>;
+  clientName?: string;
+  date: string;
+  request?: CreateMovementRequest; // só nas linhas válidas
+  errors: string[];
+}
+
+export interface MovementImportResult extends Omit<BatchMovementResponse, 'movements'> {
+  movements: {
+    success: MovementWithClient[];
+    failed: (BatchMovementResponse['movements']['failed'][number] & { row: number })[];
+  };
+}
+
+// Sinônimos aceitos além dos valores do enum e dos rótulos de movementTypeConfig
+const TYPE_ALIASES: Record<string, MovementType> = {
+  aporte: 'deposit',
+  deposito: 'deposit',
+  resgate: 'withdrawal',
+  retirada: 'withdrawal',
+  saque: 'withdrawal',
+};
+
+const PAYMENT_ALIASES: Record<string, PaymentMethod> = {
+  transferencia: 'bank_transfer',
+  'transferencia bancaria': 'bank_transfer',
+  dinheiro: 'cash',
+  cheque: 'check',
+  'cartao de credito': 'credit_card',
+  'cartao de debito': 'debit_card',
+};
+
+// O backend só registra depósitos e saques
+const SUPPORTED_TYPES: MovementType[] = ['deposit', 'withdrawal'];
+
+/**
+ * Sugere o mapeamento comparando os cabeçalhos com os nomes conhecidos de cada campo
+ */
+export const guessMovementColumnMapping = (headers: string[]): MovementColumnMapping => {
+  const mapping: MovementColumnMapping = {};
+  movementImportFields.forEach(({ field, aliases }) => {
+    const header = headers.find(h => aliases.includes(normalizeText(h)));
+    if (header) mapping[field] = header;
+  });
+  return mapping;
+};
+
+const parseType = (value: string): MovementType | undefined => {
+  const normalized = normalizeText(value);
+  if (normalized in movementTypeConfig) return normalized as MovementType;
+  const byLabel = (Object.keys(movementTypeConfig) as MovementType[])
+    .find(type => normalizeText(movementTypeConfig[type].label) === normalized);
+  return byLabel ?? TYPE_ALIASES[normalized];
+};
+
+const parsePaymentMethod = (value: string): PaymentMethod | undefined => {
+  const normalized = normalizeText(value);
+  const parsed = paymentMethodSchema.safeParse(normalized.replace(/ /g, '_'));
+  return parsed.success ? parsed.data : PAYMENT_ALIASES[normalized];
+};
+
+/**
+ * Cliente pelo CPF (11 dígitos) ou pelo nome completo, sem diferenciar acentos e maiúsculas
+ */
+const matchClient = (value: string, clients: Client[]): { client?: Client; error?: string } => {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length === 11) {
+    const client = clients.find(c => c.cpf.replace(/\D/g, '') === digits);
+    return client ? { client } : { error: `Nenhum cliente com CPF ${value}` };
+  }
+
+  const matches = clients.filter(c => normalizeText(c.name) === normalizeText(value));
+  if (matches.length === 1) return { client: matches[0] };
+  return {
+    error: matches.length > 1
+      ? `Mais de um cliente chamado "${value}": informe o CPF`
+      : `Cliente "${value}" não encontrado`,
+  };
+};
+
+/**
+ * Converte e valida cada linha com createMovementSchema; linhas com erros não são enviadas
+ */
+export const validateMovementImport = (
+  rows: Record<string, string>[],
+  mapping: MovementColumnMapping,
+  clients: Client[],
+  today = new Date().toISOString().slice(0, 10)
+): MovementImportRow[] =>
+  rows.map((values, index) => {
+    const get = (field: MovementImportField) => (mapping[field] ? values[mapping[field]!] ?? '' : '');
+    const errors: string[] = [];
+    // Campos já reportados aqui não repetem a mensagem do schema
+    const reported = new Set<string>();
+    const report = (field: string, message: string) => {
+      reported.add(field);
+      errors.push(message);
+    };
+
+    const { client, error: clientError } = get('client')
+      ? matchClient(get('client'), clients)
+      : { client: undefined, error: 'Cliente não informado' };
+    if (clientError) report('clientId', clientError);
+
+    const type = parseType(get('type'));
+    if (!type) {
+      report('type', get('type') ? `Tipo inválido: "${get('type')}"` : 'Tipo não informado');
+    } else if (!SUPPORTED_TYPES.includes(type)) {
+      report('type', `Tipo não suportado na importação: ${movementTypeConfig[type].label}`);
+    }
+
+    const amount = parseAmount(get('amount'));
+    if (isNaN(amount)) report('amount', get('amount') ? `Valor inválido: "${get('amount')}"` : 'Valor não informado');
+
+    const date = get('date') ? parseDate(get('date')) : today;
+    if (!date) report('date', `Data inválida: "${get('date')}"`);
+
+    const paymentMethod = get('paymentMethod') ? parsePaymentMethod(get('paymentMethod')) : undefined;
+    if (get('paymentMethod') && !paymentMethod) {
+      report('paymentMethod', `Forma de pagamento inválida: "${get('paymentMethod')}"`);
+    }
+
+    const parsed = createMovementSchema.safeParse({
+      clientId: client?.id ?? '',
+      type,
+      amount,
+      // Sem descrição na planilha, o tipo da movimentação serve de descrição
+      description: get('description') || (type ? movementTypeConfig[type].label : ''),
+      paymentMethod,
+      notes: get('notes') || undefined,
+    });
+    if (!parsed.success) {
+      parsed.error.issues
+        .filter(issue => !reported.has(String(issue.path[0])))
+        .forEach(issue => errors.push(issue.message));
+    }
+
+    return {
+      row: index + 2,
+      values,
+      clientName: client?.name,
+      date: date ?? '',
+      request: parsed.success && errors.length === 0 ? parsed.data : undefined,
+      errors,
+    };
+  });
+
+const toMovementCreate = (request: CreateMovementRequest, date: string): MovementCreate => ({
+  client_id: parseInt(request.clientId),
+  type: request.type === 'deposit' ? 'deposit' : 'withdrawal',
+  amount: request.amount,
+  date,
+  note: [request.description, request.notes].filter(Boolean).join(' - '),
+});
+
+/**
+ * Envia as linhas válidas uma a uma, na ordem da planilha: saldo e regras de aprovação
+ * de cada movimentação consideram as anteriores do mesmo lote.
+ */
+export const submitMovementImport = async (
+  rows: MovementImportRow[],
+  createMovement: (movement: MovementCreate) => Promise<MovementWithClient>
+): Promise<MovementImportResult> => {
+  const result: MovementImportResult = {
+    batchId: `import-${Date.now()}`,
+    successCount: 0,
+    failureCount: 0,
+    movements: { success: [], failed: [] },
+  };
+
+  for (const row of rows) {
+    if (!row.request) continue;
+    try {
+      result.movements.success.push(await createMovement(toMovementCreate(row.request, row.date)));
+      result.successCount += 1;
+    } catch (error) {
+      result.movements.failed.push({ row: row.row, request: row.request, error: getErrorMessage(error) });
+      result.failureCount += 1;
+    }
+  }
+
+  return result;
+};
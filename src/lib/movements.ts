@@ -0,0 +1,68 @@
+import { isMovementEffective } from './approvals';
+import type { MovementSummary, MovementWithClient } from '../services/adaptedMovementService';
+
+/**
+ * Totais de entradas e saídas de uma lista de movimentações (pendentes e rejeitadas ficam de fora)
+ */
+export const summarizeMovements = (
+  allMovements: Array<Pick<MovementWithClient, 'type' | 'amount' | 'status'>>
+): MovementSummary => {
+  const movements = allMovements.filter(isMovementEffective);
+  const totalDeposits = movements
+    .filter(m => m.type === 'deposit')
+    .reduce((sum, m) => sum + m.amount, 0);
+  const totalWithdrawals = movements
+    .filter(m => m.type === 'withdrawal')
+    .reduce((sum, m) => sum + m.amount, 0);
+
+  return {
+    total_deposits: totalDeposits,
+    total_withdrawals: totalWithdrawals,
+    net_amount: totalDeposits - totalWithdrawals,
+    total_movements: movements.length,
+  };
+};
+
+export interface MonthlyFlow {
+  month: string; // YYYY-MM
+  deposits: number;
+  withdrawals: number;
+  net: number;
+}
+
+/**
+ * Entradas e saídas agrupadas por mês, incluindo os meses sem movimentação dentro do intervalo
+ */
+export const groupFlowsByMonth = (
+  allMovements: Array<Pick<MovementWithClient, 'type' | 'amount' | 'date' | 'status'>>,
+  startDate?: string,
+  endDate?: string
+): MonthlyFlow[] => {
+  const movements = allMovements.filter(isMovementEffective);
+  const dates = movements.map(m => m.date.slice(0, 7)).sort();
+  const first = startDate?.slice(0, 7) ?? dates[0];
+  const last = endDate?.slice(0, 7) ?? dates[dates.length - 1];
+  if (!first || !last) return [];
+
+  const byMonth = new Map<string, MonthlyFlow>();
+  let [year, month] = first.split('-').map(Number);
+  for (let key = first; key <= last; ) {
+    byMonth.set(key, { month: key, deposits: 0, withdrawals: 0, net: 0 });
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+    key = `${year}-${String(month).padStart(2, '0')}`;
+  }
+
+  movements.forEach(movement => {
+    const item = byMonth.get(movement.date.slice(0, 7));
+    if (!item) return;
+    if (movement.type === 'deposit') item.deposits += movement.amount;
+    else item.withdrawals += movement.amount;
+    item.net = item.deposits - item.withdrawals;
+  });
+
+  return Array.from(byMonth.values());
+};
@@ -0,0 +1,57 @@
+import type { Permission, User, UserRole } from '../types/auth';
+
+// Usuários sem papel definido no backend recebem o perfil mais restrito
+export const DEFAULT_ROLE: UserRole = 'advisor';
+
+const advisorPermissions: Permission[] = [
+  'clients:create',
+  'clients:update',
+  'allocations:create',
+  'movements:create',
+  'reports:export',
+];
+
+const operationsPermissions: Permission[] = [
+  'clients:update',
+  'assets:create',
+  'assets:update',
+  'allocations:create',
+  'allocations:delete',
+  'movements:create',
+  'movements:approve',
+  'movements:delete',
+  'reports:export',
+];
+
+export const rolePermissions: Record<UserRole, Permission[]> = {
+  advisor: advisorPermissions,
+  operations: operationsPermissions,
+  admin: [
+    'clients:create',
+    'clients:update',
+    'clients:delete',
+    'assets:create',
+    'assets:update',
+    'assets:delete',
+    'allocations:create',
+    'allocations:delete',
+    'movements:create',
+    'movements:approve',
+    'movements:delete',
+    'reports:export',
+  ],
+};
+
+export const roleLabels: Record<UserRole, string> = {
+  advisor: 'Assessor',
+  operations: 'Operações',
+  admin: 'Administrador',
+};
+
+export const getUserRole = (user: User | null | undefined): UserRole => {
+  return user?.role && user.role in rolePermissions ? user.role : DEFAULT_ROLE;
+};
+
+export const roleHasPermission = (role: UserRole, permission: Permission): boolean => {
+  return rolePermissions[role].includes(permission);
+};
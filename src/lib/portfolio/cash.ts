@@ -0,0 +1,129 @@
+import type { Allocation, Sale } from '../../types/allocation';
+import type { ClientBalance } from '../../types/movement';
+import type { MovementWithClient } from '../../services/adaptedMovementService';
+import { CASH_OVERDRAFT_LIMIT } from '../config';
+import { isMovementEffective } from '../approvals';
+import { ValidationError } from '../errors';
+
+// Conta corrente do cliente na plataforma: aportes e vendas creditam, resgates e compras debitam
+
+export type CashEntryKind = 'deposit' | 'income' | 'withdrawal' | 'purchase' | 'sale';
+
+export const cashEntryLabels: Record<CashEntryKind, string> = {
+  deposit: 'Aporte',
+  income: 'Proventos',
+  withdrawal: 'Resgate',
+  purchase: 'Compra de ativo',
+  sale: 'Venda de ativo',
+};
+
+export interface CashEntry {
+  kind: CashEntryKind;
+  sourceId: number; // id da movimentação, alocação ou venda
+  date: string;
+  amount: number; // positivo = crédito, negativo = débito
+  balance: number; // saldo após o lançamento
+}
+
+export interface CashLedger extends ClientBalance {
+  entries: CashEntry[];
+}
+
+export interface CashLedgerOptions {
+  overdraftLimit?: number;
+  accountStatus?: ClientBalance['accountStatus'];
+}
+
+// Lançamentos que vêm de movimentações (sourceId = id da movimentação)
+export const isMovementEntry = (entry: Pick<CashEntry, 'kind'>): boolean =>
+  entry.kind === 'deposit' || entry.kind === 'income' || entry.kind === 'withdrawal';
+
+// No mesmo dia os créditos entram antes dos débitos
+const KIND_ORDER: Record<CashEntryKind, number> = { deposit: 0, income: 0, sale: 1, purchase: 2, withdrawal: 3 };
+
+const compareEntries = (a: Omit<CashEntry, 'balance'>, b: Omit<CashEntry, 'balance'>): number =>
+  a.date.localeCompare(b.date) || KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || a.sourceId - b.sourceId;
+
+/**
+ * Saldo corrente de um cliente a partir das movimentações efetivadas, compras e vendas.
+ * Movimentações aguardando aprovação ficam em pendingDeposits/pendingWithdrawals; rejeitadas são ignoradas.
+ */
+export const buildCashLedger = (
+  clientId: string,
+  movements: MovementWithClient[],
+  allocations: Allocation[],
+  sales: Sale[],
+  { overdraftLimit = CASH_OVERDRAFT_LIMIT, accountStatus = 'active' }: CashLedgerOptions = {}
+): CashLedger => {
+  const effective = movements.filter(isMovementEffective);
+  const pending = movements.filter(m => m.status === 'pending_approval');
+
+  let balance = 0;
+  const entries: CashEntry[] = [
+    ...effective.map(m => ({
+      // Proventos chegam como depósito gerado a partir do evento societário
+      kind: m.corporate_action_id ? 'income' as const : m.type,
+      sourceId: m.id,
+      date: m.date.slice(0, 10),
+      amount: m.type === 'deposit' ? m.amount : -m.amount,
+    })),
+    ...allocations.map(a => ({
+      kind: 'purchase' as const,
+      sourceId: a.id,
+      date: a.buy_date.slice(0, 10),
+      amount: -a.quantity * a.buy_price,
+    })),
+    ...sales.map(s => ({
+      kind: 'sale' as const,
+      sourceId: s.id,
+      date: s.sell_date.slice(0, 10),
+      amount: s.quantity * s.sell_price - (s.fees ?? 0),
+    })),
+  ]
+    .sort(compareEntries)
+    .map(entry => {
+      balance += entry.amount;
+      return { ...entry, balance };
+    });
+
+  const pendingDeposits = pending.filter(m => m.type === 'deposit').reduce((sum, m) => sum + m.amount, 0);
+  const pendingWithdrawals = pending.filter(m => m.type === 'withdrawal').reduce((sum, m) => sum + m.amount, 0);
+  const lastMovement = effective.map(m => m.date).sort().pop();
+
+  return {
+    clientId,
+    availableBalance: balance,
+    pendingDeposits,
+    pendingWithdrawals,
+    totalBalance: balance + pendingDeposits - pendingWithdrawals,
+    lastMovementDate: lastMovement ? new Date(lastMovement) : undefined,
+    accountStatus,
+    overdraftLimit,
+    balanceHistory: entries.map(entry => ({
+      date: new Date(entry.date),
+      balance: entry.balance,
+      ...(isMovementEntry(entry) ? { movementId: entry.sourceId.toString() } : {}),
+    })),
+    entries,
+  };
+};
+
+/**
+ * Quanto o cliente ainda pode resgatar: saldo disponível menos saques pendentes, mais o limite de cheque especial
+ */
+export const getWithdrawableAmount = (ledger: ClientBalance): number =>
+  Math.max(ledger.availableBalance - ledger.pendingWithdrawals + (ledger.overdraftLimit ?? 0), 0);
+
+/**
+ * Valida um novo resgate contra o saldo do cliente.
+ * Lança ValidationError no campo amount, no mesmo formato de um 422 da API.
+ */
+export const assertWithdrawalAllowed = (ledger: ClientBalance, amount: number): void => {
+  const withdrawable = getWithdrawableAmount(ledger);
+  // Tolerância de meio centavo para arredondamentos
+  if (amount > withdrawable + 0.005) {
+    const formatted = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(withdrawable);
+    const message = `Saldo insuficiente: disponível para resgate ${formatted}`;
+    throw new ValidationError(message, { amount: message });
+  }
+};
@@ -0,0 +1,114 @@
+import type { Allocation, CorporateAction, CorporateActionType, Sale } from '../../types/allocation';
+import { buildLedger } from './lots';
+
+// Eventos societários: efeito na posição de cada cliente e proventos em dinheiro devidos
+
+export const corporateActionTypeLabels: Record<CorporateActionType, string> = {
+  split: 'Desdobramento',
+  reverse_split: 'Grupamento',
+  bonus: 'Bonificação',
+  dividend: 'Dividendos',
+  jcp: 'Juros sobre Capital Próprio',
+};
+
+// IR retido na fonte sobre JCP; dividendos são isentos
+export const JCP_WITHHOLDING_RATE = 0.15;
+
+export interface CorporateActionImpact {
+  clientId: number;
+  quantityBefore: number;
+  averageCostBefore: number;
+  quantityAfter: number;
+  averageCostAfter: number;
+  grossIncome: number;
+  withholding: number;
+  netIncome: number; // valor creditado ao cliente
+}
+
+const EPSILON = 1e-8;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+export const isCashDistribution = (action: Pick<CorporateAction, 'type'>): boolean =>
+  action.type === 'dividend' || action.type === 'jcp';
+
+/**
+ * Resumo do evento: "1 para 4", "10 para 1", "10% a R$ 18,24", "R$ 0,60 por ação"
+ */
+export const describeCorporateAction = (action: CorporateAction): string => {
+  const ratio = (action.ratio ?? 0).toLocaleString('pt-BR', { maximumFractionDigits: 6 });
+  switch (action.type) {
+    case 'split': return `1 para ${ratio}`;
+    case 'reverse_split': return `${ratio} para 1`;
+    case 'bonus':
+      return `${((action.ratio ?? 0) * 100).toLocaleString('pt-BR', { maximumFractionDigits: 4 })}% a ${formatCurrency(action.assigned_cost ?? 0)}`;
+    default: return `${formatCurrency(action.amount_per_share ?? 0)} por ação`;
+  }
+};
+
+// Eventos do mesmo ativo que valem antes deste (na mesma data ex, os cadastrados antes)
+const precedes = (other: CorporateAction, action: CorporateAction) =>
+  other.asset_id === action.asset_id &&
+  other.id !== action.id &&
+  (other.ex_date < action.ex_date || (other.ex_date === action.ex_date && other.id < action.id));
+
+/**
+ * Posição de cada cliente na véspera da data ex, antes e depois do evento, e o provento devido.
+ * Eventos anteriores do mesmo ativo são aplicados primeiro; clientes sem posição ficam de fora.
+ */
+export const getCorporateActionImpacts = (
+  action: CorporateAction,
+  allocations: Allocation[],
+  sales: Sale[],
+  corporateActions: CorporateAction[] = []
+): CorporateActionImpact[] => {
+  const previous = corporateActions.filter(other => precedes(other, action));
+  const assetAllocations = allocations.filter(a => a.asset_id === action.asset_id && a.buy_date < action.ex_date);
+  const assetSales = sales.filter(s => s.asset_id === action.asset_id && s.sell_date < action.ex_date);
+  const clientIds = Array.from(new Set(assetAllocations.map(a => a.client_id))).sort((a, b) => a - b);
+
+  return clientIds
+    .map(clientId => {
+      const position = (actions: CorporateAction[]) => {
+        const lots = buildLedger(
+          assetAllocations.filter(a => a.client_id === clientId),
+          assetSales.filter(s => s.client_id === clientId),
+          { method: 'average', strict: false, corporateActions: actions }
+        ).openLots;
+        const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+        const cost = lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0);
+        return { quantity, averageCost: quantity > EPSILON ? cost / quantity : 0 };
+      };
+
+      const before = position(previous);
+      const after = position([...previous, action]);
+      const grossIncome = isCashDistribution(action) ? round(before.quantity * (action.amount_per_share ?? 0)) : 0;
+      const withholding = action.type === 'jcp' ? round(grossIncome * JCP_WITHHOLDING_RATE) : 0;
+
+      return {
+        clientId,
+        quantityBefore: before.quantity,
+        averageCostBefore: before.averageCost,
+        quantityAfter: after.quantity,
+        averageCostAfter: after.averageCost,
+        grossIncome,
+        withholding,
+        netIncome: round(grossIncome - withholding),
+      };
+    })
+    .filter(impact => impact.quantityBefore > EPSILON);
+};
+
+/**
+ * Descrição da movimentação de provento: "Dividendos PETR4 - 150 ações x R$ 0,60"
+ */
+export const describeIncome = (action: CorporateAction, symbol: string, impact: CorporateActionImpact): string => {
+  const label = action.type === 'jcp' ? 'JCP' : corporateActionTypeLabels[action.type];
+  const base = `${label} ${symbol} - ${impact.quantityBefore.toLocaleString('pt-BR')} ações x ${formatCurrency(action.amount_per_share ?? 0)}`;
+  return impact.withholding > 0
+    ? `${base} (IR ${JCP_WITHHOLDING_RATE * 100}% retido: ${formatCurrency(impact.withholding)})`
+    : base;
+};
@@ -0,0 +1,191 @@
+import { fixedIncomeIndexerLabels } from '../../schemas/investment';
+import type { Asset, FixedIncomeIndexer } from '../../types/investment';
+import type { Allocation } from '../../types/allocation';
+
+// Marcação na curva de títulos de renda fixa a partir das séries de índices guardadas localmente
+
+export type IndexSeriesName = Exclude<FixedIncomeIndexer, 'prefixado'>;
+
+export interface IndexPoint {
+  date: string; // AAAA-MM-DD (IPCA: primeiro dia do mês de referência)
+  value: number; // CDI/SELIC: taxa diária em %; IPCA: variação mensal em %
+}
+
+export type IndexSeries = Record<IndexSeriesName, IndexPoint[]>;
+
+export const indexSeriesNames: IndexSeriesName[] = ['cdi', 'selic', 'ipca'];
+
+// Títulos com indexador e taxa cadastrados
+export type FixedIncomeAsset = Asset & { indexer: FixedIncomeIndexer; rate: number };
+
+export interface FixedIncomeValuation {
+  invested: number;
+  grossValue: number;
+  grossYield: number;
+  grossYieldPercentage: number;
+  days: number; // dias corridos desde a aplicação (base da alíquota de IR)
+  incomeTaxRate: number; // %
+  incomeTax: number;
+  netValue: number;
+  netYield: number;
+  netYieldPercentage: number;
+  matured: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BUSINESS_DAYS_PER_YEAR = 252;
+
+// Tabela regressiva do IR sobre o rendimento, por dias corridos de aplicação
+const INCOME_TAX_BRACKETS: Array<{ maxDays: number; rate: number }> = [
+  { maxDays: 180, rate: 22.5 },
+  { maxDays: 360, rate: 20 },
+  { maxDays: 720, rate: 17.5 },
+  { maxDays: Infinity, rate: 15 },
+];
+
+export const getIncomeTaxRate = (days: number): number =>
+  INCOME_TAX_BRACKETS.find(bracket => days <= bracket.maxDays)!.rate;
+
+export const isFixedIncomeAsset = (asset: Asset | undefined): asset is FixedIncomeAsset =>
+  !!asset && (asset.type === 'fixed_income' || asset.type === 'bonds') && !!asset.indexer && asset.rate !== undefined;
+
+/**
+ * Remuneração contratada por extenso: "110% do CDI", "IPCA + 6,5% a.a.", "12% a.a."
+ */
+export const describeFixedIncomeRate = (asset: Pick<Asset, 'indexer' | 'rate'>): string => {
+  if (!asset.indexer || asset.rate === undefined) return '';
+  const rate = asset.rate.toLocaleString('pt-BR', { maximumFractionDigits: 4 });
+  switch (asset.indexer) {
+    case 'prefixado': return `${rate}% a.a.`;
+    case 'ipca': return `IPCA + ${rate}% a.a.`;
+    default: return `${rate}% do ${fixedIncomeIndexerLabels[asset.indexer]}`;
+  }
+};
+
+const toTime = (date: string) => Date.parse(`${date}T00:00:00Z`);
+const toIsoDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Dias úteis aproximados por segunda a sexta; feriados não são descontados
+const isBusinessDay = (time: number) => {
+  const weekday = new Date(time).getUTCDay();
+  return weekday !== 0 && weekday !== 6;
+};
+
+const businessDaysInMonth = (time: number): number => {
+  const date = new Date(time);
+  const first = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  const next = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  let count = 0;
+  for (let day = first; day < next; day += DAY_MS) {
+    if (isBusinessDay(day)) count++;
+  }
+  return count;
+};
+
+/**
+ * Último valor publicado até a data; datas sem publicação (futuras ou não importadas) repetem o último valor
+ */
+const createLookup = (points: IndexPoint[]) => {
+  const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date));
+  return (date: string): number => {
+    if (sorted.length === 0) return 0;
+    let low = 0;
+    let high = sorted.length - 1;
+    if (date < sorted[0].date) return sorted[0].value;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (sorted[middle].date <= date) low = middle;
+      else high = middle - 1;
+    }
+    return sorted[low].value;
+  };
+};
+
+/**
+ * Fator de correção do título entre duas datas (aplicação inclusive, data final exclusive), em dias úteis:
+ * - CDI/SELIC: produtório de (1 + taxa diária × percentual contratado)
+ * - IPCA+: IPCA do mês distribuído pelos dias úteis do mês, mais a taxa real
+ * - prefixado: (1 + taxa) ^ (dias úteis / 252)
+ * O título para de render no vencimento.
+ */
+export const accrualFactor = (asset: FixedIncomeAsset, from: string, to: string, series: IndexSeries): number => {
+  const maturity = asset.maturityDate?.toISOString().slice(0, 10);
+  const end = toTime(maturity && maturity < to ? maturity : to);
+  const rate = asset.rate / 100;
+  const realRateFactor = Math.pow(1 + rate, 1 / BUSINESS_DAYS_PER_YEAR);
+  const lookup = asset.indexer === 'prefixado' ? undefined : createLookup(series[asset.indexer]);
+
+  let factor = 1;
+  for (let day = toTime(from); day < end; day += DAY_MS) {
+    if (!isBusinessDay(day)) continue;
+    const date = toIsoDate(day);
+    switch (asset.indexer) {
+      case 'prefixado':
+        factor *= realRateFactor;
+        break;
+      case 'ipca':
+        factor *= Math.pow(1 + lookup!(`${date.slice(0, 7)}-01`) / 100, 1 / businessDaysInMonth(day)) * realRateFactor;
+        break;
+      default:
+        factor *= 1 + (lookup!(date) / 100) * rate;
+    }
+  }
+  return factor;
+};
+
+/**
+ * Valor na curva de uma aplicação, com rendimento bruto e líquido do IR regressivo
+ */
+export const valueFixedIncomeLot = (
+  asset: FixedIncomeAsset,
+  lot: Pick<Allocation, 'quantity' | 'buy_price' | 'buy_date'>,
+  series: IndexSeries,
+  date: string = new Date().toISOString().slice(0, 10)
+): FixedIncomeValuation => {
+  const invested = lot.quantity * lot.buy_price;
+  const buyDate = lot.buy_date.slice(0, 10);
+  const grossValue = invested * accrualFactor(asset, buyDate, date, series);
+  const grossYield = grossValue - invested;
+
+  const maturity = asset.maturityDate?.toISOString().slice(0, 10);
+  const matured = !!maturity && maturity <= date;
+  const days = Math.max(0, Math.round((toTime(matured ? maturity! : date) - toTime(buyDate)) / DAY_MS));
+  const incomeTaxRate = getIncomeTaxRate(days);
+  const incomeTax = grossYield > 0 ? grossYield * (incomeTaxRate / 100) : 0;
+  const netValue = grossValue - incomeTax;
+  const percentage = (value: number) => invested > 0 ? (value / invested) * 100 : 0;
+
+  return {
+    invested,
+    grossValue,
+    grossYield,
+    grossYieldPercentage: percentage(grossYield),
+    days,
+    incomeTaxRate,
+    incomeTax,
+    netValue,
+    netYield: netValue - invested,
+    netYieldPercentage: percentage(netValue - invested),
+    matured,
+  };
+};
+
+/**
+ * Valor atual de um lote; undefined quando o ativo não é marcado na curva
+ */
+export type LotValuer = (lot: Allocation) => number | undefined;
+
+/**
+ * Avalia na curva os lotes de títulos de renda fixa (valor bruto na data informada)
+ */
+export const createFixedIncomeValuer = (
+  assets: Asset[],
+  series: IndexSeries,
+  date: string = new Date().toISOString().slice(0, 10)
+): LotValuer => {
+  const fixedIncome = new Map(assets.filter(isFixedIncomeAsset).map(asset => [Number(asset.id), asset]));
+  return lot => {
+    const asset = fixedIncome.get(lot.asset_id);
+    return asset ? valueFixedIncomeLot(asset, lot, series, date).grossValue : undefined;
+  };
+};
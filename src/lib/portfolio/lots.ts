@@ -0,0 +1,312 @@
+import type { Asset, AssetType } from '../../types/investment';
+import type { Allocation, CorporateAction, Sale } from '../../types/allocation';
+import { ValidationError } from '../errors';
+
+// Contabilidade de lotes: cada alocação é um lote de compra e cada venda baixa esses lotes
+
+export type CostMethod = 'fifo' | 'average';
+
+// A Receita Federal apura o ganho pelo custo médio de aquisição
+export const DEFAULT_COST_METHOD: CostMethod = 'average';
+
+export const costMethodLabels: Record<CostMethod, string> = {
+  average: 'Custo médio',
+  fifo: 'PEPS (FIFO)',
+};
+
+export interface Lot {
+  allocationId: number;
+  clientId: number;
+  assetId: number;
+  date: string;
+  quantity: number; // quantidade ainda em aberto
+  unitCost: number;
+}
+
+export interface RealizedGain {
+  saleId: number;
+  clientId: number;
+  assetId: number;
+  symbol: string;
+  name: string;
+  type: AssetType;
+  date: string;
+  quantity: number;
+  salePrice: number;
+  fees: number;
+  proceeds: number; // valor líquido da venda
+  costBasis: number;
+  averageCost: number;
+  gain: number;
+  gainPercentage: number;
+  method: CostMethod;
+}
+
+export interface LotLedger {
+  method: CostMethod;
+  openLots: Lot[];
+  realizedGains: RealizedGain[];
+}
+
+/**
+ * Venda maior que a quantidade em carteira na data da operação
+ */
+export class InsufficientQuantityError extends Error {
+  readonly assetId: number;
+  readonly requested: number;
+  readonly available: number;
+
+  constructor(assetId: number, requested: number, available: number, symbol?: string) {
+    super(`Quantidade insuficiente${symbol ? ` de ${symbol}` : ''}: venda de ${requested}, disponível ${available}`);
+    this.name = 'InsufficientQuantityError';
+    this.assetId = assetId;
+    this.requested = requested;
+    this.available = available;
+  }
+}
+
+// Tolerância para arredondamentos em quantidades fracionárias
+const EPSILON = 1e-8;
+
+type LotEvent =
+  | { kind: 'action'; date: string; id: number; action: CorporateAction }
+  | { kind: 'buy'; date: string; id: number; allocation: Allocation }
+  | { kind: 'sell'; date: string; id: number; sale: Sale };
+
+// Eventos societários valem para a posição do dia anterior, então entram antes das operações da data ex
+const EVENT_ORDER: Record<LotEvent['kind'], number> = { action: 0, buy: 1, sell: 2 };
+
+// Ordem cronológica; no mesmo dia as compras entram antes das vendas (day trade)
+const compareEvents = (a: LotEvent, b: LotEvent): number =>
+  a.date.localeCompare(b.date)
+  || EVENT_ORDER[a.kind] - EVENT_ORDER[b.kind]
+  || a.id - b.id;
+
+const sumQuantity = (lots: Lot[]) => lots.reduce((sum, lot) => sum + lot.quantity, 0);
+
+const sumCost = (lots: Lot[]) => lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0);
+
+/**
+ * Baixa `quantity` dos lotes e devolve o custo da parcela vendida
+ */
+const consumeLots = (lots: Lot[], quantity: number, method: CostMethod): number => {
+  if (method === 'average') {
+    const held = sumQuantity(lots);
+    const costBasis = (sumCost(lots) / held) * quantity;
+    // Reduz todos os lotes na mesma proporção, preservando o custo médio
+    const remainingRatio = (held - quantity) / held;
+    lots.forEach(lot => {
+      lot.quantity *= remainingRatio;
+    });
+    return costBasis;
+  }
+
+  let remaining = quantity;
+  let costBasis = 0;
+  for (const lot of lots) {
+    if (remaining <= EPSILON) break;
+    const taken = Math.min(lot.quantity, remaining);
+    lot.quantity -= taken;
+    costBasis += taken * lot.unitCost;
+    remaining -= taken;
+  }
+  return costBasis;
+};
+
+/**
+ * Fator aplicado à quantidade no desdobramento (ações novas por ação) e no grupamento (ações grupadas em uma)
+ */
+export const getSplitFactor = (action: Pick<CorporateAction, 'type' | 'ratio'>): number => {
+  if (!action.ratio) return 1;
+  if (action.type === 'split') return action.ratio;
+  if (action.type === 'reverse_split') return 1 / action.ratio;
+  return 1;
+};
+
+/**
+ * Ações recebidas na bonificação; frações não são creditadas (a B3 as vende em leilão)
+ */
+export const getBonusQuantity = (held: number, ratio: number): number => Math.floor(held * ratio + EPSILON);
+
+/**
+ * Aplica um evento societário aos lotes em aberto do ativo. Desdobramento e grupamento mudam quantidade
+ * e custo unitário sem mudar o custo total; a bonificação cria, por cliente, um lote ao custo atribuído.
+ * Proventos em dinheiro não mexem nos lotes.
+ */
+const applyCorporateAction = (lots: Lot[], action: CorporateAction): Lot[] => {
+  const factor = getSplitFactor(action);
+  if (factor !== 1) {
+    lots.forEach(lot => {
+      lot.quantity *= factor;
+      lot.unitCost /= factor;
+    });
+    return lots;
+  }
+
+  if (action.type !== 'bonus' || !action.ratio) return lots;
+
+  const heldByClient = new Map<number, number>();
+  lots.forEach(lot => heldByClient.set(lot.clientId, (heldByClient.get(lot.clientId) ?? 0) + lot.quantity));
+  const bonusLots: Lot[] = [];
+  heldByClient.forEach((held, clientId) => {
+    const quantity = getBonusQuantity(held, action.ratio!);
+    if (quantity <= 0) return;
+    bonusLots.push({
+      allocationId: -action.id, // lote sem alocação: identificado pelo evento (id negativo)
+      clientId,
+      assetId: action.asset_id,
+      date: action.ex_date,
+      quantity,
+      unitCost: action.assigned_cost ?? 0,
+    });
+  });
+  return [...lots, ...bonusLots];
+};
+
+export interface LedgerOptions {
+  method?: CostMethod;
+  assets?: Asset[]; // usados só para identificar o ativo nos ganhos realizados
+  // false limita a venda à quantidade disponível em vez de lançar erro (dados antigos inconsistentes)
+  strict?: boolean;
+  corporateActions?: CorporateAction[]; // desdobramentos, grupamentos e bonificações aplicados na data ex
+}
+
+/**
+ * Processa compras e vendas de um cliente e devolve os lotes em aberto e o ganho realizado por venda.
+ * Lança InsufficientQuantityError se alguma venda exceder a quantidade disponível na sua data.
+ */
+export const buildLedger = (
+  allocations: Allocation[],
+  sales: Sale[],
+  { method = DEFAULT_COST_METHOD, assets = [], strict = true, corporateActions = [] }: LedgerOptions = {}
+): LotLedger => {
+  const assetsById = new Map(assets.map(asset => [Number(asset.id), asset]));
+  const lotsByAsset = new Map<number, Lot[]>();
+  const realizedGains: RealizedGain[] = [];
+
+  const events: LotEvent[] = [
+    ...allocations.map(allocation => ({ kind: 'buy' as const, date: allocation.buy_date, id: allocation.id, allocation })),
+    ...sales.map(sale => ({ kind: 'sell' as const, date: sale.sell_date, id: sale.id, sale })),
+    ...corporateActions.map(action => ({ kind: 'action' as const, date: action.ex_date, id: action.id, action })),
+  ].sort(compareEvents);
+
+  events.forEach(event => {
+    if (event.kind === 'action') {
+      const { action } = event;
+      const lots = lotsByAsset.get(action.asset_id);
+      if (lots) lotsByAsset.set(action.asset_id, applyCorporateAction(lots, action));
+      return;
+    }
+
+    if (event.kind === 'buy') {
+      const { allocation } = event;
+      const lots = lotsByAsset.get(allocation.asset_id) ?? [];
+      lots.push({
+        allocationId: allocation.id,
+        clientId: allocation.client_id,
+        assetId: allocation.asset_id,
+        date: allocation.buy_date,
+        quantity: allocation.quantity,
+        unitCost: allocation.buy_price,
+      });
+      lotsByAsset.set(allocation.asset_id, lots);
+      return;
+    }
+
+    const { sale } = event;
+    const asset = assetsById.get(sale.asset_id);
+    const lots = lotsByAsset.get(sale.asset_id) ?? [];
+    const held = sumQuantity(lots);
+    if (sale.quantity > held + EPSILON) {
+      const error = new InsufficientQuantityError(sale.asset_id, sale.quantity, held, asset?.symbol);
+      if (strict) throw error;
+      console.warn(`Venda ${sale.id} ignorada em parte: ${error.message}`);
+    }
+
+    const quantity = Math.min(sale.quantity, held);
+    if (quantity <= EPSILON) return;
+
+    const costBasis = consumeLots(lots, quantity, method);
+    lotsByAsset.set(sale.asset_id, lots.filter(lot => lot.quantity > EPSILON));
+
+    const fees = sale.fees ?? 0;
+    const proceeds = quantity * sale.sell_price - fees;
+    const gain = proceeds - costBasis;
+
+    realizedGains.push({
+      saleId: sale.id,
+      clientId: sale.client_id,
+      assetId: sale.asset_id,
+      symbol: asset?.symbol ?? '',
+      name: asset?.name ?? '',
+      type: asset?.type ?? 'other',
+      date: sale.sell_date,
+      quantity,
+      salePrice: sale.sell_price,
+      fees,
+      proceeds,
+      costBasis,
+      averageCost: costBasis / quantity,
+      gain,
+      gainPercentage: costBasis > 0 ? (gain / costBasis) * 100 : 0,
+      method,
+    });
+  });
+
+  return {
+    method,
+    openLots: Array.from(lotsByAsset.values()).flat(),
+    realizedGains,
+  };
+};
+
+/**
+ * Valida uma nova venda contra as compras e vendas já registradas.
+ * A quantidade disponível não depende do método de custo.
+ * Lança ValidationError no campo quantity, no mesmo formato de um 422 da API.
+ */
+export const assertSaleAllowed = (
+  allocations: Allocation[],
+  sales: Sale[],
+  sale: Omit<Sale, 'id'>,
+  assets: Asset[] = [],
+  corporateActions: CorporateAction[] = []
+): void => {
+  // id acima dos existentes para a venda nova ficar por último entre as do mesmo dia
+  const id = sales.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+  try {
+    buildLedger(allocations, [...sales, { ...sale, id }], { method: 'fifo', assets, corporateActions });
+  } catch (error) {
+    if (error instanceof InsufficientQuantityError) {
+      throw new ValidationError(error.message, { quantity: error.message });
+    }
+    throw error;
+  }
+};
+
+/**
+ * Quantidade disponível para venda hoje
+ */
+export const getAvailableQuantity = (
+  allocations: Allocation[],
+  sales: Sale[],
+  assetId: number,
+  corporateActions: CorporateAction[] = []
+): number =>
+  sumQuantity(
+    buildLedger(allocations, sales, { method: 'fifo', strict: false, corporateActions })
+      .openLots.filter(lot => lot.assetId === assetId)
+  );
+
+/**
+ * Lotes em aberto no formato de alocação, para a avaliação da carteira
+ */
+export const lotsToAllocations = (lots: Lot[]): Allocation[] =>
+  lots.map(lot => ({
+    id: lot.allocationId,
+    client_id: lot.clientId,
+    asset_id: lot.assetId,
+    quantity: lot.quantity,
+    buy_price: lot.unitCost,
+    buy_date: lot.date,
+  }));
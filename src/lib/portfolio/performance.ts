@@ -0,0 +1,349 @@
+import { CDI_ANNUAL_RATE } from '../config';
+import type { PerformanceMetrics } from '../../types/investment';
+import type { Allocation, CorporateAction, Sale } from '../../types/allocation';
+import { getBonusQuantity, getSplitFactor } from './lots';
+import type { PriceHistory } from './prices';
+
+// Rentabilidade da carteira: TWR (ponderada pelo tempo), MWR/XIRR (ponderada pelo capital) e métricas de risco.
+// Percentuais seguem o padrão do módulo de avaliação (5 = 5%).
+
+export interface CashFlow {
+  date: string; // YYYY-MM-DD
+  amount: number; // positivo = aporte, negativo = resgate
+}
+
+export interface ValuePoint {
+  date: string;
+  value: number; // caixa + posições
+  cash: number;
+  holdings: number;
+  flow: number; // aportes e resgates do dia (inclui aportes implícitos)
+}
+
+export interface PeriodReturn {
+  period: string; // YYYY-MM
+  return: number;
+}
+
+export type PerformancePeriod = '1m' | '3m' | '6m' | 'ytd' | '1y' | 'all';
+
+export const performancePeriodLabels: Record<PerformancePeriod, string> = {
+  '1m': '1 mês',
+  '3m': '3 meses',
+  '6m': '6 meses',
+  ytd: 'No ano',
+  '1y': '12 meses',
+  all: 'Desde o início',
+};
+
+export interface PerformanceReport extends PerformanceMetrics {
+  period: PerformancePeriod;
+  startDate: string | null;
+  endDate: string | null;
+  startValue: number;
+  endValue: number;
+  netFlows: number;
+  moneyWeightedReturn: number | null; // XIRR anualizada; null quando não converge
+  cdiRate: number;
+  cdiReturn: number; // CDI acumulado no período
+  monthlyReturns: PeriodReturn[];
+  series: ValuePoint[];
+}
+
+const TRADING_DAYS_PER_YEAR = 252;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toISODate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const isWeekend = (time: number) => {
+  const day = new Date(time).getUTCDay();
+  return day === 0 || day === 6;
+};
+
+interface SeriesInput {
+  allocations: Allocation[];
+  sales: Sale[];
+  flows: CashFlow[];
+  priceAt: PriceHistory;
+  endDate?: string;
+  corporateActions?: CorporateAction[];
+  income?: CashFlow[]; // proventos creditados: entram no caixa como rendimento, não como aporte
+}
+
+/**
+ * Série diária (dias úteis) do patrimônio do cliente. Eventos de fim de semana entram no dia útil seguinte.
+ * Compras sem saldo em caixa contam como aporte implícito, já que nem sempre o aporte foi registrado.
+ */
+export const buildDailyValueSeries = ({
+  allocations,
+  sales,
+  flows,
+  priceAt,
+  endDate = toISODate(Date.now()),
+  corporateActions = [],
+  income = [],
+}: SeriesInput): ValuePoint[] => {
+  type SeriesEvent = { date: string; apply: () => number };
+
+  let cash = 0;
+  const holdings = new Map<number, number>();
+
+  const events: SeriesEvent[] = [
+    ...flows.map(flow => ({
+      date: flow.date,
+      apply: () => {
+        cash += flow.amount;
+        return flow.amount;
+      },
+    })),
+    ...income.map(credit => ({
+      date: credit.date,
+      apply: () => {
+        cash += credit.amount;
+        return 0;
+      },
+    })),
+    // Antes das compras do mesmo dia: o evento vale para a posição da véspera
+    ...corporateActions.map(action => ({
+      date: action.ex_date,
+      apply: () => {
+        const held = holdings.get(action.asset_id) ?? 0;
+        if (action.type === 'bonus' && action.ratio) {
+          holdings.set(action.asset_id, held + getBonusQuantity(held, action.ratio));
+        } else {
+          holdings.set(action.asset_id, held * getSplitFactor(action));
+        }
+        return 0;
+      },
+    })),
+    ...allocations.map(allocation => ({
+      date: allocation.buy_date,
+      apply: () => {
+        cash -= allocation.quantity * allocation.buy_price;
+        holdings.set(allocation.asset_id, (holdings.get(allocation.asset_id) ?? 0) + allocation.quantity);
+        return 0;
+      },
+    })),
+    ...sales.map(sale => ({
+      date: sale.sell_date,
+      apply: () => {
+        cash += sale.quantity * sale.sell_price - (sale.fees ?? 0);
+        holdings.set(sale.asset_id, Math.max((holdings.get(sale.asset_id) ?? 0) - sale.quantity, 0));
+        return 0;
+      },
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  if (events.length === 0) return [];
+
+  const series: ValuePoint[] = [];
+  const end = Date.parse(endDate);
+  let eventIndex = 0;
+
+  for (let time = Date.parse(events[0].date); time <= end; time += DAY_MS) {
+    const isLastDay = time + DAY_MS > end;
+    if (isWeekend(time) && !isLastDay && series.length > 0) continue;
+
+    const date = toISODate(time);
+    let flow = 0;
+    while (eventIndex < events.length && events[eventIndex].date <= date) {
+      flow += events[eventIndex].apply();
+      eventIndex += 1;
+    }
+
+    // Aporte implícito para cobrir compras acima do caixa
+    if (cash < 0) {
+      flow += -cash;
+      cash = 0;
+    }
+
+    let holdingsValue = 0;
+    holdings.forEach((quantity, assetId) => {
+      if (quantity > 0) holdingsValue += quantity * (priceAt(assetId, date) ?? 0);
+    });
+
+    series.push({ date, value: cash + holdingsValue, cash, holdings: holdingsValue, flow });
+  }
+
+  return series;
+};
+
+/**
+ * Retorno de cada dia, com os fluxos considerados no início do dia: V(t) / (V(t-1) + F(t)) - 1
+ */
+export const getDailyReturns = (series: ValuePoint[]): number[] =>
+  series.slice(1).map((point, index) => {
+    const base = series[index].value + point.flow;
+    return base > 0 ? point.value / base - 1 : 0;
+  });
+
+/**
+ * TWR: encadeamento dos retornos diários, neutro aos aportes e resgates
+ */
+export const linkReturns = (returns: number[]): number =>
+  returns.reduce((acc, r) => acc * (1 + r), 1) - 1;
+
+/**
+ * XIRR: taxa anual que zera o valor presente dos fluxos (convenção 365 dias).
+ * Fluxos do ponto de vista do investidor: aportes negativos, resgates e saldo final positivos.
+ */
+export const xirr = (cashFlows: CashFlow[]): number | null => {
+  const flows = cashFlows.filter(flow => flow.amount !== 0);
+  if (!flows.some(f => f.amount > 0) || !flows.some(f => f.amount < 0)) return null;
+
+  const start = Math.min(...flows.map(flow => Date.parse(flow.date)));
+  const years = flows.map(flow => (Date.parse(flow.date) - start) / (365 * DAY_MS));
+  const npv = (rate: number) => flows.reduce((sum, flow, i) => sum + flow.amount / Math.pow(1 + rate, years[i]), 0);
+  const derivative = (rate: number) =>
+    flows.reduce((sum, flow, i) => sum - (years[i] * flow.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+  // Newton-Raphson a partir de 10%; se não convergir, bisseção
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const slope = derivative(rate);
+    if (Math.abs(value) < 1e-7) return rate;
+    if (slope === 0 || !isFinite(slope)) break;
+    const next = rate - value / slope;
+    if (!isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 100;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const value = npv(mid);
+    if (Math.abs(value) < 1e-7) return mid;
+    if (npv(low) * value < 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+};
+
+const getPeriodStart = (period: PerformancePeriod, endDate: string): string | null => {
+  const end = new Date(`${endDate}T00:00:00Z`);
+  switch (period) {
+    case '1m':
+      end.setUTCMonth(end.getUTCMonth() - 1);
+      break;
+    case '3m':
+      end.setUTCMonth(end.getUTCMonth() - 3);
+      break;
+    case '6m':
+      end.setUTCMonth(end.getUTCMonth() - 6);
+      break;
+    case '1y':
+      end.setUTCFullYear(end.getUTCFullYear() - 1);
+      break;
+    case 'ytd':
+      return `${endDate.slice(0, 4)}-01-01`;
+    default:
+      return null;
+  }
+  return toISODate(end.getTime());
+};
+
+const standardDeviation = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+};
+
+/**
+ * Calcula as métricas de desempenho sobre a série diária, recortada no período pedido
+ */
+export const computePerformance = (
+  fullSeries: ValuePoint[],
+  period: PerformancePeriod = 'all',
+  cdiRate: number = CDI_ANNUAL_RATE
+): PerformanceReport => {
+  const lastDate = fullSeries[fullSeries.length - 1]?.date;
+  const periodStart = lastDate ? getPeriodStart(period, lastDate) : null;
+
+  // O ponto de partida é o último dia antes do início do período; em "desde o início", o patrimônio parte de zero
+  const startIndex = periodStart
+    ? Math.max(fullSeries.findIndex(point => point.date >= periodStart) - 1, 0)
+    : 0;
+  const series = fullSeries.slice(startIndex);
+  const fromInception = startIndex === 0;
+
+  const returns = fromInception && series.length > 0
+    ? [series[0].flow > 0 ? series[0].value / series[0].flow - 1 : 0, ...getDailyReturns(series)]
+    : getDailyReturns(series);
+
+  const startValue = fromInception ? 0 : series[0]?.value ?? 0;
+  const endValue = series[series.length - 1]?.value ?? 0;
+  const periodFlows = fromInception ? series : series.slice(1);
+  const netFlows = periodFlows.reduce((sum, point) => sum + point.flow, 0);
+
+  const timeWeightedReturn = linkReturns(returns);
+  const annualized = returns.length > 0
+    ? Math.pow(1 + timeWeightedReturn, TRADING_DAYS_PER_YEAR / returns.length) - 1
+    : 0;
+
+  // Retornos mensais encadeados a partir dos retornos diários
+  const returnDates = fromInception ? series.map(p => p.date) : series.slice(1).map(p => p.date);
+  const byMonth = new Map<string, number[]>();
+  returns.forEach((r, i) => {
+    const month = returnDates[i].slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), r]);
+  });
+  const monthlyReturns = Array.from(byMonth.entries()).map(([month, values]) => ({
+    period: month,
+    return: linkReturns(values) * 100,
+  }));
+
+  const volatility = standardDeviation(returns);
+  const cdiDaily = Math.pow(1 + cdiRate, 1 / TRADING_DAYS_PER_YEAR) - 1;
+  const meanReturn = returns.length > 0 ? returns.reduce((sum, r) => sum + r, 0) / returns.length : 0;
+  const sharpeRatio = volatility > 0
+    ? ((meanReturn - cdiDaily) / volatility) * Math.sqrt(TRADING_DAYS_PER_YEAR)
+    : 0;
+
+  let peak = 1;
+  let index = 1;
+  let maxDrawdown = 0;
+  returns.forEach(r => {
+    index *= 1 + r;
+    peak = Math.max(peak, index);
+    maxDrawdown = Math.min(maxDrawdown, index / peak - 1);
+  });
+
+  const investorFlows: CashFlow[] = [
+    ...(startValue > 0 ? [{ date: series[0].date, amount: -startValue }] : []),
+    ...periodFlows.map(point => ({ date: point.date, amount: -point.flow })),
+    ...(series.length > 0 ? [{ date: series[series.length - 1].date, amount: endValue }] : []),
+  ];
+  const moneyWeightedReturn = xirr(investorFlows);
+
+  const monthlyValues = monthlyReturns.map(m => m.return);
+
+  return {
+    period,
+    startDate: series[0]?.date ?? null,
+    endDate: lastDate ?? null,
+    startValue,
+    endValue,
+    netFlows,
+    totalReturn: endValue - startValue - netFlows,
+    totalReturnPercentage: timeWeightedReturn * 100,
+    monthlyReturn: monthlyReturns.length > 0
+      ? (Math.pow(1 + timeWeightedReturn, 1 / monthlyReturns.length) - 1) * 100
+      : 0,
+    yearlyReturn: annualized * 100,
+    volatility: volatility * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100,
+    sharpeRatio,
+    maxDrawdown: maxDrawdown * 100,
+    bestMonth: monthlyValues.length > 0 ? Math.max(...monthlyValues) : 0,
+    worstMonth: monthlyValues.length > 0 ? Math.min(...monthlyValues) : 0,
+    moneyWeightedReturn: moneyWeightedReturn !== null ? moneyWeightedReturn * 100 : null,
+    cdiRate,
+    cdiReturn: (Math.pow(1 + cdiDaily, returns.length) - 1) * 100,
+    monthlyReturns,
+    series,
+  };
+};
@@ -0,0 +1,139 @@
+import type { Asset } from '../../types/investment';
+import type { Allocation, Sale } from '../../types/allocation';
+
+// Cotação atual por id do ativo
+export type PriceMap = Map<number, number>;
+
+/**
+ * Fonte de cotações usada na avaliação da carteira.
+ * Ativos sem cotação ficam fora do mapa e são avaliados pelo custo médio.
+ */
+export interface PriceSource {
+  getPrices: (assets: Asset[]) => Promise<PriceMap>;
+}
+
+/**
+ * Usa o preço informado no cadastro do ativo (currentPrice)
+ */
+export const assetPriceSource: PriceSource = {
+  async getPrices(assets) {
+    const prices: PriceMap = new Map();
+    assets.forEach(asset => {
+      if (asset.currentPrice && asset.currentPrice > 0) {
+        prices.set(Number(asset.id), asset.currentPrice);
+      }
+    });
+    return prices;
+  },
+};
+
+/**
+ * Cotação de um ativo em uma data (YYYY-MM-DD); undefined quando não há referência
+ */
+export type PriceHistory = (assetId: number, date: string) => number | undefined;
+
+/**
+ * Histórico estimado a partir dos preços das próprias operações (compras e vendas) e da cotação atual,
+ * interpolando linearmente entre as datas conhecidas. Usado enquanto não há série de cotações.
+ */
+export const createTradePriceHistory = (
+  allocations: Allocation[],
+  sales: Sale[],
+  prices: PriceMap,
+  today: string = new Date().toISOString().slice(0, 10)
+): PriceHistory => {
+  const points = new Map<number, Array<{ time: number; price: number }>>();
+  const addPoint = (assetId: number, date: string, price: number) => {
+    const list = points.get(assetId) ?? [];
+    list.push({ time: Date.parse(date), price });
+    points.set(assetId, list);
+  };
+
+  allocations.forEach(a => addPoint(a.asset_id, a.buy_date, a.buy_price));
+  sales.forEach(s => addPoint(s.asset_id, s.sell_date, s.sell_price));
+  prices.forEach((price, assetId) => addPoint(assetId, today, price));
+  points.forEach(list => list.sort((a, b) => a.time - b.time));
+
+  return (assetId, date) => {
+    const list = points.get(assetId);
+    if (!list?.length) return undefined;
+
+    const time = Date.parse(date);
+    if (time <= list[0].time) return list[0].price;
+    const last = list[list.length - 1];
+    if (time >= last.time) return last.price;
+
+    const nextIndex = list.findIndex(point => point.time >= time);
+    const previous = list[nextIndex - 1];
+    const next = list[nextIndex];
+    if (next.time === previous.time) return next.price;
+    return previous.price + (next.price - previous.price) * ((time - previous.time) / (next.time - previous.time));
+  };
+};
+
+// Fechamento diário de um ativo
+export interface PricePoint {
+  date: string; // AAAA-MM-DD
+  close: number;
+  volume?: number;
+}
+
+// Séries de fechamentos por id do ativo, em ordem crescente de data
+export type PriceSeriesMap = Map<number, PricePoint[]>;
+
+/**
+ * Último fechamento registrado até a data (inclusive)
+ */
+export const findCloseAt = (points: PricePoint[], date: string): PricePoint | undefined => {
+  let low = 0;
+  let high = points.length - 1;
+  let found: PricePoint | undefined;
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (points[middle].date <= date) {
+      found = points[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * Usa os fechamentos registrados a partir do primeiro deles; antes disso (ou sem série) recorre ao histórico informado
+ */
+export const createSeriesPriceHistory = (series: PriceSeriesMap, fallback: PriceHistory): PriceHistory =>
+  (assetId, date) => {
+    const points = series.get(assetId);
+    return (points && findCloseAt(points, date)?.close) ?? fallback(assetId, date);
+  };
+
+export interface PriceSummary {
+  last: PricePoint;
+  change: number; // em relação ao fechamento anterior
+  changePercentage: number;
+  high52Week: number;
+  low52Week: number;
+}
+
+/**
+ * Último fechamento, variação sobre o anterior e extremos das 52 semanas até ele
+ */
+export const summarizePrices = (points: PricePoint[]): PriceSummary | undefined => {
+  const last = points[points.length - 1];
+  if (!last) return undefined;
+
+  const previous = points[points.length - 2];
+  const yearAgo = new Date(Date.parse(`${last.date}T00:00:00Z`) - 365 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const lastYear = points.filter(point => point.date > yearAgo).map(point => point.close);
+  const change = previous ? last.close - previous.close : 0;
+
+  return {
+    last,
+    change,
+    changePercentage: previous ? (change / previous.close) * 100 : 0,
+    high52Week: Math.max(...lastYear),
+    low52Week: Math.min(...lastYear),
+  };
+};
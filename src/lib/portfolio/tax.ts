@@ -0,0 +1,330 @@
+import type { Asset, AssetType } from '../../types/investment';
+import type { Allocation, CorporateAction, Sale } from '../../types/allocation';
+import { buildLedger } from './lots';
+
+// Apuração mensal do IR sobre ganho líquido em bolsa (renda variável), pago via DARF código 6015.
+// O custo das operações comuns é sempre o custo médio de aquisição, como exige a legislação.
+
+export type TaxCategory = 'swing_trade' | 'day_trade' | 'real_estate_funds';
+
+export const taxCategoryLabels: Record<TaxCategory, string> = {
+  swing_trade: 'Operações Comuns',
+  day_trade: 'Day Trade',
+  real_estate_funds: 'Fundos Imobiliários',
+};
+
+export const TAX_RATES: Record<TaxCategory, number> = {
+  swing_trade: 0.15,
+  day_trade: 0.2,
+  real_estate_funds: 0.2,
+};
+
+// Vendas de ações no mês até este valor têm o ganho isento (não vale para day trade, ETFs e FIIs)
+export const STOCK_SALES_EXEMPTION_LIMIT = 20000;
+
+// DARF abaixo de R$ 10,00 não é emitido; o valor é somado ao do mês seguinte
+export const DARF_MINIMUM = 10;
+
+export const DARF_CODE = '6015';
+
+// IRRF "dedo-duro" retido pela corretora, compensável no DARF do mês
+const SWING_TRADE_WITHHOLDING_RATE = 0.00005;
+const DAY_TRADE_WITHHOLDING_RATE = 0.01;
+
+const TAX_CATEGORIES: TaxCategory[] = ['swing_trade', 'day_trade', 'real_estate_funds'];
+
+/**
+ * Tipos de ativo apurados neste DARF. Renda fixa, poupança e fundos abertos têm IR retido na fonte;
+ * cripto e ativos no exterior seguem regras próprias e ficam fora desta apuração.
+ */
+const TAXABLE_TYPES: AssetType[] = ['stocks', 'investment_funds', 'commodities', 'real_estate_funds'];
+
+export const isTaxableAssetType = (type: AssetType): boolean => TAXABLE_TYPES.includes(type);
+
+// Parcela de uma venda já classificada para fins de IR
+export interface TaxableOperation {
+  saleId: number;
+  month: string; // YYYY-MM
+  category: TaxCategory;
+  assetType: AssetType;
+  symbol: string;
+  saleValue: number;
+  result: number;
+}
+
+export interface CategoryTax {
+  category: TaxCategory;
+  salesTotal: number;
+  result: number; // resultado do mês antes da compensação
+  exemptResult: number; // ganho de ações isento pelo limite de R$ 20 mil
+  lossCompensated: number;
+  lossCarryForward: number; // prejuízo a compensar ao fim do mês
+  taxableBase: number;
+  rate: number;
+  tax: number;
+}
+
+export interface MonthlyTax {
+  month: string;
+  categories: CategoryTax[];
+  stockSalesTotal: number;
+  exempt: boolean;
+  grossTax: number;
+  withholding: number; // IRRF compensado no mês
+  previousDeferred: number; // DARF abaixo do mínimo vindo do mês anterior
+  darfDue: number;
+  deferred: number; // valor abaixo do mínimo levado para o mês seguinte
+  dueDate: string | null; // último dia útil do mês seguinte
+}
+
+export interface YearlyTaxReport {
+  year: number;
+  months: MonthlyTax[];
+  operations: TaxableOperation[];
+  totalSales: number;
+  totalExempt: number;
+  totalTax: number;
+  totalDarf: number;
+  lossCarryForward: Record<TaxCategory, number>;
+}
+
+const toMonth = (date: string) => date.slice(0, 7);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const emptyLosses = (): Record<TaxCategory, number> => ({ swing_trade: 0, day_trade: 0, real_estate_funds: 0 });
+
+/**
+ * Vencimento do DARF: último dia útil do mês seguinte ao da apuração (sem considerar feriados)
+ */
+export const getDarfDueDate = (month: string): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  // Dia 0 do mês seguinte ao próximo = último dia do mês seguinte
+  const date = new Date(Date.UTC(year, monthIndex + 1, 0));
+  while (date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+    date.setUTCDate(date.getUTCDate() - 1);
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Separa as vendas em day trade (compra e venda do mesmo ativo no mesmo dia) e operações comuns.
+ * O day trade usa o preço médio das compras do dia; essas compras saem do custo médio das operações comuns.
+ */
+export const classifyOperations = (
+  allocations: Allocation[],
+  sales: Sale[],
+  assets: Asset[],
+  corporateActions: CorporateAction[] = []
+): TaxableOperation[] => {
+  const assetsById = new Map(assets.map(asset => [Number(asset.id), asset]));
+
+  // Compras do dia por ativo, para casar com as vendas da mesma data
+  const dayBuys = new Map<string, { quantity: number; cost: number; matched: number }>();
+  allocations.forEach(allocation => {
+    const key = `${allocation.asset_id}|${allocation.buy_date}`;
+    const current = dayBuys.get(key) ?? { quantity: 0, cost: 0, matched: 0 };
+    current.quantity += allocation.quantity;
+    current.cost += allocation.quantity * allocation.buy_price;
+    dayBuys.set(key, current);
+  });
+
+  const dayTradeOperations: TaxableOperation[] = [];
+  const commonSales: Sale[] = [];
+
+  [...sales].sort((a, b) => a.sell_date.localeCompare(b.sell_date) || a.id - b.id).forEach(sale => {
+    const asset = assetsById.get(sale.asset_id);
+    const buys = dayBuys.get(`${sale.asset_id}|${sale.sell_date}`);
+    const dayTradeQuantity = buys ? Math.min(buys.quantity - buys.matched, sale.quantity) : 0;
+
+    if (!buys || dayTradeQuantity <= 0) {
+      commonSales.push(sale);
+      return;
+    }
+
+    buys.matched += dayTradeQuantity;
+    const share = dayTradeQuantity / sale.quantity;
+    const fees = sale.fees ?? 0;
+    const saleValue = dayTradeQuantity * sale.sell_price;
+    const type = asset?.type ?? 'other';
+
+    if (isTaxableAssetType(type)) {
+      dayTradeOperations.push({
+        saleId: sale.id,
+        month: toMonth(sale.sell_date),
+        // Day trade em FII também é tributado a 20% e compensa só com FII
+        category: type === 'real_estate_funds' ? 'real_estate_funds' : 'day_trade',
+        assetType: type,
+        symbol: asset?.symbol ?? '',
+        saleValue,
+        result: saleValue - fees * share - dayTradeQuantity * (buys.cost / buys.quantity),
+      });
+    }
+
+    if (share < 1) {
+      commonSales.push({ ...sale, quantity: sale.quantity - dayTradeQuantity, fees: fees * (1 - share) });
+    }
+  });
+
+  // Compras usadas em day trade não entram no custo médio das operações comuns
+  const commonAllocations = allocations
+    .map(allocation => {
+      const buys = dayBuys.get(`${allocation.asset_id}|${allocation.buy_date}`);
+      const remainingRatio = buys && buys.matched > 0 ? 1 - buys.matched / buys.quantity : 1;
+      return { ...allocation, quantity: allocation.quantity * remainingRatio };
+    })
+    .filter(allocation => allocation.quantity > 0);
+
+  const ledger = buildLedger(commonAllocations, commonSales, { method: 'average', assets, strict: false, corporateActions });
+  const commonOperations = ledger.realizedGains
+    .filter(gain => isTaxableAssetType(gain.type))
+    .map(gain => ({
+      saleId: gain.saleId,
+      month: toMonth(gain.date),
+      category: (gain.type === 'real_estate_funds' ? 'real_estate_funds' : 'swing_trade') as TaxCategory,
+      assetType: gain.type,
+      symbol: gain.symbol,
+      saleValue: gain.quantity * gain.salePrice,
+      result: gain.gain,
+    }));
+
+  return [...dayTradeOperations, ...commonOperations];
+};
+
+const listMonths = (from: string, to: string): string[] => {
+  const months: string[] = [];
+  let [year, month] = from.split('-').map(Number);
+  const [toYear, toMonthNumber] = to.split('-').map(Number);
+  while (year < toYear || (year === toYear && month <= toMonthNumber)) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+  return months;
+};
+
+/**
+ * Apura o IR mês a mês. Prejuízos só compensam ganhos da mesma categoria e são levados adiante sem prazo;
+ * o IRRF não compensado no mês passa para os meses seguintes.
+ */
+export const calculateMonthlyTax = (
+  operations: TaxableOperation[],
+  months: string[],
+  initialLosses: Record<TaxCategory, number> = emptyLosses()
+): { months: MonthlyTax[]; lossCarryForward: Record<TaxCategory, number> } => {
+  const losses = { ...initialLosses };
+  let withholdingBalance = 0;
+  let deferred = 0;
+
+  const result = months.map(month => {
+    const monthOperations = operations.filter(op => op.month === month);
+
+    // O limite de isenção considera só as vendas comuns de ações
+    const stockSales = monthOperations.filter(op => op.category === 'swing_trade' && op.assetType === 'stocks');
+    const stockSalesTotal = stockSales.reduce((sum, op) => sum + op.saleValue, 0);
+    const exempt = stockSalesTotal <= STOCK_SALES_EXEMPTION_LIMIT;
+
+    withholdingBalance += monthOperations.reduce((sum, op) => {
+      if (op.category === 'day_trade') return sum + Math.max(op.result, 0) * DAY_TRADE_WITHHOLDING_RATE;
+      return sum + op.saleValue * SWING_TRADE_WITHHOLDING_RATE;
+    }, 0);
+
+    const categories = TAX_CATEGORIES.map(category => {
+      const categoryOperations = monthOperations.filter(op => op.category === category);
+      const salesTotal = categoryOperations.reduce((sum, op) => sum + op.saleValue, 0);
+      const monthResult = categoryOperations.reduce((sum, op) => sum + op.result, 0);
+
+      // Em mês isento, o ganho das ações sai da base; o prejuízo continua compensável
+      const exemptResult = exempt && category === 'swing_trade'
+        ? Math.max(stockSales.reduce((sum, op) => sum + op.result, 0), 0)
+        : 0;
+      const result = monthResult - exemptResult;
+
+      let lossCompensated = 0;
+      let taxableBase = 0;
+      if (result < 0) {
+        losses[category] += -result;
+      } else {
+        lossCompensated = Math.min(losses[category], result);
+        losses[category] -= lossCompensated;
+        taxableBase = result - lossCompensated;
+      }
+
+      return {
+        category,
+        salesTotal: round(salesTotal),
+        result: round(monthResult),
+        exemptResult: round(exemptResult),
+        lossCompensated: round(lossCompensated),
+        lossCarryForward: round(losses[category]),
+        taxableBase: round(taxableBase),
+        rate: TAX_RATES[category],
+        tax: round(taxableBase * TAX_RATES[category]),
+      };
+    });
+
+    const grossTax = categories.reduce((sum, c) => sum + c.tax, 0);
+    const withholding = Math.min(withholdingBalance, grossTax);
+    withholdingBalance -= withholding;
+
+    const previousDeferred = deferred;
+    const payable = round(grossTax - withholding + previousDeferred);
+    const darfDue = payable >= DARF_MINIMUM ? payable : 0;
+    deferred = payable >= DARF_MINIMUM ? 0 : payable;
+
+    return {
+      month,
+      categories,
+      stockSalesTotal: round(stockSalesTotal),
+      exempt,
+      grossTax: round(grossTax),
+      withholding: round(withholding),
+      previousDeferred: round(previousDeferred),
+      darfDue,
+      deferred,
+      dueDate: darfDue > 0 ? getDarfDueDate(month) : null,
+    };
+  });
+
+  return {
+    months: result,
+    lossCarryForward: Object.fromEntries(
+      TAX_CATEGORIES.map(category => [category, round(losses[category])])
+    ) as Record<TaxCategory, number>,
+  };
+};
+
+/**
+ * Relatório anual de IR do cliente. Meses anteriores ao ano entram na apuração
+ * para que prejuízos acumulados e DARFs abaixo do mínimo cheguem corretos ao período.
+ */
+export const buildYearlyTaxReport = (
+  allocations: Allocation[],
+  sales: Sale[],
+  assets: Asset[],
+  year: number,
+  corporateActions: CorporateAction[] = []
+): YearlyTaxReport => {
+  const operations = classifyOperations(allocations, sales, assets, corporateActions);
+
+  const yearMonths = listMonths(`${year}-01`, `${year}-12`);
+  const firstMonth = operations.reduce((min, op) => (op.month < min ? op.month : min), yearMonths[0]);
+  const { months, lossCarryForward } = calculateMonthlyTax(operations, listMonths(firstMonth, yearMonths[11]));
+
+  const reportMonths = months.filter(m => m.month.startsWith(`${year}-`));
+  const yearOperations = operations.filter(op => op.month.startsWith(`${year}-`));
+
+  return {
+    year,
+    months: reportMonths,
+    operations: yearOperations,
+    totalSales: round(yearOperations.reduce((sum, op) => sum + op.saleValue, 0)),
+    totalExempt: round(reportMonths.reduce((sum, m) => sum + m.categories.reduce((s, c) => s + c.exemptResult, 0), 0)),
+    totalTax: round(reportMonths.reduce((sum, m) => sum + m.grossTax, 0)),
+    totalDarf: round(reportMonths.reduce((sum, m) => sum + m.darfDue, 0)),
+    lossCarryForward,
+  };
+};
@@ -0,0 +1,202 @@
+import { assetTypeLabels, calculateProfitLoss } from '../../schemas/investment';
+import type { Asset, AssetType } from '../../types/investment';
+import type { Allocation, CorporateAction, Sale } from '../../types/allocation';
+import type { Client, ClientWithAssets } from '../../types/client';
+import type { PriceMap } from './prices';
+import type { LotValuer } from './fixedIncome';
+import { buildLedger, lotsToAllocations, DEFAULT_COST_METHOD, type CostMethod, type RealizedGain } from './lots';
+
+// Avaliação da carteira a partir das alocações (compras) do cliente
+
+export interface Position {
+  assetId: number;
+  symbol: string;
+  name: string;
+  type: AssetType;
+  quantity: number;
+  averagePrice: number; // custo médio ponderado
+  totalInvested: number;
+  currentPrice: number;
+  currentValue: number;
+  profitLoss: number;
+  profitLossPercentage: number;
+  // false quando não há cotação e o valor atual usa o custo médio
+  hasMarketPrice: boolean;
+  firstPurchaseDate: string;
+  lastPurchaseDate: string;
+  weight: number; // % do valor atual da carteira
+}
+
+export interface TypeAllocation {
+  type: AssetType;
+  label: string;
+  value: number;
+  percentage: number;
+  count: number;
+}
+
+export interface PortfolioValuation {
+  positions: Position[];
+  totalInvested: number;
+  currentValue: number;
+  profitLoss: number;
+  profitLossPercentage: number;
+  allocationByType: TypeAllocation[];
+  costMethod: CostMethod;
+  realizedGains: RealizedGain[];
+  realizedProfitLoss: number;
+}
+
+export interface ValuationOptions {
+  sales?: Sale[];
+  costMethod?: CostMethod;
+  lotValuer?: LotValuer; // avaliação lote a lote (renda fixa na curva), antes da cotação
+  corporateActions?: CorporateAction[];
+}
+
+/**
+ * Agrupa as alocações por ativo e calcula custo médio, valor atual e P/L não realizado
+ */
+export const buildPositions = (
+  allocations: Allocation[],
+  assets: Asset[],
+  prices: PriceMap,
+  lotValuer?: LotValuer
+): Position[] => {
+  const assetsById = new Map(assets.map(asset => [Number(asset.id), asset]));
+  const grouped = new Map<number, Allocation[]>();
+
+  allocations.forEach(allocation => {
+    const group = grouped.get(allocation.asset_id) ?? [];
+    group.push(allocation);
+    grouped.set(allocation.asset_id, group);
+  });
+
+  const positions = Array.from(grouped.entries()).map(([assetId, group]) => {
+    const asset = assetsById.get(assetId);
+    const quantity = group.reduce((sum, a) => sum + a.quantity, 0);
+    const totalInvested = group.reduce((sum, a) => sum + a.quantity * a.buy_price, 0);
+    const averagePrice = quantity > 0 ? totalInvested / quantity : 0;
+
+    // Cada lote rende desde a sua data de compra, então a curva é aplicada antes de agrupar
+    const lotValues = lotValuer ? group.map(lotValuer) : [];
+    const markedToCurve = lotValues.length > 0 && lotValues.every(value => value !== undefined);
+    const marketPrice = markedToCurve
+      ? lotValues.reduce((sum: number, value) => sum + value!, 0) / quantity
+      : prices.get(assetId);
+    const currentPrice = marketPrice ?? averagePrice;
+    const currentValue = quantity * currentPrice;
+    const { profitLoss, profitLossPercentage } = calculateProfitLoss(currentValue, totalInvested);
+
+    const dates = group.map(a => a.buy_date).sort();
+
+    return {
+      assetId,
+      symbol: asset?.symbol ?? '',
+      name: asset?.name ?? '',
+      type: asset?.type ?? 'other',
+      quantity,
+      averagePrice,
+      totalInvested,
+      currentPrice,
+      currentValue,
+      profitLoss,
+      profitLossPercentage,
+      hasMarketPrice: marketPrice !== undefined,
+      firstPurchaseDate: dates[0],
+      lastPurchaseDate: dates[dates.length - 1],
+      weight: 0,
+    };
+  });
+
+  const portfolioValue = positions.reduce((sum, p) => sum + p.currentValue, 0);
+  return positions
+    .map(position => ({
+      ...position,
+      weight: portfolioValue > 0 ? (position.currentValue / portfolioValue) * 100 : 0,
+    }))
+    .sort((a, b) => b.currentValue - a.currentValue);
+};
+
+/**
+ * Distribuição do valor atual da carteira por tipo de ativo
+ */
+export const getAllocationByType = (
+  positions: Array<Pick<Position, 'type' | 'currentValue'>>
+): TypeAllocation[] => {
+  const total = positions.reduce((sum, p) => sum + p.currentValue, 0);
+  const byType = new Map<AssetType, TypeAllocation>();
+
+  positions.forEach(position => {
+    const current = byType.get(position.type) ?? {
+      type: position.type,
+      label: assetTypeLabels[position.type] ?? position.type,
+      value: 0,
+      percentage: 0,
+      count: 0,
+    };
+    current.value += position.currentValue;
+    current.count += 1;
+    byType.set(position.type, current);
+  });
+
+  return Array.from(byType.values())
+    .map(item => ({ ...item, percentage: total > 0 ? (item.value / total) * 100 : 0 }))
+    .sort((a, b) => b.value - a.value);
+};
+
+/**
+ * Avalia a carteira do cliente. Com vendas, as posições usam só os lotes em aberto
+ * e o resultado das vendas entra em realizedGains.
+ */
+export const valuePortfolio = (
+  allocations: Allocation[],
+  assets: Asset[],
+  prices: PriceMap,
+  { sales = [], costMethod = DEFAULT_COST_METHOD, lotValuer, corporateActions }: ValuationOptions = {}
+): PortfolioValuation => {
+  const ledger = buildLedger(allocations, sales, { method: costMethod, assets, strict: false, corporateActions });
+  const positions = buildPositions(lotsToAllocations(ledger.openLots), assets, prices, lotValuer);
+  const totalInvested = positions.reduce((sum, p) => sum + p.totalInvested, 0);
+  const currentValue = positions.reduce((sum, p) => sum + p.currentValue, 0);
+  const { profitLoss, profitLossPercentage } = calculateProfitLoss(currentValue, totalInvested);
+
+  return {
+    positions,
+    totalInvested,
+    currentValue,
+    profitLoss,
+    profitLossPercentage,
+    allocationByType: getAllocationByType(positions),
+    costMethod,
+    realizedGains: ledger.realizedGains,
+    realizedProfitLoss: ledger.realizedGains.reduce((sum, g) => sum + g.gain, 0),
+  };
+};
+
+/**
+ * Converte a avaliação para o formato ClientWithAssets usado nas telas de cliente
+ */
+export const toClientWithAssets = (client: Client, valuation: PortfolioValuation): ClientWithAssets => ({
+  ...client,
+  totalInvested: valuation.totalInvested,
+  currentValue: valuation.currentValue,
+  totalReturn: valuation.profitLoss,
+  returnPercentage: valuation.profitLossPercentage,
+  realizedReturn: valuation.realizedProfitLoss,
+  realizedGains: valuation.realizedGains,
+  costMethod: valuation.costMethod,
+  allocations: valuation.positions.map(position => ({
+    assetId: position.assetId.toString(),
+    assetSymbol: position.symbol,
+    assetName: position.name,
+    assetType: position.type,
+    quantity: position.quantity,
+    averagePrice: position.averagePrice,
+    currentPrice: position.currentPrice,
+    totalInvested: position.totalInvested,
+    currentValue: position.currentValue,
+    returnAmount: position.profitLoss,
+    returnPercentage: position.profitLossPercentage,
+  })),
+});
@@ -0,0 +1,145 @@
+import { normalizeText, parseAmount, parseDate, readSpreadsheet, type ImportSheet } from '../utils/importUtils';
+import type { PricePoint } from './portfolio/prices';
+import type { Asset } from '../types/investment';
+
+// Importação de cotações: arquivo COTAHIST da B3 (posicional) ou planilha com data e fechamento
+
+export interface PriceImportError {
+  row: number; // linha no arquivo (na planilha, a 1 é o cabeçalho)
+  message: string;
+}
+
+export interface ParsedPrices {
+  bySymbol: Map<string, PricePoint[]>;
+  errors: PriceImportError[];
+}
+
+const DATE_ALIASES = ['data', 'date', 'dia', 'data pregao'];
+const CLOSE_ALIASES = ['fechamento', 'close', 'preco', 'price', 'ultimo', 'cotacao', 'adj close'];
+const VOLUME_ALIASES = ['volume', 'quantidade', 'qtd'];
+const SYMBOL_ALIASES = ['ativo', 'ticker', 'symbol', 'simbolo', 'codigo', 'papel'];
+
+// Posições (base 0, fim exclusivo) dos campos usados do registro 01 do COTAHIST
+const COTAHIST = {
+  recordType: [0, 2],
+  date: [2, 10],
+  symbol: [12, 24],
+  market: [24, 27],
+  close: [108, 121],
+  quantity: [152, 170],
+  quoteFactor: [210, 217],
+} as const;
+
+// Só o mercado à vista (ações, FIIs, ETFs); opções, termo e fracionário ficam de fora
+const SPOT_MARKET = '010';
+
+export const isCotahistFile = (text: string): boolean => text.startsWith('00COTAHIST');
+
+const addPoint = (bySymbol: Map<string, PricePoint[]>, symbol: string, point: PricePoint) => {
+  const points = bySymbol.get(symbol) ?? [];
+  points.push(point);
+  bySymbol.set(symbol, points);
+};
+
+/**
+ * Lê o COTAHIST da B3. Preços vêm com duas casas implícitas e por lote de FATCOT ações.
+ * Com symbols, só os papéis informados são mantidos (o arquivo anual tem todo o mercado).
+ */
+export const parseCotahist = (text: string, symbols?: Set<string>): ParsedPrices => {
+  const bySymbol = new Map<string, PricePoint[]>();
+  const errors: PriceImportError[] = [];
+  const field = (line: string, [start, end]: readonly [number, number]) => line.slice(start, end).trim();
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (field(line, COTAHIST.recordType) !== '01' || field(line, COTAHIST.market) !== SPOT_MARKET) return;
+    const symbol = field(line, COTAHIST.symbol);
+    if (symbols && !symbols.has(symbol)) return;
+
+    const rawDate = field(line, COTAHIST.date);
+    const date = parseDate(`${rawDate.slice(0, 4)}-${rawDate.slice(4, 6)}-${rawDate.slice(6, 8)}`);
+    const quoteFactor = Number(field(line, COTAHIST.quoteFactor)) || 1;
+    const close = Number(field(line, COTAHIST.close)) / 100 / quoteFactor;
+    if (!date || !(close > 0)) {
+      errors.push({ row: index + 1, message: `Registro inválido para ${symbol}` });
+      return;
+    }
+    addPoint(bySymbol, symbol, { date, close, volume: Number(field(line, COTAHIST.quantity)) || undefined });
+  });
+  return { bySymbol, errors };
+};
+
+/**
+ * Planilha com data e fechamento (volume opcional). Sem coluna de ativo, as linhas vão para defaultSymbol.
+ */
+export const parsePriceSheet = (sheet: ImportSheet, defaultSymbol?: string): ParsedPrices => {
+  const header = (aliases: string[]) => sheet.headers.find(h => aliases.includes(normalizeText(h)));
+  const dateHeader = header(DATE_ALIASES);
+  const closeHeader = header(CLOSE_ALIASES);
+  const volumeHeader = header(VOLUME_ALIASES);
+  const symbolHeader = header(SYMBOL_ALIASES);
+  const bySymbol = new Map<string, PricePoint[]>();
+
+  if (!dateHeader || !closeHeader) {
+    return { bySymbol, errors: [{ row: 1, message: 'A planilha precisa das colunas "data" e "fechamento"' }] };
+  }
+  if (!symbolHeader && !defaultSymbol) {
+    return { bySymbol, errors: [{ row: 1, message: 'Informe a coluna "ativo" com o código de cada cotação' }] };
+  }
+
+  const errors: PriceImportError[] = [];
+  sheet.rows.forEach((values, position) => {
+    const row = position + 2;
+    const symbol = (symbolHeader && values[symbolHeader]?.trim().toUpperCase()) || defaultSymbol;
+    const date = parseDate(values[dateHeader] ?? '');
+    const close = parseAmount(values[closeHeader] ?? '');
+    const volume = volumeHeader ? parseAmount(values[volumeHeader] ?? '') : NaN;
+
+    if (!symbol) {
+      errors.push({ row, message: 'Ativo não informado' });
+    } else if (!date) {
+      errors.push({ row, message: `Data inválida: "${values[dateHeader]}"` });
+    } else if (!(close > 0)) {
+      errors.push({ row, message: `Fechamento inválido: "${values[closeHeader]}"` });
+    } else {
+      addPoint(bySymbol, symbol, { date, close, volume: Number.isFinite(volume) ? volume : undefined });
+    }
+  });
+  return { bySymbol, errors };
+};
+
+export const PRICE_FILE_ACCEPT = '.csv,.xlsx,.xls,.txt';
+
+// Códigos do Yahoo (PETR4.SA) e do COTAHIST (PETR4) apontam para o mesmo ativo
+const normalizeSymbol = (symbol: string) => symbol.trim().toUpperCase().replace(/\.SA$/, '');
+
+/**
+ * Lê um arquivo de cotações: COTAHIST (.txt da B3) ou planilha CSV/XLSX.
+ * Com um único ativo, planilhas sem coluna de código são atribuídas a ele.
+ */
+export const readPriceFile = async (file: File, assets: Asset[]): Promise<ParsedPrices> => {
+  const text = file.name.toLowerCase().endsWith('.txt') ? await file.text() : '';
+  if (isCotahistFile(text)) {
+    return parseCotahist(text, new Set(assets.map(asset => normalizeSymbol(asset.symbol))));
+  }
+  const defaultSymbol = assets.length === 1 ? assets[0].symbol : undefined;
+  return parsePriceSheet(await readSpreadsheet(file), defaultSymbol);
+};
+
+/**
+ * Associa as cotações lidas aos ativos cadastrados pelo código
+ */
+export const matchPricesToAssets = (
+  bySymbol: Map<string, PricePoint[]>,
+  assets: Asset[]
+): { pricesByAsset: Map<number, PricePoint[]>; unknownSymbols: string[] } => {
+  const assetsBySymbol = new Map(assets.map(asset => [normalizeSymbol(asset.symbol), asset]));
+  const pricesByAsset = new Map<number, PricePoint[]>();
+  const unknownSymbols: string[] = [];
+
+  bySymbol.forEach((points, symbol) => {
+    const asset = assetsBySymbol.get(normalizeSymbol(symbol));
+    if (asset) pricesByAsset.set(Number(asset.id), points);
+    else unknownSymbols.push(symbol);
+  });
+  return { pricesByAsset, unknownSymbols };
+};
@@ -0,0 +1,40 @@
+import type { QueryClient, QueryKey } from '@tanstack/react-query';
+
+// Helpers de atualização otimista do cache
+
+export type QuerySnapshot = Array<[QueryKey, unknown]>;
+
+/**
+ * Remove um item de todas as listas em cache sob o prefixo informado, antes da resposta do servidor.
+ * Aceita listas simples (T[]) e paginadas ({ items: T[], total }).
+ * Retorna o estado anterior para rollback em caso de erro.
+ */
+export const removeFromListQueries = async <T>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  shouldRemove: (item: T) => boolean
+): Promise<QuerySnapshot> => {
+  await queryClient.cancelQueries({ queryKey });
+  const snapshot = queryClient.getQueriesData({ queryKey });
+
+  queryClient.setQueriesData({ queryKey }, (data: unknown) => {
+    if (Array.isArray(data)) {
+      return (data as T[]).filter(item => !shouldRemove(item));
+    }
+    if (data && typeof data === 'object' && Array.isArray((data as { items?: unknown }).items)) {
+      const page = data as { items: T[]; total: number };
+      const items = page.items.filter(item => !shouldRemove(item));
+      return { ...page, items, total: page.total - (page.items.length - items.length) };
+    }
+    return data;
+  });
+
+  return snapshot;
+};
+
+/**
+ * Desfaz uma atualização otimista
+ */
+export const restoreQueries = (queryClient: QueryClient, snapshot: QuerySnapshot | undefined) => {
+  snapshot?.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+};
@@ -0,0 +1,83 @@
+import type { ClientFilters } from '../types/client';
+import type { AllocationFilters, SaleFilters } from '../types/allocation';
+import type { MovementFilters } from '../services/adaptedMovementService';
+import type { CorporateActionFilters } from '../services/adaptedCorporateActionService';
+import type { CostMethod } from './portfolio/lots';
+import type { PerformancePeriod } from './portfolio/performance';
+
+// Chaves do cache do TanStack Query, organizadas por recurso (all > lists/details > item).
+// Invalidar um prefixo invalida tudo abaixo dele: clientKeys.detail(id) também derruba carteira e desempenho.
+
+export interface ClientListParams {
+  filters?: ClientFilters;
+  sortBy?: { field: string; direction: 'asc' | 'desc' };
+  page?: number;
+  limit?: number;
+}
+
+export const clientKeys = {
+  all: ['clients'] as const,
+  lists: () => [...clientKeys.all, 'list'] as const,
+  list: (params: ClientListParams) => [...clientKeys.lists(), params] as const,
+  stats: () => [...clientKeys.all, 'stats'] as const,
+  details: () => [...clientKeys.all, 'detail'] as const,
+  detail: (id: string) => [...clientKeys.details(), id] as const,
+  portfolio: (id: string, costMethod?: CostMethod) => [...clientKeys.detail(id), 'portfolio', costMethod] as const,
+  performance: (id: string, period: PerformancePeriod) => [...clientKeys.detail(id), 'performance', period] as const,
+  cash: (id: string) => [...clientKeys.detail(id), 'cash'] as const,
+  suitability: (id: string) => [...clientKeys.detail(id), 'suitability'] as const,
+  investmentStats: (ids?: string[]) => [...clientKeys.all, 'investment-stats', ...(ids ? [ids] : [])] as const,
+};
+
+export const assetKeys = {
+  all: ['assets'] as const,
+  lists: () => [...assetKeys.all, 'list'] as const,
+  details: () => [...assetKeys.all, 'detail'] as const,
+  detail: (id: string) => [...assetKeys.details(), id] as const,
+};
+
+export const priceKeys = {
+  all: ['prices'] as const,
+  series: (assetId: string) => [...priceKeys.all, assetId] as const,
+};
+
+export const marketIndexKeys = {
+  all: ['market-indexes'] as const,
+};
+
+export const allocationKeys = {
+  all: ['allocations'] as const,
+  lists: () => [...allocationKeys.all, 'list'] as const,
+  list: (filters: AllocationFilters = {}) => [...allocationKeys.lists(), filters] as const,
+  summary: () => [...allocationKeys.all, 'summary'] as const,
+};
+
+export const movementKeys = {
+  all: ['movements'] as const,
+  lists: () => [...movementKeys.all, 'list'] as const,
+  list: (filters: MovementFilters = {}) => [...movementKeys.lists(), filters] as const,
+  summary: (filters: MovementFilters = {}) => [...movementKeys.all, 'summary', filters] as const,
+  details: () => [...movementKeys.all, 'detail'] as const,
+  detail: (id: string) => [...movementKeys.details(), id] as const,
+  // A agenda depende das movimentações já geradas: fica sob movementKeys.all
+  schedules: () => [...movementKeys.all, 'schedule'] as const,
+  schedule: (until: string, clientId?: string) => [...movementKeys.schedules(), until, clientId] as const,
+};
+
+export const movementTemplateKeys = {
+  all: ['movement-templates'] as const,
+  lists: () => [...movementTemplateKeys.all, 'list'] as const,
+};
+
+// Eventos societários mudam posições e custo médio: invalidá-los também derruba as carteiras
+export const corporateActionKeys = {
+  all: ['corporate-actions'] as const,
+  list: (filters: CorporateActionFilters = {}) => [...corporateActionKeys.all, 'list', filters] as const,
+  holders: (id: number) => [...corporateActionKeys.all, 'holders', id] as const,
+};
+
+export const saleKeys = {
+  all: ['sales'] as const,
+  lists: () => [...saleKeys.all, 'list'] as const,
+  list: (filters: SaleFilters = {}) => [...saleKeys.lists(), filters] as const,
+};
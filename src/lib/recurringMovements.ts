@@ -0,0 +1,134 @@
+import type { MovementTemplate } from '../types/movement';
+
+// Agenda de movimentações recorrentes: recurringConfig -> datas das ocorrências (AAAA-MM-DD, em UTC)
+
+export type RecurringConfig = NonNullable<MovementTemplate['recurringConfig']>;
+export type RecurrenceFrequency = RecurringConfig['frequency'];
+
+export interface ScheduledOccurrence {
+  templateId: string;
+  templateName: string;
+  clientId: string;
+  type: 'deposit' | 'withdrawal';
+  amount: number;
+  date: string;
+  index: number; // 0 = primeira ocorrência do agendamento
+  generated: boolean; // já existe movimentação para esta ocorrência
+}
+
+export const frequencyLabels: Record<RecurrenceFrequency, { adjective: string; plural: string }> = {
+  daily: { adjective: 'Diária', plural: 'dias' },
+  weekly: { adjective: 'Semanal', plural: 'semanas' },
+  monthly: { adjective: 'Mensal', plural: 'meses' },
+  quarterly: { adjective: 'Trimestral', plural: 'trimestres' },
+  yearly: { adjective: 'Anual', plural: 'anos' },
+};
+
+const MONTHS_PER_PERIOD: Partial<Record<RecurrenceFrequency, number>> = { monthly: 1, quarterly: 3, yearly: 12 };
+const DAYS_PER_PERIOD: Partial<Record<RecurrenceFrequency, number>> = { daily: 1, weekly: 7 };
+
+// Limite de segurança para agendamentos diários sem data final nem número de ocorrências
+const MAX_OCCURRENCES = 1000;
+
+// Só depósitos e saques viram movimentações no backend
+const SCHEDULABLE_TYPES = ['deposit', 'withdrawal'] as const;
+
+export const toIsoDate = (date: Date | string): string => new Date(date).toISOString().slice(0, 10);
+
+/**
+ * Data da n-ésima ocorrência a partir do início. Meses são contados sempre a partir da data
+ * inicial: um agendamento no dia 31 cai no último dia dos meses mais curtos e volta ao 31 depois.
+ */
+const occurrenceDate = (start: Date, frequency: RecurrenceFrequency, steps: number): string => {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const day = start.getUTCDate();
+
+  const months = MONTHS_PER_PERIOD[frequency];
+  if (months !== undefined) {
+    const target = month + steps * months;
+    const lastDay = new Date(Date.UTC(year, target + 1, 0)).getUTCDate();
+    return toIsoDate(new Date(Date.UTC(year, target, Math.min(day, lastDay))));
+  }
+  return toIsoDate(new Date(Date.UTC(year, month, day + steps * (DAYS_PER_PERIOD[frequency] ?? 1))));
+};
+
+/**
+ * Datas das ocorrências até `until` (inclusive), respeitando endDate e maxOccurrences
+ */
+export const expandOccurrences = (config: RecurringConfig, until: string): string[] => {
+  const start = new Date(config.startDate);
+  const end = config.endDate ? toIsoDate(config.endDate) : undefined;
+  const limit = Math.min(config.maxOccurrences ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const dates: string[] = [];
+
+  for (let index = 0; index < limit; index++) {
+    const date = occurrenceDate(start, config.frequency, index * Math.max(config.interval, 1));
+    if (date > until || (end && date > end)) break;
+    dates.push(date);
+  }
+  return dates;
+};
+
+/**
+ * Próxima ocorrência depois de `after` (undefined quando o agendamento já terminou)
+ */
+export const getNextOccurrence = (config: RecurringConfig, after: string): string | undefined => {
+  const start = new Date(config.startDate);
+  const end = config.endDate ? toIsoDate(config.endDate) : undefined;
+
+  for (let index = 0; index < (config.maxOccurrences ?? Infinity); index++) {
+    const date = occurrenceDate(start, config.frequency, index * Math.max(config.interval, 1));
+    if (end && date > end) return undefined;
+    if (date > after) return date;
+  }
+  return undefined;
+};
+
+/**
+ * Modelo que gera movimentações: recorrente, com cliente, valor e tipo aceito pelo backend
+ */
+export const isSchedulable = (template: MovementTemplate): boolean =>
+  template.isRecurring &&
+  !!template.recurringConfig &&
+  !!template.clientId &&
+  (template.defaultAmount ?? 0) > 0 &&
+  (SCHEDULABLE_TYPES as readonly string[]).includes(template.type);
+
+/**
+ * Ocorrências de todos os agendamentos até `until`. Uma ocorrência conta como gerada quando não passa
+ * de lastGeneratedDate do modelo — gravado a cada movimentação criada, mesmo que depois rejeitada na
+ * aprovação —, o que torna a geração idempotente.
+ */
+export const buildSchedule = (templates: MovementTemplate[], until: string): ScheduledOccurrence[] =>
+  templates
+    .filter(isSchedulable)
+    .flatMap(template =>
+      expandOccurrences(template.recurringConfig!, until).map((date, index) => ({
+        templateId: template.id,
+        templateName: template.name,
+        clientId: template.clientId!,
+        type: template.type as ScheduledOccurrence['type'],
+        amount: template.defaultAmount!,
+        date,
+        index,
+        generated: !!template.lastGeneratedDate && date <= template.lastGeneratedDate,
+      }))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.templateName.localeCompare(b.templateName));
+
+/**
+ * Ocorrências vencidas (até hoje) que ainda não viraram movimentação, incluindo as atrasadas
+ */
+export const getDueOccurrences = (schedule: ScheduledOccurrence[], today: string): ScheduledOccurrence[] =>
+  schedule.filter(occurrence => occurrence.date <= today && !occurrence.generated);
+
+export const describeRecurrence = (config: RecurringConfig): string => {
+  const labels = frequencyLabels[config.frequency];
+  const base = config.interval > 1 ? `A cada ${config.interval} ${labels.plural}` : labels.adjective;
+  const limits = [
+    config.endDate && `até ${toIsoDate(config.endDate).split('-').reverse().join('/')}`,
+    config.maxOccurrences && `${config.maxOccurrences} ocorrências`,
+  ].filter(Boolean);
+  return limits.length > 0 ? `${base} (${limits.join(', ')})` : base;
+};
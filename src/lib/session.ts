@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { API_BASE_URL, USE_MOCK_API } from './config';
+import type { AuthResponse, SessionResponse } from '../types/auth';
+
+// Helpers usados apenas no servidor (route handlers e middleware)
+
+export const SESSION_COOKIE = 'access_token';
+const EXPIRES_AT_COOKIE = 'access_token_expires_at';
+
+// No servidor o backend pode ter um endereço interno diferente do público
+export const BACKEND_URL = process.env.API_URL || API_BASE_URL;
+
+// Sem backend, login e cadastro abrem uma sessão de demonstração (os dados vêm do IndexedDB no navegador)
+export const DEMO_MODE_ENABLED = USE_MOCK_API || process.env.NODE_ENV !== 'production';
+const DEMO_SESSION: AuthResponse = { access_token: 'demo-session', token_type: 'bearer', expires_in: 8 * 60 * 60 };
+
+const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+};
+
+/**
+ * Calcula o instante de expiração a partir de expires_in ou, na falta dele, do claim exp do JWT
+ */
+const resolveExpiresAt = (auth: AuthResponse): number | null => {
+  if (auth.expires_in) {
+    return Date.now() + auth.expires_in * 1000;
+  }
+
+  try {
+    const [, payload] = auth.access_token.split('.');
+    if (!payload) return null;
+    const decoded = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof decoded.exp === 'number' ? decoded.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getSessionToken = (request: NextRequest): string | undefined => {
+  return request.cookies.get(SESSION_COOKIE)?.value;
+};
+
+/**
+ * Lê a sessão atual a partir dos cookies, sem consultar o backend
+ */
+export const getSession = (request: NextRequest): SessionResponse => {
+  const token = getSessionToken(request);
+  const expiresAt = Number(request.cookies.get(EXPIRES_AT_COOKIE)?.value);
+  return {
+    authenticated: Boolean(token),
+    expires_at: Number.isFinite(expiresAt) && expiresAt > 0 ? expiresAt : null,
+    demo: DEMO_MODE_ENABLED && isDemoSession(token),
+  };
+};
+
+/**
+ * Grava o token em cookie httpOnly e devolve ao navegador apenas os dados da sessão
+ */
+export const createSessionResponse = (auth: AuthResponse, demo = false): NextResponse<SessionResponse> => {
+  const expiresAt = resolveExpiresAt(auth);
+  const response = NextResponse.json<SessionResponse>({ authenticated: true, expires_at: expiresAt, demo });
+
+  // Sem expiração conhecida o cookie dura até o navegador ser fechado
+  const maxAge = expiresAt ? Math.max(Math.floor((expiresAt - Date.now()) / 1000), 0) : undefined;
+  response.cookies.set(SESSION_COOKIE, auth.access_token, { ...cookieOptions, maxAge });
+  if (expiresAt) {
+    response.cookies.set(EXPIRES_AT_COOKIE, expiresAt.toString(), { ...cookieOptions, maxAge });
+  } else {
+    response.cookies.delete(EXPIRES_AT_COOKIE);
+  }
+
+  return response;
+};
+
+export const createDemoSessionResponse = (): NextResponse<SessionResponse> => {
+  return createSessionResponse(DEMO_SESSION, true);
+};
+
+export const isDemoSession = (token: string | undefined): boolean => {
+  return token === DEMO_SESSION.access_token;
+};
+
+export const clearSessionCookies = <T>(response: NextResponse<T>): NextResponse<T> => {
+  response.cookies.set(SESSION_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+  response.cookies.set(EXPIRES_AT_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+  return response;
+};
+
+/**
+ * Encaminha uma requisição ao backend, anexando o token do cookie quando houver.
+ * Falhas de conexão viram 502 para o cliente tratar como backend indisponível.
+ */
+export const fetchBackend = async (
+  endpoint: string,
+  init: { method: string; body?: string; token?: string }
+): Promise<Response> => {
+  try {
+    return await fetch(`${BACKEND_URL}${endpoint}`, {
+      method: init.method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(init.token ? { Authorization: `Bearer ${init.token}` } : {}),
+      },
+      body: init.body,
+      cache: 'no-store',
+    });
+  } catch (error) {
+    console.error(`Backend indisponível (${endpoint}):`, error);
+    return NextResponse.json({ detail: 'Servidor indisponível' }, { status: 502 });
+  }
+};
+
+/**
+ * Repassa a resposta do backend ao navegador preservando status e corpo
+ */
+export const relayResponse = async (response: Response): Promise<NextResponse> => {
+  if (response.status === 204) {
+    return new NextResponse(null, { status: 204 });
+  }
+
+  return new NextResponse(await response.text(), {
+    status: response.status,
+    headers: { 'Content-Type': response.headers.get('Content-Type') || 'application/json' },
+  });
+};
@@ -0,0 +1,120 @@
+import { buildCashLedger, cashEntryLabels, isMovementEntry, type CashEntry } from './portfolio/cash';
+import { createSeriesPriceHistory, createTradePriceHistory, type PriceMap, type PriceSeriesMap } from './portfolio/prices';
+import { valuePortfolio, type PortfolioValuation } from './portfolio/valuation';
+import { createFixedIncomeValuer, type IndexSeries } from './portfolio/fixedIncome';
+import type { CostMethod } from './portfolio/lots';
+import type { Allocation, CorporateAction, Sale } from '../types/allocation';
+import type { Client } from '../types/client';
+import type { Asset } from '../types/investment';
+import type { MovementWithClient } from '../services/adaptedMovementService';
+
+// Extrato mensal do cliente: conta corrente do mês e carteira na data de fechamento
+
+export interface StatementLine extends CashEntry {
+  description: string;
+}
+
+export interface ClientStatement {
+  client: Client;
+  month: string; // AAAA-MM
+  periodStart: string;
+  periodEnd: string;
+  openingBalance: number;
+  closingBalance: number;
+  credits: number;
+  debits: number;
+  lines: StatementLine[];
+  valuation: PortfolioValuation; // posições em aberto no fechamento do mês
+}
+
+export interface StatementData {
+  movements: MovementWithClient[];
+  allocations: Allocation[];
+  sales: Sale[];
+  assets: Asset[];
+  prices: PriceMap; // cotações atuais
+  priceSeries?: PriceSeriesMap; // fechamentos registrados
+  indexes?: IndexSeries; // séries de CDI/SELIC/IPCA para a renda fixa na curva
+  corporateActions?: CorporateAction[];
+}
+
+export const getMonthRange = (month: string): { start: string; end: string } => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return {
+    start: `${month}-01`,
+    end: new Date(Date.UTC(year, monthIndex, 0)).toISOString().slice(0, 10),
+  };
+};
+
+export const formatStatementMonth = (month: string): string =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('pt-BR', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+const describeEntry = (
+  entry: CashEntry,
+  movements: MovementWithClient[],
+  allocations: Allocation[],
+  sales: Sale[],
+  symbols: Map<number, string>
+): string => {
+  const label = cashEntryLabels[entry.kind];
+  if (isMovementEntry(entry)) {
+    const note = movements.find(m => m.id === entry.sourceId)?.note;
+    return note ? `${label} - ${note}` : label;
+  }
+  const trade = entry.kind === 'purchase'
+    ? allocations.find(a => a.id === entry.sourceId)
+    : sales.find(s => s.id === entry.sourceId);
+  return trade ? `${label} - ${trade.quantity} ${symbols.get(trade.asset_id) ?? ''}`.trim() : label;
+};
+
+/**
+ * Monta o extrato do mês. Saldos saem da conta corrente (só movimentações efetivadas);
+ * as posições usam as operações até o fim do mês, avaliadas pela cotação estimada nessa data.
+ */
+export const buildClientStatement = (
+  client: Client,
+  month: string,
+  { movements, allocations, sales, assets, prices, priceSeries, indexes, corporateActions = [] }: StatementData,
+  costMethod?: CostMethod
+): ClientStatement => {
+  const { start, end } = getMonthRange(month);
+  const movementsUntil = movements.filter(m => m.date.slice(0, 10) <= end);
+  const allocationsUntil = allocations.filter(a => a.buy_date <= end);
+  const salesUntil = sales.filter(s => s.sell_date <= end);
+
+  const ledger = buildCashLedger(client.id, movementsUntil, allocationsUntil, salesUntil);
+  const previous = ledger.entries.filter(entry => entry.date < start);
+  const openingBalance = previous.length > 0 ? previous[previous.length - 1].balance : 0;
+
+  const symbols = new Map(assets.map(asset => [Number(asset.id), asset.symbol]));
+  const lines = ledger.entries
+    .filter(entry => entry.date >= start)
+    .map(entry => ({ ...entry, description: describeEntry(entry, movements, allocations, sales, symbols) }));
+
+  // Cotação no fechamento: último fechamento registrado ou, sem histórico, interpolada entre as operações
+  const tradePriceAt = createTradePriceHistory(allocations, sales, prices);
+  const priceAt = priceSeries ? createSeriesPriceHistory(priceSeries, tradePriceAt) : tradePriceAt;
+  const closingPrices: PriceMap = new Map();
+  assets.forEach(asset => {
+    const price = priceAt(Number(asset.id), end);
+    if (price !== undefined) closingPrices.set(Number(asset.id), price);
+  });
+
+  return {
+    client,
+    month,
+    periodStart: start,
+    periodEnd: end,
+    openingBalance,
+    closingBalance: lines.length > 0 ? lines[lines.length - 1].balance : openingBalance,
+    credits: lines.filter(line => line.amount > 0).reduce((sum, line) => sum + line.amount, 0),
+    debits: lines.filter(line => line.amount < 0).reduce((sum, line) => sum - line.amount, 0),
+    lines,
+    valuation: valuePortfolio(allocationsUntil, assets, closingPrices, {
+      sales: salesUntil,
+      costMethod,
+      lotValuer: indexes && createFixedIncomeValuer(assets, indexes, end),
+      corporateActions: corporateActions.filter(action => action.ex_date <= end),
+    }),
+  };
+};
@@ -0,0 +1,249 @@
+import { ValidationError } from './errors';
+import { SUITABILITY_VALIDITY_MONTHS } from './config';
+import type { InvestmentProfile, RiskProfile, SuitabilityAssessment } from '../types/client';
+import type { AssetRiskClass, AssetType } from '../types/investment';
+import type { SuitabilityOverride } from '../types/allocation';
+
+// Questionário de suitability (API): a pontuação define o perfil e o perfil limita o risco dos ativos
+
+export interface SuitabilityOption {
+  id: string;
+  label: string;
+  points: number;
+}
+
+export interface SuitabilityQuestion {
+  id: string;
+  text: string;
+  options: SuitabilityOption[];
+}
+
+export const suitabilityQuestions: SuitabilityQuestion[] = [
+  {
+    id: 'objective',
+    text: 'Qual é o principal objetivo dos seus investimentos?',
+    options: [
+      { id: 'preserve', label: 'Preservar o capital, sem aceitar perdas', points: 1 },
+      { id: 'income', label: 'Gerar renda complementar com baixa oscilação', points: 2 },
+      { id: 'growth', label: 'Fazer o patrimônio crescer aceitando alguma oscilação', points: 3 },
+      { id: 'maximize', label: 'Maximizar o retorno, mesmo com perdas relevantes no caminho', points: 4 },
+    ],
+  },
+  {
+    id: 'horizon',
+    text: 'Por quanto tempo pretende manter os recursos investidos?',
+    options: [
+      { id: 'under_1y', label: 'Menos de 1 ano', points: 1 },
+      { id: '1_3y', label: 'De 1 a 3 anos', points: 2 },
+      { id: '3_5y', label: 'De 3 a 5 anos', points: 3 },
+      { id: 'over_5y', label: 'Mais de 5 anos', points: 4 },
+    ],
+  },
+  {
+    id: 'drawdown',
+    text: 'Se seus investimentos caíssem 20% em poucos meses, o que você faria?',
+    options: [
+      { id: 'sell_all', label: 'Resgataria tudo', points: 1 },
+      { id: 'sell_part', label: 'Resgataria parte para limitar a perda', points: 2 },
+      { id: 'hold', label: 'Manteria a posição e aguardaria a recuperação', points: 3 },
+      { id: 'buy_more', label: 'Aproveitaria para investir mais', points: 4 },
+    ],
+  },
+  {
+    id: 'knowledge',
+    text: 'Como avalia seu conhecimento sobre o mercado financeiro?',
+    options: [
+      { id: 'none', label: 'Nenhum', points: 1 },
+      { id: 'basic', label: 'Básico: poupança, CDB e Tesouro Direto', points: 2 },
+      { id: 'intermediate', label: 'Intermediário: fundos, ações e FIIs', points: 3 },
+      { id: 'advanced', label: 'Avançado: derivativos, exterior e cripto', points: 4 },
+    ],
+  },
+  {
+    id: 'experience',
+    text: 'Em quais produtos já investiu nos últimos 24 meses?',
+    options: [
+      { id: 'savings', label: 'Apenas poupança', points: 1 },
+      { id: 'fixed_income', label: 'Renda fixa e fundos de renda fixa', points: 2 },
+      { id: 'equities', label: 'Ações, FIIs ou fundos multimercado', points: 3 },
+      { id: 'complex', label: 'Derivativos, ativos no exterior ou criptoativos', points: 4 },
+    ],
+  },
+  {
+    id: 'allocation',
+    text: 'Que parcela do seu patrimônio estes investimentos representam?',
+    options: [
+      { id: 'over_75', label: 'Mais de 75%', points: 1 },
+      { id: '50_75', label: 'De 50% a 75%', points: 2 },
+      { id: '25_50', label: 'De 25% a 50%', points: 3 },
+      { id: 'under_25', label: 'Menos de 25%', points: 4 },
+    ],
+  },
+  {
+    id: 'liquidity',
+    text: 'Qual parte dos recursos pode precisar resgatar nos próximos 12 meses?',
+    options: [
+      { id: 'most', label: 'Mais da metade', points: 1 },
+      { id: 'half', label: 'Até metade', points: 2 },
+      { id: 'small', label: 'Uma parte pequena', points: 3 },
+      { id: 'none', label: 'Nenhuma', points: 4 },
+    ],
+  },
+  {
+    id: 'income',
+    text: 'Como sua renda mensal se compara às suas despesas?',
+    options: [
+      { id: 'deficit', label: 'É menor que as despesas', points: 1 },
+      { id: 'even', label: 'Cobre as despesas, sem sobra', points: 2 },
+      { id: 'surplus', label: 'Sobra parte todo mês', points: 3 },
+      { id: 'large_surplus', label: 'Sobra a maior parte todo mês', points: 4 },
+    ],
+  },
+];
+
+export const riskProfileLabels: Record<RiskProfile, string> = {
+  conservative: 'Conservador',
+  moderate: 'Moderado',
+  aggressive: 'Arrojado',
+};
+
+export const assetRiskClassLabels: Record<AssetRiskClass, string> = {
+  low: 'Baixo risco',
+  medium: 'Médio risco',
+  high: 'Alto risco',
+};
+
+export const assetRiskClasses: Record<AssetType, AssetRiskClass> = {
+  savings: 'low',
+  fixed_income: 'low',
+  bonds: 'low',
+  investment_funds: 'medium',
+  real_estate_funds: 'medium',
+  stocks: 'high',
+  international: 'high',
+  commodities: 'high',
+  crypto: 'high',
+  other: 'high',
+};
+
+// Maior classe de risco adequada a cada perfil
+const maxRiskClass: Record<RiskProfile, AssetRiskClass> = {
+  conservative: 'low',
+  moderate: 'medium',
+  aggressive: 'high',
+};
+
+const RISK_CLASS_ORDER: Record<AssetRiskClass, number> = { low: 0, medium: 1, high: 2 };
+
+// Justificativa mínima para alocar fora do perfil quando o caso é bloqueante
+export const MIN_OVERRIDE_REASON_LENGTH = 10;
+
+const MIN_SCORE = suitabilityQuestions.length;
+const MAX_SCORE = suitabilityQuestions.length * 4;
+
+export interface SuitabilityResult {
+  score: number;
+  profile: RiskProfile;
+  riskTolerance: number;
+}
+
+export const getUnansweredQuestions = (answers: Record<string, string>): SuitabilityQuestion[] =>
+  suitabilityQuestions.filter(question => !question.options.some(option => option.id === answers[question.id]));
+
+/**
+ * Pontuação das respostas: até 16 conservador, até 24 moderado, acima arrojado.
+ * A tolerância a risco (1-10) é a pontuação normalizada.
+ */
+export const scoreSuitability = (answers: Record<string, string>): SuitabilityResult => {
+  const unanswered = getUnansweredQuestions(answers);
+  if (unanswered.length > 0) {
+    throw new ValidationError(
+      'Responda todas as perguntas do questionário',
+      Object.fromEntries(unanswered.map(question => [question.id, 'Selecione uma opção']))
+    );
+  }
+
+  const score = suitabilityQuestions.reduce(
+    (sum, question) => sum + (question.options.find(option => option.id === answers[question.id])?.points ?? 0),
+    0
+  );
+  const profile: RiskProfile = score <= 16 ? 'conservative' : score <= 24 ? 'moderate' : 'aggressive';
+  const riskTolerance = Math.round(1 + (9 * (score - MIN_SCORE)) / (MAX_SCORE - MIN_SCORE));
+
+  return { score, profile, riskTolerance };
+};
+
+export const getSuitabilityExpiry = (completedAt: Date, months = SUITABILITY_VALIDITY_MONTHS): Date => {
+  const expiresAt = new Date(completedAt);
+  expiresAt.setMonth(expiresAt.getMonth() + months);
+  return expiresAt;
+};
+
+export type SuitabilityState = 'missing' | 'expired' | 'valid';
+
+export interface SuitabilityStatus {
+  state: SuitabilityState;
+  latest?: SuitabilityAssessment;
+}
+
+/**
+ * Situação do perfil pelo questionário mais recente: sem avaliação, vencido ou válido
+ */
+export const getSuitabilityStatus = (
+  assessments: SuitabilityAssessment[],
+  today: Date = new Date()
+): SuitabilityStatus => {
+  const latest = [...assessments].sort((a, b) => b.completedAt.getTime() - a.completedAt.getTime())[0];
+  if (!latest) return { state: 'missing' };
+  return { state: latest.expiresAt <= today ? 'expired' : 'valid', latest };
+};
+
+export type SuitabilityFit = 'suitable' | 'warning' | 'blocked';
+
+export interface SuitabilityCheck {
+  fit: SuitabilityFit;
+  profile: InvestmentProfile;
+  riskClass: AssetRiskClass;
+  reason?: string;
+}
+
+/**
+ * Adequação de um tipo de ativo ao perfil apurado no questionário mais recente (não ao cadastro do
+ * cliente, que pode ter sido alterado por fora). Uma classe acima do perfil gera alerta;
+ * duas classes acima, perfil ausente ou vencido bloqueiam a alocação.
+ */
+export const checkSuitability = (status: SuitabilityStatus, assetType: AssetType): SuitabilityCheck => {
+  const riskClass = assetRiskClasses[assetType];
+
+  if (!status.latest) {
+    return { fit: 'blocked', profile: 'not_defined', riskClass, reason: 'Cliente sem perfil de suitability' };
+  }
+  const profile = status.latest.profile;
+  if (status.state === 'expired') {
+    return { fit: 'blocked', profile, riskClass, reason: 'Perfil de suitability vencido' };
+  }
+
+  const gap = RISK_CLASS_ORDER[riskClass] - RISK_CLASS_ORDER[maxRiskClass[profile]];
+  if (gap <= 0) return { fit: 'suitable', profile, riskClass };
+
+  const reason = `${assetRiskClassLabels[riskClass]} acima do perfil ${riskProfileLabels[profile].toLowerCase()}`;
+  return { fit: gap === 1 ? 'warning' : 'blocked', profile, riskClass, reason };
+};
+
+/**
+ * Alocação fora do perfil só segue com a ciência registrada; nos bloqueios, com justificativa
+ */
+export const assertSuitabilityOverride = (check: SuitabilityCheck, override?: SuitabilityOverride): void => {
+  if (check.fit === 'suitable') return;
+
+  if (!override) {
+    throw new ValidationError(check.reason ?? 'Ativo fora do perfil do cliente', {
+      suitability_override: 'Confirme a ciência do desenquadramento',
+    });
+  }
+  if (check.fit === 'blocked' && override.reason.trim().length < MIN_OVERRIDE_REASON_LENGTH) {
+    throw new ValidationError(check.reason ?? 'Ativo fora do perfil do cliente', {
+      'suitability_override.reason': `Justifique com pelo menos ${MIN_OVERRIDE_REASON_LENGTH} caracteres`,
+    });
+  }
+};
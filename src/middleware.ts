@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE } from './lib/session';
+import { getSafeRedirect } from './lib/auth';
 
 // Rotas que requerem autenticação
 const protectedRoutes = [
@@ -25,9 +27,9 @@ const publicRoutes = [
 ];
 
 export function middleware(request: NextRequest) {
-  const { pathname } = request.nextUrl;
-  const token = request.cookies.get('access_token')?.value || 
-                request.headers.get('authorization')?.replace('Bearer ', '');
+  const { pathname, search } = request.nextUrl;
+  // Cookie httpOnly gravado pelas rotas /api/auth
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
 
   // Verificar se é uma rota protegida
   const isProtectedRoute = protectedRoutes.some(route => 
@@ -48,13 +50,14 @@ export function middleware(request: NextRequest) {
   // Se for rota protegida e não tem token, redirecionar para login
   if (isProtectedRoute && !token) {
     const loginUrl = new URL('/login', request.url);
-    loginUrl.searchParams.set('redirect', pathname);
+    loginUrl.searchParams.set('redirect', pathname + search);
     return NextResponse.redirect(loginUrl);
   }
 
-  // Se for rota de auth e tem token, redirecionar para dashboard
+  // Se for rota de auth e tem token, voltar para a página pedida ou para o dashboard
   if (isAuthRoute && token) {
-    return NextResponse.redirect(new URL('/dashboard', request.url));
+    const redirect = getSafeRedirect(request.nextUrl.searchParams.get('redirect'));
+    return NextResponse.redirect(new URL(redirect, request.url));
   }
 
   // Para todas as outras rotas, continuar normalmente
@@ -1,7 +1,7 @@
 import { z } from 'zod';
 
 // CPF validation function
-const validateCPF = (cpf: string): boolean => {
+export const validateCPF = (cpf: string): boolean => {
   const cleanCPF = cpf.replace(/[^\d]/g, '');
   
   if (cleanCPF.length !== 11) return false;
@@ -115,7 +115,6 @@ export const quickClientSchema = z.object({
   cpf: z.string().refine(validateCPF, 'CPF inválido'),
   email: z.string().email('Email inválido'),
   phone: z.string().regex(phoneRegex, 'Telefone inválido'),
-  investmentProfile: z.enum(['conservative', 'moderate', 'aggressive', 'not_defined']),
 });
 
 // Search and filter schemas
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { AssetType } from '../types/investment';
 
 // Asset Type enum validation
 export const assetTypeSchema = z.enum([
@@ -14,6 +15,10 @@ export const assetTypeSchema = z.enum([
   'other'
 ]);
 
+export const fixedIncomeIndexerSchema = z.enum(['cdi', 'selic', 'ipca', 'prefixado']);
+
+export const fixedIncomeLiquiditySchema = z.enum(['daily', 'at_maturity']);
+
 // Transaction Type enum validation
 export const transactionTypeSchema = z.enum([
   'buy',
@@ -62,6 +67,10 @@ export const assetSchema = z.object({
     .length(3, 'Moeda deve ter 3 caracteres')
     .default('BRL'),
   
+  exchange: z.string()
+    .max(20, 'Bolsa muito longa')
+    .optional(),
+  
   isin: z.string()
     .length(12, 'ISIN deve ter 12 caracteres')
     .regex(/^[A-Z]{2}[A-Z0-9]{10}$/, 'ISIN inválido')
@@ -78,6 +87,38 @@ export const assetSchema = z.object({
   benchmark: z.string()
     .max(50, 'Benchmark muito longo')
     .optional(),
+  
+  issuer: z.string()
+    .max(100, 'Emissor muito longo')
+    .optional(),
+  
+  indexer: fixedIncomeIndexerSchema.optional(),
+  
+  rate: z.number({ message: 'Taxa inválida' })
+    .min(0, 'Taxa não pode ser negativa')
+    .max(1000, 'Taxa muito alta')
+    .optional(),
+  
+  issueDate: z.date({ message: 'Data de emissão inválida' }).optional(),
+  
+  maturityDate: z.date({ message: 'Data de vencimento inválida' }).optional(),
+  
+  liquidity: fixedIncomeLiquiditySchema.optional(),
+}).superRefine((asset, ctx) => {
+  // Renda fixa só é marcada na curva com indexador, taxa e vencimento
+  if (!assetTypeFields[asset.type].includes('indexer')) return;
+  if (!asset.indexer) {
+    ctx.addIssue({ code: 'custom', path: ['indexer'], message: 'Indexador é obrigatório para renda fixa' });
+  }
+  if (asset.rate === undefined) {
+    ctx.addIssue({ code: 'custom', path: ['rate'], message: 'Taxa é obrigatória para renda fixa' });
+  }
+  if (!asset.maturityDate) {
+    ctx.addIssue({ code: 'custom', path: ['maturityDate'], message: 'Vencimento é obrigatório para renda fixa' });
+  }
+  if (asset.issueDate && asset.maturityDate && asset.issueDate >= asset.maturityDate) {
+    ctx.addIssue({ code: 'custom', path: ['maturityDate'], message: 'Vencimento deve ser posterior à emissão' });
+  }
 });
 
 // Investment creation schema
@@ -169,6 +210,55 @@ export const quickInvestmentSchema = z.object({
   type: z.enum(['buy', 'sell']).default('buy'),
 });
 
+// Fechamento informado manualmente no histórico de cotações
+export const priceEntrySchema = z.object({
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida')
+    .refine(date => date <= new Date().toISOString().slice(0, 10), 'Data não pode ser no futuro'),
+  close: z.number({ message: 'Fechamento inválido' })
+    .min(0.000001, 'Fechamento deve ser maior que zero')
+    .max(1000000, 'Preço muito alto'),
+  volume: z.number({ message: 'Volume inválido' })
+    .min(0, 'Volume não pode ser negativo')
+    .optional(),
+});
+
+// Evento societário: cada tipo exige os seus campos
+export const corporateActionSchema = z.object({
+  asset_id: z.number({ message: 'Selecione um ativo' }).int().positive('Selecione um ativo'),
+  type: z.enum(['split', 'reverse_split', 'bonus', 'dividend', 'jcp'], { message: 'Tipo de evento inválido' }),
+  ex_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data ex inválida'),
+  ratio: z.number({ message: 'Proporção inválida' }).positive('Proporção deve ser maior que zero').optional(),
+  assigned_cost: z.number({ message: 'Custo atribuído inválido' }).min(0, 'Custo não pode ser negativo').optional(),
+  amount_per_share: z.number({ message: 'Valor por ação inválido' }).positive('Valor deve ser maior que zero').optional(),
+  payment_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data de pagamento inválida').optional(),
+  note: z.string().max(200, 'Observação muito longa').optional(),
+}).superRefine((action, ctx) => {
+  if (action.type === 'split' || action.type === 'reverse_split') {
+    if (action.ratio === undefined) {
+      ctx.addIssue({ code: 'custom', path: ['ratio'], message: 'Proporção é obrigatória' });
+    } else if (action.ratio <= 1) {
+      ctx.addIssue({ code: 'custom', path: ['ratio'], message: 'Proporção deve ser maior que 1' });
+    }
+  }
+  if (action.type === 'bonus') {
+    if (action.ratio === undefined) {
+      ctx.addIssue({ code: 'custom', path: ['ratio'], message: 'Percentual da bonificação é obrigatório' });
+    }
+    if (action.assigned_cost === undefined) {
+      ctx.addIssue({ code: 'custom', path: ['assigned_cost'], message: 'Custo atribuído é obrigatório' });
+    }
+  }
+  if (action.type === 'dividend' || action.type === 'jcp') {
+    if (action.amount_per_share === undefined) {
+      ctx.addIssue({ code: 'custom', path: ['amount_per_share'], message: 'Valor por ação é obrigatório' });
+    }
+    if (action.payment_date && action.payment_date < action.ex_date) {
+      ctx.addIssue({ code: 'custom', path: ['payment_date'], message: 'Pagamento não pode ser antes da data ex' });
+    }
+  }
+});
+
 // Filter schemas
 export const assetFiltersSchema = z.object({
   search: z.string().optional(),
@@ -255,6 +345,46 @@ export const assetTypeLabels: Record<string, string> = {
   other: 'Outros',
 };
 
+export const fixedIncomeIndexerLabels: Record<string, string> = {
+  cdi: 'CDI',
+  selic: 'SELIC',
+  ipca: 'IPCA',
+  prefixado: 'Prefixado',
+};
+
+export const fixedIncomeLiquidityLabels: Record<string, string> = {
+  daily: 'Diária',
+  at_maturity: 'No vencimento',
+};
+
+export type AssetDetailField =
+  | 'isin'
+  | 'cnpj'
+  | 'manager'
+  | 'benchmark'
+  | 'issuer'
+  | 'indexer'
+  | 'rate'
+  | 'issueDate'
+  | 'maturityDate'
+  | 'liquidity';
+
+const FIXED_INCOME_FIELDS: AssetDetailField[] = ['issuer', 'indexer', 'rate', 'issueDate', 'maturityDate', 'liquidity'];
+
+// Campos cadastrais que fazem sentido para cada tipo de ativo
+export const assetTypeFields: Record<AssetType, AssetDetailField[]> = {
+  stocks: [],
+  bonds: [...FIXED_INCOME_FIELDS, 'isin'],
+  real_estate_funds: ['cnpj', 'manager'],
+  investment_funds: ['cnpj', 'manager', 'benchmark'],
+  fixed_income: FIXED_INCOME_FIELDS,
+  savings: [],
+  crypto: [],
+  commodities: [],
+  international: ['isin'],
+  other: [],
+};
+
 // Transaction type translations
 export const transactionTypeLabels: Record<string, string> = {
   buy: 'Compra',
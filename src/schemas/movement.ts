@@ -134,6 +134,7 @@ export const movementTemplateSchema = z.object({
     .min(3, 'Descrição deve ter pelo menos 3 caracteres')
     .max(300, 'Descrição deve ter no máximo 300 caracteres'),
   type: movementTypeSchema,
+  clientId: z.string().optional(),
   defaultAmount: z.number().min(0).optional(),
   paymentMethod: paymentMethodSchema.optional(),
   bankDetails: bankDetailsSchema,
@@ -141,9 +142,20 @@ export const movementTemplateSchema = z.object({
   recurringConfig: z.object({
     frequency: z.enum(['daily', 'weekly', 'monthly', 'quarterly', 'yearly']),
     interval: z.number().min(1).max(365),
+    startDate: z.date({ message: 'Data de início inválida' }),
     endDate: z.date().optional(),
     maxOccurrences: z.number().min(1).optional(),
+  }).refine(config => !config.endDate || config.endDate >= config.startDate, {
+    message: 'Data final deve ser posterior ao início',
+    path: ['endDate'],
   }).optional(),
+}).refine(data => !data.isRecurring || (data.recurringConfig && data.clientId), {
+  // Agendamentos geram movimentações: precisam de cliente e recorrência
+  message: 'Modelos recorrentes precisam de cliente e recorrência',
+  path: ['clientId'],
+}).refine(data => !data.isRecurring || (data.defaultAmount ?? 0) > 0, {
+  message: 'Informe o valor de cada ocorrência',
+  path: ['defaultAmount'],
 });
 
 // Brazilian validation helpers
@@ -1,4 +1,7 @@
 import { apiClient } from '../lib/api';
+import { mockAllocationService } from './mock/mockAllocationService';
+import { withMockFallback } from './mock/withMockFallback';
+import { summarizeAllocations } from '../lib/allocations';
 import type { 
   AllocationCreate, 
   AllocationUpdate, 
@@ -25,6 +28,8 @@ class RealAllocationService implements AllocationService {
     const params = new URLSearchParams();
     
     if (filters?.client_id) params.append('client_id', filters.client_id.toString());
+    if (filters?.client_ids?.length) params.append('client_ids', filters.client_ids.join(','));
+    if (filters?.asset_id) params.append('asset_id', filters.asset_id.toString());
     if (filters?.skip) params.append('skip', filters.skip.toString());
     if (filters?.limit) params.append('limit', filters.limit.toString());
     
@@ -33,8 +38,13 @@ class RealAllocationService implements AllocationService {
     
     const backendAllocations = await apiClient.get<any[]>(url);
     
+    // Versões antigas do backend ignoram asset_id: o filtro é refeito aqui para não misturar ativos
+    const matching = filters?.asset_id
+      ? backendAllocations.filter(ba => ba.asset_id === filters.asset_id)
+      : backendAllocations;
+
     // Convert backend format to frontend format
-    return backendAllocations.map(ba => ({
+    return matching.map(ba => ({
       id: ba.id,
       client_id: ba.client_id,
       asset_id: ba.asset_id,
@@ -45,6 +55,7 @@ class RealAllocationService implements AllocationService {
       asset_ticker: ba.asset_ticker,
       asset_name: ba.asset_name,
       total_invested: parseFloat(ba.total_invested),
+      suitability_override: ba.suitability_override ?? undefined,
     }));
   }
 
@@ -62,6 +73,7 @@ class RealAllocationService implements AllocationService {
       asset_ticker: backendAllocation.asset_ticker,
       asset_name: backendAllocation.asset_name,
       total_invested: parseFloat(backendAllocation.total_invested),
+      suitability_override: backendAllocation.suitability_override ?? undefined,
     };
   }
 
@@ -72,6 +84,7 @@ class RealAllocationService implements AllocationService {
       quantity: allocation.quantity,
       buy_price: allocation.buy_price,
       buy_date: allocation.buy_date,
+      suitability_override: allocation.suitability_override,
     };
 
     const backendAllocation = await apiClient.post<any>('/allocations', backendData);
@@ -83,6 +96,7 @@ class RealAllocationService implements AllocationService {
       quantity: parseFloat(backendAllocation.quantity),
       buy_price: parseFloat(backendAllocation.buy_price),
       buy_date: backendAllocation.buy_date,
+      suitability_override: backendAllocation.suitability_override ?? undefined,
     };
   }
 
@@ -123,23 +137,12 @@ class RealAllocationService implements AllocationService {
       asset_ticker: ba.asset_ticker,
       asset_name: ba.asset_name,
       total_invested: parseFloat(ba.total_invested),
+      suitability_override: ba.suitability_override ?? undefined,
     }));
   }
 
   async getAllocationSummary(): Promise<AllocationSummary> {
-    // Get all allocations and calculate summary
-    const allocations = await this.getAllocations();
-    
-    const uniqueClients = new Set(allocations.map(a => a.client_id)).size;
-    const uniqueAssets = new Set(allocations.map(a => a.asset_id)).size;
-    const totalInvested = allocations.reduce((sum, a) => sum + a.total_invested, 0);
-    
-    return {
-      total_allocations: allocations.length,
-      total_invested: totalInvested,
-      unique_clients: uniqueClients,
-      unique_assets: uniqueAssets,
-    };
+    return summarizeAllocations(await this.getAllocations());
   }
 
   async getClientAllocationSummary(clientId: number): Promise<ClientAllocationSummary> {
@@ -163,8 +166,8 @@ class RealAllocationService implements AllocationService {
   }
 }
 
-// Export the real service
-export const allocationService = new RealAllocationService();
+// Export the real service, falling back to the local demo backend when the API is unreachable
+export const allocationService = withMockFallback<AllocationService>(new RealAllocationService(), mockAllocationService);
 
 // Export as adaptedAllocationService for compatibility
-export const adaptedAllocationService = new RealAllocationService();
\ No newline at end of file
+export const adaptedAllocationService = allocationService;
\ No newline at end of file
@@ -1,79 +1,166 @@
 import { apiClient } from '../lib/api';
-import type { Asset } from '../types/investment';
+import { mockAssetService } from './mock/mockAssetService';
+import { withMockFallback } from './mock/withMockFallback';
+import type { Asset, AssetType, FixedIncomeIndexer, FixedIncomeLiquidity } from '../types/investment';
+
+export type AssetCreate = Omit<Asset, 'id' | 'createdAt' | 'updatedAt' | 'lastUpdate'>;
+
+// Campos do cadastro que podem ficar em branco; na edição, null apaga o valor gravado
+const CLEARABLE_FIELDS = [
+  'sector',
+  'description',
+  'exchange',
+  'isin',
+  'cnpj',
+  'manager',
+  'benchmark',
+  'issuer',
+  'indexer',
+  'rate',
+  'issueDate',
+  'maturityDate',
+  'liquidity',
+] as const;
+
+type ClearableField = typeof CLEARABLE_FIELDS[number];
+
+export type AssetUpdate = Partial<Omit<AssetCreate, ClearableField>> & {
+  [K in ClearableField]?: AssetCreate[K] | null;
+};
+
+/**
+ * Edição completa pelo formulário: campos vazios ou que não se aplicam ao tipo viram null,
+ * para não manter o valor anterior (ex: dados de renda fixa depois de mudar o tipo)
+ */
+export const toAssetUpdate = (asset: AssetCreate): AssetUpdate => ({
+  ...Object.fromEntries(CLEARABLE_FIELDS.map(field => [field, null])),
+  ...Object.fromEntries(Object.entries(asset).filter(([, value]) => value !== undefined)),
+});
 
 export interface AssetService {
   getAssets: () => Promise<Asset[]>;
   getAsset: (id: string) => Promise<Asset>;
   getAssetById: (id: number) => Promise<any>;
-  createAsset: (asset: Omit<Asset, 'id' | 'createdAt' | 'updatedAt' | 'lastUpdate'>) => Promise<Asset>;
-  updateAsset: (id: string, asset: Partial<Omit<Asset, 'id' | 'createdAt' | 'updatedAt' | 'lastUpdate'>>) => Promise<Asset>;
+  createAsset: (asset: AssetCreate) => Promise<Asset>;
+  updateAsset: (id: string, asset: AssetUpdate) => Promise<Asset>;
   deleteAsset: (id: number) => Promise<void>;
   searchYahooAsset: (symbol: string) => Promise<any>;
   createAssetFromYahoo: (symbol: string) => Promise<Asset>;
 }
 
+// Sem cotação o preço fica indefinido, para a avaliação da carteira usar o custo médio
+const parsePrice = (value: unknown): number | undefined => {
+  const price = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof price === 'number' && price > 0 ? price : undefined;
+};
+
+
+// Formato do backend: snake_case, Decimal como string e datas serializadas
+interface BackendAsset {
+  id: number;
+  ticker: string;
+  name: string;
+  type?: AssetType | null;
+  sector?: string | null;
+  description?: string | null;
+  current_price?: string | number | null;
+  currency?: string | null;
+  exchange?: string | null;
+  market_cap?: string | number | null;
+  dividend_yield?: string | number | null;
+  isin?: string | null;
+  cnpj?: string | null;
+  manager?: string | null;
+  benchmark?: string | null;
+  issuer?: string | null;
+  indexer?: FixedIncomeIndexer | null;
+  rate?: string | number | null;
+  issue_date?: string | null;
+  maturity_date?: string | null;
+  liquidity?: FixedIncomeLiquidity | null;
+  last_update?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+type BackendAssetData = Partial<Omit<BackendAsset, 'id' | 'last_update' | 'created_at' | 'updated_at'>>;
+
+const optional = <T>(value: T | null | undefined): T | undefined => value ?? undefined;
+
+const optionalNumber = (value: string | number | null | undefined): number | undefined =>
+  value === null || value === undefined ? undefined : Number(value);
+
+const optionalDate = (value: string | null | undefined): Date | undefined => value ? new Date(value) : undefined;
+
+// Versões antigas do backend só guardam ticker, nome, bolsa e moeda
+const fromBackend = (ba: BackendAsset): Asset => ({
+  id: ba.id.toString(),
+  symbol: ba.ticker,
+  name: ba.name,
+  type: ba.type ?? 'stocks',
+  sector: optional(ba.sector),
+  description: optional(ba.description),
+  currentPrice: parsePrice(ba.current_price),
+  currency: ba.currency || 'USD',
+  exchange: optional(ba.exchange),
+  marketCap: optionalNumber(ba.market_cap),
+  dividendYield: optionalNumber(ba.dividend_yield),
+  isin: optional(ba.isin),
+  cnpj: optional(ba.cnpj),
+  manager: optional(ba.manager),
+  benchmark: optional(ba.benchmark),
+  issuer: optional(ba.issuer),
+  indexer: optional(ba.indexer),
+  rate: optionalNumber(ba.rate),
+  issueDate: optionalDate(ba.issue_date),
+  maturityDate: optionalDate(ba.maturity_date),
+  liquidity: optional(ba.liquidity),
+  lastUpdate: optionalDate(ba.last_update) ?? new Date(),
+  createdAt: optionalDate(ba.created_at) ?? new Date(),
+  updatedAt: optionalDate(ba.updated_at) ?? new Date(),
+});
+
+const toBackendDate = (date: Date | null | undefined) => date === null ? null : date?.toISOString().slice(0, 10);
+
+// Só envia os campos informados (null apaga), para a edição parcial não apagar o restante
+const toBackend = (asset: AssetUpdate): BackendAssetData => {
+  const data: BackendAssetData = {
+    ticker: asset.symbol,
+    name: asset.name,
+    type: asset.type,
+    sector: asset.sector,
+    description: asset.description,
+    current_price: asset.currentPrice,
+    currency: asset.currency,
+    exchange: asset.exchange,
+    market_cap: asset.marketCap,
+    dividend_yield: asset.dividendYield,
+    isin: asset.isin,
+    cnpj: asset.cnpj,
+    manager: asset.manager,
+    benchmark: asset.benchmark,
+    issuer: asset.issuer,
+    indexer: asset.indexer,
+    rate: asset.rate,
+    issue_date: toBackendDate(asset.issueDate),
+    maturity_date: toBackendDate(asset.maturityDate),
+    liquidity: asset.liquidity,
+  };
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+};
+
 class RealAssetService implements AssetService {
   async getAssets(): Promise<Asset[]> {
-    const backendAssets = await apiClient.get<any[]>('/assets');
-    
-    // Convert backend format to frontend format
-    return backendAssets.map(ba => ({
-      id: ba.id.toString(),
-      symbol: ba.ticker,
-      name: ba.name,
-      type: 'stocks' as const,
-      currency: ba.currency || 'USD',
-      exchange: ba.exchange,
-      lastUpdate: new Date(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }));
+    const backendAssets = await apiClient.get<BackendAsset[]>('/assets');
+    return backendAssets.map(fromBackend);
   }
 
   async getAsset(id: string): Promise<Asset> {
-    const backendAsset = await apiClient.get<any>(`/assets/${id}`);
-    
-    return {
-      id: backendAsset.id.toString(),
-      symbol: backendAsset.ticker,
-      name: backendAsset.name,
-      type: 'stocks' as const,
-      sector: 'Unknown',
-      currency: backendAsset.currency || 'USD',
-      currentPrice: 0,
-      marketCap: 0,
-      dividendYield: undefined,
-      lastUpdate: new Date(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    return fromBackend(await apiClient.get<BackendAsset>(`/assets/${id}`));
   }
 
-  async createAsset(asset: Omit<Asset, 'id' | 'createdAt' | 'updatedAt' | 'lastUpdate'>): Promise<Asset> {
-    // Convert frontend format to backend format
-    const backendData = {
-      ticker: asset.symbol,
-      name: asset.name,
-      exchange: 'Unknown',
-      currency: asset.currency,
-    };
-
-    const backendAsset = await apiClient.post<any>('/assets', backendData);
-    
-    return {
-      id: backendAsset.id.toString(),
-      symbol: backendAsset.ticker,
-      name: backendAsset.name,
-      type: 'stocks' as const,
-      sector: 'Unknown',
-      currency: backendAsset.currency || 'USD',
-      currentPrice: 0,
-      marketCap: 0,
-      dividendYield: undefined,
-      lastUpdate: new Date(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+  async createAsset(asset: AssetCreate): Promise<Asset> {
+    return fromBackend(await apiClient.post<BackendAsset>('/assets', toBackend(asset)));
   }
 
   async getAssetById(id: number): Promise<any> {
@@ -88,30 +175,8 @@ class RealAssetService implements AssetService {
     };
   }
 
-  async updateAsset(id: string, asset: Partial<Omit<Asset, 'id' | 'createdAt' | 'updatedAt' | 'lastUpdate'>>): Promise<Asset> {
-    // Convert frontend format to backend format
-    const backendData: any = {};
-    
-    if (asset.symbol !== undefined) backendData.ticker = asset.symbol;
-    if (asset.name !== undefined) backendData.name = asset.name;
-    if (asset.currency !== undefined) backendData.currency = asset.currency;
-
-    const backendAsset = await apiClient.put<any>(`/assets/${id}`, backendData);
-    
-    return {
-      id: backendAsset.id.toString(),
-      symbol: backendAsset.ticker,
-      name: backendAsset.name,
-      type: 'stocks' as const,
-      sector: 'Unknown',
-      currency: backendAsset.currency || 'USD',
-      currentPrice: 0,
-      marketCap: 0,
-      dividendYield: undefined,
-      lastUpdate: new Date(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+  async updateAsset(id: string, asset: AssetUpdate): Promise<Asset> {
+    return fromBackend(await apiClient.put<BackendAsset>(`/assets/${id}`, toBackend(asset)));
   }
 
   async deleteAsset(id: number): Promise<void> {
@@ -123,27 +188,12 @@ class RealAssetService implements AssetService {
   }
 
   async createAssetFromYahoo(symbol: string): Promise<Asset> {
-    const backendAsset = await apiClient.post<any>(`/assets/from-yahoo/${symbol}`);
-    
-    return {
-      id: backendAsset.id.toString(),
-      symbol: backendAsset.ticker,
-      name: backendAsset.name,
-      type: 'stocks' as const,
-      sector: 'Unknown',
-      currency: backendAsset.currency || 'USD',
-      currentPrice: 0,
-      marketCap: 0,
-      dividendYield: undefined,
-      lastUpdate: new Date(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    return fromBackend(await apiClient.post<BackendAsset>(`/assets/from-yahoo/${symbol}`));
   }
 }
 
-// Export the real service
-export const assetService = new RealAssetService();
+// Export the real service, falling back to the local demo backend when the API is unreachable
+export const assetService = withMockFallback<AssetService>(new RealAssetService(), mockAssetService);
 
 // Export as adaptedAssetService for compatibility
-export const adaptedAssetService = new RealAssetService();
\ No newline at end of file
+export const adaptedAssetService = assetService;
\ No newline at end of file
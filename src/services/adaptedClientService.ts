@@ -1,5 +1,16 @@
 import { apiClient, checkBackendHealth } from '../lib/api';
-import type { Client, ClientWithAssets, ClientFilters, InvestmentProfile, ClientStatus } from '../types/client';
+import { NotFoundError } from '../lib/errors';
+import { mockClientService } from './mock/mockClientService';
+import { withMockFallback } from './mock/withMockFallback';
+import { allocationService } from './adaptedAllocationService';
+import { assetService } from './adaptedAssetService';
+import { corporateActionService } from './adaptedCorporateActionService';
+import { saleService } from './adaptedSaleService';
+import { marketIndexService } from './marketIndexService';
+import { storedPriceSource } from './priceHistoryService';
+import { toClientWithAssets, valuePortfolio } from '../lib/portfolio/valuation';
+import type { CostMethod } from '../lib/portfolio/lots';
+import type { Client, ClientWithAssets, ClientFilters, ClientStats, InvestmentProfile, ClientStatus } from '../types/client';
 import type { PaginatedResponse } from '../lib/api';
 
 export interface ClientService {
@@ -10,12 +21,114 @@ export interface ClientService {
     limit?: number
   ) => Promise<PaginatedResponse<Client>>;
   getClient: (id: string) => Promise<Client>;
+  getClientStats: () => Promise<ClientStats>;
   createClient: (client: Omit<Client, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Client>;
   updateClient: (id: string, client: Partial<Client>) => Promise<Client>;
   deleteClient: (id: string) => Promise<void>;
-  getClientWithAssets: (id: string) => Promise<ClientWithAssets>;
+  getClientWithAssets: (id: string, costMethod?: CostMethod) => Promise<ClientWithAssets>;
 }
 
+// Campos de ordenação do front (ClientSortOptions) -> colunas do backend
+const SORT_FIELDS: Record<string, string> = {
+  name: 'name',
+  createdAt: 'created_at',
+  lastContactDate: 'last_contact_date',
+  netWorth: 'net_worth',
+};
+
+// Registro de cliente como vem da API (snake_case); campos opcionais podem vir nulos
+interface BackendClient {
+  id: number | string;
+  name: string;
+  cpf: string;
+  rg?: string | null;
+  birth_date?: string | null;
+  gender?: Client['gender'] | null;
+  email: string;
+  phone?: string | null;
+  mobile?: string | null;
+  whatsapp?: string | null;
+  street?: string | null;
+  number?: string | null;
+  complement?: string | null;
+  neighborhood?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip_code?: string | null;
+  country?: string | null;
+  investment_profile?: InvestmentProfile | null;
+  risk_tolerance?: number | null;
+  investment_experience?: Client['investmentExperience'] | null;
+  monthly_income?: number | string | null;
+  net_worth?: number | string | null;
+  investment_goals?: string[] | null;
+  status?: ClientStatus | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  created_by?: string | null;
+  last_contact_date?: string | null;
+  notes?: string | null;
+  tags?: string[] | null;
+  referral_source?: string | null;
+}
+
+// Corpo de criação/atualização: só os campos informados
+type BackendClientPayload = Partial<Omit<BackendClient, 'id' | 'created_at' | 'updated_at' | 'last_contact_date'>>;
+
+interface BackendClientStats {
+  total?: number;
+  active?: number;
+  prospects?: number;
+  inactive?: number;
+  suspended?: number;
+  total_investments?: number;
+  average_portfolio_value?: number | string;
+}
+
+// Backends sem /clients/stats: contagem sobre a lista, como a tela fazia antes do endpoint
+const STATS_FALLBACK_LIMIT = 1000;
+
+const toDate = (value: string | null | undefined) => (value ? new Date(value) : new Date());
+
+const fromBackend = (bc: BackendClient): Client => ({
+  id: bc.id.toString(),
+  name: bc.name || '',
+  cpf: bc.cpf || '',
+  rg: bc.rg ?? undefined,
+  birthDate: toDate(bc.birth_date),
+  gender: bc.gender ?? undefined,
+  contact: {
+    email: bc.email || '',
+    phone: bc.phone || '',
+    mobile: bc.mobile ?? undefined,
+    whatsapp: bc.whatsapp ?? undefined,
+  },
+  address: {
+    street: bc.street || '',
+    number: bc.number || '',
+    complement: bc.complement ?? undefined,
+    neighborhood: bc.neighborhood || '',
+    city: bc.city || '',
+    state: bc.state || '',
+    zipCode: bc.zip_code || '',
+    country: bc.country || 'Brasil',
+  },
+  investmentProfile: bc.investment_profile || 'not_defined',
+  riskTolerance: bc.risk_tolerance ?? 5,
+  investmentExperience: bc.investment_experience || 'beginner',
+  monthlyIncome: Number(bc.monthly_income ?? 0),
+  netWorth: Number(bc.net_worth ?? 0),
+  investmentGoals: bc.investment_goals ?? [],
+  status: bc.status || 'active',
+  createdAt: toDate(bc.created_at),
+  updatedAt: toDate(bc.updated_at),
+  createdBy: bc.created_by || 'system',
+  lastContactDate: bc.last_contact_date ? new Date(bc.last_contact_date) : undefined,
+  notes: bc.notes || '',
+  tags: bc.tags ?? [],
+  referralSource: bc.referral_source ?? undefined,
+});
+
 class RealClientService implements ClientService {
   async getClients(
     filters?: ClientFilters,
@@ -32,119 +145,74 @@ class RealClientService implements ClientService {
     if (filters?.search?.trim()) params.append('search', filters.search.trim());
     if (filters?.status) params.append('status', filters.status);
     if (filters?.investmentProfile) params.append('investment_profile', filters.investmentProfile);
+    if (filters?.createdFrom) params.append('created_from', filters.createdFrom);
+    if (filters?.createdTo) params.append('created_to', filters.createdTo);
+    filters?.tags?.forEach(tag => params.append('tags', tag));
     if (sortBy) {
-      params.append('sort_by', sortBy.field);
+      params.append('sort_by', SORT_FIELDS[sortBy.field] ?? sortBy.field);
       params.append('sort_direction', sortBy.direction);
     }
 
-    // Backend agora retorna dados completos
-    const backendClients = await apiClient.get<any[]>(`/clients?${params}`);
+    // Backend paginado responde { items, total }; versões antigas devolvem só a lista da página
+    const response = await apiClient.get<BackendClient[] | { items: BackendClient[]; total: number }>(`/clients?${params}`);
+    const backendClients = Array.isArray(response) ? response : response.items;
+    const frontendClients = backendClients.map(fromBackend);
     
-    // Otimized conversion with minimal processing
-    const frontendClients: Client[] = backendClients.map(bc => {
-      // Parse dates only once
-      const createdAt = new Date(bc.created_at);
-      const updatedAt = new Date(bc.updated_at);
-      const birthDate = bc.birth_date ? new Date(bc.birth_date) : new Date();
-      
+    if (!Array.isArray(response)) {
       return {
-        id: bc.id.toString(),
-        name: bc.name || '',
-        cpf: bc.cpf || '',
-        rg: bc.rg,
-        birthDate,
-        gender: bc.gender as 'male' | 'female' | 'other',
-        contact: {
-          email: bc.email || '',
-          phone: bc.phone || '',
-          mobile: bc.mobile,
-          whatsapp: bc.whatsapp,
-        },
-        address: {
-          street: bc.street || '',
-          number: bc.number || '',
-          complement: bc.complement,
-          neighborhood: bc.neighborhood || '',
-          city: bc.city || '',
-          state: bc.state || '',
-          zipCode: bc.zip_code || '',
-          country: bc.country || 'Brasil',
-        },
-        investmentProfile: (bc.investment_profile || 'not_defined') as InvestmentProfile,
-        riskTolerance: bc.risk_tolerance ?? 5,
-        investmentExperience: (bc.investment_experience || 'beginner') as 'beginner' | 'intermediate' | 'advanced',
-        monthlyIncome: bc.monthly_income ?? 0,
-        netWorth: bc.net_worth ?? 0,
-        investmentGoals: bc.investment_goals ?? [],
-        status: (bc.status || 'active') as ClientStatus,
-        createdAt,
-        updatedAt,
-        createdBy: bc.created_by || 'system',
-        lastContactDate: bc.last_contact_date ? new Date(bc.last_contact_date) : undefined,
-        notes: bc.notes || '',
-        tags: bc.tags ?? [],
-        referralSource: bc.referral_source,
+        items: frontendClients,
+        total: response.total,
+        page,
+        totalPages: Math.max(Math.ceil(response.total / limit), 1),
       };
-    });
-    
+    }
+
+    // Sem total: página cheia indica que pode haver uma próxima
+    const skip = (page - 1) * limit;
     return {
       items: frontendClients,
-      total: frontendClients.length,
-      page: page,
-      totalPages: Math.ceil(frontendClients.length / limit),
+      total: skip + frontendClients.length,
+      page,
+      totalPages: frontendClients.length === limit ? page + 1 : page,
     };
   }
 
-  async getClient(id: string): Promise<Client> {
-    const backendClient = await apiClient.get<any>(`/clients/${id}`);
-    
-    // Convert backend format to frontend format (same as in getClients)
-    const createdAt = backendClient.created_at ? new Date(backendClient.created_at) : new Date();
-    const updatedAt = backendClient.updated_at ? new Date(backendClient.updated_at) : new Date();
+  async getClientStats(): Promise<ClientStats> {
+    let stats: BackendClientStats;
+    try {
+      stats = await apiClient.get<BackendClientStats>('/clients/stats');
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+
+      const { items } = await this.getClients(undefined, undefined, 1, STATS_FALLBACK_LIMIT);
+      const countByStatus = (status: ClientStatus) => items.filter(client => client.status === status).length;
+      stats = {
+        total: items.length,
+        active: countByStatus('active'),
+        prospects: countByStatus('prospect'),
+        inactive: countByStatus('inactive'),
+        suspended: countByStatus('suspended'),
+      };
+    }
 
     return {
-      id: backendClient.id.toString(),
-      name: backendClient.name,
-      cpf: backendClient.cpf,
-      rg: backendClient.rg,
-      birthDate: new Date(backendClient.birth_date),
-      gender: backendClient.gender,
-      contact: {
-        email: backendClient.email,
-        phone: backendClient.phone || '',
-        mobile: backendClient.mobile,
-        whatsapp: backendClient.whatsapp,
-      },
-      address: {
-        street: backendClient.street || '',
-        number: backendClient.number || '',
-        complement: backendClient.complement,
-        neighborhood: backendClient.neighborhood || '',
-        city: backendClient.city || '',
-        state: backendClient.state || '',
-        zipCode: backendClient.zip_code || '',
-        country: backendClient.country || 'Brasil',
-      },
-      investmentProfile: (backendClient.investment_profile || 'not_defined') as InvestmentProfile,
-      riskTolerance: backendClient.risk_tolerance ?? 5,
-      investmentExperience: (backendClient.investment_experience || 'beginner') as 'beginner' | 'intermediate' | 'advanced',
-      monthlyIncome: backendClient.monthly_income ?? 0,
-      netWorth: backendClient.net_worth ?? 0,
-      investmentGoals: backendClient.investment_goals ?? [],
-      status: (backendClient.status || 'active') as ClientStatus,
-      createdAt,
-      updatedAt,
-      createdBy: backendClient.created_by || 'system',
-      lastContactDate: backendClient.last_contact_date ? new Date(backendClient.last_contact_date) : undefined,
-      notes: backendClient.notes || '',
-      tags: backendClient.tags ?? [],
-      referralSource: backendClient.referral_source,
+      total: stats.total ?? 0,
+      active: stats.active ?? 0,
+      prospects: stats.prospects ?? 0,
+      inactive: stats.inactive ?? 0,
+      suspended: stats.suspended ?? 0,
+      totalInvestments: stats.total_investments ?? 0,
+      averagePortfolioValue: Number(stats.average_portfolio_value ?? 0),
     };
   }
 
+  async getClient(id: string): Promise<Client> {
+    return fromBackend(await apiClient.get<BackendClient>(`/clients/${id}`));
+  }
+
   async createClient(client: Omit<Client, 'id' | 'createdAt' | 'updatedAt'>): Promise<Client> {
     // Convert frontend format to backend format
-    const backendData = {
+    const backendData: BackendClientPayload = {
       name: client.name,
       email: client.contact.email,
       cpf: client.cpf,
@@ -174,54 +242,12 @@ class RealClientService implements ClientService {
       referral_source: client.referralSource,
     };
 
-    const backendClient = await apiClient.post<any>('/clients', backendData);
-    
-    // Convert response back to frontend format
-    const result = {
-      id: backendClient.id.toString(),
-      name: backendClient.name,
-      cpf: backendClient.cpf,
-      rg: backendClient.rg,
-      birthDate: new Date(backendClient.birth_date),
-      gender: backendClient.gender,
-      contact: {
-        email: backendClient.email,
-        phone: backendClient.phone,
-        mobile: backendClient.mobile,
-        whatsapp: backendClient.whatsapp,
-      },
-      address: {
-        street: backendClient.street,
-        number: backendClient.number,
-        complement: backendClient.complement,
-        neighborhood: backendClient.neighborhood,
-        city: backendClient.city,
-        state: backendClient.state,
-        zipCode: backendClient.zip_code,
-        country: backendClient.country,
-      },
-      investmentProfile: backendClient.investment_profile,
-      riskTolerance: backendClient.risk_tolerance,
-      investmentExperience: backendClient.investment_experience,
-      monthlyIncome: backendClient.monthly_income,
-      netWorth: backendClient.net_worth,
-      investmentGoals: backendClient.investment_goals,
-      status: backendClient.status,
-      createdAt: new Date(backendClient.created_at),
-      updatedAt: new Date(backendClient.updated_at),
-      createdBy: backendClient.created_by,
-      lastContactDate: backendClient.last_contact_date ? new Date(backendClient.last_contact_date) : undefined,
-      notes: backendClient.notes,
-      tags: backendClient.tags,
-      referralSource: backendClient.referral_source,
-    };
-    
-    return result;
+    return fromBackend(await apiClient.post<BackendClient>('/clients', backendData));
   }
 
   async updateClient(id: string, client: Partial<Client>): Promise<Client> {
     // Convert frontend format to backend format
-    const backendData: any = {};
+    const backendData: BackendClientPayload = {};
     
     if (client.name !== undefined) backendData.name = client.name;
     if (client.cpf !== undefined) backendData.cpf = client.cpf;
@@ -258,60 +284,33 @@ class RealClientService implements ClientService {
     if (client.tags !== undefined) backendData.tags = client.tags;
     if (client.referralSource !== undefined) backendData.referral_source = client.referralSource;
 
-    const backendClient = await apiClient.put<any>(`/clients/${id}`, backendData);
-    
-    // Convert response back to frontend format
-    const createdAt = backendClient.created_at ? new Date(backendClient.created_at) : new Date();
-    const updatedAt = backendClient.updated_at ? new Date(backendClient.updated_at) : new Date();
-
-    return {
-      id: backendClient.id.toString(),
-      name: backendClient.name,
-      cpf: backendClient.cpf,
-      rg: backendClient.rg,
-      birthDate: new Date(backendClient.birth_date),
-      gender: backendClient.gender,
-      contact: {
-        email: backendClient.email,
-        phone: backendClient.phone || '',
-        mobile: backendClient.mobile,
-        whatsapp: backendClient.whatsapp,
-      },
-      address: {
-        street: backendClient.street || '',
-        number: backendClient.number || '',
-        complement: backendClient.complement,
-        neighborhood: backendClient.neighborhood || '',
-        city: backendClient.city || '',
-        state: backendClient.state || '',
-        zipCode: backendClient.zip_code || '',
-        country: backendClient.country || 'Brasil',
-      },
-      investmentProfile: (backendClient.investment_profile || 'not_defined') as InvestmentProfile,
-      riskTolerance: backendClient.risk_tolerance ?? 5,
-      investmentExperience: (backendClient.investment_experience || 'beginner') as 'beginner' | 'intermediate' | 'advanced',
-      monthlyIncome: backendClient.monthly_income ?? 0,
-      netWorth: backendClient.net_worth ?? 0,
-      investmentGoals: backendClient.investment_goals ?? [],
-      status: (backendClient.status || 'active') as ClientStatus,
-      createdAt,
-      updatedAt,
-      createdBy: backendClient.created_by || 'system',
-      lastContactDate: backendClient.last_contact_date ? new Date(backendClient.last_contact_date) : undefined,
-      notes: backendClient.notes || '',
-      tags: backendClient.tags ?? [],
-      referralSource: backendClient.referral_source,
-    };
+    return fromBackend(await apiClient.put<BackendClient>(`/clients/${id}`, backendData));
   }
 
   async deleteClient(id: string): Promise<void> {
     return apiClient.delete<void>(`/clients/${id}`);
   }
 
-  async getClientWithAssets(id: string): Promise<ClientWithAssets> {
-    return apiClient.get<ClientWithAssets>(`/clients/${id}/assets`);
+  async getClientWithAssets(id: string, costMethod?: CostMethod): Promise<ClientWithAssets> {
+    // O backend só guarda compras e vendas; lotes, posições e valor atual são calculados aqui
+    const [client, allocations, sales, assets, corporateActions] = await Promise.all([
+      this.getClient(id),
+      allocationService.getAllocationsByClient(parseInt(id)),
+      saleService.getSalesByClient(parseInt(id)),
+      assetService.getAssets(),
+      corporateActionService.getCorporateActions(),
+    ]);
+    const [prices, lotValuer] = await Promise.all([
+      storedPriceSource.getPrices(assets),
+      marketIndexService.getFixedIncomeValuer(assets),
+    ]);
+
+    return toClientWithAssets(
+      client,
+      valuePortfolio(allocations, assets, prices, { sales, costMethod, lotValuer, corporateActions })
+    );
   }
 }
 
-// Export the real service directly since backend is working
-export const clientService = new RealClientService();
\ No newline at end of file
+// Usa o backend local (IndexedDB) automaticamente quando a API está fora do ar
+export const clientService = withMockFallback<ClientService>(new RealClientService(), mockClientService);
\ No newline at end of file
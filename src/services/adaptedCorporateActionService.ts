@@ -0,0 +1,83 @@
+import { apiClient } from '../lib/api';
+import { assertFeatureSupported, createInFeature, listFeature } from '../lib/backendFeatures';
+import { mockCorporateActionService } from './mock/mockCorporateActionService';
+import { withMockFallback } from './mock/withMockFallback';
+import type { CorporateAction, CorporateActionCreate, CorporateActionUpdate } from '../types/allocation';
+
+export interface CorporateActionFilters {
+  asset_id?: number;
+}
+
+export interface CorporateActionService {
+  getCorporateActions: (filters?: CorporateActionFilters) => Promise<CorporateAction[]>;
+  getCorporateAction: (id: number) => Promise<CorporateAction>;
+  createCorporateAction: (action: CorporateActionCreate) => Promise<CorporateAction>;
+  updateCorporateAction: (id: number, action: CorporateActionUpdate) => Promise<CorporateAction>;
+  deleteCorporateAction: (id: number) => Promise<void>;
+}
+
+// O backend serializa Decimal como string
+type BackendCorporateAction = Omit<CorporateAction, 'ratio' | 'assigned_cost' | 'amount_per_share' | 'paid_holders'> & {
+  ratio?: string | number | null;
+  assigned_cost?: string | number | null;
+  amount_per_share?: string | number | null;
+  payment_date?: string | null;
+  note?: string | null;
+  paid_holders?: CorporateAction['paid_holders'] | null;
+};
+
+const toNumber = (value: string | number | null | undefined) =>
+  value !== undefined && value !== null ? Number(value) : undefined;
+
+const fromBackend = (ba: BackendCorporateAction): CorporateAction => ({
+  id: ba.id,
+  asset_id: ba.asset_id,
+  type: ba.type,
+  ex_date: ba.ex_date,
+  ratio: toNumber(ba.ratio),
+  assigned_cost: toNumber(ba.assigned_cost),
+  amount_per_share: toNumber(ba.amount_per_share),
+  payment_date: ba.payment_date ?? undefined,
+  note: ba.note ?? undefined,
+  paid_holders: ba.paid_holders ?? undefined,
+});
+
+// Mais recentes primeiro, como as vendas
+const sortByExDate = (actions: CorporateAction[]) =>
+  actions.sort((a, b) => b.ex_date.localeCompare(a.ex_date) || b.id - a.id);
+
+class RealCorporateActionService implements CorporateActionService {
+  async getCorporateActions(filters?: CorporateActionFilters): Promise<CorporateAction[]> {
+    const url = filters?.asset_id ? `/corporate-actions?asset_id=${filters.asset_id}` : '/corporate-actions';
+    // Versões do backend sem eventos societários: posições sem ajustes e cadastro indisponível
+    return listFeature('corporateActions', async () =>
+      sortByExDate((await apiClient.get<BackendCorporateAction[]>(url)).map(fromBackend))
+    );
+  }
+
+  async getCorporateAction(id: number): Promise<CorporateAction> {
+    return fromBackend(await apiClient.get<BackendCorporateAction>(`/corporate-actions/${id}`));
+  }
+
+  async createCorporateAction(action: CorporateActionCreate): Promise<CorporateAction> {
+    return createInFeature('corporateActions', async () =>
+      fromBackend(await apiClient.post<BackendCorporateAction>('/corporate-actions', action))
+    );
+  }
+
+  async updateCorporateAction(id: number, action: CorporateActionUpdate): Promise<CorporateAction> {
+    assertFeatureSupported('corporateActions');
+    return fromBackend(await apiClient.put<BackendCorporateAction>(`/corporate-actions/${id}`, action));
+  }
+
+  async deleteCorporateAction(id: number): Promise<void> {
+    assertFeatureSupported('corporateActions');
+    await apiClient.delete(`/corporate-actions/${id}`);
+  }
+}
+
+// Usa o backend local (IndexedDB) automaticamente quando a API está fora do ar
+export const corporateActionService = withMockFallback<CorporateActionService>(
+  new RealCorporateActionService(),
+  mockCorporateActionService
+);
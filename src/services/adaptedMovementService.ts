@@ -1,4 +1,11 @@
 import { apiClient } from '../lib/api';
+import { mockMovementService } from './mock/mockMovementService';
+import { withMockFallback } from './mock/withMockFallback';
+import { summarizeMovements } from '../lib/movements';
+import { assertCanReviewMovement, getApprovalReasons } from '../lib/approvals';
+import { assertWithdrawalAllowed, buildCashLedger } from '../lib/portfolio/cash';
+import { allocationService } from './adaptedAllocationService';
+import { saleService } from './adaptedSaleService';
 
 export interface MovementService {
   getMovements: (filters?: MovementFilters) => Promise<MovementWithClient[]>;
@@ -6,14 +13,18 @@ export interface MovementService {
   createMovement: (movement: MovementCreate) => Promise<MovementWithClient>;
   updateMovement: (id: string, movement: Partial<MovementCreate>) => Promise<MovementWithClient>;
   deleteMovement: (id: number) => Promise<void>;
-  getMovementsSummary: () => Promise<MovementSummary>;
+  getMovementsSummary: (filters?: MovementFilters) => Promise<MovementSummary>;
+  approveMovement: (id: number, approvedBy: string) => Promise<MovementWithClient>;
+  rejectMovement: (id: number, rejectedBy: string, reason: string) => Promise<MovementWithClient>;
 }
 
 export interface MovementFilters {
   client_id?: number;
+  client_ids?: number[]; // vários clientes numa requisição (ex: a página visível da lista)
   start_date?: string;
   end_date?: string;
   type?: string;
+  status?: MovementApprovalStatus;
 }
 
 export interface MovementCreate {
@@ -22,6 +33,21 @@ export interface MovementCreate {
   amount: number;
   date: string;
   note?: string;
+  bank_account?: string; // Conta de destino do saque (banco/agência/conta)
+  created_by?: string;
+  template_id?: string; // Gerada por um agendamento recorrente...
+  scheduled_date?: string; // ...para esta ocorrência
+  corporate_action_id?: number; // Provento gerado a partir de um evento societário
+}
+
+// Sem status = movimentação efetivada sem passar por aprovação
+export type MovementApprovalStatus = 'pending_approval' | 'approved' | 'rejected';
+
+export interface MovementApprovalEvent {
+  action: 'submitted' | 'approved' | 'rejected';
+  user: string;
+  date: string;
+  reason?: string;
 }
 
 export interface MovementWithClient {
@@ -32,6 +58,14 @@ export interface MovementWithClient {
   amount: number;
   date: string;
   note?: string;
+  bank_account?: string;
+  status?: MovementApprovalStatus;
+  created_by?: string;
+  approval_reasons?: string[];
+  approval_history?: MovementApprovalEvent[];
+  template_id?: string;
+  scheduled_date?: string;
+  corporate_action_id?: number;
 }
 
 export interface MovementSummary {
@@ -41,13 +75,38 @@ export interface MovementSummary {
   total_movements: number;
 }
 
+// Formato do backend: valores decimais chegam como string
+type BackendMovement = Omit<MovementWithClient, 'amount'> & { amount: string | number };
+
+// Campos de aprovação só vêm de backends com o fluxo de aprovação
+const toMovement = (bm: BackendMovement): MovementWithClient => ({
+  id: bm.id,
+  client_id: bm.client_id,
+  client_name: bm.client_name,
+  type: bm.type,
+  amount: parseFloat(String(bm.amount)),
+  date: bm.date,
+  note: bm.note,
+  bank_account: bm.bank_account ?? undefined,
+  status: bm.status ?? undefined,
+  created_by: bm.created_by ?? undefined,
+  approval_reasons: bm.approval_reasons ?? undefined,
+  approval_history: bm.approval_history ?? undefined,
+  template_id: bm.template_id ?? undefined,
+  scheduled_date: bm.scheduled_date ?? undefined,
+  corporate_action_id: bm.corporate_action_id ?? undefined,
+});
+
 class RealMovementService implements MovementService {
   async getMovements(filters?: MovementFilters): Promise<MovementWithClient[]> {
     const params = new URLSearchParams();
     
     if (filters?.client_id) params.append('client_id', filters.client_id.toString());
+    if (filters?.client_ids?.length) params.append('client_ids', filters.client_ids.join(','));
     if (filters?.start_date) params.append('start_date', filters.start_date);
     if (filters?.end_date) params.append('end_date', filters.end_date);
+    if (filters?.type) params.append('type', filters.type);
+    if (filters?.status) params.append('status', filters.status);
     
     const queryString = params.toString();
     const url = queryString ? `/movements?${queryString}` : '/movements';
@@ -55,51 +114,42 @@ class RealMovementService implements MovementService {
     const backendMovements = await apiClient.get<any[]>(url);
     
     // Convert backend format to frontend format
-    return backendMovements.map(bm => ({
-      id: bm.id,
-      client_id: bm.client_id,
-      client_name: bm.client_name,
-      type: bm.type,
-      amount: parseFloat(bm.amount),
-      date: bm.date,
-      note: bm.note,
-    }));
+    return backendMovements.map(toMovement);
   }
 
   async getMovement(id: string): Promise<MovementWithClient> {
     const backendMovement = await apiClient.get<any>(`/movements/${id}`);
     
-    return {
-      id: backendMovement.id,
-      client_id: backendMovement.client_id,
-      client_name: backendMovement.client_name,
-      type: backendMovement.type,
-      amount: parseFloat(backendMovement.amount),
-      date: backendMovement.date,
-      note: backendMovement.note,
-    };
+    return toMovement(backendMovement);
   }
 
   async createMovement(movement: MovementCreate): Promise<MovementWithClient> {
+    // O backend não controla saldo: o resgate é validado contra a conta corrente do cliente antes de ser enviado.
+    // As regras de aprovação também dependem do histórico (contas já usadas em saques).
+    let approvalReasons: string[] = [];
+    if (movement.type === 'withdrawal') {
+      const movements = await this.assertBalanceFor(movement.client_id, movement.amount);
+      approvalReasons = getApprovalReasons(movement, movements);
+    }
+
     const backendData = {
       client_id: movement.client_id,
       type: movement.type,
       amount: movement.amount,
       date: movement.date,
       note: movement.note,
+      bank_account: movement.bank_account,
+      created_by: movement.created_by,
+      template_id: movement.template_id,
+      scheduled_date: movement.scheduled_date,
+      corporate_action_id: movement.corporate_action_id,
+      requires_approval: approvalReasons.length > 0,
+      approval_reasons: approvalReasons,
     };
 
     const backendMovement = await apiClient.post<any>('/movements', backendData);
     
-    return {
-      id: backendMovement.id,
-      client_id: backendMovement.client_id,
-      client_name: backendMovement.client_name,
-      type: backendMovement.type,
-      amount: parseFloat(backendMovement.amount),
-      date: backendMovement.date,
-      note: backendMovement.note,
-    };
+    return toMovement(backendMovement);
   }
 
   async updateMovement(id: string, movement: Partial<MovementCreate>): Promise<MovementWithClient> {
@@ -110,25 +160,23 @@ class RealMovementService implements MovementService {
     if (movement.amount !== undefined) backendData.amount = movement.amount;
     if (movement.date !== undefined) backendData.date = movement.date;
     if (movement.note !== undefined) backendData.note = movement.note;
+    if (movement.bank_account !== undefined) backendData.bank_account = movement.bank_account;
 
     const backendMovement = await apiClient.put<any>(`/movements/${id}`, backendData);
     
-    return {
-      id: backendMovement.id,
-      client_id: backendMovement.client_id,
-      client_name: backendMovement.client_name,
-      type: backendMovement.type,
-      amount: parseFloat(backendMovement.amount),
-      date: backendMovement.date,
-      note: backendMovement.note,
-    };
+    return toMovement(backendMovement);
   }
 
   async deleteMovement(id: number): Promise<void> {
     return apiClient.delete<void>(`/movements/${id}`);
   }
 
-  async getMovementsSummary(): Promise<MovementSummary> {
+  async getMovementsSummary(filters?: MovementFilters): Promise<MovementSummary> {
+    // captation-total só traz o total geral; com filtros o resumo sai das próprias movimentações
+    if (filters && Object.values(filters).some(value => value !== undefined && value !== '')) {
+      return summarizeMovements(await this.getMovements(filters));
+    }
+
     // Get summary data and movements count separately
     const [summary, movements] = await Promise.all([
       apiClient.get<any>('/movements/captation-total'),
@@ -142,10 +190,38 @@ class RealMovementService implements MovementService {
       total_movements: movements.length,
     };
   }
+
+  async approveMovement(id: number, approvedBy: string): Promise<MovementWithClient> {
+    const movement = await this.getMovement(id.toString());
+    assertCanReviewMovement(movement, approvedBy);
+    // O saldo pode ter mudado desde a criação: o saque pendente ainda não entra no extrato
+    if (movement.type === 'withdrawal') {
+      await this.assertBalanceFor(movement.client_id, movement.amount);
+    }
+    return toMovement(await apiClient.patch<BackendMovement>(`/movements/${id}/approve`, { approved_by: approvedBy }));
+  }
+
+  async rejectMovement(id: number, rejectedBy: string, reason: string): Promise<MovementWithClient> {
+    assertCanReviewMovement(await this.getMovement(id.toString()), rejectedBy);
+    return toMovement(await apiClient.patch<BackendMovement>(`/movements/${id}/reject`, { rejected_by: rejectedBy, reason }));
+  }
+
+  /**
+   * Confere o saque contra a conta corrente do cliente; devolve as movimentações lidas para reaproveitar
+   */
+  private async assertBalanceFor(clientId: number, amount: number): Promise<MovementWithClient[]> {
+    const [movements, allocations, sales] = await Promise.all([
+      this.getMovements({ client_id: clientId }),
+      allocationService.getAllocationsByClient(clientId),
+      saleService.getSalesByClient(clientId),
+    ]);
+    assertWithdrawalAllowed(buildCashLedger(clientId.toString(), movements, allocations, sales), amount);
+    return movements;
+  }
 }
 
-// Export the real service
-export const movementService = new RealMovementService();
+// Export the real service, falling back to the local demo backend when the API is unreachable
+export const movementService = withMockFallback<MovementService>(new RealMovementService(), mockMovementService);
 
 // Export as adaptedMovementService for compatibility
-export const adaptedMovementService = new RealMovementService();
\ No newline at end of file
+export const adaptedMovementService = movementService;
\ No newline at end of file
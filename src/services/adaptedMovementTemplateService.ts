@@ -0,0 +1,193 @@
+import { apiClient } from '../lib/api';
+import { NotFoundError } from '../lib/errors';
+import { mockMovementTemplateService } from './mock/mockMovementTemplateService';
+import { withMockFallback } from './mock/withMockFallback';
+import type { Movement, MovementTemplate } from '../types/movement';
+
+export type MovementTemplateCreate = Omit<MovementTemplate, 'id' | 'usageCount' | 'lastUsed' | 'createdAt' | 'updatedAt' | 'createdBy'>;
+
+export interface MovementTemplateService {
+  getTemplates: () => Promise<MovementTemplate[]>;
+  getTemplate: (id: string) => Promise<MovementTemplate>;
+  createTemplate: (template: MovementTemplateCreate, createdBy: string) => Promise<MovementTemplate>;
+  updateTemplate: (id: string, template: Partial<MovementTemplate>) => Promise<MovementTemplate>;
+  deleteTemplate: (id: string) => Promise<void>;
+}
+
+type RecurringConfig = NonNullable<MovementTemplate['recurringConfig']>;
+type BankDetails = NonNullable<Movement['bankDetails']>;
+
+interface BackendBankDetails {
+  bank_code?: string | null;
+  bank_name?: string | null;
+  agency?: string | null;
+  account?: string | null;
+  account_type?: BankDetails['accountType'] | null;
+  pix_key?: string | null;
+  pix_key_type?: BankDetails['pixKeyType'] | null;
+}
+
+interface BackendRecurringConfig {
+  frequency: RecurringConfig['frequency'];
+  interval: number;
+  start_date: string;
+  end_date?: string | null;
+  max_occurrences?: number | null;
+}
+
+// Modelo como vem da API (snake_case, datas como string e Decimal como string)
+interface BackendTemplate {
+  id: number | string;
+  name: string;
+  description?: string | null;
+  type: MovementTemplate['type'];
+  client_id?: number | string | null;
+  default_amount?: number | string | null;
+  payment_method?: MovementTemplate['paymentMethod'] | null;
+  bank_details?: BackendBankDetails | null;
+  is_recurring: boolean;
+  recurring_config?: BackendRecurringConfig | null;
+  last_generated_date?: string | null;
+  usage_count?: number | null;
+  last_used?: string | null;
+  created_at: string;
+  updated_at: string;
+  created_by?: string | null;
+}
+
+type BackendTemplatePayload = Partial<Omit<BackendTemplate, 'id' | 'created_at' | 'updated_at'>>;
+
+const fromBackendBankDetails = (bd: BackendBankDetails): BankDetails => ({
+  bankCode: bd.bank_code ?? undefined,
+  bankName: bd.bank_name ?? undefined,
+  agency: bd.agency ?? undefined,
+  account: bd.account ?? undefined,
+  accountType: bd.account_type ?? undefined,
+  pixKey: bd.pix_key ?? undefined,
+  pixKeyType: bd.pix_key_type ?? undefined,
+});
+
+const toBackendBankDetails = (bd: BankDetails): BackendBankDetails => ({
+  bank_code: bd.bankCode,
+  bank_name: bd.bankName,
+  agency: bd.agency,
+  account: bd.account,
+  account_type: bd.accountType,
+  pix_key: bd.pixKey,
+  pix_key_type: bd.pixKeyType,
+});
+
+const toIsoDate = (date: Date) => date.toISOString().split('T')[0];
+
+const fromBackend = (bt: BackendTemplate): MovementTemplate => ({
+  id: String(bt.id),
+  name: bt.name,
+  description: bt.description ?? '',
+  type: bt.type,
+  clientId: bt.client_id !== undefined && bt.client_id !== null ? String(bt.client_id) : undefined,
+  defaultAmount: bt.default_amount !== undefined && bt.default_amount !== null ? Number(bt.default_amount) : undefined,
+  paymentMethod: bt.payment_method ?? undefined,
+  bankDetails: bt.bank_details ? fromBackendBankDetails(bt.bank_details) : undefined,
+  isRecurring: bt.is_recurring,
+  recurringConfig: bt.recurring_config
+    ? {
+        frequency: bt.recurring_config.frequency,
+        interval: bt.recurring_config.interval,
+        startDate: new Date(bt.recurring_config.start_date),
+        endDate: bt.recurring_config.end_date ? new Date(bt.recurring_config.end_date) : undefined,
+        maxOccurrences: bt.recurring_config.max_occurrences ?? undefined,
+      }
+    : undefined,
+  lastGeneratedDate: bt.last_generated_date ?? undefined,
+  usageCount: bt.usage_count ?? 0,
+  lastUsed: bt.last_used ? new Date(bt.last_used) : undefined,
+  createdAt: new Date(bt.created_at),
+  updatedAt: new Date(bt.updated_at),
+  createdBy: bt.created_by ?? '',
+});
+
+// Só os campos informados, para a atualização parcial não apagar os demais
+const toBackend = (template: Partial<MovementTemplate>): BackendTemplatePayload => {
+  const payload: BackendTemplatePayload = {};
+
+  if (template.name !== undefined) payload.name = template.name;
+  if (template.description !== undefined) payload.description = template.description;
+  if (template.type !== undefined) payload.type = template.type;
+  if ('clientId' in template) payload.client_id = template.clientId ?? null;
+  if ('defaultAmount' in template) payload.default_amount = template.defaultAmount ?? null;
+  if ('paymentMethod' in template) payload.payment_method = template.paymentMethod ?? null;
+  if ('bankDetails' in template) payload.bank_details = template.bankDetails ? toBackendBankDetails(template.bankDetails) : null;
+  if (template.isRecurring !== undefined) payload.is_recurring = template.isRecurring;
+  if ('recurringConfig' in template) {
+    const config = template.recurringConfig;
+    payload.recurring_config = config
+      ? {
+          frequency: config.frequency,
+          interval: config.interval,
+          start_date: toIsoDate(config.startDate),
+          end_date: config.endDate ? toIsoDate(config.endDate) : null,
+          max_occurrences: config.maxOccurrences ?? null,
+        }
+      : null;
+  }
+  if ('lastGeneratedDate' in template) payload.last_generated_date = template.lastGeneratedDate ?? null;
+  if (template.usageCount !== undefined) payload.usage_count = template.usageCount;
+  if ('lastUsed' in template) payload.last_used = template.lastUsed?.toISOString() ?? null;
+  if (template.createdBy !== undefined) payload.created_by = template.createdBy;
+
+  return payload;
+};
+
+class RealMovementTemplateService implements MovementTemplateService {
+  // Backends sem /movement-templates guardam os modelos no banco local (IndexedDB), como no modo demonstração.
+  // A ausência é detectada pela listagem; um 404 de um modelo específico continua sendo erro.
+  private collectionMissing?: boolean;
+
+  private async listTemplates(): Promise<BackendTemplate[] | null> {
+    try {
+      const templates = await apiClient.get<BackendTemplate[]>('/movement-templates');
+      this.collectionMissing = false;
+      return templates;
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+      this.collectionMissing = true;
+      return null;
+    }
+  }
+
+  private async usesLocalStore(): Promise<boolean> {
+    if (this.collectionMissing === undefined) await this.listTemplates();
+    return this.collectionMissing === true;
+  }
+
+  async getTemplates(): Promise<MovementTemplate[]> {
+    const templates = await this.listTemplates();
+    return templates ? templates.map(fromBackend) : mockMovementTemplateService.getTemplates();
+  }
+
+  async getTemplate(id: string): Promise<MovementTemplate> {
+    if (await this.usesLocalStore()) return mockMovementTemplateService.getTemplate(id);
+    return fromBackend(await apiClient.get<BackendTemplate>(`/movement-templates/${id}`));
+  }
+
+  async createTemplate(template: MovementTemplateCreate, createdBy: string): Promise<MovementTemplate> {
+    if (await this.usesLocalStore()) return mockMovementTemplateService.createTemplate(template, createdBy);
+    return fromBackend(await apiClient.post<BackendTemplate>('/movement-templates', toBackend({ ...template, createdBy })));
+  }
+
+  async updateTemplate(id: string, template: Partial<MovementTemplate>): Promise<MovementTemplate> {
+    if (await this.usesLocalStore()) return mockMovementTemplateService.updateTemplate(id, template);
+    return fromBackend(await apiClient.put<BackendTemplate>(`/movement-templates/${id}`, toBackend(template)));
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    if (await this.usesLocalStore()) return mockMovementTemplateService.deleteTemplate(id);
+    await apiClient.delete(`/movement-templates/${id}`);
+  }
+}
+
+// Usa o backend local (IndexedDB) automaticamente quando a API está fora do ar
+export const movementTemplateService = withMockFallback<MovementTemplateService>(
+  new RealMovementTemplateService(),
+  mockMovementTemplateService
+);
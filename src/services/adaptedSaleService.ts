@@ -0,0 +1,85 @@
+import { apiClient } from '../lib/api';
+import { assertFeatureSupported, createInFeature, listFeature } from '../lib/backendFeatures';
+import { assertSaleAllowed } from '../lib/portfolio/lots';
+import { allocationService } from './adaptedAllocationService';
+import { corporateActionService } from './adaptedCorporateActionService';
+import { mockSaleService } from './mock/mockSaleService';
+import { withMockFallback } from './mock/withMockFallback';
+import type { Sale, SaleCreate, SaleFilters } from '../types/allocation';
+
+export interface SaleService {
+  getSales: (filters?: SaleFilters) => Promise<Sale[]>;
+  getSalesByClient: (clientId: number) => Promise<Sale[]>;
+  createSale: (sale: SaleCreate) => Promise<Sale>;
+  deleteSale: (id: number) => Promise<void>;
+}
+
+// O backend serializa Decimal como string
+interface BackendSale {
+  id: number;
+  client_id: number;
+  asset_id: number;
+  quantity: string | number;
+  sell_price: string | number;
+  sell_date: string;
+  fees?: string | number | null;
+}
+
+const fromBackend = (bs: BackendSale): Sale => ({
+  id: bs.id,
+  client_id: bs.client_id,
+  asset_id: bs.asset_id,
+  quantity: Number(bs.quantity),
+  sell_price: Number(bs.sell_price),
+  sell_date: bs.sell_date,
+  fees: bs.fees !== undefined && bs.fees !== null ? Number(bs.fees) : undefined,
+});
+
+class RealSaleService implements SaleService {
+  async getSales(filters?: SaleFilters): Promise<Sale[]> {
+    const params = new URLSearchParams();
+
+    if (filters?.client_id) params.append('client_id', filters.client_id.toString());
+    if (filters?.asset_id) params.append('asset_id', filters.asset_id.toString());
+
+    const queryString = params.toString();
+    const url = queryString ? `/sales?${queryString}` : '/sales';
+
+    return listFeature('sales', async () => (await apiClient.get<BackendSale[]>(url)).map(fromBackend));
+  }
+
+  async getSalesByClient(clientId: number): Promise<Sale[]> {
+    // Versões do backend sem o recurso de vendas: carteira só com compras e venda indisponível
+    return listFeature('sales', async () =>
+      (await apiClient.get<BackendSale[]>(`/sales/client/${clientId}`)).map(fromBackend)
+    );
+  }
+
+  async createSale(sale: SaleCreate): Promise<Sale> {
+    assertFeatureSupported('sales');
+    // O backend não controla lotes; a venda é validada contra a posição antes de ser enviada
+    const [allocations, sales, corporateActions] = await Promise.all([
+      allocationService.getAllocationsByClient(sale.client_id),
+      this.getSalesByClient(sale.client_id),
+      corporateActionService.getCorporateActions({ asset_id: sale.asset_id }),
+    ]);
+    assertSaleAllowed(allocations, sales, sale, [], corporateActions);
+
+    return createInFeature('sales', async () => fromBackend(await apiClient.post<BackendSale>('/sales', {
+      client_id: sale.client_id,
+      asset_id: sale.asset_id,
+      quantity: sale.quantity,
+      sell_price: sale.sell_price,
+      sell_date: sale.sell_date,
+      fees: sale.fees ?? 0,
+    })));
+  }
+
+  async deleteSale(id: number): Promise<void> {
+    assertFeatureSupported('sales');
+    return apiClient.delete<void>(`/sales/${id}`);
+  }
+}
+
+// Usa o backend local (IndexedDB) automaticamente quando a API está fora do ar
+export const saleService = withMockFallback<SaleService>(new RealSaleService(), mockSaleService);
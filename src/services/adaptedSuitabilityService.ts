@@ -0,0 +1,69 @@
+import { apiClient } from '../lib/api';
+import { createInFeature, listFeature } from '../lib/backendFeatures';
+import { mockSuitabilityService } from './mock/mockSuitabilityService';
+import { withMockFallback } from './mock/withMockFallback';
+import type { SuitabilityAssessment } from '../types/client';
+
+export type SuitabilityAssessmentCreate = Omit<SuitabilityAssessment, 'id'>;
+
+export interface SuitabilityAssessmentService {
+  getAssessments: (clientId: string) => Promise<SuitabilityAssessment[]>;
+  createAssessment: (assessment: SuitabilityAssessmentCreate) => Promise<SuitabilityAssessment>;
+}
+
+interface BackendSuitabilityAssessment {
+  id: number | string;
+  client_id: number | string;
+  answers: Record<string, string>;
+  score: number;
+  profile: SuitabilityAssessment['profile'];
+  risk_tolerance: number;
+  completed_at: string;
+  expires_at: string;
+  completed_by: string;
+}
+
+const fromBackend = (ba: BackendSuitabilityAssessment): SuitabilityAssessment => ({
+  id: ba.id.toString(),
+  clientId: ba.client_id.toString(),
+  answers: ba.answers,
+  score: ba.score,
+  profile: ba.profile,
+  riskTolerance: ba.risk_tolerance,
+  completedAt: new Date(ba.completed_at),
+  expiresAt: new Date(ba.expires_at),
+  completedBy: ba.completed_by,
+});
+
+// Histórico do mais recente para o mais antigo
+const sortByCompletedAt = (assessments: SuitabilityAssessment[]) =>
+  assessments.sort((a, b) => b.completedAt.getTime() - a.completedAt.getTime());
+
+class RealSuitabilityAssessmentService implements SuitabilityAssessmentService {
+  async getAssessments(clientId: string): Promise<SuitabilityAssessment[]> {
+    // Versões do backend sem suitability: cliente tratado como não avaliado e questionário indisponível
+    return listFeature('suitability', async () =>
+      sortByCompletedAt((await apiClient.get<BackendSuitabilityAssessment[]>(`/clients/${clientId}/suitability`)).map(fromBackend))
+    );
+  }
+
+  async createAssessment(assessment: SuitabilityAssessmentCreate): Promise<SuitabilityAssessment> {
+    return createInFeature('suitability', async () =>
+      fromBackend(await apiClient.post<BackendSuitabilityAssessment>(`/clients/${assessment.clientId}/suitability`, {
+        answers: assessment.answers,
+        score: assessment.score,
+        profile: assessment.profile,
+        risk_tolerance: assessment.riskTolerance,
+        completed_at: assessment.completedAt.toISOString(),
+        expires_at: assessment.expiresAt.toISOString(),
+        completed_by: assessment.completedBy,
+      }))
+    );
+  }
+}
+
+// Usa o backend local (IndexedDB) automaticamente quando a API está fora do ar
+export const suitabilityAssessmentService = withMockFallback<SuitabilityAssessmentService>(
+  new RealSuitabilityAssessmentService(),
+  mockSuitabilityService
+);
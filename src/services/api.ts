@@ -1,111 +1,47 @@
-import axios, { AxiosError, AxiosResponse } from 'axios';
-import { AuthResponse, LoginRequest, RegisterRequest, User, ApiError } from '../types/auth';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-export const api = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-  timeout: 10000,
-});
-
-// Request interceptor para adicionar token automaticamente
-api.interceptors.request.use(
-  (config) => {
-    if (typeof window !== 'undefined') {
-      const token = localStorage.getItem('access_token');
-      if (token) {
-        config.headers.Authorization = `Bearer ${token}`;
-      }
+import { apiClient, authClient } from '../lib/api';
+import { sessionStore } from '../lib/auth';
+import { USE_MOCK_API } from '../lib/config';
+import { mockAuthService } from './mock/mockAuthService';
+import type { LoginRequest, RegisterRequest, SessionResponse, User } from '../types/auth';
+
+// Dados do usuário logado; só a sessão de demonstração usa o usuário local (admin).
+// Numa sessão real a falha de conexão segue como erro, sem trocar o usuário nem o papel.
+const userService = {
+  getCurrentUser: async (): Promise<User> => {
+    if (USE_MOCK_API || sessionStore.get()?.demo) {
+      return mockAuthService.getCurrentUser();
     }
-    return config;
+    return apiClient.get<User>('/users/me');
   },
-  (error) => {
-    return Promise.reject(error);
-  }
-);
-
-// Response interceptor para tratar erros de autenticação
-api.interceptors.response.use(
-  (response: AxiosResponse) => response,
-  (error: AxiosError) => {
-    // Se o token expirou ou é inválido
-    if (error.response?.status === 401 && typeof window !== 'undefined') {
-      localStorage.removeItem('access_token');
-      // Redirecionar para login apenas se não estivermos já nas páginas públicas
-      const currentPath = window.location.pathname;
-      const publicPaths = ['/', '/login', '/register'];
-      
-      if (!publicPaths.includes(currentPath)) {
-        window.location.href = '/login';
-      }
-    }
-    
-    return Promise.reject(error);
-  }
-);
+};
 
 export const authService = {
-  login: async (data: LoginRequest): Promise<AuthResponse> => {
-    try {
-      const response = await api.post('/auth/login', data);
-      return response.data;
-    } catch (error) {
-      throw authService.handleError(error);
-    }
+  login: async (data: LoginRequest): Promise<SessionResponse> => {
+    return authClient.post<SessionResponse>('/login', data);
   },
 
-  register: async (data: RegisterRequest): Promise<AuthResponse> => {
-    try {
-      const response = await api.post('/users/register', data);
-      return response.data;
-    } catch (error) {
-      throw authService.handleError(error);
-    }
+  register: async (data: RegisterRequest): Promise<SessionResponse> => {
+    return authClient.post<SessionResponse>('/register', data);
+  },
+
+  getSession: async (): Promise<SessionResponse> => {
+    return authClient.get<SessionResponse>('/session');
   },
 
   getCurrentUser: async (): Promise<User> => {
-    try {
-      const response = await api.get('/users/me');
-      return response.data;
-    } catch (error) {
-      throw authService.handleError(error);
-    }
+    return userService.getCurrentUser();
   },
 
-  refreshToken: async (): Promise<AuthResponse> => {
-    try {
-      const response = await api.post('/auth/refresh');
-      return response.data;
-    } catch (error) {
-      throw authService.handleError(error);
-    }
+  refreshToken: async (): Promise<SessionResponse> => {
+    return authClient.post<SessionResponse>('/refresh');
   },
 
   logout: async (): Promise<void> => {
     try {
-      await api.post('/auth/logout');
+      await authClient.post('/logout');
     } catch (error) {
-      // Ignorar erros de logout, pois vamos limpar o token localmente de qualquer forma
+      // Ignorar erros de logout, pois vamos limpar a sessão localmente de qualquer forma
       console.warn('Error during logout:', error);
     }
   },
-
-  handleError: (error: unknown): ApiError => {
-    if (axios.isAxiosError(error)) {
-      return {
-        response: {
-          data: error.response?.data,
-          status: error.response?.status,
-        },
-        message: error.message,
-      };
-    }
-    
-    return {
-      message: 'Erro desconhecido',
-    };
-  },
-};
\ No newline at end of file
+};
@@ -0,0 +1,18 @@
+import { allocationService } from './adaptedAllocationService';
+import { movementService } from './adaptedMovementService';
+import { saleService } from './adaptedSaleService';
+import { buildCashLedger, type CashLedger } from '../lib/portfolio/cash';
+
+// O backend não mantém conta corrente; o saldo é montado aqui com movimentações, compras e vendas do cliente
+export const cashService = {
+  getClientCashLedger: async (clientId: string): Promise<CashLedger> => {
+    const id = parseInt(clientId);
+    const [movements, allocations, sales] = await Promise.all([
+      movementService.getMovements({ client_id: id }),
+      allocationService.getAllocationsByClient(id),
+      saleService.getSalesByClient(id),
+    ]);
+
+    return buildCashLedger(clientId, movements, allocations, sales);
+  },
+};
@@ -1,93 +1,109 @@
 import { allocationService } from './adaptedAllocationService';
-import { movementService } from './movementService';
+import { movementService } from './adaptedMovementService';
+import { isMovementEffective } from '../lib/approvals';
 import type { ClientInvestmentStats } from '../types/client';
-import type { MovementWithClient } from '../types/movement';
+import type { AllocationWithDetails } from '../types/allocation';
+import type { MovementWithClient } from './adaptedMovementService';
+
+// Estatísticas recalculadas no máximo uma vez por minuto, salvo invalidação explícita
+const STATS_TTL_MS = 60 * 1000;
+
+interface CachedStats {
+  stats: ClientInvestmentStats;
+  expiresAt: number;
+}
+
+const emptyStats = (clientId: string): ClientInvestmentStats => ({
+  client_id: clientId,
+  total_allocations: 0,
+  total_invested: 0,
+  net_balance: 0,
+  last_investment_date: undefined,
+});
+
+/**
+ * Agrega alocações e movimentações já carregadas nas estatísticas de cada cliente
+ */
+const aggregateStats = (
+  clientIds: string[],
+  allocations: AllocationWithDetails[],
+  movements: MovementWithClient[]
+): Map<string, ClientInvestmentStats> => {
+  const statsMap = new Map(clientIds.map(id => [id, emptyStats(id)]));
+
+  allocations.forEach(allocation => {
+    const stats = statsMap.get(allocation.client_id.toString());
+    if (!stats) return;
+    stats.total_allocations += 1;
+    if (!stats.last_investment_date || allocation.buy_date > stats.last_investment_date) {
+      stats.last_investment_date = allocation.buy_date;
+    }
+  });
+
+  movements.filter(isMovementEffective).forEach(movement => {
+    const stats = statsMap.get(movement.client_id.toString());
+    if (!stats) return;
+    if (movement.type === 'deposit') {
+      stats.total_invested += movement.amount; // Total deposits instead of allocation values
+      stats.net_balance += movement.amount;
+    } else {
+      stats.net_balance -= movement.amount;
+    }
+  });
+
+  return statsMap;
+};
 
 export class ClientInvestmentService {
+  private cache = new Map<string, CachedStats>();
+
   /**
    * Get investment statistics for a specific client
    */
   async getClientInvestmentStats(clientId: string): Promise<ClientInvestmentStats> {
-    try {
-      // Get client allocations
-      const allocations = await allocationService.getAllocationsByClient(parseInt(clientId));
-      
-      // Get client balance and movements
-      const balance = await movementService.getClientBalance(clientId);
-      
-      // Get client movements to calculate total deposits
-      const movements = await movementService.getClientMovements(clientId, 1, 1000); // Get many movements
-      const totalDeposits = movements.movements
-        .filter((movement: MovementWithClient) => movement.type === 'deposit' && movement.status === 'completed')
-        .reduce((sum: number, movement: MovementWithClient) => sum + movement.amount, 0);
-      
-      // Calculate statistics
-      const totalAllocations = allocations.length;
-      
-      // Net balance from movements (available balance represents deposits - withdrawals)
-      const netBalance = balance.totalBalance;
-      
-      // Find last investment date
-      const lastInvestmentDate = allocations.length > 0 
-        ? allocations.reduce((latest, allocation) => 
-            new Date(allocation.buy_date) > new Date(latest) ? allocation.buy_date : latest, 
-            allocations[0].buy_date
-          )
-        : undefined;
-
-      return {
-        client_id: clientId,
-        total_allocations: totalAllocations,
-        total_invested: totalDeposits, // Total deposits instead of allocation values
-        net_balance: netBalance,
-        last_investment_date: lastInvestmentDate,
-      };
-    } catch (error) {
-      console.error(`Error getting investment stats for client ${clientId}:`, error);
-      // Return default values if there's an error
-      return {
-        client_id: clientId,
-        total_allocations: 0,
-        total_invested: 0,
-        net_balance: 0,
-        last_investment_date: undefined,
-      };
-    }
+    const statsMap = await this.getMultipleClientInvestmentStats([clientId]);
+    return statsMap.get(clientId) ?? emptyStats(clientId);
   }
 
   /**
-   * Get investment statistics for multiple clients
+   * Get investment statistics for multiple clients.
+   * Os clientes fora do cache são carregados juntos em duas requisições (alocações e movimentações)
+   * filtradas pelos seus ids, para que uma página da lista não baixe os dados de toda a base.
+   * Registros de outros clientes, caso o backend ignore o filtro, são descartados na agregação.
    */
   async getMultipleClientInvestmentStats(clientIds: string[]): Promise<Map<string, ClientInvestmentStats>> {
-    const statsMap = new Map<string, ClientInvestmentStats>();
-    
-    // Process clients in parallel with limited concurrency to avoid overwhelming the API
-    const batchSize = 5;
-    for (let i = 0; i < clientIds.length; i += batchSize) {
-      const batch = clientIds.slice(i, i + batchSize);
-      const batchPromises = batch.map(clientId => this.getClientInvestmentStats(clientId));
-      
+    const now = Date.now();
+    const missing = clientIds.filter(id => (this.cache.get(id)?.expiresAt ?? 0) <= now);
+
+    if (missing.length > 0) {
+      const ids = missing.map(id => parseInt(id));
       try {
-        const batchResults = await Promise.all(batchPromises);
-        batchResults.forEach(stats => {
-          statsMap.set(stats.client_id, stats);
+        const [allocations, movements] = await Promise.all([
+          allocationService.getAllocations({ client_ids: ids }),
+          movementService.getMovements({ client_ids: ids }),
+        ]);
+        const expiresAt = Date.now() + STATS_TTL_MS;
+        aggregateStats(missing, allocations, movements).forEach((stats, id) => {
+          this.cache.set(id, { stats, expiresAt });
         });
       } catch (error) {
-        console.error('Error processing batch:', error);
-        // Add default stats for failed batch
-        batch.forEach(clientId => {
-          statsMap.set(clientId, {
-            client_id: clientId,
-            total_allocations: 0,
-            total_invested: 0,
-            net_balance: 0,
-            last_investment_date: undefined,
-          });
-        });
+        // Falhas não vão para o cache; a próxima chamada tenta de novo
+        console.error('Error loading investment stats:', error);
       }
     }
-    
-    return statsMap;
+
+    return new Map(clientIds.map(id => [id, this.cache.get(id)?.stats ?? emptyStats(id)]));
+  }
+
+  /**
+   * Descarta estatísticas em cache (de um cliente ou de todos) após alterações
+   */
+  invalidate(clientId?: string) {
+    if (clientId === undefined) {
+      this.cache.clear();
+    } else {
+      this.cache.delete(clientId);
+    }
   }
 
   /**
@@ -97,17 +113,17 @@ export class ClientInvestmentService {
     try {
       // Get allocation summary
       const allocationSummary = await allocationService.getAllocationSummary();
-      
+
       // Get global movement summary
-      const movementSummary = await movementService.getMovementSummary();
-      
+      const movementSummary = await movementService.getMovementsSummary();
+
       return {
         totalInvestments: allocationSummary.total_allocations,
-        totalInvestedAmount: movementSummary.totalDeposits, // Use total deposits instead of allocation values
+        totalInvestedAmount: movementSummary.total_deposits, // Use total deposits instead of allocation values
         uniqueClients: allocationSummary.unique_clients,
         uniqueAssets: allocationSummary.unique_assets,
-        averagePortfolioValue: allocationSummary.unique_clients > 0 
-          ? movementSummary.totalDeposits / allocationSummary.unique_clients 
+        averagePortfolioValue: allocationSummary.unique_clients > 0
+          ? movementSummary.total_deposits / allocationSummary.unique_clients
           : 0,
       };
     } catch (error) {
@@ -123,4 +139,4 @@ export class ClientInvestmentService {
   }
 }
 
-export const clientInvestmentService = new ClientInvestmentService();
\ No newline at end of file
+export const clientInvestmentService = new ClientInvestmentService();
@@ -0,0 +1,102 @@
+import { getErrorMessage } from '../lib/errors';
+import {
+  describeIncome,
+  getCorporateActionImpacts,
+  isCashDistribution,
+  type CorporateActionImpact,
+} from '../lib/portfolio/corporateActions';
+import { allocationService } from './adaptedAllocationService';
+import { assetService } from './adaptedAssetService';
+import { corporateActionService } from './adaptedCorporateActionService';
+import { movementService, type MovementWithClient } from './adaptedMovementService';
+import { saleService } from './adaptedSaleService';
+
+export interface CorporateActionHolder extends CorporateActionImpact {
+  clientName: string;
+  movementId?: number; // provento já lançado para o cliente
+}
+
+export interface IncomeGenerationResult {
+  created: MovementWithClient[];
+  skipped: number; // clientes que já tinham o provento lançado
+  failed: { clientId: number; clientName: string; error: string }[];
+}
+
+const getHolders = async (actionId: number): Promise<CorporateActionHolder[]> => {
+  const action = await corporateActionService.getCorporateAction(actionId);
+  const [allocations, sales, actions] = await Promise.all([
+    allocationService.getAllocations({ asset_id: action.asset_id }),
+    saleService.getSales({ asset_id: action.asset_id }),
+    corporateActionService.getCorporateActions({ asset_id: action.asset_id }),
+  ]);
+  const names = new Map(allocations.map(a => [a.client_id, a.client_name]));
+  const paid = new Map((action.paid_holders ?? []).map(p => [p.client_id, p.movement_id]));
+
+  return getCorporateActionImpacts(action, allocations, sales, actions).map(impact => ({
+    ...impact,
+    clientName: names.get(impact.clientId) ?? '',
+    movementId: paid.get(impact.clientId),
+  }));
+};
+
+// O backend só guarda o evento: ajustes de posição são calculados na leitura e os proventos viram movimentações
+export const corporateIncomeService = {
+  getHolders,
+
+  /**
+   * Lança um depósito por cliente com o provento líquido, na data de pagamento.
+   * Cada lançamento é gravado em paid_holders do evento na mesma hora e os clientes já gravados são
+   * ignorados, então repetir a operação não duplica nada. Se a gravação falhar, a geração para ali.
+   */
+  generateIncomeMovements: async (actionId: number, createdBy: string): Promise<IncomeGenerationResult> => {
+    const action = await corporateActionService.getCorporateAction(actionId);
+    if (!isCashDistribution(action)) return { created: [], skipped: 0, failed: [] };
+
+    const [holders, asset] = await Promise.all([
+      getHolders(actionId),
+      assetService.getAsset(action.asset_id.toString()),
+    ]);
+    const result: IncomeGenerationResult = { created: [], skipped: 0, failed: [] };
+    let paidHolders = action.paid_holders ?? [];
+
+    for (const holder of holders) {
+      if (holder.movementId !== undefined) {
+        result.skipped++;
+        continue;
+      }
+      if (holder.netIncome <= 0) continue;
+
+      let movement: MovementWithClient;
+      try {
+        movement = await movementService.createMovement({
+          client_id: holder.clientId,
+          type: 'deposit',
+          amount: holder.netIncome,
+          date: action.payment_date ?? action.ex_date,
+          note: describeIncome(action, asset.symbol, holder),
+          created_by: createdBy,
+          corporate_action_id: action.id,
+        });
+      } catch (error) {
+        result.failed.push({ clientId: holder.clientId, clientName: holder.clientName, error: getErrorMessage(error) });
+        continue;
+      }
+      result.created.push(movement);
+
+      try {
+        paidHolders = [...paidHolders, { client_id: holder.clientId, movement_id: movement.id }];
+        await corporateActionService.updateCorporateAction(action.id, { paid_holders: paidHolders });
+      } catch (error) {
+        console.error('Erro ao registrar provento lançado:', error);
+        result.failed.push({
+          clientId: holder.clientId,
+          clientName: holder.clientName,
+          error: `Provento lançado, mas não registrado no evento: ${getErrorMessage(error)}`,
+        });
+        break;
+      }
+    }
+
+    return result;
+  },
+};
@@ -0,0 +1,59 @@
+import { createDatabaseConnection, promisify, transactionDone } from '../../lib/indexedDb';
+import { defaultMarketIndexes } from './fixtures';
+
+// Banco IndexedDB do navegador com dados de mercado que o backend não fornece (índices e cotações)
+
+const DB_NAME = 'investment-platform-local';
+const DB_VERSION = 2;
+
+export type LocalStoreName = 'marketIndexes' | 'prices';
+
+// Conteúdo inicial de cada store, gravado quando ele é criado
+const STORE_SEEDS: Record<LocalStoreName, () => object[]> = {
+  marketIndexes: defaultMarketIndexes,
+  prices: () => [],
+};
+
+const STORE_NAMES = Object.keys(STORE_SEEDS) as LocalStoreName[];
+
+const getDatabase = createDatabaseConnection<LocalStoreName>({
+  name: DB_NAME,
+  version: DB_VERSION,
+  storeNames: STORE_NAMES,
+  onStoresCreated: async (db, created) => {
+    const transaction = db.transaction(created, 'readwrite');
+    created.forEach(name => {
+      const store = transaction.objectStore(name);
+      STORE_SEEDS[name]().forEach(record => store.put(record));
+    });
+    await transactionDone(transaction);
+  },
+});
+
+export const localDb = {
+  async getAll<T>(storeName: LocalStoreName): Promise<T[]> {
+    const db = await getDatabase();
+    return promisify(db.transaction(storeName).objectStore(storeName).getAll() as IDBRequest<T[]>);
+  },
+
+  async get<T>(storeName: LocalStoreName, id: string | number): Promise<T | undefined> {
+    const db = await getDatabase();
+    return promisify(db.transaction(storeName).objectStore(storeName).get(id) as IDBRequest<T | undefined>);
+  },
+
+  async put<T>(storeName: LocalStoreName, record: T): Promise<T> {
+    const db = await getDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(record);
+    await transactionDone(transaction);
+    return record;
+  },
+
+  async putMany<T>(storeName: LocalStoreName, records: T[]): Promise<void> {
+    const db = await getDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    records.forEach(record => store.put(record));
+    await transactionDone(transaction);
+  },
+};
@@ -0,0 +1,72 @@
+import type { IndexPoint, IndexSeriesName } from '../../lib/portfolio/fixedIncome';
+
+// Séries de demonstração (aproximadas) para a marcação na curva funcionar sem importação
+
+export interface MarketIndexRecord {
+  id: IndexSeriesName;
+  points: IndexPoint[];
+  updatedAt: string;
+}
+
+const SERIES_START = '2023-01-02';
+const SERIES_END = '2025-09-30';
+
+// Meta Selic (% a.a.) a partir de cada data; CDI e Selic over ficam 0,10 p.p. abaixo
+const SELIC_TARGET: Array<[string, number]> = [
+  ['2023-01-01', 13.75],
+  ['2023-08-03', 13.25],
+  ['2023-09-21', 12.75],
+  ['2023-11-02', 12.25],
+  ['2023-12-14', 11.75],
+  ['2024-02-01', 11.25],
+  ['2024-03-21', 10.75],
+  ['2024-05-09', 10.5],
+  ['2024-09-19', 10.75],
+  ['2024-11-07', 11.25],
+  ['2024-12-12', 12.25],
+  ['2025-01-30', 13.25],
+  ['2025-03-20', 14.25],
+  ['2025-05-08', 14.75],
+  ['2025-06-19', 15],
+];
+
+// IPCA mensal (%) de jan/2023 em diante
+const IPCA_MONTHLY = [
+  0.53, 0.84, 0.71, 0.61, 0.23, -0.08, 0.12, 0.23, 0.26, 0.24, 0.28, 0.56,
+  0.42, 0.83, 0.16, 0.38, 0.46, 0.21, 0.38, -0.02, 0.44, 0.56, 0.39, 0.52,
+  0.16, 1.31, 0.56, 0.43, 0.26, 0.24, 0.26, -0.11, 0.48,
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dailyRate = (annualRate: number) =>
+  Number(((Math.pow(1 + annualRate / 100, 1 / 252) - 1) * 100).toFixed(8));
+
+const dailySeries = (): IndexPoint[] => {
+  const points: IndexPoint[] = [];
+  for (let time = Date.parse(`${SERIES_START}T00:00:00Z`); time <= Date.parse(`${SERIES_END}T00:00:00Z`); time += DAY_MS) {
+    const weekday = new Date(time).getUTCDay();
+    if (weekday === 0 || weekday === 6) continue;
+    const date = new Date(time).toISOString().slice(0, 10);
+    const target = [...SELIC_TARGET].reverse().find(([start]) => start <= date)![1];
+    points.push({ date, value: dailyRate(target - 0.1) });
+  }
+  return points;
+};
+
+const ipcaSeries = (): IndexPoint[] =>
+  IPCA_MONTHLY.map((value, index) => {
+    const year = 2023 + Math.floor(index / 12);
+    const month = String((index % 12) + 1).padStart(2, '0');
+    return { date: `${year}-${month}-01`, value };
+  });
+
+export const defaultMarketIndexes = (): MarketIndexRecord[] => {
+  const updatedAt = `${SERIES_END}T00:00:00.000Z`;
+  const daily = dailySeries();
+  return [
+    { id: 'cdi', points: daily, updatedAt },
+    { id: 'selic', points: daily, updatedAt },
+    { id: 'ipca', points: ipcaSeries(), updatedAt },
+  ];
+};
@@ -0,0 +1,70 @@
+import { localDb } from './local/db';
+import type { MarketIndexRecord } from './local/fixtures';
+import {
+  createFixedIncomeValuer,
+  indexSeriesNames,
+  type IndexPoint,
+  type IndexSeries,
+  type IndexSeriesName,
+  type LotValuer,
+} from '../lib/portfolio/fixedIncome';
+import type { Asset } from '../types/investment';
+
+export type { MarketIndexRecord };
+
+export interface IndexImportResult {
+  added: number;
+  updated: number;
+}
+
+export const toIndexSeries = (records: MarketIndexRecord[]): IndexSeries =>
+  Object.fromEntries(records.map(record => [record.id, record.points])) as IndexSeries;
+
+// As séries de CDI, SELIC e IPCA não vêm do backend: ficam no IndexedDB do navegador
+export const marketIndexService = {
+  getIndexes: async (): Promise<MarketIndexRecord[]> => {
+    const records = await localDb.getAll<MarketIndexRecord>('marketIndexes');
+    return indexSeriesNames.map(id =>
+      records.find(record => record.id === id) ?? { id, points: [], updatedAt: '' }
+    );
+  },
+
+  getSeries: async (): Promise<IndexSeries> => toIndexSeries(await marketIndexService.getIndexes()),
+
+  /**
+   * Avaliação na curva dos títulos de renda fixa na data informada.
+   * Sem acesso às séries (IndexedDB indisponível) os títulos continuam avaliados pela cotação/custo.
+   */
+  getFixedIncomeValuer: async (assets: Asset[], date?: string): Promise<LotValuer | undefined> => {
+    try {
+      return createFixedIncomeValuer(assets, await marketIndexService.getSeries(), date);
+    } catch (error) {
+      console.warn('Séries de índices indisponíveis:', error);
+      return undefined;
+    }
+  },
+
+  /**
+   * Mescla os pontos importados na série: datas novas são incluídas e as existentes têm o valor substituído
+   */
+  importPoints: async (id: IndexSeriesName, points: IndexPoint[]): Promise<IndexImportResult> => {
+    const current = await localDb.get<MarketIndexRecord>('marketIndexes', id);
+    const byDate = new Map((current?.points ?? []).map(point => [point.date, point.value]));
+    let added = 0;
+    let updated = 0;
+
+    points.forEach(point => {
+      const existing = byDate.get(point.date);
+      if (existing === undefined) added++;
+      else if (existing !== point.value) updated++;
+      byDate.set(point.date, point.value);
+    });
+
+    await localDb.put<MarketIndexRecord>('marketIndexes', {
+      id,
+      points: Array.from(byDate, ([date, value]) => ({ date, value })).sort((a, b) => a.date.localeCompare(b.date)),
+      updatedAt: new Date().toISOString(),
+    });
+    return { added, updated };
+  },
+};
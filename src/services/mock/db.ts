@@ -0,0 +1,85 @@
+import { createDatabaseConnection, promisify, transactionDone } from '../../lib/indexedDb';
+import { defaultFixtures, type MockFixtures } from './fixtures';
+
+// Banco IndexedDB que substitui o backend quando a API está inacessível (modo demo)
+
+const DB_NAME = 'investment-platform-mock';
+const DB_VERSION = 5;
+
+export type MockStoreName = keyof MockFixtures;
+
+const STORE_NAMES: MockStoreName[] = [
+  'clients',
+  'assets',
+  'allocations',
+  'movements',
+  'sales',
+  'movementTemplates',
+  'corporateActions',
+  'suitabilityAssessments',
+];
+
+const writeFixtures = async (
+  db: IDBDatabase,
+  fixtures: MockFixtures,
+  storeNames: MockStoreName[] = STORE_NAMES
+): Promise<void> => {
+  const transaction = db.transaction(storeNames, 'readwrite');
+  storeNames.forEach(name => {
+    const store = transaction.objectStore(name);
+    store.clear();
+    (fixtures[name] as object[]).forEach(record => store.put(record));
+  });
+  await transactionDone(transaction);
+};
+
+// Stores recém-criados recebem os dados de demonstração; os existentes são preservados
+const getDatabase = createDatabaseConnection<MockStoreName>({
+  name: DB_NAME,
+  version: DB_VERSION,
+  storeNames: STORE_NAMES,
+  onStoresCreated: (db, created) => writeFixtures(db, defaultFixtures, created),
+});
+
+export const mockDb = {
+  async getAll<T>(storeName: MockStoreName): Promise<T[]> {
+    const db = await getDatabase();
+    return promisify(db.transaction(storeName).objectStore(storeName).getAll() as IDBRequest<T[]>);
+  },
+
+  async get<T>(storeName: MockStoreName, id: string | number): Promise<T | undefined> {
+    const db = await getDatabase();
+    return promisify(db.transaction(storeName).objectStore(storeName).get(id) as IDBRequest<T | undefined>);
+  },
+
+  async put<T>(storeName: MockStoreName, record: T): Promise<T> {
+    const db = await getDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(record);
+    await transactionDone(transaction);
+    return record;
+  },
+
+  async delete(storeName: MockStoreName, id: string | number): Promise<void> {
+    const db = await getDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).delete(id);
+    await transactionDone(transaction);
+  },
+
+  /**
+   * Próximo id numérico do store (os ids do backend são sequenciais)
+   */
+  async nextId(storeName: MockStoreName): Promise<number> {
+    const records = await this.getAll<{ id: string | number }>(storeName);
+    return records.reduce((max, record) => Math.max(max, Number(record.id) || 0), 0) + 1;
+  },
+};
+
+/**
+ * Substitui todo o conteúdo do banco de demonstração pelas fixtures informadas
+ */
+export const seedMockDatabase = async (fixtures: MockFixtures = defaultFixtures): Promise<void> => {
+  const db = await getDatabase();
+  await writeFixtures(db, fixtures);
+};
@@ -0,0 +1,240 @@
+import type { Client, SuitabilityAssessment } from '../../types/client';
+import type { Asset } from '../../types/investment';
+import type { Allocation, CorporateAction, Sale } from '../../types/allocation';
+import type { MovementTemplate } from '../../types/movement';
+import type { MovementWithClient } from '../adaptedMovementService';
+
+// Registros guardados no banco de demonstração (o nome do cliente da movimentação é resolvido na leitura)
+export type MockMovementRecord = Omit<MovementWithClient, 'client_name'>;
+
+export interface MockFixtures {
+  clients: Client[];
+  assets: Asset[];
+  allocations: Allocation[];
+  movements: MockMovementRecord[];
+  sales: Sale[];
+  movementTemplates: MovementTemplate[];
+  corporateActions: CorporateAction[];
+  suitabilityAssessments: SuitabilityAssessment[];
+}
+
+const createClient = (
+  id: number,
+  data: Pick<Client, 'name' | 'cpf' | 'investmentProfile' | 'status'> & {
+    email: string;
+    phone: string;
+    city: string;
+    state: string;
+    birthDate: string;
+    createdAt: string;
+    monthlyIncome: number;
+    netWorth: number;
+    tags?: string[];
+  }
+): Client => ({
+  id: id.toString(),
+  name: data.name,
+  cpf: data.cpf,
+  birthDate: new Date(data.birthDate),
+  contact: {
+    email: data.email,
+    phone: data.phone,
+  },
+  address: {
+    street: 'Rua das Flores',
+    number: (100 + id).toString(),
+    neighborhood: 'Centro',
+    city: data.city,
+    state: data.state,
+    zipCode: '01000-000',
+    country: 'Brasil',
+  },
+  investmentProfile: data.investmentProfile,
+  riskTolerance: data.investmentProfile === 'aggressive' ? 8 : data.investmentProfile === 'moderate' ? 5 : 3,
+  investmentExperience: 'intermediate',
+  monthlyIncome: data.monthlyIncome,
+  netWorth: data.netWorth,
+  investmentGoals: [],
+  status: data.status,
+  createdAt: new Date(data.createdAt),
+  updatedAt: new Date(data.createdAt),
+  createdBy: 'demo',
+  notes: '',
+  tags: data.tags ?? [],
+});
+
+const createAssessment = (
+  id: number,
+  clientId: number,
+  data: Pick<SuitabilityAssessment, 'answers' | 'score' | 'profile' | 'riskTolerance'> & {
+    completedAt: string;
+    expiresAt: string;
+  }
+): SuitabilityAssessment => ({
+  id: id.toString(),
+  clientId: clientId.toString(),
+  answers: data.answers,
+  score: data.score,
+  profile: data.profile,
+  riskTolerance: data.riskTolerance,
+  completedAt: new Date(data.completedAt),
+  expiresAt: new Date(data.expiresAt),
+  completedBy: 'demo@investmentplatform.local',
+});
+
+const createAsset = (
+  id: number,
+  data: Pick<Asset, 'symbol' | 'name' | 'type' | 'currency'> & Partial<Asset>
+): Asset => ({
+  id: id.toString(),
+  ...data,
+  lastUpdate: new Date('2025-01-31'),
+  createdAt: new Date('2024-01-02'),
+  updatedAt: new Date('2025-01-31'),
+});
+
+export const defaultFixtures: MockFixtures = {
+  clients: [
+    createClient(1, {
+      name: 'João Silva', cpf: '123.456.789-09', email: 'joao@email.com', phone: '(11) 99999-9999',
+      city: 'São Paulo', state: 'SP', birthDate: '1985-04-12', createdAt: '2024-01-15',
+      investmentProfile: 'moderate', status: 'active', monthlyIncome: 18000, netWorth: 450000, tags: ['premium'],
+    }),
+    createClient(2, {
+      name: 'Maria Santos', cpf: '987.654.321-00', email: 'maria@email.com', phone: '(21) 98888-8888',
+      city: 'Rio de Janeiro', state: 'RJ', birthDate: '1978-09-30', createdAt: '2024-03-20',
+      investmentProfile: 'conservative', status: 'active', monthlyIncome: 12000, netWorth: 320000,
+    }),
+    createClient(3, {
+      name: 'Carlos Oliveira', cpf: '111.444.777-35', email: 'carlos@email.com', phone: '(31) 97777-7777',
+      city: 'Belo Horizonte', state: 'MG', birthDate: '1990-01-22', createdAt: '2024-05-08',
+      investmentProfile: 'aggressive', status: 'active', monthlyIncome: 25000, netWorth: 780000, tags: ['premium'],
+    }),
+    createClient(4, {
+      name: 'Ana Pereira', cpf: '529.982.247-25', email: 'ana@email.com', phone: '(41) 96666-6666',
+      city: 'Curitiba', state: 'PR', birthDate: '1995-07-03', createdAt: '2024-08-14',
+      investmentProfile: 'moderate', status: 'prospect', monthlyIncome: 9000, netWorth: 60000,
+    }),
+    createClient(5, {
+      name: 'Roberto Costa', cpf: '347.066.210-70', email: 'roberto@email.com', phone: '(51) 95555-5555',
+      city: 'Porto Alegre', state: 'RS', birthDate: '1969-11-17', createdAt: '2023-11-02',
+      investmentProfile: 'conservative', status: 'inactive', monthlyIncome: 15000, netWorth: 1200000,
+    }),
+  ],
+  assets: [
+    createAsset(1, { symbol: 'PETR4', name: 'Petrobras PN', type: 'stocks', currency: 'BRL', exchange: 'B3', sector: 'Petróleo e Gás', currentPrice: 37.2 }),
+    createAsset(2, { symbol: 'VALE3', name: 'Vale ON', type: 'stocks', currency: 'BRL', exchange: 'B3', sector: 'Mineração', currentPrice: 55.8 }),
+    createAsset(3, { symbol: 'ITUB4', name: 'Itaú Unibanco PN', type: 'stocks', currency: 'BRL', exchange: 'B3', sector: 'Financeiro', currentPrice: 33.1 }),
+    createAsset(4, { symbol: 'HGLG11', name: 'CSHG Logística FII', type: 'real_estate_funds', currency: 'BRL', exchange: 'B3', sector: 'Logística', currentPrice: 158.4 }),
+    createAsset(5, { symbol: 'BOVA11', name: 'iShares Ibovespa', type: 'investment_funds', currency: 'BRL', exchange: 'B3', sector: 'Índice', currentPrice: 124.9 }),
+    createAsset(6, { symbol: 'AAPL', name: 'Apple Inc.', type: 'international', currency: 'USD', exchange: 'NASDAQ', sector: 'Tecnologia', currentPrice: 236.0 }),
+    createAsset(7, {
+      symbol: 'CDB-BMG-2027', name: 'CDB Banco BMG 110% CDI', type: 'fixed_income', currency: 'BRL',
+      issuer: 'Banco BMG', indexer: 'cdi', rate: 110, liquidity: 'at_maturity',
+      issueDate: new Date('2024-03-01'), maturityDate: new Date('2027-03-01'),
+    }),
+    createAsset(8, {
+      symbol: 'NTNB-2029', name: 'Tesouro IPCA+ 2029', type: 'bonds', currency: 'BRL',
+      issuer: 'Tesouro Nacional', indexer: 'ipca', rate: 6.2, liquidity: 'daily',
+      issueDate: new Date('2023-01-02'), maturityDate: new Date('2029-05-15'), isin: 'BRSTNCNTB4U6',
+    }),
+  ],
+  allocations: [
+    { id: 1, client_id: 1, asset_id: 1, quantity: 200, buy_price: 34.5, buy_date: '2024-02-10' },
+    { id: 2, client_id: 1, asset_id: 4, quantity: 50, buy_price: 162.0, buy_date: '2024-04-18' },
+    { id: 3, client_id: 2, asset_id: 3, quantity: 300, buy_price: 30.2, buy_date: '2024-04-02' },
+    { id: 4, client_id: 2, asset_id: 5, quantity: 40, buy_price: 118.7, buy_date: '2024-06-21' },
+    { id: 5, client_id: 3, asset_id: 2, quantity: 150, buy_price: 61.3, buy_date: '2024-05-15' },
+    { id: 6, client_id: 3, asset_id: 6, quantity: 20, buy_price: 190.5, buy_date: '2024-07-01' },
+    { id: 7, client_id: 3, asset_id: 1, quantity: 400, buy_price: 38.9, buy_date: '2024-09-12' },
+    { id: 8, client_id: 2, asset_id: 7, quantity: 10, buy_price: 1000, buy_date: '2024-05-06' },
+    { id: 9, client_id: 1, asset_id: 8, quantity: 2, buy_price: 3150, buy_date: '2024-07-15' },
+  ],
+  movements: [
+    { id: 1, client_id: 1, type: 'deposit', amount: 20000, date: '2024-02-01', note: 'Aporte inicial' },
+    { id: 2, client_id: 1, type: 'deposit', amount: 5000, date: '2024-04-10', note: 'Aporte mensal' },
+    { id: 3, client_id: 2, type: 'deposit', amount: 20000, date: '2024-03-25', note: 'Aporte inicial' },
+    { id: 4, client_id: 2, type: 'withdrawal', amount: 1500, date: '2024-08-05', note: 'Despesas pessoais' },
+    { id: 5, client_id: 3, type: 'deposit', amount: 40000, date: '2024-05-10', note: 'Aporte inicial' },
+    { id: 6, client_id: 3, type: 'deposit', amount: 15000, date: '2024-09-01' },
+    { id: 7, client_id: 3, type: 'withdrawal', amount: 3000, date: '2024-12-20', note: 'Resgate parcial' },
+    { id: 8, client_id: 5, type: 'deposit', amount: 10000, date: '2023-11-10' },
+    { id: 9, client_id: 5, type: 'withdrawal', amount: 10000, date: '2024-01-30', note: 'Encerramento' },
+    {
+      id: 10,
+      client_id: 3,
+      type: 'withdrawal',
+      amount: 8000,
+      date: '2025-01-15',
+      note: 'Resgate para reforma',
+      bank_account: 'Itaú 0001 12345-6',
+      status: 'pending_approval',
+      created_by: 'assessor@investmentplatform.local',
+      approval_reasons: ['Saque para conta bancária nova'],
+      approval_history: [
+        { action: 'submitted', user: 'assessor@investmentplatform.local', date: '2025-01-15T13:00:00.000Z' },
+      ],
+    },
+    { id: 11, client_id: 2, type: 'deposit', amount: 10000, date: '2024-05-02', note: 'Aporte para CDB' },
+  ],
+  sales: [
+    { id: 1, client_id: 1, asset_id: 1, quantity: 50, sell_price: 39.2, sell_date: '2024-08-14', fees: 4.9 },
+    { id: 2, client_id: 3, asset_id: 2, quantity: 50, sell_price: 57.8, sell_date: '2024-11-05', fees: 4.9 },
+  ],
+  movementTemplates: [
+    {
+      id: '1',
+      name: 'Aporte mensal - João Silva',
+      description: 'Aporte mensal programado',
+      type: 'deposit',
+      clientId: '1',
+      defaultAmount: 2000,
+      paymentMethod: 'pix',
+      isRecurring: true,
+      recurringConfig: { frequency: 'monthly', interval: 1, startDate: new Date('2025-01-10'), maxOccurrences: 24 },
+      usageCount: 0,
+      createdAt: new Date('2025-01-02'),
+      updatedAt: new Date('2025-01-02'),
+      createdBy: 'demo@investmentplatform.local',
+    },
+  ],
+  corporateActions: [
+    { id: 1, asset_id: 1, type: 'jcp', ex_date: '2024-12-23', amount_per_share: 0.6, payment_date: '2025-02-20' },
+    { id: 2, asset_id: 3, type: 'bonus', ex_date: '2025-03-17', ratio: 0.1, assigned_cost: 18.24, note: 'Bonificação de 10%' },
+  ],
+  // Ana Pereira ainda não respondeu; o perfil de Roberto Costa está vencido
+  suitabilityAssessments: [
+    createAssessment(1, 1, {
+      answers: {
+        objective: 'income', horizon: '3_5y', drawdown: 'hold', knowledge: 'intermediate',
+        experience: 'fixed_income', allocation: '50_75', liquidity: 'half', income: 'even',
+      },
+      score: 19, profile: 'moderate', riskTolerance: 5,
+      completedAt: '2025-02-10T14:00:00Z', expiresAt: '2027-02-10T14:00:00Z',
+    }),
+    createAssessment(2, 2, {
+      answers: {
+        objective: 'preserve', horizon: '1_3y', drawdown: 'sell_part', knowledge: 'basic',
+        experience: 'fixed_income', allocation: 'over_75', liquidity: 'half', income: 'even',
+      },
+      score: 14, profile: 'conservative', riskTolerance: 3,
+      completedAt: '2025-02-12T10:30:00Z', expiresAt: '2027-02-12T10:30:00Z',
+    }),
+    createAssessment(3, 3, {
+      answers: {
+        objective: 'maximize', horizon: 'over_5y', drawdown: 'hold', knowledge: 'intermediate',
+        experience: 'equities', allocation: '25_50', liquidity: 'small', income: 'surplus',
+      },
+      score: 26, profile: 'aggressive', riskTolerance: 8,
+      completedAt: '2025-02-18T16:15:00Z', expiresAt: '2027-02-18T16:15:00Z',
+    }),
+    createAssessment(4, 5, {
+      answers: {
+        objective: 'preserve', horizon: '1_3y', drawdown: 'sell_all', knowledge: 'basic',
+        experience: 'fixed_income', allocation: 'over_75', liquidity: 'half', income: 'even',
+      },
+      score: 13, profile: 'conservative', riskTolerance: 3,
+      completedAt: '2023-11-06T11:00:00Z', expiresAt: '2025-11-06T11:00:00Z',
+    }),
+  ],
+};
@@ -0,0 +1,118 @@
+import { mockDb } from './db';
+import { NotFoundError } from '../../lib/errors';
+import { summarizeAllocations } from '../../lib/allocations';
+import type { AllocationService } from '../adaptedAllocationService';
+import type { Client } from '../../types/client';
+import type { Asset } from '../../types/investment';
+import type {
+  Allocation,
+  AllocationCreate,
+  AllocationFilters,
+  AllocationSummary,
+  AllocationUpdate,
+  AllocationWithDetails,
+  ClientAllocationSummary,
+} from '../../types/allocation';
+
+const withDetails = async (allocations: Allocation[]): Promise<AllocationWithDetails[]> => {
+  const [clients, assets] = await Promise.all([
+    mockDb.getAll<Client>('clients'),
+    mockDb.getAll<Asset>('assets'),
+  ]);
+  const clientsById = new Map(clients.map(client => [Number(client.id), client]));
+  const assetsById = new Map(assets.map(asset => [Number(asset.id), asset]));
+
+  return allocations.map(allocation => ({
+    ...allocation,
+    client_name: clientsById.get(allocation.client_id)?.name ?? '',
+    asset_ticker: assetsById.get(allocation.asset_id)?.symbol ?? '',
+    asset_name: assetsById.get(allocation.asset_id)?.name ?? '',
+    total_invested: allocation.quantity * allocation.buy_price,
+  }));
+};
+
+class MockAllocationService implements AllocationService {
+  async getAllocations(filters?: AllocationFilters): Promise<AllocationWithDetails[]> {
+    let allocations = await mockDb.getAll<Allocation>('allocations');
+
+    if (filters?.client_id) allocations = allocations.filter(a => a.client_id === filters.client_id);
+    if (filters?.client_ids) allocations = allocations.filter(a => filters.client_ids!.includes(a.client_id));
+    if (filters?.asset_id) allocations = allocations.filter(a => a.asset_id === filters.asset_id);
+
+    // Mesma ordem do backend: mais recentes primeiro
+    allocations.sort((a, b) => b.buy_date.localeCompare(a.buy_date) || b.id - a.id);
+
+    const skip = filters?.skip ?? 0;
+    const paginated = filters?.limit ? allocations.slice(skip, skip + filters.limit) : allocations.slice(skip);
+    return withDetails(paginated);
+  }
+
+  async getAllocation(id: number): Promise<AllocationWithDetails> {
+    const allocation = await mockDb.get<Allocation>('allocations', id);
+    if (!allocation) {
+      throw new NotFoundError('Alocação não encontrada');
+    }
+    const [detailed] = await withDetails([allocation]);
+    return detailed;
+  }
+
+  async createAllocation(allocation: AllocationCreate): Promise<Allocation> {
+    const [client, asset] = await Promise.all([
+      mockDb.get<Client>('clients', allocation.client_id.toString()),
+      mockDb.get<Asset>('assets', allocation.asset_id.toString()),
+    ]);
+    if (!client) throw new NotFoundError('Cliente não encontrado');
+    if (!asset) throw new NotFoundError('Ativo não encontrado');
+
+    const newAllocation: Allocation = {
+      id: await mockDb.nextId('allocations'),
+      client_id: allocation.client_id,
+      asset_id: allocation.asset_id,
+      quantity: allocation.quantity,
+      buy_price: allocation.buy_price,
+      buy_date: allocation.buy_date,
+      suitability_override: allocation.suitability_override,
+    };
+    return mockDb.put('allocations', newAllocation);
+  }
+
+  async updateAllocation(id: number, allocation: AllocationUpdate): Promise<Allocation> {
+    const current = await mockDb.get<Allocation>('allocations', id);
+    if (!current) {
+      throw new NotFoundError('Alocação não encontrada');
+    }
+    return mockDb.put<Allocation>('allocations', { ...current, ...allocation });
+  }
+
+  async deleteAllocation(id: number): Promise<void> {
+    await this.getAllocation(id);
+    await mockDb.delete('allocations', id);
+  }
+
+  async getAllocationsByClient(clientId: number): Promise<AllocationWithDetails[]> {
+    return this.getAllocations({ client_id: clientId });
+  }
+
+  async getAllocationSummary(): Promise<AllocationSummary> {
+    return summarizeAllocations(await this.getAllocations());
+  }
+
+  async getClientAllocationSummary(clientId: number): Promise<ClientAllocationSummary> {
+    const allocations = await this.getAllocationsByClient(clientId);
+
+    if (allocations.length === 0) {
+      throw new Error('No allocations found for this client');
+    }
+
+    return {
+      client_id: clientId,
+      client_name: allocations[0].client_name,
+      total_allocated: allocations.reduce((sum, a) => sum + a.quantity, 0),
+      total_invested: allocations.reduce((sum, a) => sum + a.total_invested, 0),
+      asset_count: allocations.length,
+      allocations,
+    };
+  }
+}
+
+export const mockAllocationService = new MockAllocationService();
@@ -0,0 +1,125 @@
+import { mockDb } from './db';
+import { ConflictError, NotFoundError } from '../../lib/errors';
+import type { AssetService, AssetUpdate } from '../adaptedAssetService';
+import type { Asset } from '../../types/investment';
+import type { Allocation } from '../../types/allocation';
+
+// Catálogo usado no lugar da busca no Yahoo Finance
+const marketCatalog: Array<Pick<Asset, 'symbol' | 'name' | 'type' | 'currency' | 'exchange' | 'sector' | 'currentPrice'>> = [
+  { symbol: 'BBAS3', name: 'Banco do Brasil ON', type: 'stocks', currency: 'BRL', exchange: 'B3', sector: 'Financeiro', currentPrice: 27.4 },
+  { symbol: 'WEGE3', name: 'WEG ON', type: 'stocks', currency: 'BRL', exchange: 'B3', sector: 'Bens Industriais', currentPrice: 52.6 },
+  { symbol: 'MXRF11', name: 'Maxi Renda FII', type: 'real_estate_funds', currency: 'BRL', exchange: 'B3', sector: 'Papel', currentPrice: 9.6 },
+  { symbol: 'IVVB11', name: 'iShares S&P 500', type: 'investment_funds', currency: 'BRL', exchange: 'B3', sector: 'Índice', currentPrice: 345.2 },
+  { symbol: 'MSFT', name: 'Microsoft Corporation', type: 'international', currency: 'USD', exchange: 'NASDAQ', sector: 'Tecnologia', currentPrice: 415.3 },
+];
+
+// Mesmo formato devolvido pelo backend em /assets/{id} e na busca do Yahoo
+interface BackendAssetInfo {
+  id?: number;
+  ticker: string;
+  name: string;
+  exchange?: string;
+  currency: string;
+}
+
+const normalizeSymbol = (symbol: string) => symbol.trim().toUpperCase().replace(/\.SA$/, '');
+
+class MockAssetService implements AssetService {
+  async getAssets(): Promise<Asset[]> {
+    const assets = await mockDb.getAll<Asset>('assets');
+    return assets.sort((a, b) => Number(a.id) - Number(b.id));
+  }
+
+  async getAsset(id: string): Promise<Asset> {
+    const asset = await mockDb.get<Asset>('assets', id);
+    if (!asset) {
+      throw new NotFoundError('Ativo não encontrado');
+    }
+    return asset;
+  }
+
+  async getAssetById(id: number): Promise<BackendAssetInfo> {
+    const asset = await this.getAsset(id.toString());
+    return {
+      id: Number(asset.id),
+      ticker: asset.symbol,
+      name: asset.name,
+      exchange: asset.exchange,
+      currency: asset.currency,
+    };
+  }
+
+  async createAsset(asset: Omit<Asset, 'id' | 'createdAt' | 'updatedAt' | 'lastUpdate'>): Promise<Asset> {
+    await this.ensureUniqueSymbol(asset.symbol);
+
+    const now = new Date();
+    const newAsset: Asset = {
+      ...asset,
+      symbol: normalizeSymbol(asset.symbol),
+      id: (await mockDb.nextId('assets')).toString(),
+      lastUpdate: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    return mockDb.put('assets', newAsset);
+  }
+
+  async updateAsset(id: string, asset: AssetUpdate): Promise<Asset> {
+    const current = await this.getAsset(id);
+    if (asset.symbol !== undefined && normalizeSymbol(asset.symbol) !== current.symbol) {
+      await this.ensureUniqueSymbol(asset.symbol);
+    }
+
+    // null apaga o campo, como no backend
+    const updated = { ...current, ...asset } as Record<string, unknown>;
+    Object.keys(asset).forEach(key => {
+      if (updated[key] === null) delete updated[key];
+    });
+
+    return mockDb.put<Asset>('assets', {
+      ...(updated as unknown as Asset),
+      symbol: asset.symbol !== undefined ? normalizeSymbol(asset.symbol) : current.symbol,
+      updatedAt: new Date(),
+    });
+  }
+
+  async deleteAsset(id: number): Promise<void> {
+    await this.getAsset(id.toString());
+
+    const allocations = await mockDb.getAll<Allocation>('allocations');
+    if (allocations.some(allocation => allocation.asset_id === id)) {
+      throw new ConflictError('Ativo possui alocações e não pode ser excluído');
+    }
+    await mockDb.delete('assets', id.toString());
+  }
+
+  async searchYahooAsset(symbol: string): Promise<BackendAssetInfo> {
+    const found = marketCatalog.find(item => item.symbol === normalizeSymbol(symbol));
+    if (!found) {
+      throw new NotFoundError(`Ativo ${symbol} não encontrado`);
+    }
+    return {
+      ticker: found.symbol,
+      name: found.name,
+      exchange: found.exchange,
+      currency: found.currency,
+    };
+  }
+
+  async createAssetFromYahoo(symbol: string): Promise<Asset> {
+    const found = marketCatalog.find(item => item.symbol === normalizeSymbol(symbol));
+    if (!found) {
+      throw new NotFoundError(`Ativo ${symbol} não encontrado`);
+    }
+    return this.createAsset(found);
+  }
+
+  private async ensureUniqueSymbol(symbol: string): Promise<void> {
+    const assets = await mockDb.getAll<Asset>('assets');
+    if (assets.some(asset => asset.symbol === normalizeSymbol(symbol))) {
+      throw new ConflictError('Ticker já cadastrado');
+    }
+  }
+}
+
+export const mockAssetService = new MockAssetService();
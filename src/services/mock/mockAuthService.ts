@@ -0,0 +1,15 @@
+import type { User } from '../../types/auth';
+
+// Usuário da sessão de demonstração, com acesso a todas as funcionalidades
+const demoUser: User = {
+  id: 'demo',
+  email: 'demo@investmentplatform.local',
+  is_active: true,
+  role: 'admin',
+};
+
+export const mockAuthService = {
+  getCurrentUser: async (): Promise<User> => {
+    return demoUser;
+  },
+};
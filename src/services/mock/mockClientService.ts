@@ -0,0 +1,184 @@
+import { mockDb } from './db';
+import { ConflictError, NotFoundError } from '../../lib/errors';
+import type { ClientService } from '../adaptedClientService';
+import type { PaginatedResponse } from '../../lib/api';
+import type { Client, ClientFilters, ClientStats, ClientWithAssets } from '../../types/client';
+import type { Allocation, CorporateAction, Sale } from '../../types/allocation';
+import type { Asset } from '../../types/investment';
+import type { MockMovementRecord } from './fixtures';
+import { marketIndexService } from '../marketIndexService';
+import { storedPriceSource } from '../priceHistoryService';
+import { toClientWithAssets, valuePortfolio } from '../../lib/portfolio/valuation';
+import type { CostMethod } from '../../lib/portfolio/lots';
+
+const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+const matchesFilters = (client: Client, filters?: ClientFilters): boolean => {
+  if (!filters) return true;
+
+  const search = filters.search?.trim().toLowerCase();
+  if (search) {
+    const searchDigits = onlyDigits(search);
+    const matches = client.name.toLowerCase().includes(search)
+      || client.contact.email.toLowerCase().includes(search)
+      || (searchDigits.length > 0 && onlyDigits(client.cpf).includes(searchDigits));
+    if (!matches) return false;
+  }
+
+  if (filters.status && client.status !== filters.status) return false;
+  if (filters.investmentProfile && client.investmentProfile !== filters.investmentProfile) return false;
+  if (filters.createdFrom && client.createdAt < new Date(filters.createdFrom)) return false;
+  if (filters.createdTo && client.createdAt > new Date(filters.createdTo)) return false;
+  if (filters.tags?.length && !filters.tags.every(tag => client.tags?.includes(tag))) return false;
+
+  return true;
+};
+
+const getSortValue = (client: Client, field: string): string | number => {
+  switch (field) {
+    case 'createdAt':
+      return client.createdAt.getTime();
+    case 'lastContactDate':
+      return client.lastContactDate?.getTime() ?? 0;
+    case 'netWorth':
+      return client.netWorth ?? 0;
+    default:
+      return client.name.toLowerCase();
+  }
+};
+
+class MockClientService implements ClientService {
+  async getClients(
+    filters?: ClientFilters,
+    sortBy?: { field: string; direction: 'asc' | 'desc' },
+    page = 1,
+    limit = 10
+  ): Promise<PaginatedResponse<Client>> {
+    const clients = (await mockDb.getAll<Client>('clients')).filter(client => matchesFilters(client, filters));
+
+    const field = sortBy?.field ?? 'name';
+    const direction = sortBy?.direction === 'desc' ? -1 : 1;
+    clients.sort((a, b) => {
+      const aValue = getSortValue(a, field);
+      const bValue = getSortValue(b, field);
+      if (aValue < bValue) return -1 * direction;
+      if (aValue > bValue) return 1 * direction;
+      return 0;
+    });
+
+    const start = (page - 1) * limit;
+    return {
+      items: clients.slice(start, start + limit),
+      total: clients.length,
+      page,
+      totalPages: Math.ceil(clients.length / limit),
+    };
+  }
+
+  async getClient(id: string): Promise<Client> {
+    const client = await mockDb.get<Client>('clients', id);
+    if (!client) {
+      throw new NotFoundError('Cliente não encontrado');
+    }
+    return client;
+  }
+
+  async getClientStats(): Promise<ClientStats> {
+    const [clients, allocations] = await Promise.all([
+      mockDb.getAll<Client>('clients'),
+      mockDb.getAll<Allocation>('allocations'),
+    ]);
+    const countByStatus = (status: Client['status']) => clients.filter(client => client.status === status).length;
+    const investingClients = new Set(allocations.map(allocation => allocation.client_id)).size;
+    const totalInvested = allocations.reduce((sum, a) => sum + a.quantity * a.buy_price, 0);
+
+    return {
+      total: clients.length,
+      active: countByStatus('active'),
+      prospects: countByStatus('prospect'),
+      inactive: countByStatus('inactive'),
+      suspended: countByStatus('suspended'),
+      totalInvestments: allocations.length,
+      averagePortfolioValue: investingClients > 0 ? totalInvested / investingClients : 0,
+    };
+  }
+
+  async createClient(client: Omit<Client, 'id' | 'createdAt' | 'updatedAt'>): Promise<Client> {
+    await this.ensureUniqueCpf(client.cpf);
+
+    const now = new Date();
+    const newClient: Client = {
+      ...client,
+      id: (await mockDb.nextId('clients')).toString(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    return mockDb.put('clients', newClient);
+  }
+
+  async updateClient(id: string, client: Partial<Client>): Promise<Client> {
+    const current = await this.getClient(id);
+    if (client.cpf !== undefined && onlyDigits(client.cpf) !== onlyDigits(current.cpf)) {
+      await this.ensureUniqueCpf(client.cpf);
+    }
+
+    const updated: Client = {
+      ...current,
+      ...client,
+      id: current.id,
+      contact: { ...current.contact, ...client.contact },
+      address: { ...current.address, ...client.address },
+      createdAt: current.createdAt,
+      updatedAt: new Date(),
+    };
+    return mockDb.put('clients', updated);
+  }
+
+  async deleteClient(id: string): Promise<void> {
+    await this.getClient(id);
+
+    // Remover em cascata, como o backend faz
+    const clientId = Number(id);
+    const [allocations, movements, sales] = await Promise.all([
+      mockDb.getAll<Allocation>('allocations'),
+      mockDb.getAll<MockMovementRecord>('movements'),
+      mockDb.getAll<Sale>('sales'),
+    ]);
+    await Promise.all([
+      ...allocations.filter(a => a.client_id === clientId).map(a => mockDb.delete('allocations', a.id)),
+      ...movements.filter(m => m.client_id === clientId).map(m => mockDb.delete('movements', m.id)),
+      ...sales.filter(s => s.client_id === clientId).map(s => mockDb.delete('sales', s.id)),
+    ]);
+    await mockDb.delete('clients', id);
+  }
+
+  async getClientWithAssets(id: string, costMethod?: CostMethod): Promise<ClientWithAssets> {
+    const client = await this.getClient(id);
+    const [allocations, sales, assets, corporateActions] = await Promise.all([
+      mockDb.getAll<Allocation>('allocations'),
+      mockDb.getAll<Sale>('sales'),
+      mockDb.getAll<Asset>('assets'),
+      mockDb.getAll<CorporateAction>('corporateActions'),
+    ]);
+    const clientAllocations = allocations.filter(allocation => allocation.client_id === Number(id));
+    const clientSales = sales.filter(sale => sale.client_id === Number(id));
+    const [prices, lotValuer] = await Promise.all([
+      storedPriceSource.getPrices(assets),
+      marketIndexService.getFixedIncomeValuer(assets),
+    ]);
+
+    return toClientWithAssets(
+      client,
+      valuePortfolio(clientAllocations, assets, prices, { sales: clientSales, costMethod, lotValuer, corporateActions })
+    );
+  }
+
+  private async ensureUniqueCpf(cpf: string): Promise<void> {
+    const clients = await mockDb.getAll<Client>('clients');
+    if (clients.some(existing => onlyDigits(existing.cpf) === onlyDigits(cpf))) {
+      throw new ConflictError('CPF já cadastrado');
+    }
+  }
+}
+
+export const mockClientService = new MockClientService();
@@ -0,0 +1,43 @@
+import { mockDb } from './db';
+import { NotFoundError } from '../../lib/errors';
+import type { CorporateActionFilters, CorporateActionService } from '../adaptedCorporateActionService';
+import type { Asset } from '../../types/investment';
+import type { CorporateAction, CorporateActionCreate, CorporateActionUpdate } from '../../types/allocation';
+
+class MockCorporateActionService implements CorporateActionService {
+  async getCorporateActions(filters?: CorporateActionFilters): Promise<CorporateAction[]> {
+    let actions = await mockDb.getAll<CorporateAction>('corporateActions');
+    if (filters?.asset_id) actions = actions.filter(a => a.asset_id === filters.asset_id);
+    return actions.sort((a, b) => b.ex_date.localeCompare(a.ex_date) || b.id - a.id);
+  }
+
+  async getCorporateAction(id: number): Promise<CorporateAction> {
+    const action = await mockDb.get<CorporateAction>('corporateActions', id);
+    if (!action) {
+      throw new NotFoundError('Evento societário não encontrado');
+    }
+    return action;
+  }
+
+  async createCorporateAction(action: CorporateActionCreate): Promise<CorporateAction> {
+    const asset = await mockDb.get<Asset>('assets', action.asset_id.toString());
+    if (!asset) throw new NotFoundError('Ativo não encontrado');
+
+    return mockDb.put<CorporateAction>('corporateActions', {
+      ...action,
+      id: await mockDb.nextId('corporateActions'),
+    });
+  }
+
+  async updateCorporateAction(id: number, action: CorporateActionUpdate): Promise<CorporateAction> {
+    const current = await this.getCorporateAction(id);
+    return mockDb.put<CorporateAction>('corporateActions', { ...current, ...action, id: current.id });
+  }
+
+  async deleteCorporateAction(id: number): Promise<void> {
+    await this.getCorporateAction(id);
+    await mockDb.delete('corporateActions', id);
+  }
+}
+
+export const mockCorporateActionService = new MockCorporateActionService();
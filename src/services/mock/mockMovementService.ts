@@ -0,0 +1,158 @@
+import { mockDb } from './db';
+import { NotFoundError } from '../../lib/errors';
+import { summarizeMovements } from '../../lib/movements';
+import { assertCanReviewMovement, createApprovalEvent, getApprovalReasons } from '../../lib/approvals';
+import { assertWithdrawalAllowed, buildCashLedger } from '../../lib/portfolio/cash';
+import type {
+  MovementCreate,
+  MovementFilters,
+  MovementService,
+  MovementSummary,
+  MovementWithClient,
+} from '../adaptedMovementService';
+import type { Client } from '../../types/client';
+import type { Allocation, Sale } from '../../types/allocation';
+import type { MockMovementRecord } from './fixtures';
+
+const withClientName = async (movements: MockMovementRecord[]): Promise<MovementWithClient[]> => {
+  const clients = await mockDb.getAll<Client>('clients');
+  const namesById = new Map(clients.map(client => [Number(client.id), client.name]));
+
+  return movements.map(movement => ({
+    ...movement,
+    client_name: namesById.get(movement.client_id) ?? '',
+  }));
+};
+
+class MockMovementService implements MovementService {
+  async getMovements(filters?: MovementFilters): Promise<MovementWithClient[]> {
+    let movements = await mockDb.getAll<MockMovementRecord>('movements');
+
+    if (filters?.client_id) movements = movements.filter(m => m.client_id === filters.client_id);
+    if (filters?.client_ids) movements = movements.filter(m => filters.client_ids!.includes(m.client_id));
+    if (filters?.type) movements = movements.filter(m => m.type === filters.type);
+    if (filters?.start_date) movements = movements.filter(m => m.date >= filters.start_date!);
+    if (filters?.end_date) movements = movements.filter(m => m.date <= filters.end_date!);
+    if (filters?.status) movements = movements.filter(m => m.status === filters.status);
+
+    movements.sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id);
+    return withClientName(movements);
+  }
+
+  async getMovement(id: string): Promise<MovementWithClient> {
+    const movement = await mockDb.get<MockMovementRecord>('movements', Number(id));
+    if (!movement) {
+      throw new NotFoundError('Movimentação não encontrada');
+    }
+    const [detailed] = await withClientName([movement]);
+    return detailed;
+  }
+
+  async createMovement(movement: MovementCreate): Promise<MovementWithClient> {
+    const client = await mockDb.get<Client>('clients', movement.client_id.toString());
+    if (!client) {
+      throw new NotFoundError('Cliente não encontrado');
+    }
+
+    const clientMovements = await this.getMovements({ client_id: movement.client_id });
+    if (movement.type === 'withdrawal') {
+      await this.assertBalanceFor(movement.client_id, movement.amount, clientMovements);
+    }
+    const approvalReasons = getApprovalReasons(movement, clientMovements);
+    const requiresApproval = approvalReasons.length > 0;
+
+    const record: MockMovementRecord = {
+      id: await mockDb.nextId('movements'),
+      client_id: movement.client_id,
+      type: movement.type,
+      amount: movement.amount,
+      date: movement.date,
+      note: movement.note,
+      bank_account: movement.bank_account,
+      created_by: movement.created_by,
+      template_id: movement.template_id,
+      scheduled_date: movement.scheduled_date,
+      corporate_action_id: movement.corporate_action_id,
+      ...(requiresApproval && {
+        status: 'pending_approval' as const,
+        approval_reasons: approvalReasons,
+        approval_history: [createApprovalEvent('submitted', movement.created_by ?? '')],
+      }),
+    };
+    await mockDb.put('movements', record);
+    return { ...record, client_name: client.name };
+  }
+
+  async updateMovement(id: string, movement: Partial<MovementCreate>): Promise<MovementWithClient> {
+    const current = await mockDb.get<MockMovementRecord>('movements', Number(id));
+    if (!current) {
+      throw new NotFoundError('Movimentação não encontrada');
+    }
+
+    await mockDb.put<MockMovementRecord>('movements', { ...current, ...movement, id: current.id });
+    return this.getMovement(id);
+  }
+
+  async deleteMovement(id: number): Promise<void> {
+    await this.getMovement(id.toString());
+    await mockDb.delete('movements', id);
+  }
+
+  async getMovementsSummary(filters?: MovementFilters): Promise<MovementSummary> {
+    return summarizeMovements(await this.getMovements(filters));
+  }
+
+  async approveMovement(id: number, approvedBy: string): Promise<MovementWithClient> {
+    return this.review(id, approvedBy, 'approved');
+  }
+
+  async rejectMovement(id: number, rejectedBy: string, reason: string): Promise<MovementWithClient> {
+    return this.review(id, rejectedBy, 'rejected', reason);
+  }
+
+  private async review(
+    id: number,
+    reviewer: string,
+    status: 'approved' | 'rejected',
+    reason?: string
+  ): Promise<MovementWithClient> {
+    const current = await mockDb.get<MockMovementRecord>('movements', id);
+    if (!current) {
+      throw new NotFoundError('Movimentação não encontrada');
+    }
+    assertCanReviewMovement(current, reviewer);
+    if (status === 'approved' && current.type === 'withdrawal') {
+      await this.assertBalanceFor(current.client_id, current.amount);
+    }
+
+    await mockDb.put<MockMovementRecord>('movements', {
+      ...current,
+      status,
+      approval_history: [...(current.approval_history ?? []), createApprovalEvent(status, reviewer, reason)],
+    });
+    return this.getMovement(id.toString());
+  }
+
+  private async assertBalanceFor(
+    clientId: number,
+    amount: number,
+    clientMovements?: MovementWithClient[]
+  ): Promise<void> {
+    const [movements, allocations, sales] = await Promise.all([
+      clientMovements ?? this.getMovements({ client_id: clientId }),
+      mockDb.getAll<Allocation>('allocations'),
+      mockDb.getAll<Sale>('sales'),
+    ]);
+    assertWithdrawalAllowed(
+      buildCashLedger(
+        clientId.toString(),
+        movements,
+        allocations.filter(a => a.client_id === clientId),
+        sales.filter(s => s.client_id === clientId)
+      ),
+      amount
+    );
+  }
+}
+
+export const mockMovementService = new MockMovementService();
@@ -0,0 +1,48 @@
+import { mockDb } from './db';
+import { NotFoundError } from '../../lib/errors';
+import type { MovementTemplateCreate, MovementTemplateService } from '../adaptedMovementTemplateService';
+import type { MovementTemplate } from '../../types/movement';
+
+class MockMovementTemplateService implements MovementTemplateService {
+  async getTemplates(): Promise<MovementTemplate[]> {
+    const templates = await mockDb.getAll<MovementTemplate>('movementTemplates');
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getTemplate(id: string): Promise<MovementTemplate> {
+    const template = await mockDb.get<MovementTemplate>('movementTemplates', id);
+    if (!template) {
+      throw new NotFoundError('Modelo de movimentação não encontrado');
+    }
+    return template;
+  }
+
+  async createTemplate(template: MovementTemplateCreate, createdBy: string): Promise<MovementTemplate> {
+    const now = new Date();
+    return mockDb.put<MovementTemplate>('movementTemplates', {
+      ...template,
+      id: (await mockDb.nextId('movementTemplates')).toString(),
+      usageCount: 0,
+      createdAt: now,
+      updatedAt: now,
+      createdBy,
+    });
+  }
+
+  async updateTemplate(id: string, template: Partial<MovementTemplate>): Promise<MovementTemplate> {
+    const current = await this.getTemplate(id);
+    return mockDb.put<MovementTemplate>('movementTemplates', {
+      ...current,
+      ...template,
+      id: current.id,
+      updatedAt: new Date(),
+    });
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    await this.getTemplate(id);
+    await mockDb.delete('movementTemplates', id);
+  }
+}
+
+export const mockMovementTemplateService = new MockMovementTemplateService();
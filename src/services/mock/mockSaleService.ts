@@ -0,0 +1,66 @@
+import { mockDb } from './db';
+import { NotFoundError } from '../../lib/errors';
+import { assertSaleAllowed } from '../../lib/portfolio/lots';
+import type { SaleService } from '../adaptedSaleService';
+import type { Client } from '../../types/client';
+import type { Asset } from '../../types/investment';
+import type { Allocation, CorporateAction, Sale, SaleCreate, SaleFilters } from '../../types/allocation';
+
+class MockSaleService implements SaleService {
+  async getSales(filters?: SaleFilters): Promise<Sale[]> {
+    let sales = await mockDb.getAll<Sale>('sales');
+
+    if (filters?.client_id) sales = sales.filter(s => s.client_id === filters.client_id);
+    if (filters?.asset_id) sales = sales.filter(s => s.asset_id === filters.asset_id);
+
+    // Mais recentes primeiro, como as alocações
+    return sales.sort((a, b) => b.sell_date.localeCompare(a.sell_date) || b.id - a.id);
+  }
+
+  async getSalesByClient(clientId: number): Promise<Sale[]> {
+    return this.getSales({ client_id: clientId });
+  }
+
+  async createSale(sale: SaleCreate): Promise<Sale> {
+    const [client, asset] = await Promise.all([
+      mockDb.get<Client>('clients', sale.client_id.toString()),
+      mockDb.get<Asset>('assets', sale.asset_id.toString()),
+    ]);
+    if (!client) throw new NotFoundError('Cliente não encontrado');
+    if (!asset) throw new NotFoundError('Ativo não encontrado');
+
+    const [allocations, sales, corporateActions] = await Promise.all([
+      mockDb.getAll<Allocation>('allocations'),
+      this.getSalesByClient(sale.client_id),
+      mockDb.getAll<CorporateAction>('corporateActions'),
+    ]);
+    assertSaleAllowed(
+      allocations.filter(a => a.client_id === sale.client_id),
+      sales,
+      sale,
+      [asset],
+      corporateActions.filter(a => a.asset_id === sale.asset_id)
+    );
+
+    const newSale: Sale = {
+      id: await mockDb.nextId('sales'),
+      client_id: sale.client_id,
+      asset_id: sale.asset_id,
+      quantity: sale.quantity,
+      sell_price: sale.sell_price,
+      sell_date: sale.sell_date,
+      fees: sale.fees ?? 0,
+    };
+    return mockDb.put('sales', newSale);
+  }
+
+  async deleteSale(id: number): Promise<void> {
+    const sale = await mockDb.get<Sale>('sales', id);
+    if (!sale) {
+      throw new NotFoundError('Venda não encontrada');
+    }
+    await mockDb.delete('sales', id);
+  }
+}
+
+export const mockSaleService = new MockSaleService();
@@ -0,0 +1,25 @@
+import { mockDb } from './db';
+import { NotFoundError } from '../../lib/errors';
+import type { SuitabilityAssessmentCreate, SuitabilityAssessmentService } from '../adaptedSuitabilityService';
+import type { Client, SuitabilityAssessment } from '../../types/client';
+
+class MockSuitabilityService implements SuitabilityAssessmentService {
+  async getAssessments(clientId: string): Promise<SuitabilityAssessment[]> {
+    const assessments = await mockDb.getAll<SuitabilityAssessment>('suitabilityAssessments');
+    return assessments
+      .filter(a => a.clientId === clientId)
+      .sort((a, b) => b.completedAt.getTime() - a.completedAt.getTime());
+  }
+
+  async createAssessment(assessment: SuitabilityAssessmentCreate): Promise<SuitabilityAssessment> {
+    const client = await mockDb.get<Client>('clients', assessment.clientId);
+    if (!client) throw new NotFoundError('Cliente não encontrado');
+
+    return mockDb.put<SuitabilityAssessment>('suitabilityAssessments', {
+      ...assessment,
+      id: (await mockDb.nextId('suitabilityAssessments')).toString(),
+    });
+  }
+}
+
+export const mockSuitabilityService = new MockSuitabilityService();
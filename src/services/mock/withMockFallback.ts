@@ -0,0 +1,33 @@
+import { isBackendOffline, setBackendAvailable } from '../../lib/backendStatus';
+import { isBackendUnreachable } from '../../lib/errors';
+
+/**
+ * Envolve um serviço real para que cada método recorra à implementação local
+ * quando a API está inacessível. Erros da própria API (404, 422...) seguem para quem chamou.
+ */
+export function withMockFallback<T extends object>(real: T, mock: T): T {
+  return new Proxy(real, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function') return value;
+
+      return async (...args: unknown[]) => {
+        const fallback = Reflect.get(mock, property) as (...params: unknown[]) => Promise<unknown>;
+
+        if (isBackendOffline()) {
+          return fallback.apply(mock, args);
+        }
+
+        try {
+          return await value.apply(target, args);
+        } catch (error) {
+          if (!isBackendUnreachable(error)) throw error;
+
+          console.warn(`API indisponível, usando dados de demonstração (${String(property)})`);
+          setBackendAvailable(false);
+          return fallback.apply(mock, args);
+        }
+      };
+    },
+  });
+}
@@ -0,0 +1,69 @@
+import { allocationService } from './adaptedAllocationService';
+import { assetService } from './adaptedAssetService';
+import { corporateActionService } from './adaptedCorporateActionService';
+import { movementService, type MovementWithClient } from './adaptedMovementService';
+import { saleService } from './adaptedSaleService';
+import { priceHistoryService, storedPriceSource } from './priceHistoryService';
+import { CDI_ANNUAL_RATE } from '../lib/config';
+import { isMovementEffective } from '../lib/approvals';
+import {
+  createSeriesPriceHistory,
+  createTradePriceHistory,
+  type PriceHistory,
+  type PriceSeriesMap,
+} from '../lib/portfolio/prices';
+import {
+  buildDailyValueSeries,
+  computePerformance,
+  type CashFlow,
+  type PerformancePeriod,
+  type PerformanceReport,
+} from '../lib/portfolio/performance';
+import type { Allocation, Sale } from '../types/allocation';
+import type { Asset } from '../types/investment';
+
+export interface PerformanceOptions {
+  period?: PerformancePeriod;
+  cdiRate?: number;
+  priceHistory?: PriceHistory;
+}
+
+// Fechamentos registrados quando houver; entre as operações sem histórico, preço interpolado
+const getStoredPriceHistory = async (allocations: Allocation[], sales: Sale[], assets: Asset[]): Promise<PriceHistory> => {
+  const [prices, series] = await Promise.all([
+    storedPriceSource.getPrices(assets),
+    priceHistoryService.getAllSeries().catch((): PriceSeriesMap => new Map()),
+  ]);
+  return createSeriesPriceHistory(series, createTradePriceHistory(allocations, sales, prices));
+};
+
+// O backend não calcula desempenho; a série é montada aqui com compras, vendas e movimentações do cliente
+export const performanceService = {
+  getClientPerformance: async (
+    clientId: string,
+    { period = 'all', cdiRate = CDI_ANNUAL_RATE, priceHistory }: PerformanceOptions = {}
+  ): Promise<PerformanceReport> => {
+    const id = parseInt(clientId);
+    const [allocations, sales, movements, assets, corporateActions] = await Promise.all([
+      allocationService.getAllocationsByClient(id),
+      saleService.getSalesByClient(id),
+      movementService.getMovements({ client_id: id }),
+      assetService.getAssets(),
+      corporateActionService.getCorporateActions(),
+    ]);
+
+    const toFlow = (movement: MovementWithClient): CashFlow => ({
+      date: movement.date.slice(0, 10),
+      amount: movement.type === 'deposit' ? movement.amount : -movement.amount,
+    });
+    // Proventos são rendimento da carteira, não aporte do cliente
+    const effective = movements.filter(isMovementEffective);
+    const flows = effective.filter(m => m.corporate_action_id === undefined).map(toFlow);
+    const income = effective.filter(m => m.corporate_action_id !== undefined).map(toFlow);
+
+    const priceAt = priceHistory ?? await getStoredPriceHistory(allocations, sales, assets);
+
+    const series = buildDailyValueSeries({ allocations, sales, flows, priceAt, corporateActions, income });
+    return computePerformance(series, period, cdiRate);
+  },
+};
@@ -0,0 +1,140 @@
+import { localDb } from './local/db';
+import { assetService } from './adaptedAssetService';
+import {
+  assetPriceSource,
+  findCloseAt,
+  summarizePrices,
+  type PricePoint,
+  type PriceSeriesMap,
+  type PriceSource,
+} from '../lib/portfolio/prices';
+import type { Asset, MarketData } from '../types/investment';
+
+// Fechamentos de um ativo, guardados por id
+export interface AssetPriceRecord {
+  id: number;
+  points: PricePoint[];
+  updatedAt: string;
+}
+
+export interface PriceImportResult {
+  added: number;
+  updated: number;
+}
+
+const sortByDate = (points: PricePoint[]) => points.sort((a, b) => a.date.localeCompare(b.date));
+
+const mergePoints = (current: PricePoint[], points: PricePoint[]) => {
+  const byDate = new Map(current.map(point => [point.date, point]));
+  let added = 0;
+  let updated = 0;
+  points.forEach(point => {
+    const existing = byDate.get(point.date);
+    if (!existing) added++;
+    else if (existing.close !== point.close || existing.volume !== point.volume) updated++;
+    byDate.set(point.date, point);
+  });
+  return { points: sortByDate(Array.from(byDate.values())), added, updated };
+};
+
+// O backend não tem histórico de cotações: os fechamentos importados ficam no IndexedDB do navegador
+export const priceHistoryService = {
+  getPriceSeries: async (assetId: number, from?: string): Promise<PricePoint[]> => {
+    const record = await localDb.get<AssetPriceRecord>('prices', assetId);
+    const points = record?.points ?? [];
+    return from ? points.filter(point => point.date >= from) : points;
+  },
+
+  getLatestPrice: async (assetId: number, date?: string): Promise<PricePoint | undefined> => {
+    const points = await priceHistoryService.getPriceSeries(assetId);
+    return date ? findCloseAt(points, date) : points[points.length - 1];
+  },
+
+  getAllSeries: async (): Promise<PriceSeriesMap> => {
+    const records = await localDb.getAll<AssetPriceRecord>('prices');
+    return new Map(records.map(record => [record.id, record.points]));
+  },
+
+  /**
+   * Mescla os fechamentos por ativo: datas novas são incluídas e as existentes substituídas
+   */
+  importPrices: async (pricesByAsset: Map<number, PricePoint[]>): Promise<PriceImportResult> => {
+    const result: PriceImportResult = { added: 0, updated: 0 };
+    const records = await Promise.all(
+      Array.from(pricesByAsset, async ([assetId, points]) => {
+        const current = await localDb.get<AssetPriceRecord>('prices', assetId);
+        const merged = mergePoints(current?.points ?? [], points);
+        result.added += merged.added;
+        result.updated += merged.updated;
+        return { id: assetId, points: merged.points, updatedAt: new Date().toISOString() };
+      })
+    );
+    await localDb.putMany<AssetPriceRecord>('prices', records);
+    return result;
+  },
+
+  deletePrice: async (assetId: number, date: string): Promise<void> => {
+    const current = await localDb.get<AssetPriceRecord>('prices', assetId);
+    if (!current) return;
+    await localDb.put<AssetPriceRecord>('prices', {
+      ...current,
+      points: current.points.filter(point => point.date !== date),
+      updatedAt: new Date().toISOString(),
+    });
+  },
+
+  /**
+   * Resumo de mercado calculado a partir dos fechamentos (variação no dia e máxima/mínima de 52 semanas)
+   */
+  getMarketData: async (asset: Asset): Promise<MarketData | undefined> => {
+    const summary = summarizePrices(await priceHistoryService.getPriceSeries(Number(asset.id)));
+    if (!summary) return undefined;
+
+    return {
+      symbol: asset.symbol,
+      currentPrice: summary.last.close,
+      change: summary.change,
+      changePercentage: summary.changePercentage,
+      volume: summary.last.volume ?? 0,
+      high52Week: summary.high52Week,
+      low52Week: summary.low52Week,
+      marketCap: asset.marketCap,
+      lastUpdate: new Date(`${summary.last.date}T00:00:00Z`),
+    };
+  },
+
+  /**
+   * Grava o último fechamento de cada ativo como preço atual do cadastro; devolve quantos foram alterados
+   */
+  updateAssetPrices: async (): Promise<number> => {
+    const [assets, series] = await Promise.all([assetService.getAssets(), priceHistoryService.getAllSeries()]);
+    const changed = assets.filter(asset => {
+      const points = series.get(Number(asset.id));
+      return points?.length && points[points.length - 1].close !== asset.currentPrice;
+    });
+    await Promise.all(changed.map(asset => {
+      const points = series.get(Number(asset.id))!;
+      return assetService.updateAsset(asset.id, { currentPrice: points[points.length - 1].close });
+    }));
+    return changed.length;
+  },
+};
+
+/**
+ * Cotação atual pelo último fechamento registrado; ativos sem histórico usam o preço do cadastro
+ */
+export const storedPriceSource: PriceSource = {
+  async getPrices(assets) {
+    const prices = await assetPriceSource.getPrices(assets);
+    try {
+      const series = await priceHistoryService.getAllSeries();
+      assets.forEach(asset => {
+        const points = series.get(Number(asset.id));
+        if (points?.length) prices.set(Number(asset.id), points[points.length - 1].close);
+      });
+    } catch (error) {
+      console.warn('Histórico de cotações indisponível:', error);
+    }
+    return prices;
+  },
+};
@@ -0,0 +1,90 @@
+import { getErrorMessage } from '../lib/errors';
+import { buildSchedule, getDueOccurrences, toIsoDate, type ScheduledOccurrence } from '../lib/recurringMovements';
+import { movementService, type MovementWithClient } from './adaptedMovementService';
+import { movementTemplateService } from './adaptedMovementTemplateService';
+
+export interface ScheduleGenerationResult {
+  created: MovementWithClient[];
+  failed: (ScheduledOccurrence & { error: string })[];
+  postponed: ScheduledOccurrence[]; // ocorrências seguintes de um agendamento que falhou
+}
+
+// Movimentação já criada para a ocorrência (ex: por outra aba), quando o backend devolve template_id/scheduled_date
+const findGeneratedMovement = async (occurrence: ScheduledOccurrence): Promise<MovementWithClient | undefined> => {
+  const movements = await movementService.getMovements({
+    client_id: parseInt(occurrence.clientId),
+    start_date: occurrence.date,
+    end_date: occurrence.date,
+  });
+  return movements.find(m => m.template_id === occurrence.templateId && m.scheduled_date === occurrence.date);
+};
+
+// O backend não executa agendamentos: a agenda é expandida aqui a partir dos modelos recorrentes
+export const scheduleService = {
+  getSchedule: async (until: string, clientId?: string): Promise<ScheduledOccurrence[]> => {
+    const templates = await movementTemplateService.getTemplates();
+    return buildSchedule(templates.filter(template => !clientId || template.clientId === clientId), until);
+  },
+
+  /**
+   * Gera as movimentações vencidas até hoje, inclusive as atrasadas. Antes de criar cada movimentação,
+   * lastGeneratedDate do modelo já é avançado (e volta atrás se a criação falhar), e uma ocorrência que
+   * já tem movimentação com o mesmo template_id/scheduled_date só avança a marca. Assim repetir a
+   * operação, retomá-la após uma queda ou rodá-la em duas abas não duplica nada.
+   * Em cada agendamento as ocorrências seguem em ordem e param na primeira falha (ex: saldo insuficiente).
+   */
+  generateDueMovements: async (createdBy: string, today = toIsoDate(new Date())): Promise<ScheduleGenerationResult> => {
+    const templates = await movementTemplateService.getTemplates();
+    const due = getDueOccurrences(buildSchedule(templates, today), today);
+    const result: ScheduleGenerationResult = { created: [], failed: [], postponed: [] };
+    const blocked = new Set<string>();
+    // Estado atual de cada modelo, atualizado a cada ocorrência gerada nesta execução
+    const current = new Map(templates.map(template => [template.id, template]));
+
+    for (const occurrence of due) {
+      if (blocked.has(occurrence.templateId)) {
+        result.postponed.push(occurrence);
+        continue;
+      }
+
+      const template = current.get(occurrence.templateId)!;
+      try {
+        const existing = await findGeneratedMovement(occurrence);
+        const marked = await movementTemplateService.updateTemplate(template.id, {
+          lastGeneratedDate: occurrence.date,
+          usageCount: template.usageCount + (existing ? 0 : 1),
+          lastUsed: existing ? template.lastUsed : new Date(),
+        });
+        current.set(template.id, marked);
+        if (existing) continue;
+      } catch (error) {
+        result.failed.push({ ...occurrence, error: getErrorMessage(error) });
+        blocked.add(occurrence.templateId);
+        continue;
+      }
+
+      try {
+        result.created.push(await movementService.createMovement({
+          client_id: parseInt(occurrence.clientId),
+          type: occurrence.type,
+          amount: occurrence.amount,
+          date: occurrence.date,
+          note: template.description,
+          created_by: createdBy,
+          template_id: template.id,
+          scheduled_date: occurrence.date,
+        }));
+      } catch (error) {
+        result.failed.push({ ...occurrence, error: getErrorMessage(error) });
+        blocked.add(occurrence.templateId);
+        await movementTemplateService.updateTemplate(template.id, {
+          lastGeneratedDate: template.lastGeneratedDate,
+          usageCount: template.usageCount,
+          lastUsed: template.lastUsed,
+        }).catch(rollbackError => console.error('Erro ao desfazer a marca do agendamento:', rollbackError));
+      }
+    }
+
+    return result;
+  },
+};
@@ -0,0 +1,94 @@
+import { allocationService } from './adaptedAllocationService';
+import { assetService } from './adaptedAssetService';
+import { clientService } from './adaptedClientService';
+import { corporateActionService } from './adaptedCorporateActionService';
+import { movementService } from './adaptedMovementService';
+import { saleService } from './adaptedSaleService';
+import { marketIndexService } from './marketIndexService';
+import { priceHistoryService, storedPriceSource } from './priceHistoryService';
+import { buildClientStatement, type ClientStatement } from '../lib/statements';
+import type { Client } from '../types/client';
+
+const CLIENTS_PAGE_SIZE = 100;
+
+const getAllActiveClients = async (): Promise<Client[]> => {
+  const clients: Client[] = [];
+  for (let page = 1; ; page++) {
+    const response = await clientService.getClients(
+      { status: 'active' },
+      { field: 'name', direction: 'asc' },
+      page,
+      CLIENTS_PAGE_SIZE
+    );
+    clients.push(...response.items);
+    if (page >= response.totalPages) return clients;
+  }
+};
+
+// Sem os dados locais (índices e fechamentos) o extrato usa a cotação estimada pelas operações
+const getIndexes = () => marketIndexService.getSeries().catch(() => undefined);
+const getPriceSeries = () => priceHistoryService.getAllSeries().catch(() => undefined);
+
+// O backend não emite extratos: são montados aqui com as movimentações, compras e vendas do cliente
+export const statementService = {
+  getClientStatement: async (clientId: string, month: string): Promise<ClientStatement> => {
+    const id = parseInt(clientId);
+    const [client, movements, allocations, sales, assets, corporateActions] = await Promise.all([
+      clientService.getClient(clientId),
+      movementService.getMovements({ client_id: id }),
+      allocationService.getAllocationsByClient(id),
+      saleService.getSalesByClient(id),
+      assetService.getAssets(),
+      corporateActionService.getCorporateActions(),
+    ]);
+    const [prices, priceSeries, indexes] = await Promise.all([
+      storedPriceSource.getPrices(assets),
+      getPriceSeries(),
+      getIndexes(),
+    ]);
+
+    return buildClientStatement(client, month, {
+      movements,
+      allocations,
+      sales,
+      assets,
+      prices,
+      priceSeries,
+      indexes,
+      corporateActions,
+    });
+  },
+
+  /**
+   * Extratos do mês de todos os clientes ativos; os dados são buscados uma vez e separados por cliente
+   */
+  getActiveClientStatements: async (month: string): Promise<ClientStatement[]> => {
+    const [clients, movements, allocations, sales, assets, corporateActions] = await Promise.all([
+      getAllActiveClients(),
+      movementService.getMovements(),
+      allocationService.getAllocations(),
+      saleService.getSales(),
+      assetService.getAssets(),
+      corporateActionService.getCorporateActions(),
+    ]);
+    const [prices, priceSeries, indexes] = await Promise.all([
+      storedPriceSource.getPrices(assets),
+      getPriceSeries(),
+      getIndexes(),
+    ]);
+
+    return clients.map(client => {
+      const id = Number(client.id);
+      return buildClientStatement(client, month, {
+        movements: movements.filter(m => m.client_id === id),
+        allocations: allocations.filter(a => a.client_id === id),
+        sales: sales.filter(s => s.client_id === id),
+        assets,
+        prices,
+        priceSeries,
+        indexes,
+        corporateActions,
+      });
+    });
+  },
+};
@@ -0,0 +1,77 @@
+import {
+  assertSuitabilityOverride,
+  checkSuitability,
+  getSuitabilityExpiry,
+  getSuitabilityStatus,
+  scoreSuitability,
+  type SuitabilityCheck,
+  type SuitabilityStatus,
+} from '../lib/suitability';
+import { allocationService } from './adaptedAllocationService';
+import { assetService } from './adaptedAssetService';
+import { clientService } from './adaptedClientService';
+import { suitabilityAssessmentService } from './adaptedSuitabilityService';
+import type { Allocation, AllocationCreate } from '../types/allocation';
+import type { SuitabilityAssessment } from '../types/client';
+
+const getStatus = async (clientId: string): Promise<SuitabilityStatus> =>
+  getSuitabilityStatus(await suitabilityAssessmentService.getAssessments(clientId));
+
+const checkAllocation = async (clientId: string, assetId: string): Promise<SuitabilityCheck> => {
+  const [asset, status] = await Promise.all([assetService.getAsset(assetId), getStatus(clientId)]);
+  return checkSuitability(status, asset.type);
+};
+
+// O perfil do cliente só muda pelo questionário; a alocação confere o perfil antes de gravar
+export const suitabilityService = {
+  getStatus,
+  checkAllocation,
+
+  /**
+   * Pontua as respostas, guarda a avaliação no histórico e atualiza perfil e tolerância a risco do cliente
+   */
+  submitQuestionnaire: async (
+    clientId: string,
+    answers: Record<string, string>,
+    completedBy: string
+  ): Promise<SuitabilityAssessment> => {
+    const { score, profile, riskTolerance } = scoreSuitability(answers);
+    const completedAt = new Date();
+
+    const assessment = await suitabilityAssessmentService.createAssessment({
+      clientId,
+      answers,
+      score,
+      profile,
+      riskTolerance,
+      completedAt,
+      expiresAt: getSuitabilityExpiry(completedAt),
+      completedBy,
+    });
+    await clientService.updateClient(clientId, { investmentProfile: profile, riskTolerance });
+    return assessment;
+  },
+
+  /**
+   * Cria a alocação se o ativo couber no perfil; fora dele exige a ciência registrada,
+   * gravada com o enquadramento apurado aqui e não o informado pela tela
+   */
+  createAllocation: async (allocation: AllocationCreate): Promise<Allocation> => {
+    const check = await checkAllocation(allocation.client_id.toString(), allocation.asset_id.toString());
+    assertSuitabilityOverride(check, allocation.suitability_override);
+
+    if (check.fit === 'suitable' || !allocation.suitability_override) {
+      return allocationService.createAllocation({ ...allocation, suitability_override: undefined });
+    }
+    return allocationService.createAllocation({
+      ...allocation,
+      suitability_override: {
+        ...allocation.suitability_override,
+        fit: check.fit,
+        profile: check.profile,
+        risk_class: check.riskClass,
+        reason: allocation.suitability_override.reason.trim(),
+      },
+    });
+  },
+};
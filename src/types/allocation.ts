@@ -1,5 +1,8 @@
 // Asset allocation types for investment platform
 
+import type { InvestmentProfile } from './client';
+import type { AssetRiskClass } from './investment';
+
 export interface AllocationBase {
   client_id: number;
   asset_id: number;
@@ -8,7 +11,19 @@ export interface AllocationBase {
   buy_date: string; // ISO date string
 }
 
-export interface AllocationCreate extends AllocationBase {}
+// Alocação fora do perfil do cliente, registrada com a ciência de quem a fez
+export interface SuitabilityOverride {
+  fit: 'warning' | 'blocked';
+  profile: InvestmentProfile; // perfil na data da alocação
+  risk_class: AssetRiskClass;
+  reason: string;
+  acknowledged_by: string;
+  acknowledged_at: string; // ISO datetime
+}
+
+export interface AllocationCreate extends AllocationBase {
+  suitability_override?: SuitabilityOverride;
+}
 
 export interface AllocationUpdate {
   quantity?: number;
@@ -18,6 +33,7 @@ export interface AllocationUpdate {
 
 export interface Allocation extends AllocationBase {
   id: number;
+  suitability_override?: SuitabilityOverride;
 }
 
 export interface AllocationWithDetails extends Allocation {
@@ -29,17 +45,75 @@ export interface AllocationWithDetails extends Allocation {
 
 export interface AllocationFilters {
   client_id?: number;
+  client_ids?: number[]; // vários clientes numa requisição (ex: a página visível da lista)
   asset_id?: number;
   skip?: number;
   limit?: number;
 }
 
+// Venda de ativo - baixa os lotes de compra (alocações) do cliente
+export interface SaleCreate {
+  client_id: number;
+  asset_id: number;
+  quantity: number;
+  sell_price: number;
+  sell_date: string; // ISO date string
+  fees?: number; // corretagem e emolumentos
+}
+
+export interface Sale extends SaleCreate {
+  id: number;
+}
+
+export interface SaleFilters {
+  client_id?: number;
+  asset_id?: number;
+}
+
+// Evento societário de um ativo; ajusta as posições existentes na data ex em vez de alterar as alocações
+export type CorporateActionType = 'split' | 'reverse_split' | 'bonus' | 'dividend' | 'jcp';
+
+export interface CorporateActionCreate {
+  asset_id: number;
+  type: CorporateActionType;
+  ex_date: string; // primeiro dia sem direito: vale a posição no fim do dia anterior
+  ratio?: number; // split: ações novas por ação; reverse_split: ações grupadas em uma; bonus: fração (0.1 = 10%)
+  assigned_cost?: number; // bonus: custo atribuído por ação bonificada
+  amount_per_share?: number; // dividend/jcp: valor bruto por ação
+  payment_date?: string;
+  note?: string;
+}
+
+// Provento (dividend/jcp) já lançado como movimentação para um cliente
+export interface CorporateActionPayment {
+  client_id: number;
+  movement_id: number;
+}
+
+export interface CorporateAction extends CorporateActionCreate {
+  id: number;
+  paid_holders?: CorporateActionPayment[]; // gravado pela geração de proventos, que não lança de novo para esses clientes
+}
+
+export type CorporateActionUpdate = Partial<Omit<CorporateAction, 'id'>>;
+
 // Summary and analytics types
 export interface AllocationSummary {
   total_allocations: number;
   total_invested: number;
   unique_clients: number;
   unique_assets: number;
+  by_asset: AllocationBreakdown[];
+  by_client: AllocationBreakdown[];
+}
+
+// Valor investido agrupado por ativo ou por cliente, do maior para o menor
+export interface AllocationBreakdown {
+  id: number;
+  label: string; // ticker do ativo ou nome do cliente
+  total_invested: number;
+  allocation_count: number;
+  percentage: number;
 }
 
 export interface ClientAllocationSummary {
@@ -1,7 +1,24 @@
+export type UserRole = 'advisor' | 'operations' | 'admin';
+
+export type Permission =
+  | 'clients:create'
+  | 'clients:update'
+  | 'clients:delete'
+  | 'assets:create'
+  | 'assets:update'
+  | 'assets:delete'
+  | 'allocations:create'
+  | 'allocations:delete'
+  | 'movements:create'
+  | 'movements:approve'
+  | 'movements:delete'
+  | 'reports:export';
+
 export interface User {
   id: string;
   email: string;
   is_active: boolean;
+  role?: UserRole;
   created_at?: string;
 }
 
@@ -22,9 +39,15 @@ export interface AuthResponse {
   expires_in?: number;
 }
 
+// Resposta das rotas /api/auth: o token fica no cookie httpOnly, o navegador só conhece a expiração
+export interface SessionResponse {
+  authenticated: boolean;
+  expires_at: number | null;
+  demo?: boolean; // sessão de demonstração: os dados vêm do IndexedDB no navegador
+}
+
 export interface AuthContextType {
   user: User | null;
-  token: string | null;
   isLoading: boolean;
   isAuthenticated: boolean;
   login: (email: string, password: string) => Promise<void>;
@@ -32,14 +55,3 @@ export interface AuthContextType {
   logout: () => void;
   refreshAuth: () => Promise<void>;
 }
-
-export interface ApiError {
-  response?: {
-    data?: {
-      detail?: string;
-      message?: string;
-    };
-    status?: number;
-  };
-  message?: string;
-}
\ No newline at end of file
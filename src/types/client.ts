@@ -1,5 +1,7 @@
 // Client management types and interfaces
 
+import type { CostMethod, RealizedGain } from '../lib/portfolio/lots';
+
 export interface Address {
   street: string;
   number: string;
@@ -21,6 +23,21 @@ export interface Contact {
 export type InvestmentProfile = 'conservative' | 'moderate' | 'aggressive' | 'not_defined';
 export type ClientStatus = 'active' | 'inactive' | 'prospect' | 'suspended';
 
+// Perfil apurado pelo questionário de suitability (Resolução CVM 30)
+export type RiskProfile = Exclude<InvestmentProfile, 'not_defined'>;
+
+export interface SuitabilityAssessment {
+  id: string;
+  clientId: string;
+  answers: Record<string, string>; // id da pergunta -> id da opção escolhida
+  score: number;
+  profile: RiskProfile;
+  riskTolerance: number; // 1-10, derivado da pontuação
+  completedAt: Date;
+  expiresAt: Date;
+  completedBy: string;
+}
+
 export interface Client {
   id: string;
   name: string;
@@ -113,6 +130,8 @@ export interface ClientStats {
   total: number;
   active: number;
   prospects: number;
+  inactive: number;
+  suspended: number;
   totalInvestments: number;
   averagePortfolioValue: number;
 }
@@ -132,8 +151,12 @@ export interface ClientWithAssets extends Client {
   currentValue: number;
   totalReturn: number;
   returnPercentage: number;
+  realizedReturn: number;
+  realizedGains: RealizedGain[];
+  costMethod: CostMethod;
   allocations: Array<{
     assetId: string;
+    assetSymbol: string;
     assetName: string;
     assetType: string;
     quantity: number;
@@ -12,6 +12,15 @@ export type AssetType =
   | 'international' 
   | 'other';
 
+// Classe de risco do tipo de ativo, comparada ao perfil de suitability do cliente
+export type AssetRiskClass = 'low' | 'medium' | 'high';
+
+// Indexador de títulos de renda fixa
+export type FixedIncomeIndexer = 'cdi' | 'selic' | 'ipca' | 'prefixado';
+
+// Liquidez de títulos de renda fixa
+export type FixedIncomeLiquidity = 'daily' | 'at_maturity';
+
 export type InvestmentStatus = 'active' | 'sold' | 'matured' | 'suspended';
 
 export type TransactionType = 'buy' | 'sell' | 'dividend' | 'interest' | 'split' | 'bonus';
@@ -39,6 +48,14 @@ export interface Asset {
   manager?: string; // Fund manager or company
   benchmark?: string;
   
+  // Fixed income
+  issuer?: string;
+  indexer?: FixedIncomeIndexer;
+  rate?: number; // % do CDI/SELIC; % a.a. no prefixado e no spread do IPCA+
+  issueDate?: Date;
+  maturityDate?: Date;
+  liquidity?: FixedIncomeLiquidity;
+  
   // Metadata
   createdAt: Date;
   updatedAt: Date;
@@ -147,6 +164,12 @@ export interface CreateAssetRequest {
   cnpj?: string;
   manager?: string;
   benchmark?: string;
+  issuer?: string;
+  indexer?: FixedIncomeIndexer;
+  rate?: number;
+  issueDate?: Date;
+  maturityDate?: Date;
+  liquidity?: FixedIncomeLiquidity;
 }
 
 export interface CreateInvestmentRequest {
@@ -204,6 +204,7 @@ export interface MovementTemplate {
   name: string;
   description: string;
   type: MovementType;
+  clientId?: string; // Recurring templates generate movements for this client
   defaultAmount?: number;
   paymentMethod?: PaymentMethod;
   bankDetails?: Movement['bankDetails'];
@@ -211,9 +212,11 @@ export interface MovementTemplate {
   recurringConfig?: {
     frequency: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
     interval: number; // Every X days/weeks/months
+    startDate: Date; // First occurrence
     endDate?: Date;
     maxOccurrences?: number;
   };
+  lastGeneratedDate?: string; // Last occurrence (YYYY-MM-DD) already turned into a movement
   
   // Usage tracking
   usageCount: number;
@@ -1,12 +1,31 @@
 import * as XLSX from 'xlsx';
+import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
+import { isMovementEffective } from '../lib/approvals';
+import type { RealizedGain } from '../lib/portfolio/lots';
+import { DARF_CODE, type YearlyTaxReport } from '../lib/portfolio/tax';
+import type { MovementImportResult, MovementImportRow, MovementColumnMapping } from '../lib/movementImport';
+import type { AllocationWithDetails } from '../types/allocation';
+import type { Client } from '../types/client';
+import type { MovementWithClient } from '../services/adaptedMovementService';
+
+export type ExportColumnType = 'text' | 'integer' | 'number' | 'currency' | 'percentage' | 'date' | 'datetime';
 
 export interface ExportColumn {
   key: string;
   header: string;
+  // Tipo da célula no Excel (número com formato, data real); no CSV define a formatação do texto
+  type?: ExportColumnType;
+  // Texto exibido no lugar do valor (rótulos); colunas com formatter são gravadas como texto
   formatter?: (value: any, item?: any) => string;
 }
 
+// Fórmula do Excel; o valor opcional fica gravado como resultado em cache até o recálculo
+export interface ExcelFormula {
+  formula: string;
+  value?: number;
+}
+
 export interface ExportOptions {
   filename: string;
   sheetName?: string;
@@ -15,6 +34,25 @@ export interface ExportOptions {
   includeTimestamp?: boolean;
 }
 
+export type ExportSheet = Pick<ExportOptions, 'columns' | 'data'> & { name: string };
+
+export interface WorkbookExportOptions {
+  filename: string;
+  sheets: ExportSheet[];
+  includeTimestamp?: boolean;
+}
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const NUMBER_FORMATS: Record<Exclude<ExportColumnType, 'text'>, string> = {
+  integer: '#,##0',
+  number: '#,##0.00',
+  currency: '"R$" #,##0.00;-"R$" #,##0.00',
+  percentage: '0.00%',
+  date: 'dd/mm/yyyy',
+  datetime: 'dd/mm/yyyy hh:mm',
+};
+
 /**
  * Format currency values for export
  */
@@ -58,6 +96,42 @@ const generateFilename = (baseFilename: string, includeTimestamp: boolean = true
   return `${namePart}_${timestamp}`;
 };
 
+const formatNumber = (value: number, digits: number) =>
+  new Intl.NumberFormat('pt-BR', { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value);
+
+// Datas sem horário (AAAA-MM-DD) são lidas no fuso local para não voltar um dia
+const toDate = (value: unknown): Date | undefined => {
+  if (!(value instanceof Date) && typeof value !== 'string') return undefined;
+  const date = typeof value === 'string'
+    ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00` : value)
+    : value;
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const isFormula = (value: unknown): value is ExcelFormula =>
+  typeof value === 'object' && value !== null && 'formula' in value;
+
+export const excelFormula = (formula: string, value?: number): ExcelFormula => ({ formula, value });
+
+/**
+ * Text for a column value (CSV and text cells)
+ */
+const formatExportValue = (column: ExportColumn, item: Record<string, unknown>): unknown => {
+  const value = item[column.key];
+  if (column.formatter) return column.formatter(value, item);
+  if (isFormula(value)) return value.value;
+  if (value === null || value === undefined) return '';
+  switch (column.type) {
+    case 'currency': return formatCurrency(Number(value));
+    case 'integer': return formatNumber(Number(value), 0);
+    case 'number': return formatNumber(Number(value), 2);
+    case 'percentage': return `${formatNumber(Number(value), 2)}%`;
+    case 'date': return formatDate(toDate(value));
+    case 'datetime': return formatDateTime(toDate(value));
+    default: return value;
+  }
+};
+
 /**
  * Prepare data for export by applying column formatters
  */
@@ -66,8 +140,7 @@ const prepareDataForExport = (data: any[], columns: ExportColumn[]): any[] => {
     const exportItem: any = {};
     
     columns.forEach(column => {
-      const value = item[column.key];
-      exportItem[column.header] = column.formatter ? column.formatter(value, item) : value;
+      exportItem[column.header] = formatExportValue(column, item);
     });
     
     return exportItem;
@@ -75,34 +148,93 @@ const prepareDataForExport = (data: any[], columns: ExportColumn[]): any[] => {
 };
 
 /**
- * Export data to Excel format (.xlsx)
+ * Typed Excel cell: numbers keep the number format, dates are real dates, formulas are kept
  */
-export const exportToExcel = (options: ExportOptions): void => {
+const toExcelCell = (column: ExportColumn, item: Record<string, unknown>): XLSX.CellObject | undefined => {
+  const value = item[column.key];
+  const type = column.type ?? 'text';
+  const format = type === 'text' ? undefined : NUMBER_FORMATS[type];
+
+  if (isFormula(value)) {
+    return { t: 'n', f: value.formula, v: value.value, z: format };
+  }
+  if (column.formatter || type === 'text') {
+    const text = formatExportValue(column, item);
+    if (text === '' || text === null || text === undefined) return undefined;
+    return typeof text === 'number' ? { t: 'n', v: text } : { t: 's', v: String(text) };
+  }
+  if (type === 'date' || type === 'datetime') {
+    const date = toDate(value);
+    return date ? { t: 'd', v: date, z: format } : undefined;
+  }
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  if (isNaN(number)) return undefined;
+  return { t: 'n', v: type === 'percentage' ? number / 100 : number, z: format };
+};
+
+const buildWorksheet = ({ columns, data }: ExportSheet): XLSX.WorkSheet => {
+  const ws: XLSX.WorkSheet = {};
+
+  columns.forEach((column, c) => {
+    ws[XLSX.utils.encode_cell({ r: 0, c })] = { t: 's', v: column.header };
+    data.forEach((item, index) => {
+      const cell = toExcelCell(column, item);
+      if (cell) ws[XLSX.utils.encode_cell({ r: index + 1, c })] = cell;
+    });
+  });
+
+  ws['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: data.length, c: columns.length - 1 } });
+  ws['!autofilter'] = { ref: ws['!ref'] };
+  ws['!cols'] = columns.map(col => ({ wch: Math.max(col.header.length + 2, 15) }));
+  return ws;
+};
+
+/**
+ * Absolute range of a column's data rows, for formulas in other sheets (ex.: 'Alocações'!$G$2:$G$10)
+ */
+export const sheetColumnRange = (sheet: ExportSheet, key: string): string => {
+  const column = XLSX.utils.encode_col(sheet.columns.findIndex(col => col.key === key));
+  const lastRow = Math.max(sheet.data.length, 1) + 1;
+  return `'${sheet.name.replace(/'/g, "''")}'!$${column}$2:$${column}$${lastRow}`;
+};
+
+// O SheetJS community não grava painéis congelados nem pede recálculo: ajustamos o XML do pacote gerado
+const FROZEN_HEADER_VIEW =
+  '<sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView>';
+
+const finalizeWorkbook = async (buffer: ArrayBuffer, sheetCount: number): Promise<Blob> => {
+  const zip = await JSZip.loadAsync(buffer);
+
+  for (let index = 1; index <= sheetCount; index++) {
+    const path = `xl/worksheets/sheet${index}.xml`;
+    const xml = await zip.file(path)?.async('string');
+    if (xml) zip.file(path, xml.replace('<sheetView workbookViewId="0"/>', FROZEN_HEADER_VIEW));
+  }
+
+  const workbookXml = await zip.file('xl/workbook.xml')?.async('string');
+  if (workbookXml) {
+    zip.file('xl/workbook.xml', workbookXml.replace('</workbook>', '<calcPr fullCalcOnLoad="1"/></workbook>'));
+  }
+
+  return zip.generateAsync({ type: 'blob', mimeType: XLSX_MIME_TYPE });
+};
+
+/**
+ * Export several sheets to one Excel workbook (.xlsx), with frozen header rows and autofilter
+ */
+export const exportWorkbook = async (options: WorkbookExportOptions): Promise<void> => {
   try {
-    const { filename, sheetName = 'Dados', columns, data, includeTimestamp = true } = options;
-    
-    // Prepare data with formatters
-    const formattedData = prepareDataForExport(data, columns);
-    
-    // Create workbook and worksheet
-    const ws = XLSX.utils.json_to_sheet(formattedData);
+    const { filename, sheets, includeTimestamp = true } = options;
+
     const wb = XLSX.utils.book_new();
-    
-    // Set column widths
-    const colWidths = columns.map(col => ({ wch: Math.max(col.header.length, 15) }));
-    ws['!cols'] = colWidths;
-    
-    // Add worksheet to workbook
-    XLSX.utils.book_append_sheet(wb, ws, sheetName);
-    
-    // Generate file
-    const excelBuffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
-    const blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-    
-    // Download file
+    sheets.forEach(sheet => XLSX.utils.book_append_sheet(wb, buildWorksheet(sheet), sheet.name));
+
+    const excelBuffer: ArrayBuffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+    const blob = await finalizeWorkbook(excelBuffer, sheets.length);
+
     const finalFilename = generateFilename(filename, includeTimestamp) + '.xlsx';
     saveAs(blob, finalFilename);
-    
+
     console.log(`Excel exported successfully: ${finalFilename}`);
   } catch (error) {
     console.error('Error exporting to Excel:', error);
@@ -110,6 +242,14 @@ export const exportToExcel = (options: ExportOptions): void => {
   }
 };
 
+/**
+ * Export data to Excel format (.xlsx)
+ */
+export const exportToExcel = (options: ExportOptions): Promise<void> => {
+  const { filename, sheetName = 'Dados', columns, data, includeTimestamp } = options;
+  return exportWorkbook({ filename, includeTimestamp, sheets: [{ name: sheetName, columns, data }] });
+};
+
 /**
  * Export data to CSV format
  */
@@ -153,65 +293,97 @@ export const exportToCSV = (options: ExportOptions): void => {
   }
 };
 
+const clientStatusLabels: Record<string, string> = {
+  active: 'Ativo',
+  inactive: 'Inativo',
+  prospect: 'Prospect',
+  suspended: 'Suspenso'
+};
+
+const investmentProfileLabels: Record<string, string> = {
+  conservative: 'Conservador',
+  moderate: 'Moderado',
+  aggressive: 'Arrojado',
+  not_defined: 'Não definido'
+};
+
+const movementTypeLabels: Record<string, string> = {
+  deposit: 'Depósito',
+  withdrawal: 'Saque'
+};
+
+// Sem status: movimentação efetivada sem passar pela fila de aprovação
+const movementStatusLabels: Record<string, string> = {
+  pending_approval: 'Aguardando aprovação',
+  approved: 'Aprovada',
+  rejected: 'Rejeitada'
+};
+
+const clientColumns: ExportColumn[] = [
+  { key: 'name', header: 'Nome' },
+  { key: 'cpf', header: 'CPF' },
+  { key: 'email', header: 'Email', formatter: (value, client) => client?.contact?.email || '' },
+  { key: 'phone', header: 'Telefone', formatter: (value, client) => client?.contact?.phone || '' },
+  { key: 'status', header: 'Status', formatter: (status) => clientStatusLabels[status] || status },
+  { key: 'investmentProfile', header: 'Perfil de Investimento', formatter: (profile) => investmentProfileLabels[profile] || profile },
+];
+
+const allocationColumns: ExportColumn[] = [
+  { key: 'client_name', header: 'Cliente' },
+  { key: 'asset_ticker', header: 'Ticker' },
+  { key: 'asset_name', header: 'Ativo' },
+  { key: 'quantity', header: 'Quantidade', type: 'number' },
+  { key: 'buy_price', header: 'Preço de Compra', type: 'currency' },
+  { key: 'total_invested', header: 'Total Investido', type: 'currency' },
+  { key: 'buy_date', header: 'Data de Compra', type: 'date' }
+];
+
+const movementColumns: ExportColumn[] = [
+  { key: 'client_name', header: 'Cliente' },
+  { key: 'type', header: 'Tipo', formatter: (type) => movementTypeLabels[type] || type },
+  { key: 'amount', header: 'Valor', type: 'currency' },
+  { key: 'status', header: 'Status', formatter: (status) => status ? movementStatusLabels[status] || status : 'Efetivada' },
+  { key: 'date', header: 'Data', type: 'date' },
+  { key: 'note', header: 'Descrição' }
+];
+
 /**
  * Export clients data with their investment statistics
  */
-export const exportClientsData = (
-  clients: any[], 
+export const exportClientsData = async (
+  clients: Client[],
   investmentStats: Map<string, any>, 
   format: 'excel' | 'csv' = 'excel'
-): void => {
+): Promise<void> => {
+  const data = clients.map(client => {
+    const stats = investmentStats.get(client.id);
+    return {
+      ...client,
+      totalInvestments: stats?.total_allocations || 0,
+      totalInvested: stats?.total_invested || 0,
+      netBalance: stats?.net_balance || 0,
+      lastInvestment: stats?.last_investment_date,
+    };
+  });
+
   const columns: ExportColumn[] = [
-    { key: 'name', header: 'Nome' },
-    { key: 'cpf', header: 'CPF' },
-    { key: 'email', header: 'Email', formatter: (value, client) => client?.contact?.email || '' },
-    { key: 'phone', header: 'Telefone', formatter: (value, client) => client?.contact?.phone || '' },
-    { key: 'status', header: 'Status', formatter: (status) => {
-      const labels: Record<string, string> = {
-        active: 'Ativo',
-        inactive: 'Inativo',
-        prospect: 'Prospect',
-        suspended: 'Suspenso'
-      };
-      return labels[status] || status;
-    }},
-    { key: 'investmentProfile', header: 'Perfil de Investimento', formatter: (profile) => {
-      const labels: Record<string, string> = {
-        conservative: 'Conservador',
-        moderate: 'Moderado',
-        aggressive: 'Arrojado',
-        not_defined: 'Não definido'
-      };
-      return labels[profile] || profile;
-    }},
-    { key: 'totalInvestments', header: 'Qtd. Investimentos', formatter: (value, client) => {
-      const stats = investmentStats.get(client?.id);
-      return stats?.total_allocations || 0;
-    }},
-    { key: 'totalInvested', header: 'Valor Investido', formatter: (value, client) => {
-      const stats = investmentStats.get(client?.id);
-      return formatCurrency(stats?.total_invested || 0);
-    }},
-    { key: 'netBalance', header: 'Patrimônio', formatter: (value, client) => {
-      const stats = investmentStats.get(client?.id);
-      return formatCurrency(stats?.net_balance || 0);
-    }},
-    { key: 'lastInvestment', header: 'Último Investimento', formatter: (value, client) => {
-      const stats = investmentStats.get(client?.id);
-      return stats?.last_investment_date ? formatDate(stats.last_investment_date) : '';
-    }},
-    { key: 'createdAt', header: 'Data de Cadastro', formatter: (date) => formatDate(date) }
+    ...clientColumns,
+    { key: 'totalInvestments', header: 'Qtd. Investimentos', type: 'integer' },
+    { key: 'totalInvested', header: 'Valor Investido', type: 'currency' },
+    { key: 'netBalance', header: 'Patrimônio', type: 'currency' },
+    { key: 'lastInvestment', header: 'Último Investimento', type: 'date' },
+    { key: 'createdAt', header: 'Data de Cadastro', type: 'date' }
   ];
 
   const options: ExportOptions = {
     filename: 'clientes',
     sheetName: 'Clientes',
     columns,
-    data: clients
+    data
   };
 
   if (format === 'excel') {
-    exportToExcel(options);
+    await exportToExcel(options);
   } else {
     exportToCSV(options);
   }
@@ -220,29 +392,19 @@ export const exportClientsData = (
 /**
  * Export allocations data
  */
-export const exportAllocationsData = (
-  allocations: any[], 
+export const exportAllocationsData = async (
+  allocations: AllocationWithDetails[],
   format: 'excel' | 'csv' = 'excel'
-): void => {
-  const columns: ExportColumn[] = [
-    { key: 'client_name', header: 'Cliente' },
-    { key: 'asset_ticker', header: 'Ticker' },
-    { key: 'asset_name', header: 'Ativo' },
-    { key: 'quantity', header: 'Quantidade', formatter: (value) => value?.toLocaleString('pt-BR') || '0' },
-    { key: 'buy_price', header: 'Preço de Compra', formatter: (value) => formatCurrency(value) },
-    { key: 'total_invested', header: 'Total Investido', formatter: (value) => formatCurrency(value) },
-    { key: 'buy_date', header: 'Data de Compra', formatter: (date) => formatDate(date) }
-  ];
-
+): Promise<void> => {
   const options: ExportOptions = {
     filename: 'alocacoes',
     sheetName: 'Alocações',
-    columns,
+    columns: allocationColumns,
     data: allocations
   };
 
   if (format === 'excel') {
-    exportToExcel(options);
+    await exportToExcel(options);
   } else {
     exportToCSV(options);
   }
@@ -251,47 +413,265 @@ export const exportAllocationsData = (
 /**
  * Export movements data
  */
-export const exportMovementsData = (
-  movements: any[], 
+export const exportMovementsData = async (
+  movements: MovementWithClient[],
   format: 'excel' | 'csv' = 'excel'
-): void => {
+): Promise<void> => {
+  const options: ExportOptions = {
+    filename: 'movimentacoes',
+    sheetName: 'Movimentações',
+    columns: movementColumns,
+    data: movements
+  };
+
+  if (format === 'excel') {
+    await exportToExcel(options);
+  } else {
+    exportToCSV(options);
+  }
+};
+
+/**
+ * Dossiê de clientes em um único arquivo: resumo com fórmulas, clientes, alocações e movimentações.
+ * O resumo soma as outras abas pelo código do cliente, então continua certo se o usuário editar as linhas.
+ */
+export const exportClientDossier = async (
+  clients: Client[],
+  allocations: AllocationWithDetails[],
+  movements: MovementWithClient[],
+  filename: string = 'dossie_clientes'
+): Promise<void> => {
+  const clientsSheet: ExportSheet = {
+    name: 'Clientes',
+    columns: [
+      { key: 'code', header: 'Código', type: 'integer' },
+      ...clientColumns,
+      { key: 'monthlyIncome', header: 'Renda Mensal', type: 'currency' },
+      { key: 'netWorth', header: 'Patrimônio Declarado', type: 'currency' },
+      { key: 'createdAt', header: 'Data de Cadastro', type: 'date' }
+    ],
+    data: clients.map(client => ({ ...client, code: Number(client.id) })),
+  };
+  const allocationsSheet: ExportSheet = {
+    name: 'Alocações',
+    columns: [{ key: 'client_id', header: 'Código Cliente', type: 'integer' }, ...allocationColumns],
+    data: allocations,
+  };
+  const movementsSheet: ExportSheet = {
+    name: 'Movimentações',
+    columns: [{ key: 'client_id', header: 'Código Cliente', type: 'integer' }, ...movementColumns],
+    data: movements,
+  };
+
+  const summaryColumns: ExportColumn[] = [
+    { key: 'code', header: 'Código', type: 'integer' },
+    { key: 'name', header: 'Cliente' },
+    { key: 'invested', header: 'Total Investido', type: 'currency' },
+    { key: 'deposits', header: 'Aportes', type: 'currency' },
+    { key: 'withdrawals', header: 'Resgates', type: 'currency' },
+    { key: 'net', header: 'Aporte Líquido', type: 'currency' },
+    { key: 'allocationCount', header: 'Alocações', type: 'integer' },
+    { key: 'movementCount', header: 'Movimentações', type: 'integer' }
+  ];
+  const cell = (key: string, row: number) =>
+    `${XLSX.utils.encode_col(summaryColumns.findIndex(col => col.key === key))}${row}`;
+
+  const allocationClients = sheetColumnRange(allocationsSheet, 'client_id');
+  const movementClients = sheetColumnRange(movementsSheet, 'client_id');
+  const movementTypes = sheetColumnRange(movementsSheet, 'type');
+  const movementStatuses = sheetColumnRange(movementsSheet, 'status');
+  const movementAmounts = sheetColumnRange(movementsSheet, 'amount');
+  // Pendentes e rejeitadas não entram nos totais, como na tela de movimentações
+  const effective = [movementStatusLabels.pending_approval, movementStatusLabels.rejected]
+    .map(label => `${movementStatuses},"<>${label}"`)
+    .join(',');
+  const movementSum = (type: 'deposit' | 'withdrawal', row: number) =>
+    `SUMIFS(${movementAmounts},${movementClients},${cell('code', row)},${movementTypes},"${movementTypeLabels[type]}",${effective})`;
+
+  const summaryRows = clients.map((client, index) => {
+    const row = index + 2;
+    const id = Number(client.id);
+    const clientAllocations = allocations.filter(a => a.client_id === id);
+    const clientMovements = movements.filter(m => m.client_id === id);
+    const total = (type: 'deposit' | 'withdrawal') => clientMovements
+      .filter(m => m.type === type && isMovementEffective(m))
+      .reduce((sum, m) => sum + m.amount, 0);
+    const deposits = total('deposit');
+    const withdrawals = total('withdrawal');
+
+    return {
+      code: id,
+      name: client.name,
+      invested: excelFormula(
+        `SUMIFS(${sheetColumnRange(allocationsSheet, 'total_invested')},${allocationClients},${cell('code', row)})`,
+        clientAllocations.reduce((sum, a) => sum + a.total_invested, 0)
+      ),
+      deposits: excelFormula(movementSum('deposit', row), deposits),
+      withdrawals: excelFormula(movementSum('withdrawal', row), withdrawals),
+      net: excelFormula(`${cell('deposits', row)}-${cell('withdrawals', row)}`, deposits - withdrawals),
+      allocationCount: excelFormula(`COUNTIF(${allocationClients},${cell('code', row)})`, clientAllocations.length),
+      movementCount: excelFormula(`COUNTIF(${movementClients},${cell('code', row)})`, clientMovements.length),
+    };
+  });
+
+  // Linha de totais somando as linhas dos clientes
+  const lastRow = summaryRows.length + 1;
+  const totals: Record<string, unknown> = { name: 'Total' };
+  summaryColumns.slice(2).forEach(({ key }) => {
+    const value = summaryRows.reduce((sum, row) => sum + ((row[key as keyof typeof row] as ExcelFormula).value ?? 0), 0);
+    totals[key] = excelFormula(`SUM(${cell(key, 2)}:${cell(key, lastRow)})`, value);
+  });
+
+  await exportWorkbook({
+    filename,
+    sheets: [
+      { name: 'Resumo', columns: summaryColumns, data: [...summaryRows, totals] },
+      clientsSheet,
+      allocationsSheet,
+      movementsSheet,
+    ],
+  });
+};
+
+/**
+ * Export realized gains (sales) data
+ */
+export const exportRealizedGainsData = async (
+  gains: RealizedGain[],
+  format: 'excel' | 'csv' = 'excel',
+  filename: string = 'vendas_realizadas'
+): Promise<void> => {
   const columns: ExportColumn[] = [
-    { key: 'clientName', header: 'Cliente' },
-    { key: 'type', header: 'Tipo', formatter: (type) => {
-      const labels: Record<string, string> = {
-        deposit: 'Depósito',
-        withdrawal: 'Saque',
-        transfer_in: 'Transferência Entrada',
-        transfer_out: 'Transferência Saída'
-      };
-      return labels[type] || type;
-    }},
-    { key: 'amount', header: 'Valor', formatter: (value) => formatCurrency(value) },
-    { key: 'status', header: 'Status', formatter: (status) => {
-      const labels: Record<string, string> = {
-        pending: 'Pendente',
-        processing: 'Processando',
-        completed: 'Concluído',
-        cancelled: 'Cancelado',
-        failed: 'Falhou'
-      };
-      return labels[status] || status;
-    }},
-    { key: 'requestedDate', header: 'Data da Solicitação', formatter: (date) => formatDateTime(date) },
-    { key: 'completedDate', header: 'Data de Conclusão', formatter: (date) => formatDateTime(date) },
-    { key: 'description', header: 'Descrição' }
+    { key: 'date', header: 'Data da Venda', type: 'date' },
+    { key: 'symbol', header: 'Ticker' },
+    { key: 'name', header: 'Ativo' },
+    { key: 'quantity', header: 'Quantidade', type: 'number' },
+    { key: 'salePrice', header: 'Preço de Venda', type: 'currency' },
+    { key: 'fees', header: 'Custos', type: 'currency' },
+    { key: 'proceeds', header: 'Valor Líquido', type: 'currency' },
+    { key: 'averageCost', header: 'Custo Unitário', type: 'currency' },
+    { key: 'costBasis', header: 'Custo Total', type: 'currency' },
+    { key: 'gain', header: 'Resultado', type: 'currency' },
+    { key: 'gainPercentage', header: 'Resultado (%)', type: 'percentage' },
+    { key: 'method', header: 'Método de Custo', formatter: (method) => method === 'fifo' ? 'PEPS (FIFO)' : 'Custo médio' }
   ];
 
   const options: ExportOptions = {
-    filename: 'movimentacoes',
-    sheetName: 'Movimentações',
+    filename,
+    sheetName: 'Vendas',
     columns,
-    data: movements
+    data: gains
   };
 
   if (format === 'excel') {
-    exportToExcel(options);
+    await exportToExcel(options);
   } else {
     exportToCSV(options);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Export a client's yearly income tax (IR) report, one row per month
+ */
+export const exportTaxReportData = async (
+  report: YearlyTaxReport,
+  format: 'excel' | 'csv' = 'excel',
+  filename: string = `imposto_renda_${report.year}`
+): Promise<void> => {
+  const rows = report.months.map(month => {
+    const byCategory = Object.fromEntries(month.categories.map(c => [c.category, c]));
+    return {
+      ...month,
+      swingResult: byCategory.swing_trade?.result,
+      swingLoss: byCategory.swing_trade?.lossCarryForward,
+      dayTradeResult: byCategory.day_trade?.result,
+      dayTradeLoss: byCategory.day_trade?.lossCarryForward,
+      fiiResult: byCategory.real_estate_funds?.result,
+      fiiLoss: byCategory.real_estate_funds?.lossCarryForward,
+      exemptResult: byCategory.swing_trade?.exemptResult,
+    };
+  });
+
+  const columns: ExportColumn[] = [
+    { key: 'month', header: 'Mês', formatter: (month: string) => month.split('-').reverse().join('/') },
+    { key: 'stockSalesTotal', header: 'Vendas de Ações', type: 'currency' },
+    { key: 'exemptResult', header: 'Ganho Isento', type: 'currency' },
+    { key: 'swingResult', header: 'Resultado Operações Comuns', type: 'currency' },
+    { key: 'dayTradeResult', header: 'Resultado Day Trade', type: 'currency' },
+    { key: 'fiiResult', header: 'Resultado FII', type: 'currency' },
+    { key: 'swingLoss', header: 'Prejuízo a Compensar (Comuns)', type: 'currency' },
+    { key: 'dayTradeLoss', header: 'Prejuízo a Compensar (Day Trade)', type: 'currency' },
+    { key: 'fiiLoss', header: 'Prejuízo a Compensar (FII)', type: 'currency' },
+    { key: 'grossTax', header: 'IR Devido', type: 'currency' },
+    { key: 'withholding', header: 'IRRF Compensado', type: 'currency' },
+    { key: 'darfDue', header: `DARF ${DARF_CODE}`, type: 'currency' },
+    { key: 'dueDate', header: 'Vencimento', type: 'date' }
+  ];
+
+  const options: ExportOptions = {
+    filename,
+    sheetName: `IR ${report.year}`,
+    columns,
+    data: rows
+  };
+
+  if (format === 'excel') {
+    await exportToExcel(options);
+  } else {
+    exportToCSV(options);
+  }
+};
+
+/**
+ * Relatório de erros da importação de movimentações: linhas reprovadas na validação e falhas no envio
+ */
+export const exportMovementImportErrors = async (
+  rows: MovementImportRow[],
+  mapping: MovementColumnMapping,
+  result: MovementImportResult,
+  format: 'excel' | 'csv' = 'excel'
+): Promise<void> => {
+  const raw = (row: MovementImportRow, field: keyof MovementColumnMapping) =>
+    mapping[field] ? row.values[mapping[field]!] ?? '' : '';
+
+  const data = [
+    ...rows
+      .filter(row => row.errors.length > 0)
+      .map(row => ({
+        row: row.row,
+        client: raw(row, 'client'),
+        type: raw(row, 'type'),
+        amount: raw(row, 'amount'),
+        description: raw(row, 'description'),
+        error: row.errors.join('; '),
+      })),
+    ...result.movements.failed.map(({ row, request, error }) => ({
+      row,
+      client: rows.find(item => item.row === row)?.clientName ?? request.clientId,
+      type: request.type,
+      amount: formatCurrency(request.amount),
+      description: request.description,
+      error,
+    })),
+  ].sort((a, b) => a.row - b.row);
+
+  const options: ExportOptions = {
+    filename: 'erros_importacao_movimentacoes',
+    sheetName: 'Erros',
+    columns: [
+      { key: 'row', header: 'Linha' },
+      { key: 'client', header: 'Cliente' },
+      { key: 'type', header: 'Tipo' },
+      { key: 'amount', header: 'Valor' },
+      { key: 'description', header: 'Descrição' },
+      { key: 'error', header: 'Erro' },
+    ],
+    data,
+  };
+
+  if (format === 'excel') {
+    await exportToExcel(options);
+  } else {
+    exportToCSV(options);
+  }
+};
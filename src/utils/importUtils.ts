@@ -0,0 +1,76 @@
+import * as XLSX from 'xlsx';
+
+export interface ImportSheet {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export const IMPORT_FILE_ACCEPT = '.csv,.xlsx,.xls';
+
+// Clientes carregados de uma vez para casar CPF/nome das linhas importadas
+export const CLIENT_LOOKUP_LIMIT = 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Células de data viram YYYY-MM-DD; o restante é lido como texto
+const cellToString = (value: unknown): string => {
+  if (value instanceof Date) {
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  return value === null || value === undefined ? '' : String(value).trim();
+};
+
+/**
+ * Lê a primeira planilha de um arquivo CSV ou XLSX.
+ * A primeira linha é o cabeçalho; linhas totalmente vazias são descartadas.
+ */
+export const readSpreadsheet = async (file: File): Promise<ImportSheet> => {
+  // raw: em CSV as células ficam como texto; a conversão automática lê 01/02 como 2 de janeiro e 0,5 como 5
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true, raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new Error('Arquivo sem planilhas');
+  }
+
+  const [headerRow = [], ...dataRows] = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: true,
+    defval: '',
+  });
+  const headers = headerRow.map(cellToString);
+
+  const rows = dataRows
+    .map(row => Object.fromEntries(headers.map((header, index) => [header, cellToString(row[index])])))
+    .filter(row => Object.values(row).some(value => value !== ''));
+
+  return { headers: headers.filter(Boolean), rows };
+};
+
+/**
+ * Valor monetário em formato brasileiro (1.234,56) ou internacional (1234.56)
+ */
+export const parseAmount = (value: string): number => {
+  const cleaned = value.replace(/[^\d,.-]/g, '');
+  const normalized = cleaned.includes(',') ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned;
+  const amount = parseFloat(normalized);
+  return Number.isFinite(amount) ? amount : NaN;
+};
+
+/**
+ * Data em DD/MM/AAAA ou AAAA-MM-DD para AAAA-MM-DD (undefined se inválida)
+ */
+export const parseDate = (value: string): string | undefined => {
+  const br = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const iso = br ? `${br[3]}-${pad(Number(br[2]))}-${pad(Number(br[1]))}` : value.slice(0, 10);
+  // Ida e volta pelo Date barra dias inexistentes (31/02 viraria 02/03)
+  const date = new Date(`${iso}T00:00:00Z`);
+  return /^\d{4}-\d{2}-\d{2}$/.test(iso) && !isNaN(date.getTime()) && date.toISOString().startsWith(iso)
+    ? iso
+    : undefined;
+};
+
+/**
+ * Texto sem acentos e em minúsculas, para comparar nomes e cabeçalhos
+ */
+export const normalizeText = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim().replace(/\s+/g, ' ');
@@ -0,0 +1,186 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import { formatStatementMonth, type ClientStatement } from '../lib/statements';
+import { costMethodLabels } from '../lib/portfolio/lots';
+import { formatCurrency, formatDateTime } from './exportUtils';
+import { normalizeText } from './importUtils';
+
+const MARGIN = 14;
+const HEADER_COLOR: [number, number, number] = [37, 99, 235];
+
+type StatementDocument = jsPDF & { lastAutoTable?: { finalY: number } };
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+const formatNumber = (value: number, digits = 2) =>
+  new Intl.NumberFormat('pt-BR', { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value);
+
+const formatPercentage = (value: number) => `${formatNumber(value)}%`;
+
+// columnStyles só vale para o corpo: colunas numéricas alinham o título à direita explicitamente
+const rightAligned = (content: string) => ({ content, styles: { halign: 'right' as const } });
+const RIGHT = { halign: 'right' as const };
+
+const slugify = (value: string) => normalizeText(value).replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+export const getStatementFilename = (statement: ClientStatement): string =>
+  `extrato_${statement.month}_${slugify(statement.client.name)}.pdf`;
+
+// Posição vertical logo abaixo da última tabela desenhada
+const nextY = (doc: StatementDocument, gap = 10) => (doc.lastAutoTable?.finalY ?? MARGIN) + gap;
+
+const sectionTitle = (doc: StatementDocument, title: string, y: number) => {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text(title, MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+};
+
+/**
+ * Extrato mensal em PDF: dados do cliente, saldos, lançamentos, posições e distribuição por tipo
+ */
+export const createStatementPdf = (statement: ClientStatement): jsPDF => {
+  const doc: StatementDocument = new jsPDF({ unit: 'mm', format: 'a4' });
+  const { client, valuation } = statement;
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  // Cabeçalho
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text('Extrato Mensal', MARGIN, 20);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(formatStatementMonth(statement.month), pageWidth - MARGIN, 20, { align: 'right' });
+  doc.text(
+    `Período: ${formatDate(statement.periodStart)} a ${formatDate(statement.periodEnd)}`,
+    pageWidth - MARGIN,
+    25,
+    { align: 'right' }
+  );
+
+  const address = client.address
+    ? `${client.address.street}, ${client.address.number} - ${client.address.city}/${client.address.state}`
+    : '';
+  autoTable(doc, {
+    startY: 30,
+    theme: 'plain',
+    styles: { fontSize: 9, cellPadding: 1 },
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 25 } },
+    body: [
+      ['Cliente', client.name],
+      ['CPF', client.cpf],
+      ['Email', client.contact?.email ?? ''],
+      ['Telefone', client.contact?.phone ?? ''],
+      ['Endereço', address],
+    ],
+  });
+
+  // Resumo
+  autoTable(doc, {
+    startY: nextY(doc, 4),
+    theme: 'grid',
+    styles: { fontSize: 9, halign: 'right' },
+    headStyles: { fillColor: HEADER_COLOR, halign: 'right' },
+    head: [['Saldo inicial', 'Créditos', 'Débitos', 'Saldo final', 'Custo da carteira', 'Valor da carteira']],
+    body: [[
+      formatCurrency(statement.openingBalance),
+      formatCurrency(statement.credits),
+      formatCurrency(statement.debits),
+      formatCurrency(statement.closingBalance),
+      formatCurrency(valuation.totalInvested),
+      formatCurrency(valuation.currentValue),
+    ]],
+  });
+
+  // Lançamentos do mês
+  let y = nextY(doc);
+  sectionTitle(doc, 'Movimentações em conta', y);
+  autoTable(doc, {
+    startY: y + 3,
+    headStyles: { fillColor: HEADER_COLOR },
+    styles: { fontSize: 8 },
+    columnStyles: { 2: RIGHT, 3: RIGHT },
+    head: [['Data', 'Descrição', rightAligned('Valor'), rightAligned('Saldo')]],
+    body: [
+      ['', 'Saldo inicial', '', formatCurrency(statement.openingBalance)],
+      ...statement.lines.map(line => [
+        formatDate(line.date),
+        line.description,
+        formatCurrency(line.amount),
+        formatCurrency(line.balance),
+      ]),
+      ['', 'Saldo final', '', formatCurrency(statement.closingBalance)],
+    ],
+  });
+
+  // Posições no fechamento
+  y = nextY(doc);
+  sectionTitle(doc, `Posições em ${formatDate(statement.periodEnd)} · ${costMethodLabels[valuation.costMethod]}`, y);
+  autoTable(doc, {
+    startY: y + 3,
+    headStyles: { fillColor: HEADER_COLOR },
+    styles: { fontSize: 8 },
+    columnStyles: { 1: RIGHT, 2: RIGHT, 3: RIGHT, 4: RIGHT, 5: RIGHT, 6: RIGHT },
+    head: [['Ativo', ...['Quantidade', 'Custo médio', 'Custo total', 'Cotação', 'Valor', 'Resultado'].map(rightAligned)]],
+    body: valuation.positions.length > 0
+      ? valuation.positions.map(position => [
+          `${position.symbol} - ${position.name}`,
+          formatNumber(position.quantity, 0),
+          formatCurrency(position.averagePrice),
+          formatCurrency(position.totalInvested),
+          formatCurrency(position.currentPrice),
+          formatCurrency(position.currentValue),
+          `${formatCurrency(position.profitLoss)} (${formatPercentage(position.profitLossPercentage)})`,
+        ])
+      : [[{ content: 'Nenhuma posição em aberto', colSpan: 7, styles: { halign: 'center' } }]],
+  });
+
+  // Distribuição por tipo de ativo
+  if (valuation.allocationByType.length > 0) {
+    y = nextY(doc);
+    sectionTitle(doc, 'Distribuição por tipo de ativo', y);
+    autoTable(doc, {
+      startY: y + 3,
+      headStyles: { fillColor: HEADER_COLOR },
+      styles: { fontSize: 8 },
+      columnStyles: { 1: RIGHT, 2: RIGHT, 3: RIGHT },
+      head: [['Tipo', ...['Ativos', 'Valor', '% da carteira'].map(rightAligned)]],
+      body: valuation.allocationByType.map(item => [
+        item.label,
+        String(item.count),
+        formatCurrency(item.value),
+        formatPercentage(item.percentage),
+      ]),
+    });
+  }
+
+  // Rodapé em todas as páginas
+  const pageCount = doc.getNumberOfPages();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  doc.setFontSize(8);
+  doc.setTextColor(120);
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.text(`Gerado em ${formatDateTime(new Date())}`, MARGIN, pageHeight - 8);
+    doc.text(`Página ${page} de ${pageCount}`, pageWidth - MARGIN, pageHeight - 8, { align: 'right' });
+  }
+
+  return doc;
+};
+
+export const downloadClientStatement = (statement: ClientStatement): void => {
+  createStatementPdf(statement).save(getStatementFilename(statement));
+};
+
+/**
+ * Um PDF por cliente, compactados em um único .zip
+ */
+export const downloadStatementsZip = async (statements: ClientStatement[], month: string): Promise<void> => {
+  const zip = new JSZip();
+  statements.forEach(statement => {
+    zip.file(getStatementFilename(statement), createStatementPdf(statement).output('arraybuffer'));
+  });
+  saveAs(await zip.generateAsync({ type: 'blob' }), `extratos_${month}.zip`);
+};